@@ -0,0 +1,45 @@
+/**
+ * Página de Auditoría - PideAI Admin
+ *
+ * Registro de los cambios hechos desde el panel: quién, cuándo, sobre qué
+ * entidad y qué columnas cambiaron. Se puede filtrar por usuario, entidad y
+ * rango de fechas; `?entity_type=orders&entity_id=<id>` abre la página
+ * filtrada por una entidad.
+ *
+ * @module app/(dashboard)/audit/page
+ */
+
+import { AuditLogTable } from '@/components/audit/AuditLogTable'
+
+interface AuditPageProps {
+  searchParams: {
+    entity_type?: string
+    entity_id?: string
+  }
+}
+
+/**
+ * Componente de página de Auditoría
+ *
+ * @param {AuditPageProps} props - Props con los filtros iniciales
+ * @returns {JSX.Element} Página de auditoría
+ */
+export default function AuditPage({ searchParams }: AuditPageProps) {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight">Auditoría</h2>
+        <p className="text-muted-foreground">
+          Historial de cambios hechos por los usuarios del panel
+        </p>
+      </div>
+
+      <AuditLogTable
+        initialFilters={{
+          entityType: searchParams.entity_type || 'all',
+          entityId: searchParams.entity_id ?? '',
+        }}
+      />
+    </div>
+  )
+}
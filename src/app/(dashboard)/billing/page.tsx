@@ -0,0 +1,30 @@
+/**
+ * Página de Facturación - PideAI Admin
+ *
+ * Estados de cuenta de comercios por período: ventas, comisión de la
+ * plataforma y monto a pagar, con emisión, registro de pago y PDF.
+ *
+ * @module app/(dashboard)/billing/page
+ */
+
+import { BillingView } from '@/components/billing/BillingView'
+
+/**
+ * Componente de página de Facturación
+ *
+ * @returns {JSX.Element} Página de facturación
+ */
+export default function BillingPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight">Facturación</h2>
+        <p className="text-muted-foreground">
+          Comisiones y estados de cuenta de comercios por período
+        </p>
+      </div>
+
+      <BillingView />
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+/**
+ * Página de Acceso Denegado - PideAI Admin
+ *
+ * El middleware la muestra (con estado 403 y sin cambiar la URL) cuando el
+ * rol del usuario no alcanza el mínimo de la ruta solicitada.
+ *
+ * @module app/(dashboard)/forbidden/page
+ */
+
+import Link from 'next/link'
+import { ShieldX } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+/**
+ * Componente de página de acceso denegado
+ *
+ * @returns {JSX.Element} Aviso de acceso denegado
+ */
+export default function ForbiddenPage() {
+  return (
+    <div className="flex flex-col items-center justify-center gap-4 py-24 text-center">
+      <ShieldX className="h-12 w-12 text-muted-foreground" />
+      <div className="space-y-1">
+        <h2 className="text-2xl font-bold tracking-tight">Acceso denegado</h2>
+        <p className="text-muted-foreground">
+          Tu rol no tiene permisos para ver esta sección
+        </p>
+      </div>
+      <Button asChild variant="outline">
+        <Link href="/dashboard">Volver al dashboard</Link>
+      </Button>
+    </div>
+  )
+}
@@ -2,7 +2,9 @@
  * Página de Detalles de Pedido - PideAI Admin
  *
  * Muestra toda la información completa de un pedido específico.
- * Incluye datos del cliente, comercio, productos, rider y timeline.
+ * Incluye datos del cliente, comercio, productos, rider y el timeline
+ * construido desde order_status_history, junto con la explicación de la
+ * última decisión del despacho.
  *
  * @module app/(dashboard)/orders/[id]/page
  */
@@ -13,6 +15,8 @@ import { createClient } from '@/lib/supabase/server'
 import { OrderDetails } from '@/components/orders/OrderDetails'
 import { Button } from '@/components/ui/button'
 import { ChevronLeft } from 'lucide-react'
+import { AuditLink } from '@/components/audit/AuditLink'
+import { hasPermission } from '@/lib/auth/guard'
 
 interface OrderPageProps {
   params: {
@@ -45,7 +49,8 @@ export default async function OrderPage({ params }: OrderPageProps) {
         id,
         name,
         phone,
-        address
+        address,
+        location
       ),
       order_items (
         id,
@@ -54,6 +59,31 @@ export default async function OrderPage({ params }: OrderPageProps) {
         unit_price,
         total_price,
         notes
+      ),
+      order_status_history (
+        id,
+        order_id,
+        previous_status,
+        status,
+        notes,
+        changed_by,
+        created_at,
+        changed_by_profile:profiles (
+          full_name,
+          email
+        )
+      ),
+      dispatch_decisions (
+        id,
+        rider_id,
+        mode,
+        score,
+        factors,
+        created_at
+      ),
+      cancelled_by_profile:profiles!orders_cancelled_by_fkey (
+        full_name,
+        email
       )
     `
     )
@@ -65,15 +95,21 @@ export default async function OrderPage({ params }: OrderPageProps) {
     notFound()
   }
 
+  const canViewAudit = await hasPermission('audit.view')
+
   return (
     <div className="space-y-6">
-      {/* Botón de regreso */}
-      <Link href="/orders">
-        <Button variant="ghost" size="sm" className="gap-2">
-          <ChevronLeft className="h-4 w-4" />
-          Volver a Pedidos
-        </Button>
-      </Link>
+      <div className="flex items-center justify-between">
+        {/* Botón de regreso */}
+        <Link href="/orders">
+          <Button variant="ghost" size="sm" className="gap-2">
+            <ChevronLeft className="h-4 w-4" />
+            Volver a Pedidos
+          </Button>
+        </Link>
+
+        {canViewAudit && <AuditLink entityType="orders" entityId={params.id} />}
+      </div>
 
       {/* Detalles del pedido */}
       <OrderDetails order={order} />
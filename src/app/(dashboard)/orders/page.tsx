@@ -2,14 +2,15 @@
  * Página de Pedidos - PideAI Admin
  *
  * Lista completa de pedidos con filtros, búsqueda, paginación y vista de mapa.
- * Permite gestionar todos los pedidos de la plataforma.
+ * Permite gestionar todos los pedidos de la plataforma. Los filtros de la
+ * tabla se guardan en la URL (`?status=pending,assigned&is_urgent=true`).
  *
  * @module app/(dashboard)/orders/page
  */
 
 'use client'
 
-import { useState } from 'react'
+import { Suspense, useState } from 'react'
 import { OrdersTable } from '@/components/orders/OrdersTable'
 import { OrdersMapView } from '@/components/orders/OrdersMapView'
 import { Button } from '@/components/ui/button'
@@ -57,7 +58,13 @@ export default function OrdersPage() {
       </div>
 
       {/* Vista condicional */}
-      {view === 'table' ? <OrdersTable /> : <OrdersMapView />}
+      {view === 'table' ? (
+        <Suspense>
+          <OrdersTable />
+        </Suspense>
+      ) : (
+        <OrdersMapView />
+      )}
     </div>
   )
 }
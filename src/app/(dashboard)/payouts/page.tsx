@@ -0,0 +1,30 @@
+/**
+ * Página de Liquidaciones - PideAI Admin
+ *
+ * Calcula lo que se le debe a cada rider por período, permite cargar
+ * bonos y descuentos, cerrar la liquidación y descargar estados de cuenta.
+ *
+ * @module app/(dashboard)/payouts/page
+ */
+
+import { PayoutsView } from '@/components/payouts/PayoutsView'
+
+/**
+ * Componente de página de Liquidaciones
+ *
+ * @returns {JSX.Element} Página de liquidaciones
+ */
+export default function PayoutsPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight">Liquidaciones</h2>
+        <p className="text-muted-foreground">
+          Pagos a riders por período según las entregas realizadas
+        </p>
+      </div>
+
+      <PayoutsView />
+    </div>
+  )
+}
@@ -1,3 +1,19 @@
+/**
+ * Página de Reportes - PideAI Admin
+ *
+ * Métricas de un período: pedidos por hora, tendencia de ingresos y
+ * rankings de riders y comercios.
+ *
+ * @module app/(dashboard)/reports/page
+ */
+
+import { ReportsView } from '@/components/reports/ReportsView'
+
+/**
+ * Componente de página de Reportes
+ *
+ * @returns {JSX.Element} Página de reportes
+ */
 export default function ReportsPage() {
   return (
     <div className="space-y-6">
@@ -7,11 +23,8 @@ export default function ReportsPage() {
           Visualiza métricas y reportes de la plataforma
         </p>
       </div>
-      <div className="rounded-lg border bg-card p-8 text-center">
-        <p className="text-muted-foreground">
-          Página de reportes - Implementación pendiente
-        </p>
-      </div>
+
+      <ReportsView />
     </div>
   )
 }
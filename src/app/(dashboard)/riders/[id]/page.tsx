@@ -0,0 +1,90 @@
+/**
+ * Página de Detalles de Rider - PideAI Admin
+ *
+ * Muestra los datos de un rider, sus pedidos activos y las métricas del
+ * día (completados y ganancias).
+ *
+ * @module app/(dashboard)/riders/[id]/page
+ */
+
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { RiderDetails } from '@/components/riders/RiderDetails'
+import { Button } from '@/components/ui/button'
+import { ChevronLeft } from 'lucide-react'
+import { AuditLink } from '@/components/audit/AuditLink'
+import { hasPermission } from '@/lib/auth/guard'
+import { RIDER_ACTIVE_ORDER_STATUSES } from '@/lib/orders/state-machine'
+import { buildRiderStats } from '@/lib/riders/stats'
+import { zonedDay, zonedStartOfDay } from '@/lib/timezone'
+
+interface RiderPageProps {
+  params: {
+    id: string
+  }
+}
+
+/**
+ * Componente de página de detalles de rider
+ *
+ * @param {RiderPageProps} props - Props con el ID del rider
+ * @returns {Promise<JSX.Element>} Página de detalles del rider
+ */
+export default async function RiderPage({ params }: RiderPageProps) {
+  const supabase = await createClient()
+
+  const { data: rider, error } = await supabase
+    .from('riders')
+    .select('*')
+    .eq('id', params.id)
+    .single()
+
+  // Si no existe el rider, mostrar 404
+  if (error || !rider) {
+    notFound()
+  }
+
+  // "Hoy" en la zona horaria del negocio, no en la del servidor
+  const startOfToday = zonedStartOfDay(zonedDay(new Date()))
+
+  // Pedidos activos y entregados hoy, para las métricas del día
+  const { data: orders } = await supabase
+    .from('orders')
+    .select(
+      'id, order_number, status, customer_name, store_name, total_amount, delivery_fee, created_at, delivered_at'
+    )
+    .eq('delivery_id', params.id)
+    .or(
+      `status.in.(${RIDER_ACTIVE_ORDER_STATUSES.join(',')}),delivered_at.gte.${startOfToday.toISOString()}`
+    )
+    .order('created_at', { ascending: false })
+
+  const riderOrders = orders || []
+
+  const canViewAudit = await hasPermission('audit.view')
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        {/* Botón de regreso */}
+        <Link href="/riders">
+          <Button variant="ghost" size="sm" className="gap-2">
+            <ChevronLeft className="h-4 w-4" />
+            Volver a Riders
+          </Button>
+        </Link>
+
+        {canViewAudit && <AuditLink entityType="riders" entityId={params.id} />}
+      </div>
+
+      {/* Detalles del rider */}
+      <RiderDetails
+        rider={buildRiderStats(rider, riderOrders, startOfToday)}
+        activeOrders={riderOrders.filter((order) =>
+          RIDER_ACTIVE_ORDER_STATUSES.includes(order.status)
+        )}
+      />
+    </div>
+  )
+}
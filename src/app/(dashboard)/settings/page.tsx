@@ -1,3 +1,19 @@
+/**
+ * Página de Configuración - PideAI Admin
+ *
+ * Edita las claves de `app_config` registradas en `lib/config/registry`,
+ * cada una con su validación y el rol mínimo requerido.
+ *
+ * @module app/(dashboard)/settings/page
+ */
+
+import { SettingsView } from '@/components/settings/SettingsView'
+
+/**
+ * Componente de página de Configuración
+ *
+ * @returns {JSX.Element} Página de configuración
+ */
 export default function SettingsPage() {
   return (
     <div className="space-y-6">
@@ -7,11 +23,8 @@ export default function SettingsPage() {
           Administra la configuración de la plataforma
         </p>
       </div>
-      <div className="rounded-lg border bg-card p-8 text-center">
-        <p className="text-muted-foreground">
-          Página de configuración - Implementación pendiente
-        </p>
-      </div>
+
+      <SettingsView />
     </div>
   )
 }
@@ -0,0 +1,92 @@
+/**
+ * Página de Detalles de Comercio - PideAI Admin
+ *
+ * Muestra los datos y el horario de un comercio, sus pedidos activos, las
+ * métricas del día (productos, pedidos activos e ingresos) y su catálogo.
+ *
+ * @module app/(dashboard)/stores/[id]/page
+ */
+
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { StoreDetails } from '@/components/stores/StoreDetails'
+import { Button } from '@/components/ui/button'
+import { ChevronLeft } from 'lucide-react'
+import { AuditLink } from '@/components/audit/AuditLink'
+import { hasPermission } from '@/lib/auth/guard'
+import { ACTIVE_ORDER_STATUSES } from '@/lib/orders/state-machine'
+import { buildStoreStats } from '@/lib/stores/stats'
+import { zonedDay, zonedStartOfDay } from '@/lib/timezone'
+
+interface StorePageProps {
+  params: {
+    id: string
+  }
+}
+
+/**
+ * Componente de página de detalles de comercio
+ *
+ * @param {StorePageProps} props - Props con el ID del comercio
+ * @returns {Promise<JSX.Element>} Página de detalles del comercio
+ */
+export default async function StorePage({ params }: StorePageProps) {
+  const supabase = await createClient()
+
+  const { data: store, error } = await supabase
+    .from('stores')
+    .select('*')
+    .eq('id', params.id)
+    .single()
+
+  // Si no existe el comercio, mostrar 404
+  if (error || !store) {
+    notFound()
+  }
+
+  // "Hoy" en la zona horaria del negocio, no en la del servidor
+  const startOfToday = zonedStartOfDay(zonedDay(new Date()))
+
+  const [{ count: totalProducts }, { data: orders }] = await Promise.all([
+    supabase
+      .from('products')
+      .select('*', { count: 'exact', head: true })
+      .eq('store_id', params.id),
+    // Pedidos activos y entregados hoy, para las métricas del día
+    supabase
+      .from('orders')
+      .select('id, order_number, status, customer_name, total_amount, created_at, delivered_at')
+      .eq('store_id', params.id)
+      .or(
+        `status.in.(${ACTIVE_ORDER_STATUSES.join(',')}),delivered_at.gte.${startOfToday.toISOString()}`
+      )
+      .order('created_at', { ascending: false }),
+  ])
+
+  const storeOrders = orders || []
+
+  const canViewAudit = await hasPermission('audit.view')
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        {/* Botón de regreso */}
+        <Link href="/stores">
+          <Button variant="ghost" size="sm" className="gap-2">
+            <ChevronLeft className="h-4 w-4" />
+            Volver a Comercios
+          </Button>
+        </Link>
+
+        {canViewAudit && <AuditLink entityType="stores" entityId={params.id} />}
+      </div>
+
+      {/* Detalles del comercio */}
+      <StoreDetails
+        store={buildStoreStats(store, totalProducts ?? 0, storeOrders, startOfToday)}
+        activeOrders={storeOrders.filter((order) => ACTIVE_ORDER_STATUSES.includes(order.status))}
+      />
+    </div>
+  )
+}
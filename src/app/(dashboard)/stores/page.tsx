@@ -1,3 +1,19 @@
+/**
+ * Página de Comercios - PideAI Admin
+ *
+ * Lista de comercios con filtros, búsqueda y paginación.
+ * Permite dar de alta, editar y activar/desactivar comercios.
+ *
+ * @module app/(dashboard)/stores/page
+ */
+
+import { StoresTable } from '@/components/stores/StoresTable'
+
+/**
+ * Componente de página de Comercios
+ *
+ * @returns {JSX.Element} Página de comercios
+ */
 export default function StoresPage() {
   return (
     <div className="space-y-6">
@@ -7,11 +23,8 @@ export default function StoresPage() {
           Gestiona los comercios registrados en la plataforma
         </p>
       </div>
-      <div className="rounded-lg border bg-card p-8 text-center">
-        <p className="text-muted-foreground">
-          Página de comercios - Implementación pendiente
-        </p>
-      </div>
+
+      <StoresTable />
     </div>
   )
 }
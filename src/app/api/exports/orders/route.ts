@@ -0,0 +1,45 @@
+/**
+ * Exportación de Pedidos - PideAI Admin
+ *
+ * GET /api/exports/orders?format=csv|xlsx|pdf&status=...&search=...&sort=...&dir=...&tz=...
+ *
+ * Recibe los mismos filtros y orden que la tabla de pedidos (ver
+ * `orderFiltersToSearchParams` y `orderSortToSearchParams`) y devuelve el
+ * archivo en streaming, con las fechas en la zona horaria `tz` del
+ * navegador (por defecto, la del negocio). La consulta usa la sesión del
+ * usuario, así aplica sus permisos (RLS).
+ *
+ * @module app/api/exports/orders/route
+ */
+
+import { withPermission } from '@/lib/auth/guard'
+import { parseOrderFilters } from '@/lib/orders/filters'
+import { parseOrderSort } from '@/lib/orders/query'
+import { buildOrdersExport } from '@/lib/exports/orders'
+import { exportErrorResponse, exportResponse } from '@/lib/exports/response'
+import { isExportFormat } from '@/lib/exports/table'
+import { BUSINESS_TIME_ZONE, isValidTimeZone, zonedDay } from '@/lib/timezone'
+
+export const GET = withPermission('reports.export', async (request, { supabase }) => {
+  const { searchParams } = new URL(request.url)
+  const exportFormat = searchParams.get('format')
+  const timeZone = searchParams.get('tz') || BUSINESS_TIME_ZONE
+
+  if (!isExportFormat(exportFormat)) {
+    return exportErrorResponse(400, 'INVALID_FORMAT', 'Formato de exportación no soportado')
+  }
+  if (!isValidTimeZone(timeZone)) {
+    return exportErrorResponse(400, 'INVALID_TIME_ZONE', 'Zona horaria no válida')
+  }
+
+  return exportResponse(
+    exportFormat,
+    `pedidos-${zonedDay(new Date(), timeZone)}`,
+    buildOrdersExport(
+      supabase,
+      parseOrderFilters(searchParams),
+      parseOrderSort(searchParams),
+      timeZone
+    )
+  )
+})
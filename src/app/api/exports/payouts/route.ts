@@ -0,0 +1,73 @@
+/**
+ * Exportación de Estados de Cuenta - PideAI Admin
+ *
+ * GET /api/exports/payouts?rider_id=...&start=yyyy-MM-dd&end=yyyy-MM-dd&format=csv|xlsx|pdf
+ *
+ * Si el período ya está liquidado, el estado de cuenta sale de la
+ * liquidación guardada (totales, entregas y ajustes vinculados) para que
+ * coincida con lo que se pagó.
+ *
+ * @module app/api/exports/payouts/route
+ */
+
+import { withPermission } from '@/lib/auth/guard'
+import { getPayoutPeriodData, getSettlementDetail } from '@/lib/api/payouts'
+import {
+  buildRiderStatement,
+  buildSettledRiderStatement,
+  type RiderStatement,
+} from '@/lib/payouts/statement'
+import { buildRiderStatementExport } from '@/lib/exports/payouts'
+import { exportErrorResponse, exportResponse } from '@/lib/exports/response'
+import { isExportFormat } from '@/lib/exports/table'
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export const GET = withPermission('payouts.manage', async (request, { supabase }) => {
+  const { searchParams } = new URL(request.url)
+  const exportFormat = searchParams.get('format')
+  const riderId = searchParams.get('rider_id')
+  const start = searchParams.get('start') ?? ''
+  const end = searchParams.get('end') ?? ''
+
+  if (!isExportFormat(exportFormat)) {
+    return exportErrorResponse(400, 'INVALID_FORMAT', 'Formato de exportación no soportado')
+  }
+  if (!riderId) {
+    return exportErrorResponse(400, 'INVALID_RIDER', 'Falta el rider')
+  }
+  if (!DAY_PATTERN.test(start) || !DAY_PATTERN.test(end) || start > end) {
+    return exportErrorResponse(400, 'INVALID_RANGE', 'Período no válido')
+  }
+
+  const period = { start, end }
+  const data = await getPayoutPeriodData(period, { riderId, supabase })
+  const rider = data.riders[0]
+
+  if (!rider) {
+    return exportErrorResponse(404, 'RIDER_NOT_FOUND', 'Rider no encontrado')
+  }
+
+  const settlement =
+    data.settlements.find(
+      (candidate) => candidate.period_start === start && candidate.period_end === end
+    ) ?? null
+
+  let statement: RiderStatement
+  if (settlement) {
+    try {
+      const detail = await getSettlementDetail(settlement.id, supabase)
+      statement = buildSettledRiderStatement(rider, settlement, detail.orders, detail.adjustments)
+    } catch {
+      return exportErrorResponse(500, 'QUERY_FAILED', 'Error al obtener la liquidación')
+    }
+  } else {
+    statement = buildRiderStatement(rider, data.orders, data.adjustments, data.settings)
+  }
+
+  return exportResponse(
+    exportFormat,
+    `estado-de-cuenta-${rider.full_name.toLowerCase().replace(/\s+/g, '-')}-${start}`,
+    buildRiderStatementExport(statement, period, settlement)
+  )
+})
@@ -0,0 +1,54 @@
+/**
+ * Exportación de Reportes - PideAI Admin
+ *
+ * GET /api/exports/reports?report=summary|hourly|trend|riders|stores|cancellations&from=...&to=...&tz=...&format=csv|xlsx|pdf
+ *
+ * `from` y `to` son instantes ISO (el rango ya ajustado al inicio y fin
+ * del día por el navegador). `tz` es la zona horaria del navegador, para
+ * agrupar horas y días igual que en pantalla (por defecto, la del negocio).
+ *
+ * @module app/api/exports/reports/route
+ */
+
+import { withPermission } from '@/lib/auth/guard'
+import { getReportData } from '@/lib/api/reports'
+import { buildReportExport, isReportExport } from '@/lib/exports/reports'
+import { exportErrorResponse, exportResponse } from '@/lib/exports/response'
+import { isExportFormat } from '@/lib/exports/table'
+import { BUSINESS_TIME_ZONE, isValidTimeZone } from '@/lib/timezone'
+
+export const GET = withPermission('reports.export', async (request, { supabase }) => {
+  const { searchParams } = new URL(request.url)
+  const exportFormat = searchParams.get('format')
+  const report = searchParams.get('report')
+  const from = new Date(searchParams.get('from') ?? '')
+  const to = new Date(searchParams.get('to') ?? '')
+  const timeZone = searchParams.get('tz') || BUSINESS_TIME_ZONE
+
+  if (!isExportFormat(exportFormat)) {
+    return exportErrorResponse(400, 'INVALID_FORMAT', 'Formato de exportación no soportado')
+  }
+  if (!isReportExport(report)) {
+    return exportErrorResponse(400, 'INVALID_REPORT', 'Reporte no válido')
+  }
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from > to) {
+    return exportErrorResponse(400, 'INVALID_RANGE', 'Rango de fechas no válido')
+  }
+  if (!isValidTimeZone(timeZone)) {
+    return exportErrorResponse(400, 'INVALID_TIME_ZONE', 'Zona horaria no válida')
+  }
+
+  const range = { from, to }
+
+  try {
+    const data = await getReportData(range, supabase)
+
+    return exportResponse(
+      exportFormat,
+      `reporte-${report}-${searchParams.get('from')?.slice(0, 10)}`,
+      buildReportExport(report, data, range, timeZone)
+    )
+  } catch {
+    return exportErrorResponse(500, 'QUERY_FAILED', 'Error al obtener los datos del reporte')
+  }
+})
@@ -0,0 +1,78 @@
+/**
+ * Exportación de Estados de Cuenta de Comercios - PideAI Admin
+ *
+ * GET /api/exports/store-statements?store_id=...&start=yyyy-MM-dd&end=yyyy-MM-dd&format=csv|xlsx|pdf
+ *
+ * Si el estado de cuenta ya fue emitido, el detalle y los totales son los
+ * guardados al emitirlo, para que coincida con lo facturado.
+ *
+ * @module app/api/exports/store-statements/route
+ */
+
+import { withPermission } from '@/lib/auth/guard'
+import { getStoreBillingPeriodData, getStoreStatementOrders } from '@/lib/api/billing'
+import {
+  buildIssuedStoreStatement,
+  buildStoreStatement,
+  getStoreCommissionRate,
+  type StoreBillingStatement,
+} from '@/lib/billing/statement'
+import { buildStoreStatementExport } from '@/lib/exports/billing'
+import { exportErrorResponse, exportResponse } from '@/lib/exports/response'
+import { isExportFormat } from '@/lib/exports/table'
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export const GET = withPermission('billing.manage', async (request, { supabase }) => {
+  const { searchParams } = new URL(request.url)
+  const exportFormat = searchParams.get('format')
+  const storeId = searchParams.get('store_id')
+  const start = searchParams.get('start') ?? ''
+  const end = searchParams.get('end') ?? ''
+
+  if (!isExportFormat(exportFormat)) {
+    return exportErrorResponse(400, 'INVALID_FORMAT', 'Formato de exportación no soportado')
+  }
+  if (!storeId) {
+    return exportErrorResponse(400, 'INVALID_STORE', 'Falta el comercio')
+  }
+  if (!DAY_PATTERN.test(start) || !DAY_PATTERN.test(end) || start > end) {
+    return exportErrorResponse(400, 'INVALID_RANGE', 'Período no válido')
+  }
+
+  const period = { start, end }
+  const data = await getStoreBillingPeriodData(period, { storeId, supabase })
+  const store = data.stores[0]
+
+  if (!store) {
+    return exportErrorResponse(404, 'STORE_NOT_FOUND', 'Comercio no encontrado')
+  }
+
+  const saved = data.statements[0] ?? null
+
+  let statement: StoreBillingStatement
+  if (saved && saved.status !== 'draft') {
+    try {
+      statement = buildIssuedStoreStatement(
+        store,
+        saved,
+        await getStoreStatementOrders(saved.id, supabase)
+      )
+    } catch {
+      return exportErrorResponse(
+        500,
+        'QUERY_FAILED',
+        'Error al obtener el detalle del estado de cuenta'
+      )
+    }
+  } else {
+    const rate = getStoreCommissionRate(store, data.settings)
+    statement = buildStoreStatement(store, data.orders, rate)
+  }
+
+  return exportResponse(
+    exportFormat,
+    `estado-de-cuenta-${store.name.toLowerCase().replace(/\s+/g, '-')}-${start}`,
+    buildStoreStatementExport(statement, period, saved)
+  )
+})
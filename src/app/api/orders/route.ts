@@ -0,0 +1,48 @@
+/**
+ * Listado de Pedidos - PideAI Admin
+ *
+ * GET /api/orders?status=...&search=...&page=1&per_page=10&cursor=...&total=...&sort=...&dir=...
+ *
+ * Recibe los filtros de `orderFiltersToSearchParams`, la paginación de
+ * `orderPaginationToSearchParams` y el orden de `orderSortToSearchParams`,
+ * y responde un
+ * `CursorPaginatedResult<OrderListItem>`. La consulta usa la sesión del
+ * usuario, así aplica sus permisos (RLS).
+ *
+ * @module app/api/orders/route
+ */
+
+import { withPermission } from '@/lib/auth/guard'
+import { parseOrderFilters } from '@/lib/orders/filters'
+import {
+  isValidOrderCursor,
+  parseOrderPagination,
+  parseOrderSort,
+  queryOrders,
+} from '@/lib/orders/query'
+import type { ApiError } from '@/types'
+
+const DEFAULT_PER_PAGE = 10
+
+function errorResponse(statusCode: number, error: string, message: string): Response {
+  const body: ApiError = { error, message, statusCode }
+  return Response.json(body, { status: statusCode })
+}
+
+export const GET = withPermission(null, async (request, { supabase }) => {
+  const { searchParams } = new URL(request.url)
+  const pagination = parseOrderPagination(searchParams, DEFAULT_PER_PAGE)
+  const sort = parseOrderSort(searchParams)
+
+  if (pagination.cursor && !isValidOrderCursor(pagination.cursor, sort)) {
+    return errorResponse(400, 'INVALID_CURSOR', 'Cursor de paginación no válido')
+  }
+
+  try {
+    const result = await queryOrders(supabase, parseOrderFilters(searchParams), pagination, sort)
+    return Response.json(result)
+  } catch (error) {
+    console.error('Error querying orders:', error)
+    return errorResponse(500, 'QUERY_FAILED', 'Error al obtener los pedidos')
+  }
+})
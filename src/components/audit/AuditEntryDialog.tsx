@@ -0,0 +1,106 @@
+'use client'
+
+import Link from 'next/link'
+import { format } from 'date-fns'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { diffAuditSnapshots } from '@/lib/audit/diff'
+import {
+  getAuditActionLabel,
+  getAuditEntityHref,
+  getAuditEntityLabel,
+} from '@/lib/audit/labels'
+import { ROLE_LABELS } from '@/lib/auth/roles'
+import type { AuditLogEntry } from '@/lib/api/audit'
+
+interface AuditEntryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  entry: AuditLogEntry
+}
+
+/**
+ * Detalle de un registro de auditoría: autor, origen del request y las
+ * columnas que cambiaron
+ */
+export function AuditEntryDialog({ open, onOpenChange, entry }: AuditEntryDialogProps) {
+  const changes = diffAuditSnapshots(entry.before, entry.after)
+  const entityHref = getAuditEntityHref(entry.entity_type, entry.entity_id)
+  const actor = entry.actor?.full_name || entry.actor?.email
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {getAuditActionLabel(entry.action)} · {getAuditEntityLabel(entry.entity_type)}
+          </DialogTitle>
+          <DialogDescription>
+            {format(new Date(entry.created_at), 'dd/MM/yyyy HH:mm:ss')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+          <dt className="text-muted-foreground">Usuario</dt>
+          <dd className="flex items-center gap-2">
+            {actor ?? 'Sistema'}
+            {entry.actor_role && (
+              <Badge variant="outline">{ROLE_LABELS[entry.actor_role]}</Badge>
+            )}
+          </dd>
+          <dt className="text-muted-foreground">Entidad</dt>
+          <dd className="font-mono text-xs break-all">
+            {entityHref ? (
+              <Link href={entityHref} className="hover:underline">
+                {entry.entity_id}
+              </Link>
+            ) : (
+              entry.entity_id
+            )}
+          </dd>
+          <dt className="text-muted-foreground">IP</dt>
+          <dd>{entry.ip ?? '—'}</dd>
+          {entry.forwarded_for && (
+            <>
+              <dt className="text-muted-foreground">X-Forwarded-For</dt>
+              <dd className="font-mono text-xs break-all">{entry.forwarded_for}</dd>
+            </>
+          )}
+          <dt className="text-muted-foreground">Navegador</dt>
+          <dd className="text-xs break-all">{entry.user_agent ?? '—'}</dd>
+        </dl>
+
+        {changes.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">Sin cambios en las columnas</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="text-left font-medium">Campo</th>
+                <th className="text-right font-medium">Antes</th>
+                <th className="text-right font-medium">Después</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map((change) => (
+                <tr key={change.field} className="align-top">
+                  <td className="py-0.5 font-mono">{change.field}</td>
+                  <td className="py-0.5 text-right text-muted-foreground line-through break-all">
+                    {change.before}
+                  </td>
+                  <td className="py-0.5 text-right font-medium break-all">{change.after}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
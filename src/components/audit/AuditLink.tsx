@@ -0,0 +1,25 @@
+import Link from 'next/link'
+import { ScrollText } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+interface AuditLinkProps {
+  /** Tabla de la entidad (ej: "orders") */
+  entityType: string
+  entityId: string
+}
+
+/**
+ * Enlace a la página de Auditoría filtrada por una entidad
+ */
+export function AuditLink({ entityType, entityId }: AuditLinkProps) {
+  const params = new URLSearchParams({ entity_type: entityType, entity_id: entityId })
+
+  return (
+    <Link href={`/audit?${params}`}>
+      <Button variant="outline" size="sm" className="gap-2">
+        <ScrollText className="h-4 w-4" />
+        Ver auditoría
+      </Button>
+    </Link>
+  )
+}
@@ -0,0 +1,136 @@
+'use client'
+
+import { Filter } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AUDIT_ENTITY_LABELS } from '@/lib/audit/labels'
+import type { AuditActor } from '@/lib/api/audit'
+
+/**
+ * Estado de los filtros del registro de auditoría (días en `yyyy-MM-dd`)
+ */
+export interface AuditLogFiltersState {
+  actorId: string
+  entityType: string
+  entityId: string
+  dateFrom: string
+  dateTo: string
+}
+
+export const EMPTY_AUDIT_LOG_FILTERS: AuditLogFiltersState = {
+  actorId: 'all',
+  entityType: 'all',
+  entityId: '',
+  dateFrom: '',
+  dateTo: '',
+}
+
+interface AuditLogFiltersProps {
+  value: AuditLogFiltersState
+  onChange: (filters: AuditLogFiltersState) => void
+  actors: AuditActor[]
+}
+
+export function AuditLogFilters({ value, onChange, actors }: AuditLogFiltersProps) {
+  const handleFilterChange = (key: keyof AuditLogFiltersState, newValue: string) => {
+    onChange({ ...value, [key]: newValue })
+  }
+
+  const hasActiveFilters =
+    value.actorId !== 'all' ||
+    value.entityType !== 'all' ||
+    value.entityId !== '' ||
+    value.dateFrom !== '' ||
+    value.dateTo !== ''
+
+  return (
+    <Card className="p-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Filter className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm font-medium">Filtros:</span>
+        </div>
+
+        {/* Autor */}
+        <Select
+          value={value.actorId}
+          onValueChange={(actorId) => handleFilterChange('actorId', actorId)}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Usuario" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos los usuarios</SelectItem>
+            {actors.map((actor) => (
+              <SelectItem key={actor.id} value={actor.id}>
+                {actor.full_name || actor.email}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Entidad */}
+        <Select
+          value={value.entityType}
+          onValueChange={(entityType) => handleFilterChange('entityType', entityType)}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Entidad" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todas las entidades</SelectItem>
+            {Object.entries(AUDIT_ENTITY_LABELS).map(([entityType, label]) => (
+              <SelectItem key={entityType} value={entityType}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* ID de la entidad */}
+        <Input
+          value={value.entityId}
+          onChange={(e) => handleFilterChange('entityId', e.target.value)}
+          placeholder="ID de la entidad"
+          className="w-[280px]"
+        />
+
+        {/* Fechas */}
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={value.dateFrom}
+            max={value.dateTo || undefined}
+            onChange={(e) => handleFilterChange('dateFrom', e.target.value)}
+            className="w-[160px]"
+            aria-label="Desde"
+          />
+          <span className="text-sm text-muted-foreground">a</span>
+          <Input
+            type="date"
+            value={value.dateTo}
+            min={value.dateFrom || undefined}
+            onChange={(e) => handleFilterChange('dateTo', e.target.value)}
+            className="w-[160px]"
+            aria-label="Hasta"
+          />
+        </div>
+
+        {/* Limpiar Filtros */}
+        {hasActiveFilters && (
+          <Button variant="outline" size="sm" onClick={() => onChange(EMPTY_AUDIT_LOG_FILTERS)}>
+            Limpiar
+          </Button>
+        )}
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,271 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import {
+  AuditLogFilters,
+  EMPTY_AUDIT_LOG_FILTERS,
+  type AuditLogFiltersState,
+} from './AuditLogFilters'
+import { AuditEntryDialog } from './AuditEntryDialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ChevronLeft, ChevronRight, ScrollText } from 'lucide-react'
+import {
+  getAuditActors,
+  getAuditLog,
+  type AuditActor,
+  type AuditLogEntry,
+} from '@/lib/api/audit'
+import {
+  getAuditActionLabel,
+  getAuditEntityHref,
+  getAuditEntityLabel,
+} from '@/lib/audit/labels'
+import { ROLE_LABELS } from '@/lib/auth/roles'
+import type { AuditLogFilters as AuditLogFiltersType } from '@/types'
+
+const ITEMS_PER_PAGE = 20
+
+/**
+ * Convierte el estado de los filtros en `AuditLogFilters` (los días se
+ * toman completos en la zona horaria del navegador)
+ */
+function toAuditLogFilters(filters: AuditLogFiltersState): AuditLogFiltersType {
+  return {
+    actor_id: filters.actorId !== 'all' ? filters.actorId : undefined,
+    entity_type: filters.entityType !== 'all' ? filters.entityType : undefined,
+    entity_id: filters.entityId.trim() || undefined,
+    date_from: filters.dateFrom
+      ? new Date(`${filters.dateFrom}T00:00:00`).toISOString()
+      : undefined,
+    date_to: filters.dateTo
+      ? new Date(`${filters.dateTo}T23:59:59.999`).toISOString()
+      : undefined,
+  }
+}
+
+interface AuditLogTableProps {
+  /** Filtros iniciales (ej: desde el enlace "Ver auditoría" de una entidad) */
+  initialFilters?: Partial<AuditLogFiltersState>
+}
+
+export function AuditLogTable({ initialFilters }: AuditLogTableProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [actors, setActors] = useState<AuditActor[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filters, setFilters] = useState<AuditLogFiltersState>({
+    ...EMPTY_AUDIT_LOG_FILTERS,
+    ...initialFilters,
+  })
+  const [currentPage, setCurrentPage] = useState(1)
+  const [totalCount, setTotalCount] = useState(0)
+  const [selected, setSelected] = useState<AuditLogEntry | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchEntries = async () => {
+      setLoading(true)
+      try {
+        const result = await getAuditLog(toAuditLogFilters(filters), {
+          page: currentPage,
+          per_page: ITEMS_PER_PAGE,
+        })
+        if (cancelled) return
+        setEntries(result.data)
+        setTotalCount(result.total)
+      } catch (error) {
+        console.error('Error fetching audit log:', error)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchEntries()
+
+    return () => {
+      cancelled = true
+    }
+  }, [filters, currentPage])
+
+  useEffect(() => {
+    getAuditActors().then(setActors)
+  }, [])
+
+  const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE)
+
+  const handleFilterChange = (newFilters: AuditLogFiltersState) => {
+    setFilters(newFilters)
+    setCurrentPage(1) // Reset a primera página
+  }
+
+  if (loading && entries.length === 0 && totalCount === 0) {
+    return (
+      <div className="space-y-4">
+        <Card>
+          <CardHeader>
+            <Skeleton className="h-8 w-48" />
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {[1, 2, 3, 4, 5].map((i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Filtros */}
+      <AuditLogFilters value={filters} onChange={handleFilterChange} actors={actors} />
+
+      {/* Tabla */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScrollText className="h-5 w-5" />
+            Registros ({totalCount})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <ScrollText className="h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-1">No hay registros</h3>
+              <p className="text-sm text-muted-foreground">
+                No se encontraron cambios con los filtros aplicados
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Fecha</TableHead>
+                      <TableHead>Usuario</TableHead>
+                      <TableHead>Acción</TableHead>
+                      <TableHead>Entidad</TableHead>
+                      <TableHead>IP</TableHead>
+                      <TableHead className="text-right">Detalle</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => {
+                      const entityHref = getAuditEntityHref(entry.entity_type, entry.entity_id)
+                      return (
+                        <TableRow key={entry.id}>
+                          <TableCell className="whitespace-nowrap">
+                            {format(new Date(entry.created_at), 'dd/MM/yyyy HH:mm:ss')}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span className="font-medium">
+                                {entry.actor?.full_name || entry.actor?.email || 'Sistema'}
+                              </span>
+                              {entry.actor_role && (
+                                <span className="text-xs text-muted-foreground">
+                                  {ROLE_LABELS[entry.actor_role]}
+                                </span>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{getAuditActionLabel(entry.action)}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span>{getAuditEntityLabel(entry.entity_type)}</span>
+                              {entityHref ? (
+                                <Link
+                                  href={entityHref}
+                                  className="font-mono text-xs text-muted-foreground hover:underline"
+                                >
+                                  {entry.entity_id.slice(0, 8)}
+                                </Link>
+                              ) : (
+                                <span className="font-mono text-xs text-muted-foreground">
+                                  {entry.entity_id}
+                                </span>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {entry.ip ?? '—'}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" onClick={() => setSelected(entry)}>
+                              Ver cambios
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {/* Paginación */}
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between mt-4">
+                  <div className="text-sm text-muted-foreground">
+                    Mostrando {(currentPage - 1) * ITEMS_PER_PAGE + 1} -{' '}
+                    {Math.min(currentPage * ITEMS_PER_PAGE, totalCount)} de {totalCount}{' '}
+                    registros
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+                      disabled={currentPage === 1}
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                      Anterior
+                    </Button>
+                    <span className="text-sm">
+                      Página {currentPage} de {totalPages}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
+                      disabled={currentPage === totalPages}
+                    >
+                      Siguiente
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <AuditEntryDialog
+          open={!!selected}
+          onOpenChange={(open) => !open && setSelected(null)}
+          entry={selected}
+        />
+      )}
+    </div>
+  )
+}
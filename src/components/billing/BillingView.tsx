@@ -0,0 +1,330 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ChevronLeft, ChevronRight, DollarSign, Percent, Receipt, ShoppingBag } from 'lucide-react'
+import { ExportMenu } from '@/components/shared/ExportMenu'
+import { StoreStatementActions } from './StoreStatementActions'
+import { getStoreBillingPeriodData, type BillingPeriodData } from '@/lib/api/billing'
+import { getConfig } from '@/lib/api/config'
+import type { StoreBillingSettings } from '@/lib/billing/settings'
+import {
+  buildStoreStatement,
+  getStoreCommissionRate,
+  STORE_STATEMENT_STATUS_LABELS,
+  withSavedTotals,
+  type StoreBillingStatement,
+} from '@/lib/billing/statement'
+import {
+  formatSettlementPeriod,
+  getSettlementPeriod,
+  PERIOD_FREQUENCY_LABELS,
+  shiftSettlementPeriod,
+  type SettlementPeriod,
+} from '@/lib/periods'
+import type { StoreStatement } from '@/types'
+
+interface BillingRow {
+  statement: StoreBillingStatement
+  /** Estado de cuenta guardado del período, si existe */
+  saved: StoreStatement | null
+}
+
+const STATUS_BADGE_CLASSES: Record<StoreStatement['status'], string> = {
+  draft: '',
+  issued: 'bg-blue-500 text-white',
+  paid: 'bg-green-500 text-white',
+}
+
+/**
+ * Estados de cuenta de comercios por período: ventas, comisión, monto a
+ * pagar y estado de cada documento
+ */
+export function BillingView() {
+  const [settings, setSettings] = useState<StoreBillingSettings | null>(null)
+  const [period, setPeriod] = useState<SettlementPeriod | null>(null)
+  const [data, setData] = useState<BillingPeriodData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  useEffect(() => {
+    getConfig('store_billing_settings').then((result) => {
+      setSettings(result)
+      setPeriod(getSettlementPeriod(new Date(), result.period))
+    })
+  }, [])
+
+  useEffect(() => {
+    if (!period) return
+    let cancelled = false
+
+    getStoreBillingPeriodData(period)
+      .then((result) => {
+        if (!cancelled) {
+          setData(result)
+          setSettings(result.settings)
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [period, refreshKey])
+
+  const rows = useMemo<BillingRow[]>(() => {
+    if (!data) return []
+
+    return data.stores
+      .map((store) => {
+        const saved = data.statements.find((s) => s.store_id === store.id) ?? null
+        const rate =
+          saved && saved.status !== 'draft'
+            ? saved.commission_rate
+            : getStoreCommissionRate(store, data.settings)
+        const statement = buildStoreStatement(store, data.orders, rate)
+        return { statement: withSavedTotals(statement, saved), saved }
+      })
+      .filter(({ statement, saved }) => saved || statement.orders_count > 0)
+      .sort(
+        (a, b) =>
+          b.statement.net_payable - a.statement.net_payable ||
+          a.statement.store_name.localeCompare(b.statement.store_name)
+      )
+  }, [data])
+
+  const handleShift = (step: number) => {
+    if (!period || !settings) return
+    setLoading(true)
+    setPeriod(shiftSettlementPeriod(period, settings.period, step))
+  }
+
+  const handleChange = () => {
+    setRefreshKey((key) => key + 1)
+  }
+
+  const periodClosed = period ? period.end < format(new Date(), 'yyyy-MM-dd') : false
+  const totalSales = rows.reduce((sum, row) => sum + row.statement.gross_sales, 0)
+  const totalCommission = rows.reduce((sum, row) => sum + row.statement.commission, 0)
+  const totalPayable = rows.reduce((sum, row) => sum + row.statement.net_payable, 0)
+  const issuedCount = rows.filter((row) => row.saved && row.saved.status !== 'draft').length
+
+  const stats = [
+    {
+      title: 'Ventas',
+      value: `$${totalSales.toFixed(2)}`,
+      icon: ShoppingBag,
+      description: `${rows.length} comercios con pedidos entregados`,
+    },
+    {
+      title: 'Comisión Plataforma',
+      value: `$${totalCommission.toFixed(2)}`,
+      icon: Percent,
+      description: settings
+        ? `Por defecto ${(settings.default_commission_rate * 100).toFixed(0)}% de las ventas`
+        : '—',
+    },
+    {
+      title: 'A Pagar a Comercios',
+      value: `$${totalPayable.toFixed(2)}`,
+      icon: DollarSign,
+      description: 'Ventas menos comisión',
+    },
+    {
+      title: 'Emitidos',
+      value: `${issuedCount}/${rows.length}`,
+      icon: Receipt,
+      description: periodClosed ? 'Período cerrado' : 'El período sigue abierto',
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      {/* Período */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon-sm"
+            disabled={!period}
+            onClick={() => handleShift(-1)}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Período anterior</span>
+          </Button>
+          <span className="min-w-48 text-center font-medium">
+            {period ? formatSettlementPeriod(period) : '—'}
+          </span>
+          <Button
+            variant="outline"
+            size="icon-sm"
+            disabled={!period || !periodClosed}
+            onClick={() => handleShift(1)}
+          >
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Período siguiente</span>
+          </Button>
+        </div>
+        {settings && (
+          <p className="text-sm text-muted-foreground">
+            Facturación {PERIOD_FREQUENCY_LABELS[settings.period].toLowerCase()} · Comisión por
+            defecto {(settings.default_commission_rate * 100).toFixed(2)}%
+          </p>
+        )}
+      </div>
+
+      {loading || !period || !settings ? (
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            {[1, 2, 3, 4].map((i) => (
+              <Skeleton key={i} className="h-28 w-full" />
+            ))}
+          </div>
+          <Skeleton className="h-[300px] w-full" />
+        </div>
+      ) : (
+        <>
+          {/* Resumen */}
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            {stats.map((stat) => {
+              const Icon = stat.icon
+              return (
+                <Card key={stat.title}>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">{stat.title}</CardTitle>
+                    <Icon className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{stat.value}</div>
+                    <p className="text-xs text-muted-foreground">{stat.description}</p>
+                  </CardContent>
+                </Card>
+              )
+            })}
+          </div>
+
+          {/* Comercios */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Receipt className="h-5 w-5" />
+                Estados de cuenta ({rows.length})
+              </CardTitle>
+              <CardDescription>
+                Pedidos con fecha de entrega dentro del período
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {rows.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                  <Receipt className="h-12 w-12 text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-semibold mb-1">Sin movimientos</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Ningún comercio tuvo pedidos entregados en el período
+                  </p>
+                </div>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Comercio</TableHead>
+                        <TableHead className="text-right">Pedidos</TableHead>
+                        <TableHead className="text-right">Ventas</TableHead>
+                        <TableHead className="text-right">Comisión</TableHead>
+                        <TableHead className="text-right">Envíos</TableHead>
+                        <TableHead className="text-right">A pagar</TableHead>
+                        <TableHead>Estado</TableHead>
+                        <TableHead className="text-right">Acciones</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.map(({ statement, saved }) => (
+                        <TableRow key={statement.store_id}>
+                          <TableCell className="font-medium">
+                            <Link
+                              href={`/stores/${statement.store_id}`}
+                              className="hover:underline"
+                            >
+                              {statement.store_name}
+                            </Link>
+                          </TableCell>
+                          <TableCell className="text-right">{statement.orders_count}</TableCell>
+                          <TableCell className="text-right">
+                            ${statement.gross_sales.toFixed(2)}
+                          </TableCell>
+                          <TableCell className="text-right text-muted-foreground">
+                            -${statement.commission.toFixed(2)}
+                            <span className="ml-1 text-xs">
+                              ({(statement.commission_rate * 100).toFixed(2)}%)
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            ${statement.delivery_fees.toFixed(2)}
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">
+                            ${statement.net_payable.toFixed(2)}
+                          </TableCell>
+                          <TableCell>
+                            {saved ? (
+                              <Badge
+                                variant={saved.status === 'draft' ? 'secondary' : 'default'}
+                                className={STATUS_BADGE_CLASSES[saved.status]}
+                              >
+                                {STORE_STATEMENT_STATUS_LABELS[saved.status]} · {saved.statement_number}
+                              </Badge>
+                            ) : (
+                              <Badge variant="outline">Sin generar</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center justify-end gap-1">
+                              <ExportMenu
+                                path="/api/exports/store-statements"
+                                params={
+                                  new URLSearchParams({
+                                    store_id: statement.store_id,
+                                    start: period.start,
+                                    end: period.end,
+                                  })
+                                }
+                                label="Estado de cuenta"
+                                size="icon-sm"
+                              />
+                              <StoreStatementActions
+                                statement={statement}
+                                period={period}
+                                saved={saved}
+                                periodClosed={periodClosed}
+                                onSuccess={handleChange}
+                              />
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,264 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Banknote, FilePen, MoreHorizontal, Send, Trash2 } from 'lucide-react'
+import {
+  deleteStoreStatementDraft,
+  issueStoreStatement,
+  markStoreStatementPaid,
+  saveStoreStatement,
+  type BillingMutationResult,
+} from '@/lib/api/billing'
+import type { StoreBillingStatement } from '@/lib/billing/statement'
+import { formatSettlementPeriod, type SettlementPeriod } from '@/lib/periods'
+import type { StoreStatement } from '@/types'
+
+interface StoreStatementActionsProps {
+  statement: StoreBillingStatement
+  period: SettlementPeriod
+  /** Estado de cuenta guardado del período, si existe */
+  saved: StoreStatement | null
+  /** El período terminó y se puede emitir */
+  periodClosed: boolean
+  /** Se llama después de cualquier cambio en el estado de cuenta */
+  onSuccess: () => void
+}
+
+/**
+ * Acciones sobre el estado de cuenta de un comercio: borrador, emisión,
+ * registro de pago y eliminación del borrador
+ */
+export function StoreStatementActions({
+  statement,
+  period,
+  saved,
+  periodClosed,
+  onSuccess,
+}: StoreStatementActionsProps) {
+  const [dialog, setDialog] = useState<'issue' | 'pay' | 'delete' | null>(null)
+  const [notes, setNotes] = useState('')
+  const [running, setRunning] = useState(false)
+
+  const status = saved?.status ?? null
+
+  const run = async (
+    action: () => Promise<BillingMutationResult>,
+    successMessage: string
+  ) => {
+    setRunning(true)
+    try {
+      const result = await action()
+      if (result.success) {
+        toast.success(successMessage)
+        setDialog(null)
+        setNotes('')
+        onSuccess()
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      console.error('Error updating store statement:', error)
+      toast.error('Error inesperado al guardar el estado de cuenta')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const handleSaveDraft = () =>
+    run(
+      () => saveStoreStatement(statement, period, saved?.notes ?? undefined),
+      `Borrador de ${statement.store_name} guardado`
+    )
+
+  const openDialog = (next: 'issue' | 'pay' | 'delete') => {
+    setNotes(saved?.notes ?? '')
+    setDialog(next)
+  }
+
+  const closeDialog = (open: boolean) => {
+    if (!open) setDialog(null)
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon-sm" disabled={running}>
+            <MoreHorizontal className="h-4 w-4" />
+            <span className="sr-only">Acciones</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem
+            disabled={status !== null && status !== 'draft'}
+            onSelect={handleSaveDraft}
+          >
+            <FilePen className="h-4 w-4" />
+            {status === 'draft' ? 'Actualizar borrador' : 'Guardar borrador'}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={(status !== null && status !== 'draft') || !periodClosed}
+            onSelect={() => openDialog('issue')}
+          >
+            <Send className="h-4 w-4" />
+            {periodClosed ? 'Emitir' : 'Emitir (al cerrar el período)'}
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={status !== 'issued'} onSelect={() => openDialog('pay')}>
+            <Banknote className="h-4 w-4" />
+            Registrar pago
+          </DropdownMenuItem>
+          {status === 'draft' && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem variant="destructive" onSelect={() => setDialog('delete')}>
+                <Trash2 className="h-4 w-4" />
+                Eliminar borrador
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {dialog === 'issue' && (
+        <Dialog open onOpenChange={closeDialog}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Emitir estado de cuenta de {statement.store_name}</DialogTitle>
+              <DialogDescription>
+                {formatSettlementPeriod(period)}. Los montos se recalculan al confirmar con los
+                pedidos vigentes; una vez emitido, quedan fijos.
+              </DialogDescription>
+            </DialogHeader>
+
+            <dl className="grid grid-cols-2 gap-y-1 text-sm">
+              <dt className="text-muted-foreground">Pedidos</dt>
+              <dd className="text-right">{statement.orders_count}</dd>
+              <dt className="text-muted-foreground">Ventas</dt>
+              <dd className="text-right">${statement.gross_sales.toFixed(2)}</dd>
+              <dt className="text-muted-foreground">
+                Comisión ({(statement.commission_rate * 100).toFixed(2)}%)
+              </dt>
+              <dd className="text-right">-${statement.commission.toFixed(2)}</dd>
+              <dt className="text-muted-foreground">Envíos cobrados</dt>
+              <dd className="text-right">${statement.delivery_fees.toFixed(2)}</dd>
+              <dt className="font-semibold">A pagar al comercio</dt>
+              <dd className="text-right font-semibold">${statement.net_payable.toFixed(2)}</dd>
+            </dl>
+
+            <div className="space-y-2">
+              <Label htmlFor="statement-notes">Nota (opcional)</Label>
+              <Input
+                id="statement-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialog(null)} disabled={running}>
+                Volver
+              </Button>
+              <Button
+                onClick={() =>
+                  run(
+                    () => issueStoreStatement(statement.store_id, period, notes.trim()),
+                    `Estado de cuenta de ${statement.store_name} emitido`
+                  )
+                }
+                disabled={running}
+              >
+                {running ? 'Emitiendo...' : 'Emitir'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {dialog === 'pay' && saved && (
+        <Dialog open onOpenChange={closeDialog}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Registrar pago de {saved.statement_number}</DialogTitle>
+              <DialogDescription>
+                {statement.store_name} · ${saved.net_payable.toFixed(2)}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="payment-notes">Nota (opcional)</Label>
+              <Input
+                id="payment-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Ej: Transferencia #1234"
+              />
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialog(null)} disabled={running}>
+                Volver
+              </Button>
+              <Button
+                onClick={() =>
+                  run(
+                    () => markStoreStatementPaid(saved.id, notes.trim()),
+                    `${saved.statement_number} marcado como pagado`
+                  )
+                }
+                disabled={running}
+              >
+                {running ? 'Guardando...' : 'Confirmar pago'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {dialog === 'delete' && saved && (
+        <Dialog open onOpenChange={closeDialog}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Eliminar borrador</DialogTitle>
+              <DialogDescription>
+                Se eliminará el borrador {saved.statement_number} de {statement.store_name}.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialog(null)} disabled={running}>
+                Volver
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() =>
+                  run(() => deleteStoreStatementDraft(saved.id), 'Borrador eliminado')
+                }
+                disabled={running}
+              >
+                {running ? 'Eliminando...' : 'Eliminar'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </>
+  )
+}
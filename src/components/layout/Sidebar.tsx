@@ -8,9 +8,14 @@ import {
   Users,
   Store,
   BarChart3,
-  Settings
+  Settings,
+  Wallet,
+  Receipt,
+  ScrollText
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { useAuth } from '@/hooks/useAuth'
+import { canViewRoute } from '@/lib/auth/access'
 
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
@@ -18,11 +23,21 @@ const navigation = [
   { name: 'Riders', href: '/riders', icon: Users },
   { name: 'Comercios', href: '/stores', icon: Store },
   { name: 'Reportes', href: '/reports', icon: BarChart3 },
+  { name: 'Liquidaciones', href: '/payouts', icon: Wallet },
+  { name: 'Facturación', href: '/billing', icon: Receipt },
+  { name: 'Auditoría', href: '/audit', icon: ScrollText },
   { name: 'Configuración', href: '/settings', icon: Settings },
 ]
 
 export function Sidebar() {
   const pathname = usePathname()
+  const { profile, permissions } = useAuth()
+
+  // Mientras carga el perfil se muestran todas las secciones; el middleware
+  // rechaza igualmente las que el usuario no puede ver
+  const items = profile
+    ? navigation.filter((item) => canViewRoute(item.href, permissions))
+    : navigation
 
   return (
     <div className="flex h-full w-64 flex-col border-r bg-background">
@@ -36,7 +51,7 @@ export function Sidebar() {
 
       {/* Navigation */}
       <nav className="flex-1 space-y-1 px-3 py-4">
-        {navigation.map((item) => {
+        {items.map((item) => {
           const isActive = pathname === item.href || pathname?.startsWith(`${item.href}/`)
           const Icon = item.icon
 
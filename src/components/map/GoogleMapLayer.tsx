@@ -0,0 +1,110 @@
+'use client'
+
+import { useCallback } from 'react'
+import {
+  GoogleMap,
+  MarkerClustererF,
+  MarkerF,
+  PolylineF,
+  useJsApiLoader,
+  type MarkerProps,
+} from '@react-google-maps/api'
+import { Skeleton } from '@/components/ui/skeleton'
+import { cn } from '@/lib/utils'
+import type { MapMarker } from '@/lib/map/markers'
+import type { MapLayerProps } from './types'
+
+const DEFAULT_ZOOM = 13
+
+/**
+ * Capa de mapa de Google Maps
+ *
+ * Usa `NEXT_PUBLIC_GOOGLE_MAPS_API_KEY` y agrupa los marcadores con el
+ * clusterer de `@react-google-maps/api`.
+ */
+export function GoogleMapLayer({
+  markers,
+  path,
+  center,
+  onMarkerClick,
+  cluster = true,
+  className,
+}: MapLayerProps) {
+  const { isLoaded, loadError } = useJsApiLoader({
+    id: 'google-map-script',
+    googleMapsApiKey: process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || '',
+  })
+
+  // Encuadrar marcadores y recorrido al cargar el mapa
+  const handleLoad = useCallback(
+    (map: google.maps.Map) => {
+      const points = [...markers.map((marker) => marker.position), ...(path ?? [])]
+      if (center || points.length === 0) return
+
+      const bounds = new google.maps.LatLngBounds()
+      points.forEach((point) => bounds.extend(point))
+      map.fitBounds(bounds)
+    },
+    [center, markers, path]
+  )
+
+  if (loadError) {
+    return (
+      <div
+        className={cn(
+          'flex h-[500px] w-full items-center justify-center rounded-lg border text-sm text-muted-foreground',
+          className
+        )}
+      >
+        No se pudo cargar Google Maps
+      </div>
+    )
+  }
+
+  if (!isLoaded) {
+    return <Skeleton className={cn('h-[500px] w-full rounded-lg', className)} />
+  }
+
+  const renderMarker = (marker: MapMarker, clusterer?: MarkerProps['clusterer']) => (
+    <MarkerF
+      key={marker.key}
+      position={marker.position}
+      title={marker.title}
+      clusterer={clusterer}
+      label={{ text: marker.label, color: '#ffffff', fontSize: '11px', fontWeight: '600' }}
+      icon={{
+        path: google.maps.SymbolPath.CIRCLE,
+        scale: 12,
+        fillColor: marker.color,
+        fillOpacity: marker.stale ? 0.5 : 1,
+        strokeColor: marker.stale ? '#ef4444' : '#ffffff',
+        strokeWeight: 2,
+      }}
+      onClick={() => onMarkerClick?.(marker)}
+    />
+  )
+
+  return (
+    <GoogleMap
+      mapContainerClassName={cn('h-[500px] w-full rounded-lg border', className)}
+      center={center ?? markers[0]?.position ?? path?.[0]}
+      zoom={DEFAULT_ZOOM}
+      onLoad={handleLoad}
+      options={{ streetViewControl: false, mapTypeControl: false }}
+    >
+      {path && path.length > 1 && (
+        <PolylineF
+          path={path}
+          options={{ strokeColor: '#3b82f6', strokeWeight: 4, strokeOpacity: 0.9 }}
+        />
+      )}
+      {cluster ? (
+        <MarkerClustererF averageCenter>
+          {(clusterer) => <>{markers.map((marker) => renderMarker(marker, clusterer))}</>}
+        </MarkerClustererF>
+      ) : (
+        markers.map((marker) => renderMarker(marker))
+      )}
+    </GoogleMap>
+  )
+}
@@ -0,0 +1,59 @@
+'use client'
+
+import { createContext, createElement, useContext, type ReactNode } from 'react'
+import { GoogleMapLayer } from './GoogleMapLayer'
+import { TileMapLayer } from './TileMapLayer'
+import type { MapLayerComponent, MapLayerProps } from './types'
+
+const MapLayerContext = createContext<MapLayerComponent | null>(null)
+
+/**
+ * Capa de mapa según el entorno
+ *
+ * `NEXT_PUBLIC_MAP_PROVIDER` elige entre `google` y `tiles`. Si no está
+ * definida, se usa Google Maps cuando hay API key y, si no, la capa de tiles.
+ */
+export function getDefaultMapLayer(): MapLayerComponent {
+  const provider = process.env.NEXT_PUBLIC_MAP_PROVIDER
+
+  if (provider === 'tiles') return TileMapLayer
+  if (provider === 'google' || process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY) {
+    return GoogleMapLayer
+  }
+  return TileMapLayer
+}
+
+// Las variables `NEXT_PUBLIC_*` se fijan en el build: se resuelve una sola vez
+const defaultMapLayer = getDefaultMapLayer()
+
+/**
+ * Reemplaza la capa de mapa para todos los `MapView` descendientes
+ *
+ * Útil para renderizar contra un stub sin red en tests o en Storybook:
+ *
+ * ```tsx
+ * <MapLayerProvider layer={TileMapLayer}>
+ *   <OrdersMapView />
+ * </MapLayerProvider>
+ * ```
+ */
+export function MapLayerProvider({
+  layer,
+  children,
+}: {
+  layer: MapLayerComponent
+  children: ReactNode
+}) {
+  return <MapLayerContext.Provider value={layer}>{children}</MapLayerContext.Provider>
+}
+
+/**
+ * Mapa independiente del proveedor
+ *
+ * Renderiza la capa del `MapLayerProvider` más cercano o, si no hay, la
+ * capa por defecto del entorno.
+ */
+export function MapView(props: MapLayerProps) {
+  const layer = useContext(MapLayerContext) ?? defaultMapLayer
+  return createElement(layer, props)
+}
@@ -0,0 +1,219 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Minus, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { clusterMarkers, getBoundsCenter } from '@/lib/map/markers'
+import type { Coordinates } from '@/types'
+import type { MapLayerProps } from './types'
+
+const TILE_SIZE = 256
+const MIN_ZOOM = 2
+const MAX_ZOOM = 18
+/** Tamaño en píxeles de la celda usada para agrupar marcadores */
+const CLUSTER_CELL_PX = 48
+/** Margen al encuadrar los marcadores */
+const FIT_PADDING_PX = 48
+/** Centro por defecto cuando no hay marcadores */
+const DEFAULT_CENTER: Coordinates = { lat: 0, lng: 0 }
+
+/**
+ * Proyección Web Mercator a píxeles del mundo para un zoom dado
+ */
+function project({ lat, lng }: Coordinates, zoom: number) {
+  const scale = TILE_SIZE * 2 ** zoom
+  const sin = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999)
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  }
+}
+
+/**
+ * Mayor zoom en el que todos los puntos entran en el contenedor
+ */
+function fitZoom(points: Coordinates[], width: number, height: number) {
+  if (points.length < 2) return 14
+
+  for (let zoom = MAX_ZOOM; zoom > MIN_ZOOM; zoom--) {
+    const projected = points.map((point) => project(point, zoom))
+    const spanX = Math.max(...projected.map((p) => p.x)) - Math.min(...projected.map((p) => p.x))
+    const spanY = Math.max(...projected.map((p) => p.y)) - Math.min(...projected.map((p) => p.y))
+    if (spanX <= width - FIT_PADDING_PX * 2 && spanY <= height - FIT_PADDING_PX * 2) {
+      return zoom
+    }
+  }
+
+  return MIN_ZOOM
+}
+
+/**
+ * Capa de mapa con tiles raster `{z}/{x}/{y}` y marcadores HTML
+ *
+ * No necesita API key ni librerías externas: sirve para un servidor de tiles
+ * local (`NEXT_PUBLIC_MAP_TILE_URL`) y, sin URL de tiles, como stub sin red
+ * que solo dibuja los marcadores sobre un fondo liso.
+ */
+export function TileMapLayer({
+  markers,
+  path,
+  center,
+  onMarkerClick,
+  cluster = true,
+  className,
+  tileUrl = process.env.NEXT_PUBLIC_MAP_TILE_URL,
+}: MapLayerProps & { tileUrl?: string }) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [size, setSize] = useState({ width: 800, height: 500 })
+  const [view, setView] = useState<{ center: Coordinates; zoom: number } | null>(null)
+
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  // Vista inicial: encuadrar marcadores y recorrido hasta que el usuario haga zoom
+  const fitted = useMemo(() => {
+    const points = [...markers.map((marker) => marker.position), ...(path ?? [])]
+    return {
+      center: center ?? getBoundsCenter(points) ?? DEFAULT_CENTER,
+      zoom: fitZoom(points, size.width, size.height),
+    }
+  }, [markers, path, center, size])
+  const { center: viewCenter, zoom } = view ?? fitted
+
+  const origin = project(viewCenter, zoom)
+  const left = origin.x - size.width / 2
+  const top = origin.y - size.height / 2
+
+  const tiles = useMemo(() => {
+    if (!tileUrl) return []
+
+    const count = 2 ** zoom
+    const result: { key: string; src: string; x: number; y: number }[] = []
+    for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + size.width) / TILE_SIZE); tx++) {
+      for (let ty = Math.floor(top / TILE_SIZE); ty <= Math.floor((top + size.height) / TILE_SIZE); ty++) {
+        if (ty < 0 || ty >= count) continue
+        const wrappedX = ((tx % count) + count) % count
+        result.push({
+          key: `${zoom}/${tx}/${ty}`,
+          src: tileUrl
+            .replace('{z}', String(zoom))
+            .replace('{x}', String(wrappedX))
+            .replace('{y}', String(ty)),
+          x: tx * TILE_SIZE - left,
+          y: ty * TILE_SIZE - top,
+        })
+      }
+    }
+    return result
+  }, [tileUrl, zoom, left, top, size])
+
+  const groups = cluster
+    ? clusterMarkers(markers, (CLUSTER_CELL_PX * 360) / (TILE_SIZE * 2 ** zoom))
+    : markers.map((marker) => ({ key: marker.key, position: marker.position, markers: [marker] }))
+
+  const toScreen = (position: Coordinates) => {
+    const point = project(position, zoom)
+    return { x: point.x - left, y: point.y - top }
+  }
+
+  const changeZoom = (nextZoom: number, nextCenter: Coordinates = viewCenter) => {
+    setView({
+      center: nextCenter,
+      zoom: Math.min(Math.max(nextZoom, MIN_ZOOM), MAX_ZOOM),
+    })
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn('relative h-[500px] w-full overflow-hidden rounded-lg border bg-muted', className)}
+    >
+      {tiles.map((tile) => (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          key={tile.key}
+          src={tile.src}
+          alt=""
+          width={TILE_SIZE}
+          height={TILE_SIZE}
+          className="pointer-events-none absolute select-none"
+          style={{ left: tile.x, top: tile.y }}
+        />
+      ))}
+
+      {path && path.length > 1 && (
+        <svg className="pointer-events-none absolute inset-0 h-full w-full">
+          <polyline
+            points={path
+              .map((position) => {
+                const { x, y } = toScreen(position)
+                return `${x},${y}`
+              })
+              .join(' ')}
+            fill="none"
+            stroke="#3b82f6"
+            strokeWidth={4}
+            strokeLinejoin="round"
+            strokeLinecap="round"
+          />
+        </svg>
+      )}
+
+      {groups.map((group) => {
+        const { x, y } = toScreen(group.position)
+
+        if (group.markers.length > 1) {
+          return (
+            <button
+              key={group.key}
+              type="button"
+              title={`${group.markers.length} marcadores`}
+              onClick={() => changeZoom(zoom + 2, group.position)}
+              className="absolute flex h-9 w-9 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full border-2 border-white bg-primary text-xs font-semibold text-primary-foreground shadow"
+              style={{ left: x, top: y }}
+            >
+              {group.markers.length}
+            </button>
+          )
+        }
+
+        const [marker] = group.markers
+        return (
+          <button
+            key={marker.key}
+            type="button"
+            title={marker.title}
+            onClick={() => onMarkerClick?.(marker)}
+            className={cn(
+              'absolute flex h-7 w-7 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full border-2 border-white text-xs font-semibold text-white shadow',
+              marker.stale && 'border-dashed border-red-500 opacity-60'
+            )}
+            style={{ left: x, top: y, backgroundColor: marker.color }}
+          >
+            {marker.label}
+          </button>
+        )
+      })}
+
+      <div className="absolute right-3 top-3 flex flex-col gap-1">
+        <Button variant="secondary" size="icon-sm" onClick={() => changeZoom(zoom + 1)}>
+          <Plus className="h-4 w-4" />
+          <span className="sr-only">Acercar</span>
+        </Button>
+        <Button variant="secondary" size="icon-sm" onClick={() => changeZoom(zoom - 1)}>
+          <Minus className="h-4 w-4" />
+          <span className="sr-only">Alejar</span>
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+/**
+ * Contrato de las capas de mapa - PideAI Admin
+ *
+ * Cualquier capa (Google Maps, servidor de tiles local, stub sin red)
+ * recibe los mismos props, así `MapView` puede cambiar de proveedor sin que
+ * las pantallas se enteren.
+ *
+ * @module components/map/types
+ */
+
+import type { ComponentType } from 'react'
+import type { MapMarker } from '@/lib/map/markers'
+import type { Coordinates } from '@/types'
+
+export interface MapLayerProps {
+  markers: MapMarker[]
+  /** Recorrido a dibujar como línea (ej: ruta de un rider) */
+  path?: Coordinates[]
+  /** Centro inicial; si se omite, la capa encuadra todos los marcadores */
+  center?: Coordinates
+  /** Se llama al hacer click en un marcador (no en un grupo) */
+  onMarkerClick?: (marker: MapMarker) => void
+  /** Agrupa marcadores cercanos */
+  cluster?: boolean
+  className?: string
+}
+
+export type MapLayerComponent = ComponentType<MapLayerProps>
@@ -13,8 +13,21 @@ import { Button } from '@/components/ui/button'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
-import { UserCheck, MapPin, Package } from 'lucide-react'
-import { assignOrderToRider, getAvailableRiders } from '@/lib/api/orders'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { UserCheck, MapPin, Package, Repeat, Sparkles } from 'lucide-react'
+import {
+  assignOrderToRider,
+  getAvailableRiders,
+  reassignOrder,
+} from '@/lib/api/orders'
+import {
+  evaluateRidersForOrder,
+  recordDispatchDecision,
+  type DispatchEvaluation,
+} from '@/lib/api/dispatch'
+import type { DispatchRiderInput } from '@/lib/dispatch/scoring'
+import { DispatchExplanation } from './DispatchExplanation'
 
 interface Rider {
   id: string
@@ -30,6 +43,11 @@ interface AssignRiderModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   orderId: string
+  /**
+   * Rider actual del pedido. Si se indica, el modal trabaja en modo
+   * reasignación: excluye a este rider y traspasa el pedido al elegido.
+   */
+  currentRiderId?: string | null
   onSuccess: () => void
 }
 
@@ -37,23 +55,32 @@ export function AssignRiderModal({
   open,
   onOpenChange,
   orderId,
+  currentRiderId,
   onSuccess,
 }: AssignRiderModalProps) {
   const [riders, setRiders] = useState<Rider[]>([])
+  const [evaluation, setEvaluation] = useState<DispatchEvaluation | null>(null)
   const [loading, setLoading] = useState(true)
   const [assigning, setAssigning] = useState(false)
+  const [handoverNotes, setHandoverNotes] = useState('')
+  const isReassign = Boolean(currentRiderId)
 
   useEffect(() => {
     if (open) {
       loadRiders()
     }
-  }, [open])
+  }, [open]) // eslint-disable-line react-hooks/exhaustive-deps
 
   const loadRiders = async () => {
     setLoading(true)
     try {
-      const availableRiders = await getAvailableRiders()
+      const availableRiders = (await getAvailableRiders()).filter(
+        (rider) => rider.id !== currentRiderId
+      )
       setRiders(availableRiders as Rider[])
+      setEvaluation(
+        await evaluateRidersForOrder(orderId, availableRiders as DispatchRiderInput[])
+      )
     } catch (error) {
       console.error('Error loading riders:', error)
       toast.error('Error al cargar riders disponibles')
@@ -65,12 +92,32 @@ export function AssignRiderModal({
   const handleAssign = async (riderId: string, riderName: string) => {
     setAssigning(true)
     try {
-      const result = await assignOrderToRider(orderId, riderId)
+      const result = isReassign
+        ? await reassignOrder(orderId, riderId, handoverNotes.trim() || undefined)
+        : await assignOrderToRider(orderId, riderId)
 
       if (result.success) {
-        toast.success(`Pedido asignado a ${riderName}`)
+        const proposal = evaluation?.proposals.find((candidate) => candidate.rider_id === riderId)
+        if (evaluation && proposal) {
+          await recordDispatchDecision(orderId, proposal, 'suggested', evaluation)
+        }
+        toast.success(
+          isReassign ? `Pedido reasignado a ${riderName}` : `Pedido asignado a ${riderName}`
+        )
+        onOpenChange(false)
+        onSuccess()
+      } else if (
+        result.code === 'ORDER_NOT_PENDING' ||
+        result.code === 'INVALID_TRANSITION'
+      ) {
+        // Otro despachador cambió el pedido primero: cerrar y refrescar la tabla
+        toast.error(result.error)
         onOpenChange(false)
         onSuccess()
+      } else if (result.code === 'RIDER_UNAVAILABLE' || result.code === 'RIDER_INACTIVE') {
+        // El rider dejó de estar disponible: recargar la lista
+        toast.error(`${riderName}: ${result.error}`)
+        loadRiders()
       } else {
         toast.error(result.error || 'Error al asignar pedido')
       }
@@ -96,14 +143,59 @@ export function AssignRiderModal({
       <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
-            <UserCheck className="h-5 w-5" />
-            Asignar Rider al Pedido
+            {isReassign ? (
+              <Repeat className="h-5 w-5" />
+            ) : (
+              <UserCheck className="h-5 w-5" />
+            )}
+            {isReassign ? 'Reasignar Rider del Pedido' : 'Asignar Rider al Pedido'}
           </DialogTitle>
           <DialogDescription>
-            Selecciona un rider disponible para asignar este pedido
+            {isReassign
+              ? 'Selecciona el rider que continuará con este pedido. El rider actual quedará libre si no tiene otros pedidos activos.'
+              : 'Selecciona un rider disponible para asignar este pedido'}
           </DialogDescription>
         </DialogHeader>
 
+        {isReassign && (
+          <div className="space-y-2">
+            <Label htmlFor="handover-notes">Motivo del traspaso (opcional)</Label>
+            <Input
+              id="handover-notes"
+              value={handoverNotes}
+              onChange={(e) => setHandoverNotes(e.target.value)}
+              placeholder="Ej: El rider se desconectó"
+            />
+          </div>
+        )}
+
+        {!loading && evaluation && evaluation.proposals.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="flex items-center gap-2 text-sm font-semibold">
+              <Sparkles className="h-4 w-4" />
+              Sugeridos por el despacho
+            </h4>
+            {evaluation.proposals.map((candidate, index) => (
+              <div key={candidate.rider_id} className="space-y-3 rounded-lg border border-primary/40 p-4">
+                <div className="flex items-center gap-3">
+                  <Badge variant="secondary">#{index + 1}</Badge>
+                  <p className="flex-1 font-medium">{candidate.rider_name}</p>
+                  <Badge variant="outline">{candidate.score.toFixed(1)} pts</Badge>
+                  <Button
+                    onClick={() => handleAssign(candidate.rider_id, candidate.rider_name)}
+                    disabled={assigning}
+                    size="sm"
+                  >
+                    {isReassign ? 'Reasignar' : 'Asignar'}
+                  </Button>
+                </div>
+                <DispatchExplanation factors={candidate.factors} />
+              </div>
+            ))}
+            <h4 className="pt-2 text-sm font-semibold">Todos los riders disponibles</h4>
+          </div>
+        )}
+
         <div className="space-y-3">
           {loading ? (
             // Skeleton loader
@@ -182,7 +274,13 @@ export function AssignRiderModal({
                     disabled={assigning}
                     size="sm"
                   >
-                    {assigning ? 'Asignando...' : 'Asignar'}
+                    {assigning
+                      ? isReassign
+                        ? 'Reasignando...'
+                        : 'Asignando...'
+                      : isReassign
+                        ? 'Reasignar'
+                        : 'Asignar'}
                   </Button>
                 </div>
               )
@@ -0,0 +1,156 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { XCircle } from 'lucide-react'
+import { cancelOrder } from '@/lib/api/orders'
+import {
+  CANCELLATION_REASON_LABELS,
+  CANCELLATION_REASONS,
+  type CancellationReason,
+} from '@/lib/orders/cancellation'
+
+interface CancelOrderDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  orderId: string
+  orderNumber?: string
+  onSuccess: () => void
+}
+
+export function CancelOrderDialog({
+  open,
+  onOpenChange,
+  orderId,
+  orderNumber,
+  onSuccess,
+}: CancelOrderDialogProps) {
+  const [reason, setReason] = useState<CancellationReason | ''>('')
+  const [comment, setComment] = useState('')
+  const [refund, setRefund] = useState(false)
+  const [cancelling, setCancelling] = useState(false)
+
+  const resetForm = () => {
+    setReason('')
+    setComment('')
+    setRefund(false)
+  }
+
+  const handleCancel = async () => {
+    if (!reason) return
+
+    setCancelling(true)
+    try {
+      const result = await cancelOrder(orderId, { reason, comment, refund })
+
+      if (result.success) {
+        toast.success('Pedido cancelado')
+        resetForm()
+        onOpenChange(false)
+        onSuccess()
+      } else {
+        toast.error(result.error || 'Error al cancelar pedido')
+      }
+    } catch (error) {
+      console.error('Error cancelling order:', error)
+      toast.error('Error inesperado al cancelar pedido')
+    } finally {
+      setCancelling(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <XCircle className="h-5 w-5" />
+            Cancelar Pedido {orderNumber}
+          </DialogTitle>
+          <DialogDescription>
+            El pedido pasará a cancelado y el rider asignado quedará libre.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="cancel-reason">Motivo</Label>
+            <Select
+              value={reason}
+              onValueChange={(value) => setReason(value as CancellationReason)}
+            >
+              <SelectTrigger id="cancel-reason" className="w-full">
+                <SelectValue placeholder="Selecciona un motivo" />
+              </SelectTrigger>
+              <SelectContent>
+                {CANCELLATION_REASONS.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {CANCELLATION_REASON_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="cancel-comment">Comentario (opcional)</Label>
+            <Input
+              id="cancel-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Ej: El cliente no responde al teléfono"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              id="cancel-refund"
+              type="checkbox"
+              checked={refund}
+              onChange={(e) => setRefund(e.target.checked)}
+              className="h-4 w-4 accent-primary"
+            />
+            <Label htmlFor="cancel-refund" className="font-normal">
+              Reembolsar al cliente
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={cancelling}
+          >
+            Volver
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleCancel}
+            disabled={cancelling || !reason}
+          >
+            {cancelling ? 'Cancelando...' : 'Cancelar Pedido'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,101 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import type { OrderActionResult } from '@/lib/api/orders'
+
+interface ConfirmTransitionDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  title: string
+  description: string
+  confirmLabel: string
+  successMessage: string
+  /** Ejecuta la transición con la nota opcional ingresada */
+  onConfirm: (notes?: string) => Promise<OrderActionResult>
+  onSuccess: () => void
+}
+
+/**
+ * Diálogo de confirmación para transiciones que no requieren más datos
+ * que una nota opcional (marcar recogido, marcar entregado, etc.)
+ */
+export function ConfirmTransitionDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  confirmLabel,
+  successMessage,
+  onConfirm,
+  onSuccess,
+}: ConfirmTransitionDialogProps) {
+  const [notes, setNotes] = useState('')
+  const [running, setRunning] = useState(false)
+
+  const handleConfirm = async () => {
+    setRunning(true)
+    try {
+      const result = await onConfirm(notes.trim() || undefined)
+
+      if (result.success) {
+        toast.success(successMessage)
+        setNotes('')
+        onOpenChange(false)
+        onSuccess()
+      } else {
+        toast.error(result.error || 'Error al actualizar el pedido')
+      }
+    } catch (error) {
+      console.error('Error running transition:', error)
+      toast.error('Error inesperado al actualizar el pedido')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="transition-notes">Nota (opcional)</Label>
+          <Input
+            id="transition-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Ej: Rider sin batería, confirmado por teléfono"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={running}
+          >
+            Volver
+          </Button>
+          <Button onClick={handleConfirm} disabled={running}>
+            {running ? 'Guardando...' : confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
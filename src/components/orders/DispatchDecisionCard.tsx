@@ -0,0 +1,62 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Sparkles } from 'lucide-react'
+import { DispatchExplanation } from './DispatchExplanation'
+import type { DispatchFactor } from '@/lib/dispatch/scoring'
+import type { DispatchDecision } from '@/types'
+
+interface DispatchDecisionCardProps {
+  decisions: Pick<DispatchDecision, 'id' | 'rider_id' | 'mode' | 'score' | 'factors' | 'created_at'>[]
+  /** Rider actual del pedido, para avisar si la decisión quedó desactualizada */
+  currentRiderId: string | null
+}
+
+const modeLabels: Record<string, string> = {
+  auto: 'Automática',
+  suggested: 'Propuesta elegida',
+}
+
+/**
+ * Explica por qué el despacho eligió al rider del pedido
+ *
+ * Muestra la última decisión registrada en `dispatch_decisions`. Si el
+ * pedido no tiene decisiones (asignación manual), no renderiza nada.
+ */
+export function DispatchDecisionCard({ decisions, currentRiderId }: DispatchDecisionCardProps) {
+  const latest = [...decisions].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  )[0]
+
+  if (!latest) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Sparkles className="h-5 w-5" />
+          Decisión de Despacho
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary">{modeLabels[latest.mode] ?? latest.mode}</Badge>
+          <Badge variant="outline">{Number(latest.score).toFixed(1)} pts</Badge>
+        </div>
+        <DispatchExplanation factors={latest.factors as unknown as DispatchFactor[]} />
+        {latest.rider_id !== currentRiderId && (
+          <p className="text-xs text-muted-foreground">
+            El rider elegido ya no es el rider actual del pedido
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {new Date(latest.created_at).toLocaleString('es-ES', {
+            day: '2-digit',
+            month: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+          })}
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
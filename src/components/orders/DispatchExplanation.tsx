@@ -0,0 +1,40 @@
+import { cn } from '@/lib/utils'
+import type { DispatchFactor } from '@/lib/dispatch/scoring'
+
+interface DispatchExplanationProps {
+  factors: DispatchFactor[]
+  className?: string
+}
+
+/**
+ * Desglose de los factores que componen el puntaje de un rider
+ *
+ * Muestra, para cada factor, su explicación, el puntaje normalizado y el
+ * peso aplicado, de modo que cualquier decisión del despacho sea legible.
+ */
+export function DispatchExplanation({ factors, className }: DispatchExplanationProps) {
+  const totalWeight = factors.reduce((sum, factor) => sum + factor.weight, 0)
+
+  return (
+    <div className={cn('space-y-1.5', className)}>
+      {factors.map((factor) => {
+        const share = totalWeight > 0 ? factor.weight / totalWeight : 0
+        return (
+          <div key={factor.key} className="flex items-center gap-3 text-xs">
+            <span className="w-16 shrink-0 font-medium">{factor.label}</span>
+            <div className="h-1.5 w-20 shrink-0 overflow-hidden rounded-full bg-muted">
+              <div
+                className="h-full rounded-full bg-primary"
+                style={{ width: `${Math.round(factor.score * 100)}%` }}
+              />
+            </div>
+            <span className="flex-1 text-muted-foreground">{factor.detail}</span>
+            <span className="shrink-0 text-muted-foreground">
+              peso {Math.round(share * 100)}%
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
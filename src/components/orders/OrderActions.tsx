@@ -0,0 +1,260 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Bike,
+  Eye,
+  MoreHorizontal,
+  PackageCheck,
+  Repeat,
+  UserMinus,
+  UserPlus,
+  XCircle,
+  Zap,
+  type LucideIcon,
+} from 'lucide-react'
+import { AssignRiderModal } from './AssignRiderModal'
+import { CancelOrderDialog } from './CancelOrderDialog'
+import { ConfirmTransitionDialog } from './ConfirmTransitionDialog'
+import {
+  markOrderDelivered,
+  markOrderPickedUp,
+  unassignOrder,
+} from '@/lib/api/orders'
+import { autoDispatchOrder } from '@/lib/api/dispatch'
+import {
+  getAvailableActions,
+  type OrderAction,
+} from '@/lib/orders/state-machine'
+import type { Permission } from '@/lib/auth/permissions'
+import type { OrderStatus } from '@/types'
+
+interface OrderActionsProps {
+  order: {
+    id: string
+    order_number: string
+    status: OrderStatus
+    delivery_id?: string | null
+  }
+  /** Permisos del usuario actual, usados para filtrar las acciones */
+  permissions: readonly Permission[] | null | undefined
+  /** `buttons` para la página de detalle, `menu` para las filas de la tabla */
+  variant?: 'buttons' | 'menu'
+  /** Muestra la acción "Auto-asignar" en pedidos asignables */
+  autoDispatchEnabled?: boolean
+  /** Se llama después de una transición exitosa */
+  onSuccess: () => void
+}
+
+const actionIcons: Record<OrderAction, LucideIcon> = {
+  assign: UserPlus,
+  reassign: Repeat,
+  unassign: UserMinus,
+  pick_up: Bike,
+  deliver: PackageCheck,
+  cancel: XCircle,
+}
+
+/**
+ * Acciones disponibles sobre un pedido según la máquina de estados
+ *
+ * Solo muestra las transiciones permitidas para el estado actual del pedido
+ * y los permisos del usuario, y abre el modal correspondiente a cada acción.
+ */
+export function OrderActions({
+  order,
+  permissions,
+  variant = 'buttons',
+  autoDispatchEnabled = false,
+  onSuccess,
+}: OrderActionsProps) {
+  const [openAction, setOpenAction] = useState<OrderAction | null>(null)
+  const [dispatching, setDispatching] = useState(false)
+  const actions = getAvailableActions(order.status, permissions)
+  const canAutoDispatch =
+    autoDispatchEnabled && actions.some((transition) => transition.action === 'assign')
+
+  const handleAutoDispatch = async () => {
+    setDispatching(true)
+    try {
+      const result = await autoDispatchOrder(order.id)
+      if (result.success && result.candidate) {
+        toast.success(`Pedido asignado a ${result.candidate.rider_name}`, {
+          description: `Puntaje ${result.candidate.score.toFixed(1)} · ${result.candidate.factors
+            .map((factor) => factor.detail)
+            .join(' · ')}`,
+        })
+        onSuccess()
+      } else {
+        toast.error(result.error || 'No se pudo asignar el pedido')
+      }
+    } catch (error) {
+      console.error('Error auto-dispatching order:', error)
+      toast.error('Error inesperado al asignar pedido')
+    } finally {
+      setDispatching(false)
+    }
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setOpenAction(null)
+  }
+
+  const modals = (
+    <>
+      {openAction === 'assign' && (
+        <AssignRiderModal
+          open
+          onOpenChange={handleOpenChange}
+          orderId={order.id}
+          onSuccess={onSuccess}
+        />
+      )}
+      {openAction === 'reassign' && (
+        <AssignRiderModal
+          open
+          onOpenChange={handleOpenChange}
+          orderId={order.id}
+          currentRiderId={order.delivery_id}
+          onSuccess={onSuccess}
+        />
+      )}
+      {openAction === 'unassign' && (
+        <ConfirmTransitionDialog
+          open
+          onOpenChange={handleOpenChange}
+          title={`Desasignar rider de ${order.order_number}`}
+          description="El pedido volverá a Pendiente y el rider quedará disponible si no tiene otros pedidos activos."
+          confirmLabel="Desasignar"
+          successMessage="Pedido devuelto a pendiente"
+          onConfirm={(notes) => unassignOrder(order.id, notes)}
+          onSuccess={onSuccess}
+        />
+      )}
+      {openAction === 'pick_up' && (
+        <ConfirmTransitionDialog
+          open
+          onOpenChange={handleOpenChange}
+          title={`Marcar ${order.order_number} como recogido`}
+          description="El pedido pasará a En Camino en nombre del rider asignado."
+          confirmLabel="Marcar Recogido"
+          successMessage="Pedido marcado como recogido"
+          onConfirm={(notes) => markOrderPickedUp(order.id, notes)}
+          onSuccess={onSuccess}
+        />
+      )}
+      {openAction === 'deliver' && (
+        <ConfirmTransitionDialog
+          open
+          onOpenChange={handleOpenChange}
+          title={`Marcar ${order.order_number} como entregado`}
+          description="El pedido pasará a Entregado y el rider quedará disponible si no tiene otros pedidos activos."
+          confirmLabel="Marcar Entregado"
+          successMessage="Pedido marcado como entregado"
+          onConfirm={(notes) => markOrderDelivered(order.id, notes)}
+          onSuccess={onSuccess}
+        />
+      )}
+      {openAction === 'cancel' && (
+        <CancelOrderDialog
+          open
+          onOpenChange={handleOpenChange}
+          orderId={order.id}
+          orderNumber={order.order_number}
+          onSuccess={onSuccess}
+        />
+      )}
+    </>
+  )
+
+  if (variant === 'menu') {
+    return (
+      <>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon-sm">
+              <MoreHorizontal className="h-4 w-4" />
+              <span className="sr-only">Acciones</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem asChild>
+              <Link href={`/orders/${order.id}`}>
+                <Eye className="h-4 w-4" />
+                Ver detalle
+              </Link>
+            </DropdownMenuItem>
+            {actions.length > 0 && <DropdownMenuSeparator />}
+            {actions.map((transition) => {
+              const Icon = actionIcons[transition.action]
+              return (
+                <DropdownMenuItem
+                  key={transition.action}
+                  variant={transition.destructive ? 'destructive' : 'default'}
+                  onSelect={() => setOpenAction(transition.action)}
+                >
+                  <Icon className="h-4 w-4" />
+                  {transition.label}
+                </DropdownMenuItem>
+              )
+            })}
+            {canAutoDispatch && (
+              <DropdownMenuItem disabled={dispatching} onSelect={handleAutoDispatch}>
+                <Zap className="h-4 w-4" />
+                Auto-asignar
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        {modals}
+      </>
+    )
+  }
+
+  if (actions.length === 0) return null
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        {actions.map((transition) => {
+          const Icon = actionIcons[transition.action]
+          return (
+            <Button
+              key={transition.action}
+              variant={transition.destructive ? 'destructive' : 'outline'}
+              size="sm"
+              className="gap-2"
+              onClick={() => setOpenAction(transition.action)}
+            >
+              <Icon className="h-4 w-4" />
+              {transition.label}
+            </Button>
+          )
+        })}
+        {canAutoDispatch && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            disabled={dispatching}
+            onClick={handleAutoDispatch}
+          >
+            <Zap className="h-4 w-4" />
+            {dispatching ? 'Asignando...' : 'Auto-asignar'}
+          </Button>
+        )}
+      </div>
+      {modals}
+    </>
+  )
+}
@@ -1,5 +1,6 @@
 'use client'
 
+import { useRouter } from 'next/navigation'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import {
   Table,
@@ -13,6 +14,10 @@ import {
 import { Badge } from '@/components/ui/badge'
 import { OrderStatus } from './OrderStatus'
 import { OrderTimeline } from './OrderTimeline'
+import { OrderActions } from './OrderActions'
+import { DispatchDecisionCard } from './DispatchDecisionCard'
+import { RiderRouteReplay } from './RiderRouteReplay'
+import { useAuth } from '@/hooks/useAuth'
 import {
   MapPin,
   Phone,
@@ -20,7 +25,16 @@ import {
   User,
   Package,
   AlertCircle,
+  XCircle,
 } from 'lucide-react'
+import { getCancellationReasonLabel, type CancellationReason } from '@/lib/orders/cancellation'
+import type {
+  DispatchDecision,
+  Json,
+  OrderStatus as OrderStatusType,
+  OrderStatusHistoryWithActor,
+  Profile,
+} from '@/types'
 
 interface OrderItem {
   id: string
@@ -43,16 +57,19 @@ interface Store {
   name: string
   phone: string
   address: string
+  location: Json | null
 }
 
 interface Order {
   id: string
   order_number: string
-  status: 'pending' | 'assigned' | 'in_transit' | 'delivered' | 'cancelled'
+  status: OrderStatusType
   customer_name: string
   customer_phone: string
   customer_address: string
+  customer_location: Json | null
   store_name: string
+  delivery_id: string | null
   total_amount: number
   delivery_fee: number
   is_urgent: boolean
@@ -62,9 +79,18 @@ interface Order {
   picked_up_at: string | null
   delivered_at: string | null
   cancelled_at: string | null
+  cancellation_reason: CancellationReason | null
+  cancellation_comment: string | null
+  cancellation_refund: boolean | null
+  cancelled_by_profile?: Pick<Profile, 'full_name' | 'email'> | null
   order_items?: OrderItem[]
   riders?: Rider | null
   stores?: Store | null
+  order_status_history?: OrderStatusHistoryWithActor[]
+  dispatch_decisions?: Pick<
+    DispatchDecision,
+    'id' | 'rider_id' | 'mode' | 'score' | 'factors' | 'created_at'
+  >[]
 }
 
 interface OrderDetailsProps {
@@ -72,6 +98,8 @@ interface OrderDetailsProps {
 }
 
 export function OrderDetails({ order }: OrderDetailsProps) {
+  const router = useRouter()
+  const { permissions } = useAuth()
   const subtotal = order.total_amount - order.delivery_fee
 
   return (
@@ -100,6 +128,13 @@ export function OrderDetails({ order }: OrderDetailsProps) {
             })}
           </p>
         </div>
+
+        {/* Acciones disponibles según la máquina de estados */}
+        <OrderActions
+          order={order}
+          permissions={permissions}
+          onSuccess={() => router.refresh()}
+        />
       </div>
 
       <div className="grid gap-6 lg:grid-cols-3">
@@ -243,6 +278,18 @@ export function OrderDetails({ order }: OrderDetailsProps) {
               </CardContent>
             </Card>
           )}
+
+          {/* Recorrido del rider durante el pedido */}
+          {order.riders && order.assigned_at && (
+            <RiderRouteReplay
+              riderId={order.riders.id}
+              riderName={order.riders.full_name}
+              from={order.assigned_at}
+              to={order.delivered_at ?? order.cancelled_at}
+              storeLocation={order.stores?.location}
+              customerLocation={order.customer_location}
+            />
+          )}
         </div>
 
         {/* Columna Lateral */}
@@ -288,14 +335,57 @@ export function OrderDetails({ order }: OrderDetailsProps) {
             </Card>
           )}
 
+          {/* Cancelación */}
+          {order.status === 'cancelled' && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <XCircle className="h-5 w-5" />
+                  Cancelación
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div>
+                  <p className="text-sm text-muted-foreground">Motivo</p>
+                  <p className="font-medium">
+                    {getCancellationReasonLabel(order.cancellation_reason)}
+                  </p>
+                </div>
+                {order.cancellation_comment && (
+                  <div>
+                    <p className="text-sm text-muted-foreground">Comentario</p>
+                    <p className="text-sm">{order.cancellation_comment}</p>
+                  </div>
+                )}
+                <div>
+                  <p className="text-sm text-muted-foreground">Reembolso</p>
+                  <Badge variant={order.cancellation_refund ? 'default' : 'outline'} className="mt-1">
+                    {order.cancellation_refund ? 'Reembolsar al cliente' : 'Sin reembolso'}
+                  </Badge>
+                </div>
+                {order.cancelled_by_profile && (
+                  <div>
+                    <p className="text-sm text-muted-foreground">Cancelado por</p>
+                    <p className="font-medium">
+                      {order.cancelled_by_profile.full_name || order.cancelled_by_profile.email}
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Explicación del despacho */}
+          <DispatchDecisionCard
+            decisions={order.dispatch_decisions || []}
+            currentRiderId={order.delivery_id}
+          />
+
           {/* Timeline */}
           <OrderTimeline
             status={order.status}
             createdAt={order.created_at}
-            assignedAt={order.assigned_at}
-            pickedUpAt={order.picked_up_at}
-            deliveredAt={order.delivered_at}
-            cancelledAt={order.cancelled_at}
+            history={order.order_status_history || []}
           />
         </div>
       </div>
@@ -1,8 +1,16 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import { Filter } from 'lucide-react'
+import { endOfDay, format, isValid, parseISO, startOfDay } from 'date-fns'
+import { ChevronDown, Filter } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Input } from '@/components/ui/input'
 import {
   Select,
   SelectContent,
@@ -12,23 +20,27 @@ import {
 } from '@/components/ui/select'
 import { Card } from '@/components/ui/card'
 import { createClient } from '@/lib/supabase/client'
+import { ORDER_STATUS_LABELS } from '@/lib/orders/labels'
+import type { OrderFilters as OrderFiltersType, OrderStatus } from '@/types'
 
 interface OrderFiltersProps {
-  onFilterChange: (filters: OrderFiltersState) => void
+  /** Filtros activos (la búsqueda se maneja aparte) */
+  value: OrderFiltersType
+  onChange: (filters: OrderFiltersType) => void
 }
 
-export interface OrderFiltersState {
-  status: string
-  riderId: string
-  storeId: string
+const ORDER_STATUSES = Object.keys(ORDER_STATUS_LABELS) as OrderStatus[]
+
+/**
+ * Día (`yyyy-MM-dd`) de un instante ISO, para los campos de fecha (vacío si
+ * la fecha no es válida)
+ */
+const toDay = (value: string | undefined) => {
+  const date = value ? parseISO(value) : null
+  return date && isValid(date) ? format(date, 'yyyy-MM-dd') : ''
 }
 
-export function OrderFilters({ onFilterChange }: OrderFiltersProps) {
-  const [filters, setFilters] = useState<OrderFiltersState>({
-    status: 'all',
-    riderId: 'all',
-    storeId: 'all',
-  })
+export function OrderFilters({ value, onChange }: OrderFiltersProps) {
   const [riders, setRiders] = useState<{ id: string; full_name: string }[]>([])
   const [stores, setStores] = useState<{ id: string; name: string }[]>([])
   const supabase = createClient()
@@ -58,53 +70,72 @@ export function OrderFilters({ onFilterChange }: OrderFiltersProps) {
     loadFiltersData()
   }, []) // eslint-disable-line react-hooks/exhaustive-deps
 
-  const handleFilterChange = (key: keyof OrderFiltersState, value: string) => {
-    const newFilters = { ...filters, [key]: value }
-    setFilters(newFilters)
-    onFilterChange(newFilters)
+  const statuses = value.status ? ([] as OrderStatus[]).concat(value.status) : []
+
+  const handleFilterChange = (changes: Partial<OrderFiltersType>) => {
+    onChange({ ...value, ...changes })
   }
 
-  const clearFilters = () => {
-    const clearedFilters = { status: 'all', riderId: 'all', storeId: 'all' }
-    setFilters(clearedFilters)
-    onFilterChange(clearedFilters)
+  const toggleStatus = (status: OrderStatus, checked: boolean) => {
+    const next = checked
+      ? ORDER_STATUSES.filter((s) => s === status || statuses.includes(s))
+      : statuses.filter((s) => s !== status)
+    handleFilterChange({
+      status: next.length === 0 ? undefined : next.length === 1 ? next[0] : next,
+    })
   }
 
+  const statusLabel =
+    statuses.length === 0
+      ? 'Todos los estados'
+      : statuses.length <= 2
+        ? statuses.map((status) => ORDER_STATUS_LABELS[status]).join(', ')
+        : `${statuses.length} estados`
+
   const hasActiveFilters =
-    filters.status !== 'all' ||
-    filters.riderId !== 'all' ||
-    filters.storeId !== 'all'
+    statuses.length > 0 ||
+    !!value.delivery_id ||
+    !!value.store_id ||
+    value.is_urgent !== undefined ||
+    !!value.date_from ||
+    !!value.date_to
 
   return (
     <Card className="p-4">
-      <div className="flex items-center gap-4">
+      <div className="flex flex-wrap items-center gap-4">
         <div className="flex items-center gap-2">
           <Filter className="h-4 w-4 text-muted-foreground" />
           <span className="text-sm font-medium">Filtros:</span>
         </div>
 
-        {/* Estado */}
-        <Select
-          value={filters.status}
-          onValueChange={(value) => handleFilterChange('status', value)}
-        >
-          <SelectTrigger className="w-[150px]">
-            <SelectValue placeholder="Estado" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">Todos</SelectItem>
-            <SelectItem value="pending">Pendiente</SelectItem>
-            <SelectItem value="assigned">Asignado</SelectItem>
-            <SelectItem value="in_transit">En Camino</SelectItem>
-            <SelectItem value="delivered">Entregado</SelectItem>
-            <SelectItem value="cancelled">Cancelado</SelectItem>
-          </SelectContent>
-        </Select>
+        {/* Estado (varios) */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="w-[190px] justify-between font-normal">
+              <span className="truncate">{statusLabel}</span>
+              <ChevronDown className="h-4 w-4 opacity-50" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-[190px]">
+            {ORDER_STATUSES.map((status) => (
+              <DropdownMenuCheckboxItem
+                key={status}
+                checked={statuses.includes(status)}
+                onCheckedChange={(checked) => toggleStatus(status, checked === true)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {ORDER_STATUS_LABELS[status]}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
 
         {/* Rider */}
         <Select
-          value={filters.riderId}
-          onValueChange={(value) => handleFilterChange('riderId', value)}
+          value={value.delivery_id ?? 'all'}
+          onValueChange={(riderId) =>
+            handleFilterChange({ delivery_id: riderId !== 'all' ? riderId : undefined })
+          }
         >
           <SelectTrigger className="w-[180px]">
             <SelectValue placeholder="Rider" />
@@ -121,8 +152,10 @@ export function OrderFilters({ onFilterChange }: OrderFiltersProps) {
 
         {/* Comercio */}
         <Select
-          value={filters.storeId}
-          onValueChange={(value) => handleFilterChange('storeId', value)}
+          value={value.store_id ?? 'all'}
+          onValueChange={(storeId) =>
+            handleFilterChange({ store_id: storeId !== 'all' ? storeId : undefined })
+          }
         >
           <SelectTrigger className="w-[180px]">
             <SelectValue placeholder="Comercio" />
@@ -137,9 +170,61 @@ export function OrderFilters({ onFilterChange }: OrderFiltersProps) {
           </SelectContent>
         </Select>
 
+        {/* Urgencia */}
+        <Select
+          value={value.is_urgent === undefined ? 'all' : String(value.is_urgent)}
+          onValueChange={(urgency) =>
+            handleFilterChange({ is_urgent: urgency === 'all' ? undefined : urgency === 'true' })
+          }
+        >
+          <SelectTrigger className="w-[150px]">
+            <SelectValue placeholder="Urgencia" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos</SelectItem>
+            <SelectItem value="true">Solo urgentes</SelectItem>
+            <SelectItem value="false">No urgentes</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {/* Fechas (días completos en la zona horaria del navegador) */}
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={toDay(value.date_from)}
+            max={toDay(value.date_to) || undefined}
+            onChange={(e) =>
+              handleFilterChange({
+                date_from: e.target.value
+                  ? startOfDay(parseISO(e.target.value)).toISOString()
+                  : undefined,
+              })
+            }
+            className="w-[160px]"
+            aria-label="Desde"
+          />
+          <span className="text-sm text-muted-foreground">a</span>
+          <Input
+            type="date"
+            value={toDay(value.date_to)}
+            min={toDay(value.date_from) || undefined}
+            onChange={(e) =>
+              handleFilterChange({
+                date_to: e.target.value ? endOfDay(parseISO(e.target.value)).toISOString() : undefined,
+              })
+            }
+            className="w-[160px]"
+            aria-label="Hasta"
+          />
+        </div>
+
         {/* Limpiar Filtros */}
         {hasActiveFilters && (
-          <Button variant="outline" size="sm" onClick={clearFilters}>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(value.search ? { search: value.search } : {})}
+          >
             Limpiar
           </Button>
         )}
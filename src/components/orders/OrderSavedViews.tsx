@@ -0,0 +1,289 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { BookmarkPlus, MoreHorizontal, Pencil, Save, Star, StarOff, Trash2, Users } from 'lucide-react'
+import { SaveOrderViewDialog } from './SaveOrderViewDialog'
+import {
+  deleteOrderSavedView,
+  getDefaultOrderViewId,
+  getOrderSavedViews,
+  setDefaultOrderView,
+  updateOrderSavedView,
+  type OrderSavedViewEntry,
+} from '@/lib/api/order-views'
+import {
+  DEFAULT_ORDER_VIEW_STATE,
+  getOrderViewState,
+  isSameOrderViewState,
+  type OrderViewState,
+} from '@/lib/orders/views'
+
+interface OrderSavedViewsProps {
+  /** Estado actual de la tabla */
+  state: OrderViewState
+  /** Aplica el estado de una vista a la tabla */
+  onApply: (state: OrderViewState) => void
+  /** Aplicar la vista por defecto del usuario al cargar */
+  applyDefault: boolean
+  /** ID del usuario actual (solo el autor modifica una vista) */
+  currentUserId?: string
+}
+
+const ALL_ORDERS_TAB = 'all'
+
+/**
+ * Pestañas de vistas guardadas sobre la tabla de pedidos
+ *
+ * Muestra las vistas del usuario y las compartidas por el equipo. Al elegir
+ * una se aplican sus filtros, orden, columnas y tamaño de página; si después
+ * se cambia la tabla, la vista queda marcada como modificada y su autor
+ * puede guardar los cambios.
+ */
+export function OrderSavedViews({
+  state,
+  onApply,
+  applyDefault,
+  currentUserId,
+}: OrderSavedViewsProps) {
+  const [views, setViews] = useState<OrderSavedViewEntry[]>([])
+  const [defaultViewId, setDefaultViewId] = useState<string | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [dialog, setDialog] = useState<'create' | 'edit' | 'delete' | null>(null)
+  const [running, setRunning] = useState(false)
+
+  const loadViews = async () => {
+    const [loadedViews, loadedDefaultId] = await Promise.all([
+      getOrderSavedViews(),
+      getDefaultOrderViewId(),
+    ])
+    setViews(loadedViews)
+    setDefaultViewId(loadedDefaultId)
+    return { loadedViews, loadedDefaultId }
+  }
+
+  useEffect(() => {
+    loadViews().then(({ loadedViews, loadedDefaultId }) => {
+      const defaultView = loadedViews.find((view) => view.id === loadedDefaultId)
+      if (applyDefault && defaultView) {
+        setSelectedId(defaultView.id)
+        onApply(getOrderViewState(defaultView))
+      }
+    })
+  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const selectedView = views.find((view) => view.id === selectedId)
+  const isOwner = !!selectedView && selectedView.owner_id === currentUserId
+  const isModified = !!selectedView && !isSameOrderViewState(state, getOrderViewState(selectedView))
+  const activeTab =
+    selectedView?.id ??
+    (isSameOrderViewState(state, DEFAULT_ORDER_VIEW_STATE) ? ALL_ORDERS_TAB : '')
+
+  const handleTabChange = (tab: string) => {
+    const view = views.find((v) => v.id === tab)
+    setSelectedId(view?.id ?? null)
+    onApply(view ? getOrderViewState(view) : DEFAULT_ORDER_VIEW_STATE)
+  }
+
+  const handleSaved = async (viewId: string) => {
+    setSelectedId(viewId)
+    await loadViews()
+  }
+
+  const handleSaveChanges = async () => {
+    if (!selectedView) return
+
+    setRunning(true)
+    try {
+      const result = await updateOrderSavedView(selectedView.id, { state })
+      if (result.success) {
+        toast.success(`Vista "${selectedView.name}" actualizada`)
+        await loadViews()
+      } else {
+        toast.error(result.error)
+      }
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const handleToggleDefault = async () => {
+    if (!selectedView) return
+
+    const isDefault = selectedView.id === defaultViewId
+    setRunning(true)
+    try {
+      const result = await setDefaultOrderView(isDefault ? null : selectedView.id)
+      if (result.success) {
+        setDefaultViewId(isDefault ? null : selectedView.id)
+        toast.success(
+          isDefault
+            ? 'La tabla se abrirá sin filtros'
+            : `"${selectedView.name}" se abrirá por defecto`
+        )
+      } else {
+        toast.error(result.error)
+      }
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selectedView) return
+
+    setRunning(true)
+    try {
+      const result = await deleteOrderSavedView(selectedView.id)
+      if (result.success) {
+        toast.success(`Vista "${selectedView.name}" eliminada`)
+        setDialog(null)
+        setSelectedId(null)
+        await loadViews()
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      console.error('Error deleting order view:', error)
+      toast.error('Error inesperado al eliminar la vista')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const closeDialog = (open: boolean) => {
+    if (!open) setDialog(null)
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Tabs value={activeTab} onValueChange={handleTabChange}>
+        <TabsList className="h-auto flex-wrap">
+          <TabsTrigger value={ALL_ORDERS_TAB}>Todos</TabsTrigger>
+          {views.map((view) => (
+            <TabsTrigger key={view.id} value={view.id} className="gap-1.5">
+              {view.id === defaultViewId && <Star className="h-3 w-3 fill-current" />}
+              {view.name}
+              {view.is_shared && (
+                <Users
+                  className="h-3 w-3 text-muted-foreground"
+                  aria-label={`Compartida por ${view.owner?.full_name ?? 'otro usuario'}`}
+                />
+              )}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {isModified && <span className="text-xs text-muted-foreground">Modificada</span>}
+
+      <Button variant="outline" size="sm" className="gap-2" onClick={() => setDialog('create')}>
+        <BookmarkPlus className="h-4 w-4" />
+        Guardar vista
+      </Button>
+
+      {selectedView && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon-sm">
+              <MoreHorizontal className="h-4 w-4" />
+              <span className="sr-only">Acciones de la vista</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {isOwner && (
+              <DropdownMenuItem disabled={running || !isModified} onSelect={handleSaveChanges}>
+                <Save className="h-4 w-4" />
+                Guardar cambios
+              </DropdownMenuItem>
+            )}
+            {isOwner && (
+              <DropdownMenuItem onSelect={() => setDialog('edit')}>
+                <Pencil className="h-4 w-4" />
+                Editar
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem disabled={running} onSelect={handleToggleDefault}>
+              {selectedView.id === defaultViewId ? (
+                <StarOff className="h-4 w-4" />
+              ) : (
+                <Star className="h-4 w-4" />
+              )}
+              {selectedView.id === defaultViewId ? 'Quitar por defecto' : 'Usar por defecto'}
+            </DropdownMenuItem>
+            {isOwner && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem variant="destructive" onSelect={() => setDialog('delete')}>
+                  <Trash2 className="h-4 w-4" />
+                  Eliminar
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      {dialog === 'create' && (
+        <SaveOrderViewDialog
+          open
+          onOpenChange={closeDialog}
+          state={state}
+          onSuccess={(view) => handleSaved(view.id)}
+        />
+      )}
+
+      {dialog === 'edit' && selectedView && (
+        <SaveOrderViewDialog
+          open
+          onOpenChange={closeDialog}
+          state={state}
+          view={selectedView}
+          isDefault={selectedView.id === defaultViewId}
+          onSuccess={(view) => handleSaved(view.id)}
+        />
+      )}
+
+      {dialog === 'delete' && selectedView && (
+        <Dialog open onOpenChange={closeDialog}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Eliminar vista</DialogTitle>
+              <DialogDescription>
+                {selectedView.is_shared
+                  ? `"${selectedView.name}" dejará de estar disponible para todo el equipo.`
+                  : `"${selectedView.name}" se eliminará.`}{' '}
+                Esta acción no se puede deshacer.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialog(null)} disabled={running}>
+                Volver
+              </Button>
+              <Button variant="destructive" onClick={handleDelete} disabled={running}>
+                {running ? 'Eliminando...' : 'Eliminar'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import { Badge } from '@/components/ui/badge'
 import { cn } from '@/lib/utils'
+import { ORDER_STATUS_LABELS } from '@/lib/orders/labels'
 
 type OrderStatus = 'pending' | 'assigned' | 'in_transit' | 'delivered' | 'cancelled'
 
@@ -9,23 +10,23 @@ interface OrderStatusProps {
 
 const statusConfig: Record<OrderStatus, { label: string; className: string }> = {
   pending: {
-    label: 'Pendiente',
+    label: ORDER_STATUS_LABELS.pending,
     className: 'bg-yellow-500 hover:bg-yellow-600 text-white',
   },
   assigned: {
-    label: 'Asignado',
+    label: ORDER_STATUS_LABELS.assigned,
     className: 'bg-blue-500 hover:bg-blue-600 text-white',
   },
   in_transit: {
-    label: 'En Camino',
+    label: ORDER_STATUS_LABELS.in_transit,
     className: 'bg-purple-500 hover:bg-purple-600 text-white',
   },
   delivered: {
-    label: 'Entregado',
+    label: ORDER_STATUS_LABELS.delivered,
     className: 'bg-green-500 hover:bg-green-600 text-white',
   },
   cancelled: {
-    label: 'Cancelado',
+    label: ORDER_STATUS_LABELS.cancelled,
     className: 'bg-red-500 hover:bg-red-600 text-white',
   },
 }
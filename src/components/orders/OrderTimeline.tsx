@@ -1,85 +1,42 @@
-import { CheckCircle2, Circle, Clock } from 'lucide-react'
+import { CheckCircle2, Circle, Clock, User } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { cn } from '@/lib/utils'
-
-interface TimelineEvent {
-  status: string
-  label: string
-  timestamp: string | null
-  completed: boolean
-}
+import { isFinalStatus } from '@/lib/orders/state-machine'
+import type { OrderStatus, OrderStatusHistoryWithActor } from '@/types'
 
 interface OrderTimelineProps {
-  status: 'pending' | 'assigned' | 'in_transit' | 'delivered' | 'cancelled'
+  status: OrderStatus
   createdAt: string
-  assignedAt: string | null
-  pickedUpAt: string | null
-  deliveredAt: string | null
-  cancelledAt: string | null
+  history: OrderStatusHistoryWithActor[]
 }
 
-export function OrderTimeline({
-  status,
-  createdAt,
-  assignedAt,
-  pickedUpAt,
-  deliveredAt,
-  cancelledAt,
-}: OrderTimelineProps) {
-  const events: TimelineEvent[] = [
-    {
-      status: 'created',
-      label: 'Pedido creado',
-      timestamp: createdAt,
-      completed: true,
-    },
-    {
-      status: 'assigned',
-      label: 'Asignado a rider',
-      timestamp: assignedAt,
-      completed: status !== 'pending',
-    },
-    {
-      status: 'in_transit',
-      label: 'Rider en camino',
-      timestamp: pickedUpAt,
-      completed: ['in_transit', 'delivered'].includes(status),
-    },
-    {
-      status: 'delivered',
-      label: 'Pedido entregado',
-      timestamp: deliveredAt,
-      completed: status === 'delivered',
-    },
-  ]
+/**
+ * Etiqueta de cada estado cuando aparece en el historial
+ */
+const historyLabels: Record<OrderStatus, string> = {
+  pending: 'Devuelto a pendiente',
+  assigned: 'Asignado a rider',
+  in_transit: 'Rider en camino',
+  delivered: 'Pedido entregado',
+  cancelled: 'Pedido cancelado',
+}
 
-  // Si está cancelado, mostrar solo creado y cancelado
-  if (status === 'cancelled') {
-    return (
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-lg">Historial del Pedido</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            <TimelineItem
-              label="Pedido creado"
-              timestamp={createdAt}
-              completed={true}
-              isLast={false}
-            />
-            <TimelineItem
-              label="Pedido cancelado"
-              timestamp={cancelledAt}
-              completed={true}
-              isLast={true}
-              isCancelled={true}
-            />
-          </div>
-        </CardContent>
-      </Card>
-    )
-  }
+/**
+ * Flujo normal de un pedido, usado para mostrar los pasos que faltan
+ */
+const happyPath: OrderStatus[] = ['assigned', 'in_transit', 'delivered']
+
+export function OrderTimeline({ status, createdAt, history }: OrderTimelineProps) {
+  const entries = [...history].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  )
+
+  // Pasos del flujo normal que todavía no ocurrieron
+  const upcoming = isFinalStatus(status)
+    ? []
+    : happyPath.slice(happyPath.indexOf(status) + 1)
+
+  const totalItems = 1 + entries.length + upcoming.length
 
   return (
     <Card>
@@ -88,13 +45,39 @@ export function OrderTimeline({
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
-          {events.map((event, index) => (
+          <TimelineItem
+            label="Pedido creado"
+            timestamp={createdAt}
+            completed={true}
+            isLast={totalItems === 1}
+          />
+          {entries.map((entry, index) => (
+            <TimelineItem
+              key={entry.id}
+              label={
+                entry.previous_status === entry.status
+                  ? 'Rider reasignado'
+                  : historyLabels[entry.status]
+              }
+              timestamp={entry.created_at}
+              notes={entry.notes}
+              actor={
+                entry.changed_by_profile?.full_name ||
+                entry.changed_by_profile?.email ||
+                null
+              }
+              completed={true}
+              isLast={index + 2 === totalItems}
+              isCancelled={entry.status === 'cancelled'}
+            />
+          ))}
+          {upcoming.map((step, index) => (
             <TimelineItem
-              key={event.status}
-              label={event.label}
-              timestamp={event.timestamp}
-              completed={event.completed}
-              isLast={index === events.length - 1}
+              key={step}
+              label={historyLabels[step]}
+              timestamp={null}
+              completed={false}
+              isLast={index === upcoming.length - 1}
             />
           ))}
         </div>
@@ -109,6 +92,8 @@ interface TimelineItemProps {
   completed: boolean
   isLast: boolean
   isCancelled?: boolean
+  notes?: string | null
+  actor?: string | null
 }
 
 function TimelineItem({
@@ -117,6 +102,8 @@ function TimelineItem({
   completed,
   isLast,
   isCancelled = false,
+  notes,
+  actor,
 }: TimelineItemProps) {
   return (
     <div className="flex gap-4">
@@ -164,6 +151,13 @@ function TimelineItem({
             })}
           </p>
         )}
+        {actor && (
+          <p className="text-sm text-muted-foreground flex items-center gap-1 mt-1">
+            <User className="h-3 w-3" />
+            {actor}
+          </p>
+        )}
+        {notes && <p className="text-sm mt-1">{notes}</p>}
       </div>
     </div>
   )
@@ -1,31 +1,51 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
 import { createClient } from '@/lib/supabase/client'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { MapPin, Package, Users, Navigation } from 'lucide-react'
+import {
+  AlertTriangle,
+  Eye,
+  MapPin,
+  Navigation,
+  Package,
+  Store as StoreIcon,
+  UserPlus,
+  Users,
+  X,
+} from 'lucide-react'
 import { OrderStatus } from './OrderStatus'
+import { AssignRiderModal } from './AssignRiderModal'
+import { MapView } from '@/components/map/MapView'
+import { useAuth } from '@/hooks/useAuth'
+import { buildMapMarkers, type MapMarker } from '@/lib/map/markers'
+import { getStatusColor } from '@/lib/riders/labels'
+import { canTransition } from '@/lib/orders/state-machine'
+import { getConfig } from '@/lib/api/config'
+import { getOrders } from '@/lib/api/orders'
+import { parseCoordinates } from '@/lib/geo'
+import { MAX_ORDERS_PER_PAGE, type OrderListItem } from '@/lib/orders/query'
+import {
+  DEFAULT_RIDER_TRACKING_SETTINGS,
+  isLocationStale,
+  type RiderTrackingSettings,
+} from '@/lib/riders/tracking'
 
 interface Location {
   lat: number
   lng: number
 }
 
-interface Order {
-  id: string
-  order_number: string
-  status: 'pending' | 'assigned' | 'in_transit' | 'delivered' | 'cancelled'
-  customer_name: string
-  customer_address: string
+/**
+ * Pedido activo con la ubicación del cliente ya validada
+ */
+type Order = Omit<OrderListItem, 'customer_location'> & {
   customer_location: Location | null
-  store_name: string
-  delivery_id: string | null
-  riders?: {
-    full_name: string
-  } | null
 }
 
 interface Rider {
@@ -34,15 +54,58 @@ interface Rider {
   phone: string
   status: string
   current_location: Location | null
+  last_location_update: string | null
   is_active: boolean
 }
 
+interface Store {
+  id: string
+  name: string
+  address: string
+  location: Location | null
+}
+
 export function OrdersMapView() {
   const [orders, setOrders] = useState<Order[]>([])
   const [riders, setRiders] = useState<Rider[]>([])
+  const [stores, setStores] = useState<Store[]>([])
   const [loading, setLoading] = useState(true)
+  const [selected, setSelected] = useState<MapMarker | null>(null)
+  const [assigningOrderId, setAssigningOrderId] = useState<string | null>(null)
+  const [trackingSettings, setTrackingSettings] = useState<RiderTrackingSettings>(
+    DEFAULT_RIDER_TRACKING_SETTINGS
+  )
+  const [now, setNow] = useState(() => new Date())
+  const { permissions } = useAuth()
   const supabase = createClient()
 
+  const staleRiderIds = useMemo(
+    () =>
+      new Set(
+        riders
+          .filter((rider) => isLocationStale(rider, trackingSettings, now))
+          .map((rider) => rider.id)
+      ),
+    [riders, trackingSettings, now]
+  )
+
+  const markers = useMemo(
+    () =>
+      buildMapMarkers({
+        orders,
+        riders: riders.map((rider) => ({ ...rider, stale: staleRiderIds.has(rider.id) })),
+        stores,
+      }),
+    [orders, riders, stores, staleRiderIds]
+  )
+
+  // Una ubicación puede quedar desactualizada sin que cambie ningún registro
+  useEffect(() => {
+    getConfig('rider_tracking').then(setTrackingSettings)
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(interval)
+  }, [])
+
   useEffect(() => {
     fetchData()
 
@@ -79,11 +142,10 @@ export function OrdersMapView() {
     setLoading(true)
     try {
       // Fetch pedidos activos
-      const { data: ordersData } = await supabase
-        .from('orders')
-        .select('*, riders(full_name)')
-        .in('status', ['pending', 'assigned', 'in_transit'])
-        .order('created_at', { ascending: false })
+      const { data: ordersData } = await getOrders(
+        { status: ['pending', 'assigned', 'in_transit'] },
+        { page: 1, per_page: MAX_ORDERS_PER_PAGE, total: 0 }
+      )
 
       // Fetch riders activos
       const { data: ridersData } = await supabase
@@ -92,8 +154,20 @@ export function OrdersMapView() {
         .eq('is_active', true)
         .order('full_name')
 
-      setOrders(ordersData || [])
+      // Fetch comercios activos
+      const { data: storesData } = await supabase
+        .from('stores')
+        .select('id, name, address, location')
+        .eq('is_active', true)
+
+      setOrders(
+        ordersData.map((order) => ({
+          ...order,
+          customer_location: parseCoordinates(order.customer_location),
+        }))
+      )
       setRiders(ridersData || [])
+      setStores(storesData || [])
     } catch (error) {
       console.error('Error fetching map data:', error)
     } finally {
@@ -101,16 +175,14 @@ export function OrdersMapView() {
     }
   }
 
-  const getStatusColor = (status: string) => {
-    const colors: Record<string, string> = {
-      available: 'bg-green-500',
-      busy: 'bg-orange-500',
-      offline: 'bg-gray-500',
-    }
-    return colors[status] || 'bg-gray-500'
-  }
+  const selectedOrder =
+    selected?.kind === 'order' ? orders.find((order) => order.id === selected.id) : undefined
+  const selectedRider =
+    selected?.kind === 'rider' ? riders.find((rider) => rider.id === selected.id) : undefined
+  const selectedStore =
+    selected?.kind === 'store' ? stores.find((store) => store.id === selected.id) : undefined
 
-  if (loading) {
+  if (loading && markers.length === 0) {
     return (
       <Card>
         <CardHeader>
@@ -135,7 +207,110 @@ export function OrdersMapView() {
           Vista de Mapa - Pedidos y Riders
         </CardTitle>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
+        <MapView markers={markers} onMarkerClick={setSelected} />
+
+        {/* Leyenda */}
+        <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-full bg-yellow-500" /> Pendiente
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-full bg-blue-500" /> Asignado
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-full bg-purple-500" /> En Camino
+          </span>
+          <span className="flex items-center gap-1">
+            <span className={`h-3 w-3 rounded-full ${getStatusColor('available')}`} /> Rider disponible
+          </span>
+          <span className="flex items-center gap-1">
+            <span className={`h-3 w-3 rounded-full ${getStatusColor('busy')}`} /> Rider ocupado
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-full bg-slate-900" /> Comercio
+          </span>
+        </div>
+
+        {/* Marcador seleccionado */}
+        {selected && (
+          <div className="flex items-start gap-4 rounded-lg border p-4">
+            <div className="flex-1 space-y-1">
+              {selectedOrder && (
+                <>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{selectedOrder.order_number}</p>
+                    <OrderStatus status={selectedOrder.status} />
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {selectedOrder.customer_name} · {selectedOrder.customer_address}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {selectedOrder.riders
+                      ? `Rider: ${selectedOrder.riders.full_name}`
+                      : 'Sin rider asignado'}
+                  </p>
+                </>
+              )}
+              {selectedRider && (
+                <>
+                  <p className="font-medium">{selectedRider.full_name}</p>
+                  <p className="text-sm text-muted-foreground">{selectedRider.phone}</p>
+                  {staleRiderIds.has(selectedRider.id) && (
+                    <p className="flex items-center gap-1 text-sm text-destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      Sin reportar ubicación hace más de{' '}
+                      {trackingSettings.stale_location_minutes} minutos
+                    </p>
+                  )}
+                </>
+              )}
+              {selectedStore && (
+                <>
+                  <p className="flex items-center gap-2 font-medium">
+                    <StoreIcon className="h-4 w-4" />
+                    {selectedStore.name}
+                  </p>
+                  <p className="text-sm text-muted-foreground">{selectedStore.address}</p>
+                </>
+              )}
+            </div>
+            {selectedOrder && (
+              <div className="flex items-center gap-2">
+                <Link href={`/orders/${selectedOrder.id}`}>
+                  <Button variant="outline" size="sm" className="gap-2">
+                    <Eye className="h-4 w-4" />
+                    Ver pedido
+                  </Button>
+                </Link>
+                {canTransition(selectedOrder.status, 'assign', permissions) && (
+                  <Button
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => setAssigningOrderId(selectedOrder.id)}
+                  >
+                    <UserPlus className="h-4 w-4" />
+                    Asignar rider
+                  </Button>
+                )}
+              </div>
+            )}
+            <Button variant="ghost" size="icon-sm" onClick={() => setSelected(null)}>
+              <X className="h-4 w-4" />
+              <span className="sr-only">Cerrar</span>
+            </Button>
+          </div>
+        )}
+
+        {assigningOrderId && (
+          <AssignRiderModal
+            open
+            onOpenChange={(open) => !open && setAssigningOrderId(null)}
+            orderId={assigningOrderId}
+            onSuccess={fetchData}
+          />
+        )}
+
         <Tabs defaultValue="orders" className="w-full">
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="orders" className="gap-2">
@@ -240,6 +415,12 @@ export function OrdersMapView() {
                         {rider.status === 'busy' && 'Ocupado'}
                         {rider.status === 'offline' && 'Desconectado'}
                       </Badge>
+                      {staleRiderIds.has(rider.id) && (
+                        <Badge variant="destructive" className="flex items-center gap-1">
+                          <AlertTriangle className="h-3 w-3" />
+                          Ubicación desactualizada
+                        </Badge>
+                      )}
                     </div>
                     <p className="text-sm text-muted-foreground">
                       {rider.phone}
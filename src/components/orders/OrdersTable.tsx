@@ -1,12 +1,37 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import Link from 'next/link'
-import { createClient } from '@/lib/supabase/client'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
 import { OrderStatus } from './OrderStatus'
-import { OrderFilters, OrderFiltersState } from './OrderFilters'
+import { OrderFilters } from './OrderFilters'
 import { SearchBar } from '@/components/shared/SearchBar'
-import { AssignRiderModal } from './AssignRiderModal'
+import { ExportMenu } from '@/components/shared/ExportMenu'
+import { OrderActions } from './OrderActions'
+import { OrderSavedViews } from './OrderSavedViews'
+import { useAuth } from '@/hooks/useAuth'
+import { autoDispatchPendingOrders } from '@/lib/api/dispatch'
+import { getOrders } from '@/lib/api/orders'
+import { getConfig } from '@/lib/api/config'
+import { toast } from 'sonner'
+import { orderFiltersToSearchParams, parseOrderFilters } from '@/lib/orders/filters'
+import {
+  orderSortToSearchParams,
+  parseOrderSort,
+  type OrderListItem,
+  type OrderSort,
+  type OrderSortField,
+} from '@/lib/orders/query'
+import {
+  DEFAULT_ORDER_VIEW_STATE,
+  ORDER_PAGE_SIZES,
+  ORDER_TABLE_COLUMN_LABELS,
+  ORDER_TABLE_COLUMNS,
+  type OrderTableColumn,
+  type OrderViewState,
+} from '@/lib/orders/views'
+import { localTimeZone } from '@/lib/timezone'
+import type { OrderFilters as OrderFiltersType } from '@/types'
 import {
   Table,
   TableBody,
@@ -17,81 +42,111 @@ import {
 } from '@/components/ui/table'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { Skeleton } from '@/components/ui/skeleton'
-import { ChevronLeft, ChevronRight, Package, Eye, UserPlus } from 'lucide-react'
-
-interface Order {
-  id: string
-  order_number: string
-  status: 'pending' | 'assigned' | 'in_transit' | 'delivered' | 'cancelled'
-  customer_name: string
-  customer_phone: string
-  store_name: string
-  total_amount: number
-  is_urgent: boolean
-  created_at: string
-  delivery_id: string | null
-  riders?: {
-    full_name: string
-  } | null
-}
-
-const ITEMS_PER_PAGE = 10
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+  Columns3,
+  Package,
+  Eye,
+  Zap,
+} from 'lucide-react'
 
+/**
+ * Tabla de pedidos
+ *
+ * Los filtros, la búsqueda y el orden se guardan en la URL (ver
+ * `orderFiltersToSearchParams`), así una vista filtrada se puede compartir
+ * y sobrevive a una recarga. Las vistas guardadas (`OrderSavedViews`)
+ * aplican además las columnas visibles y el tamaño de página; si la URL no
+ * trae parámetros, se abre la vista por defecto del usuario.
+ */
 export function OrdersTable() {
-  const [orders, setOrders] = useState<Order[]>([])
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const [orders, setOrders] = useState<OrderListItem[]>([])
   const [loading, setLoading] = useState(true)
-  const [search, setSearch] = useState('')
-  const [filters, setFilters] = useState<OrderFiltersState>({
-    status: 'all',
-    riderId: 'all',
-    storeId: 'all',
-  })
+  const urlFilters = useMemo(
+    () => parseOrderFilters(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  )
+  const sort = useMemo(
+    () => parseOrderSort(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  )
+  // Sin parámetros en la URL se aplica la vista por defecto (solo al cargar)
+  const [applyDefaultView] = useState(() => searchParams.toString() === '')
+  // La búsqueda se edita en un estado propio (se lee de la URL al cargar)
+  // para que tipear no dependa de la navegación
+  const [search, setSearch] = useState(urlFilters.search ?? '')
+  const filters = useMemo<OrderFiltersType>(
+    () => ({ ...urlFilters, search: search.trim() || undefined }),
+    [urlFilters, search]
+  )
+  const filtersKey = orderFiltersToSearchParams(filters).toString()
+  const [columns, setColumns] = useState<OrderTableColumn[]>(DEFAULT_ORDER_VIEW_STATE.columns)
+  const [pageSize, setPageSize] = useState(DEFAULT_ORDER_VIEW_STATE.page_size)
+  const listKey = `${filtersKey}|${orderSortToSearchParams(sort)}|${pageSize}`
   const [currentPage, setCurrentPage] = useState(1)
-  const [totalCount, setTotalCount] = useState(0)
-  const [assignModalOpen, setAssignModalOpen] = useState(false)
-  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null)
-  const supabase = createClient()
+  const [totalCount, setTotalCount] = useState<number | undefined>(undefined)
+  // Cursor de inicio de cada página visitada (índice 0 = página 1)
+  const [cursors, setCursors] = useState<(string | null)[]>([null])
+  const [autoDispatchEnabled, setAutoDispatchEnabled] = useState(false)
+  const [dispatching, setDispatching] = useState(false)
+  const [paginationKey, setPaginationKey] = useState(listKey)
+  const { user, permissions } = useAuth()
+
+  // Con otros filtros u orden, los cursores y el total ya no sirven: primera página
+  if (paginationKey !== listKey) {
+    setPaginationKey(listKey)
+    setCurrentPage(1)
+    setCursors([null])
+    setTotalCount(undefined)
+  }
 
-  const fetchOrders = async () => {
+  /**
+   * Carga la página actual. Las páginas ya visitadas se leen desde su
+   * cursor y con el total conocido; `recount` vuelve a contar (ej: después
+   * de una acción que cambia el listado).
+   */
+  const fetchOrders = async (recount = false) => {
     setLoading(true)
     try {
-      let query = supabase
-        .from('orders')
-        .select('*, riders(full_name)', { count: 'exact' })
-        .order('created_at', { ascending: false })
-
-      // Aplicar filtro de búsqueda por order_number
-      if (search) {
-        query = query.ilike('order_number', `%${search}%`)
-      }
-
-      // Aplicar filtro de estado
-      if (filters.status !== 'all') {
-        query = query.eq('status', filters.status)
-      }
-
-      // Aplicar filtro de rider
-      if (filters.riderId !== 'all') {
-        query = query.eq('delivery_id', filters.riderId)
-      }
-
-      // Aplicar filtro de store
-      if (filters.storeId !== 'all') {
-        query = query.eq('store_id', filters.storeId)
-      }
-
-      // Paginación
-      const from = (currentPage - 1) * ITEMS_PER_PAGE
-      const to = from + ITEMS_PER_PAGE - 1
-      query = query.range(from, to)
-
-      const { data, count, error } = await query
-
-      if (error) throw error
+      const result = await getOrders(
+        filters,
+        {
+          page: currentPage,
+          per_page: pageSize,
+          cursor: cursors[currentPage - 1] ?? null,
+          total: recount ? undefined : totalCount,
+        },
+        sort
+      )
 
-      setOrders(data || [])
-      setTotalCount(count || 0)
+      setOrders(result.data)
+      setTotalCount(result.total)
+      setCursors((current) => {
+        const next = current.slice(0, currentPage)
+        next[currentPage] = result.next_cursor
+        return next
+      })
     } catch (error) {
       console.error('Error fetching orders:', error)
     } finally {
@@ -101,32 +156,116 @@ export function OrdersTable() {
 
   useEffect(() => {
     fetchOrders()
-  }, [search, filters, currentPage]) // eslint-disable-line react-hooks/exhaustive-deps
+  }, [listKey, currentPage]) // eslint-disable-line react-hooks/exhaustive-deps
 
-  const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE)
+  useEffect(() => {
+    getConfig('dispatch_settings').then((settings) => setAutoDispatchEnabled(settings.auto_assign_enabled))
+  }, [])
+
+  const total = totalCount ?? 0
+  const totalPages = Math.ceil(total / pageSize)
+  const hasNextPage = !!cursors[currentPage]
+  const exportParams = orderFiltersToSearchParams(filters)
+  orderSortToSearchParams(sort).forEach((value, key) => exportParams.set(key, value))
+  exportParams.set('tz', localTimeZone())
+  const viewState: OrderViewState = { filters, sort, columns, page_size: pageSize }
+  const showColumn = (column: OrderTableColumn) => columns.includes(column)
+
+  /**
+   * Reemplaza los filtros y el orden de la URL (sin agregar entradas al
+   * historial)
+   */
+  const replaceUrlFilters = (newFilters: OrderFiltersType, newSort: OrderSort = sort) => {
+    const params = orderFiltersToSearchParams(newFilters)
+    orderSortToSearchParams(newSort).forEach((value, key) => params.set(key, value))
+    const query = params.toString()
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+  }
+
+  const applyView = (state: OrderViewState) => {
+    setSearch(state.filters.search ?? '')
+    setColumns(state.columns)
+    setPageSize(state.page_size)
+    replaceUrlFilters(state.filters, state.sort)
+  }
+
+  /**
+   * Ordena por una columna; un segundo clic invierte el sentido
+   */
+  const toggleSort = (field: OrderSortField) => {
+    replaceUrlFilters(filters, {
+      field,
+      direction: sort.field === field && sort.direction === 'desc' ? 'asc' : 'desc',
+    })
+  }
 
-  const handleFilterChange = (newFilters: OrderFiltersState) => {
-    setFilters(newFilters)
-    setCurrentPage(1) // Reset a primera página
+  const toggleColumn = (column: OrderTableColumn, checked: boolean) => {
+    // Al menos una columna además del ID
+    const next = ORDER_TABLE_COLUMNS.filter((c) => (c === column ? checked : columns.includes(c)))
+    if (next.length > 0) setColumns(next)
+  }
+
+  const sortHeader = (field: OrderSortField, label: string) => {
+    const SortIcon = sort.field !== field ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown
+    return (
+      <Button variant="ghost" size="sm" className="-ml-3 gap-1" onClick={() => toggleSort(field)}>
+        {label}
+        <SortIcon className="h-3 w-3" />
+      </Button>
+    )
+  }
+
+  const handleFilterChange = (newFilters: OrderFiltersType) => {
+    replaceUrlFilters({ ...newFilters, search: filters.search })
   }
 
   const handleSearchChange = (value: string) => {
     setSearch(value)
-    setCurrentPage(1) // Reset a primera página
+    replaceUrlFilters({ ...urlFilters, search: value.trim() || undefined })
   }
 
-  const handleAssignRider = (orderId: string) => {
-    setSelectedOrderId(orderId)
-    setAssignModalOpen(true)
+  const handleActionSuccess = () => {
+    fetchOrders(true) // Recargar tabla después de una transición
   }
 
-  const handleAssignSuccess = () => {
-    fetchOrders() // Recargar tabla después de asignar
+  const handleAutoDispatchPending = async () => {
+    setDispatching(true)
+    try {
+      const { assigned, unassigned } = await autoDispatchPendingOrders()
+      if (assigned === 0 && unassigned === 0) {
+        toast.info('No hay pedidos pendientes')
+      } else if (unassigned === 0) {
+        toast.success(`${assigned} pedido${assigned !== 1 ? 's' : ''} asignado${assigned !== 1 ? 's' : ''}`)
+      } else {
+        toast.warning(
+          `${assigned} asignado${assigned !== 1 ? 's' : ''}, ${unassigned} sin rider elegible`
+        )
+      }
+      fetchOrders(true)
+    } catch (error) {
+      console.error('Error auto-dispatching pending orders:', error)
+      toast.error('Error inesperado al despachar pedidos')
+    } finally {
+      setDispatching(false)
+    }
   }
 
+  // Las vistas guardadas quedan montadas mientras carga la tabla: al
+  // desmontarse volverían a aplicar la vista por defecto
+  const savedViews = (
+    <OrderSavedViews
+      state={viewState}
+      onApply={applyView}
+      applyDefault={applyDefaultView}
+      currentUserId={user?.id}
+    />
+  )
+
   if (loading && orders.length === 0) {
     return (
       <div className="space-y-4">
+        {savedViews}
+
         <Card>
           <CardHeader>
             <Skeleton className="h-8 w-48" />
@@ -145,16 +284,19 @@ export function OrdersTable() {
 
   return (
     <div className="space-y-4">
+      {/* Vistas guardadas */}
+      {savedViews}
+
       {/* Búsqueda */}
       <SearchBar
         value={search}
         onChange={handleSearchChange}
-        placeholder="Buscar por ID de pedido..."
+        placeholder="Buscar por pedido, cliente o teléfono..."
         className="max-w-md"
       />
 
       {/* Filtros */}
-      <OrderFilters onFilterChange={handleFilterChange} />
+      <OrderFilters value={filters} onChange={handleFilterChange} />
 
       {/* Tabla */}
       <Card>
@@ -162,8 +304,63 @@ export function OrdersTable() {
           <div className="flex items-center justify-between">
             <CardTitle className="flex items-center gap-2">
               <Package className="h-5 w-5" />
-              Pedidos ({totalCount})
+              Pedidos ({total})
             </CardTitle>
+            <div className="flex items-center gap-2">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="gap-2">
+                    <Columns3 className="h-4 w-4" />
+                    Columnas
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {ORDER_TABLE_COLUMNS.map((column) => (
+                    <DropdownMenuCheckboxItem
+                      key={column}
+                      checked={columns.includes(column)}
+                      disabled={columns.length === 1 && columns.includes(column)}
+                      onCheckedChange={(checked) => toggleColumn(column, checked === true)}
+                      onSelect={(e) => e.preventDefault()}
+                    >
+                      {ORDER_TABLE_COLUMN_LABELS[column]}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Select
+                value={String(pageSize)}
+                onValueChange={(value) => setPageSize(Number(value))}
+              >
+                <SelectTrigger size="sm" className="w-[120px]" aria-label="Pedidos por página">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ORDER_PAGE_SIZES.map((size) => (
+                    <SelectItem key={size} value={String(size)}>
+                      {size} por página
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {autoDispatchEnabled && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={handleAutoDispatchPending}
+                  disabled={dispatching}
+                >
+                  <Zap className="h-4 w-4" />
+                  {dispatching ? 'Despachando...' : 'Auto-despachar pendientes'}
+                </Button>
+              )}
+              <ExportMenu
+                path="/api/exports/orders"
+                params={exportParams}
+                disabled={total === 0}
+              />
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -172,7 +369,7 @@ export function OrdersTable() {
               <Package className="h-12 w-12 text-muted-foreground mb-4" />
               <h3 className="text-lg font-semibold mb-1">No hay pedidos</h3>
               <p className="text-sm text-muted-foreground">
-                {search || filters.status !== 'all' || filters.riderId !== 'all' || filters.storeId !== 'all'
+                {filtersKey
                   ? 'No se encontraron pedidos con los filtros aplicados'
                   : 'Aún no hay pedidos registrados'}
               </p>
@@ -184,12 +381,16 @@ export function OrdersTable() {
                   <TableHeader>
                     <TableRow>
                       <TableHead>ID</TableHead>
-                      <TableHead>Cliente</TableHead>
-                      <TableHead>Comercio</TableHead>
-                      <TableHead>Rider</TableHead>
-                      <TableHead>Total</TableHead>
-                      <TableHead>Estado</TableHead>
-                      <TableHead>Fecha</TableHead>
+                      {showColumn('customer') && <TableHead>Cliente</TableHead>}
+                      {showColumn('store') && <TableHead>Comercio</TableHead>}
+                      {showColumn('rider') && <TableHead>Rider</TableHead>}
+                      {showColumn('total') && (
+                        <TableHead>{sortHeader('total_amount', 'Total')}</TableHead>
+                      )}
+                      {showColumn('status') && <TableHead>Estado</TableHead>}
+                      {showColumn('created_at') && (
+                        <TableHead>{sortHeader('created_at', 'Fecha')}</TableHead>
+                      )}
                       <TableHead className="text-right">Acciones</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -204,35 +405,45 @@ export function OrdersTable() {
                             </span>
                           )}
                         </TableCell>
-                        <TableCell>
-                          <div className="flex flex-col">
-                            <span className="font-medium">{order.customer_name}</span>
-                            <span className="text-xs text-muted-foreground">
-                              {order.customer_phone}
-                            </span>
-                          </div>
-                        </TableCell>
-                        <TableCell>{order.store_name}</TableCell>
-                        <TableCell>
-                          {order.riders?.full_name || (
-                            <span className="text-muted-foreground">Sin asignar</span>
-                          )}
-                        </TableCell>
-                        <TableCell className="font-medium">
-                          ${order.total_amount.toFixed(2)}
-                        </TableCell>
-                        <TableCell>
-                          <OrderStatus status={order.status} />
-                        </TableCell>
-                        <TableCell className="text-sm text-muted-foreground">
-                          {new Date(order.created_at).toLocaleDateString('es-ES', {
-                            day: '2-digit',
-                            month: 'short',
-                            year: 'numeric',
-                            hour: '2-digit',
-                            minute: '2-digit',
-                          })}
-                        </TableCell>
+                        {showColumn('customer') && (
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span className="font-medium">{order.customer_name}</span>
+                              <span className="text-xs text-muted-foreground">
+                                {order.customer_phone}
+                              </span>
+                            </div>
+                          </TableCell>
+                        )}
+                        {showColumn('store') && <TableCell>{order.store_name}</TableCell>}
+                        {showColumn('rider') && (
+                          <TableCell>
+                            {order.riders?.full_name || (
+                              <span className="text-muted-foreground">Sin asignar</span>
+                            )}
+                          </TableCell>
+                        )}
+                        {showColumn('total') && (
+                          <TableCell className="font-medium">
+                            ${order.total_amount.toFixed(2)}
+                          </TableCell>
+                        )}
+                        {showColumn('status') && (
+                          <TableCell>
+                            <OrderStatus status={order.status} />
+                          </TableCell>
+                        )}
+                        {showColumn('created_at') && (
+                          <TableCell className="text-sm text-muted-foreground">
+                            {new Date(order.created_at).toLocaleDateString('es-ES', {
+                              day: '2-digit',
+                              month: 'short',
+                              year: 'numeric',
+                              hour: '2-digit',
+                              minute: '2-digit',
+                            })}
+                          </TableCell>
+                        )}
                         <TableCell className="text-right">
                           <div className="flex items-center justify-end gap-2">
                             <Link href={`/orders/${order.id}`}>
@@ -241,17 +452,13 @@ export function OrdersTable() {
                                 Ver
                               </Button>
                             </Link>
-                            {order.status === 'pending' && (
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                className="gap-2"
-                                onClick={() => handleAssignRider(order.id)}
-                              >
-                                <UserPlus className="h-4 w-4" />
-                                Asignar Rider
-                              </Button>
-                            )}
+                            <OrderActions
+                              order={order}
+                              permissions={permissions}
+                              variant="menu"
+                              autoDispatchEnabled={autoDispatchEnabled}
+                              onSuccess={handleActionSuccess}
+                            />
                           </div>
                         </TableCell>
                       </TableRow>
@@ -264,8 +471,8 @@ export function OrdersTable() {
               {totalPages > 1 && (
                 <div className="flex items-center justify-between mt-4">
                   <div className="text-sm text-muted-foreground">
-                    Mostrando {(currentPage - 1) * ITEMS_PER_PAGE + 1} -{' '}
-                    {Math.min(currentPage * ITEMS_PER_PAGE, totalCount)} de {totalCount}{' '}
+                    Mostrando {(currentPage - 1) * pageSize + 1} -{' '}
+                    {Math.min(currentPage * pageSize, total)} de {total}{' '}
                     pedidos
                   </div>
                   <div className="flex items-center gap-2">
@@ -284,8 +491,8 @@ export function OrdersTable() {
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
-                      disabled={currentPage === totalPages}
+                      onClick={() => setCurrentPage((p) => p + 1)}
+                      disabled={!hasNextPage}
                     >
                       Siguiente
                       <ChevronRight className="h-4 w-4" />
@@ -297,16 +504,6 @@ export function OrdersTable() {
           )}
         </CardContent>
       </Card>
-
-      {/* Modal de asignación */}
-      {selectedOrderId && (
-        <AssignRiderModal
-          open={assignModalOpen}
-          onOpenChange={setAssignModalOpen}
-          orderId={selectedOrderId}
-          onSuccess={handleAssignSuccess}
-        />
-      )}
     </div>
   )
 }
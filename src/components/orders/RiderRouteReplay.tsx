@@ -0,0 +1,169 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Pause, Play, Route } from 'lucide-react'
+import { MapView } from '@/components/map/MapView'
+import { getRiderRoute, type RiderRoutePoint } from '@/lib/api/riders'
+import { parseCoordinates } from '@/lib/geo'
+import { toHexColor, type MapMarker } from '@/lib/map/markers'
+import type { Json } from '@/types'
+
+interface RiderRouteReplayProps {
+  riderId: string
+  riderName: string
+  /** Inicio del recorrido (`assigned_at`) */
+  from: string
+  /** Fin del recorrido (`delivered_at`); si es null, hasta ahora */
+  to: string | null
+  storeLocation?: Json | null
+  customerLocation?: Json | null
+}
+
+/** Intervalo entre puntos al reproducir el recorrido */
+const PLAYBACK_INTERVAL_MS = 500
+
+/**
+ * Reproduce el recorrido de un rider durante un pedido
+ *
+ * Dibuja los puntos de `rider_locations` entre la asignación y la entrega,
+ * con un control para avanzar punto por punto o reproducirlo.
+ */
+export function RiderRouteReplay({
+  riderId,
+  riderName,
+  from,
+  to,
+  storeLocation,
+  customerLocation,
+}: RiderRouteReplayProps) {
+  const [points, setPoints] = useState<RiderRoutePoint[]>([])
+  const [loading, setLoading] = useState(true)
+  const [index, setIndex] = useState(0)
+  const [playing, setPlaying] = useState(false)
+
+  useEffect(() => {
+    getRiderRoute(riderId, from, to).then((route) => {
+      setPoints(route)
+      setIndex(Math.max(route.length - 1, 0))
+      setLoading(false)
+    })
+  }, [riderId, from, to])
+
+  // Avanza un punto por paso y se detiene al llegar al último
+  useEffect(() => {
+    if (!playing) return
+
+    const timeout = setTimeout(() => {
+      const next = Math.min(index + 1, points.length - 1)
+      setIndex(next)
+      if (next >= points.length - 1) setPlaying(false)
+    }, PLAYBACK_INTERVAL_MS)
+
+    return () => clearTimeout(timeout)
+  }, [playing, index, points.length])
+
+  const markers = useMemo(() => {
+    const result: MapMarker[] = []
+    const store = parseCoordinates(storeLocation)
+    const customer = parseCoordinates(customerLocation)
+    const current = points[index]
+
+    if (store) {
+      result.push({
+        key: 'store',
+        kind: 'store',
+        id: 'store',
+        position: store,
+        color: toHexColor('bg-slate-900'),
+        label: 'C',
+        title: 'Comercio',
+      })
+    }
+    if (customer) {
+      result.push({
+        key: 'customer',
+        kind: 'order',
+        id: 'customer',
+        position: customer,
+        color: toHexColor('bg-green-500'),
+        label: 'P',
+        title: 'Cliente',
+      })
+    }
+    if (current) {
+      result.push({
+        key: 'rider',
+        kind: 'rider',
+        id: riderId,
+        position: current.position,
+        color: toHexColor('bg-orange-500'),
+        label: 'R',
+        title: riderName,
+      })
+    }
+
+    return result
+  }, [points, index, storeLocation, customerLocation, riderId, riderName])
+
+  const handlePlay = () => {
+    if (index >= points.length - 1) setIndex(0)
+    setPlaying((current) => !current)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Route className="h-5 w-5" />
+          Recorrido del Rider
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <Skeleton className="h-[360px] w-full" />
+        ) : points.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No hay ubicaciones registradas de {riderName} para este pedido
+          </p>
+        ) : (
+          <>
+            <MapView
+              markers={markers}
+              path={points.slice(0, index + 1).map((point) => point.position)}
+              cluster={false}
+              className="h-[360px]"
+            />
+            <div className="flex items-center gap-3">
+              <Button variant="outline" size="icon-sm" onClick={handlePlay}>
+                {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                <span className="sr-only">{playing ? 'Pausar' : 'Reproducir'}</span>
+              </Button>
+              <input
+                type="range"
+                min={0}
+                max={points.length - 1}
+                value={index}
+                onChange={(e) => {
+                  setPlaying(false)
+                  setIndex(Number(e.target.value))
+                }}
+                className="flex-1 accent-primary"
+                aria-label="Posición en el recorrido"
+              />
+              <span className="w-24 text-right text-sm text-muted-foreground">
+                {new Date(points[index].recorded_at).toLocaleTimeString('es-ES', {
+                  hour: '2-digit',
+                  minute: '2-digit',
+                  second: '2-digit',
+                })}
+              </span>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,151 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { BookmarkPlus } from 'lucide-react'
+import {
+  createOrderSavedView,
+  setDefaultOrderView,
+  updateOrderSavedView,
+} from '@/lib/api/order-views'
+import type { OrderViewState } from '@/lib/orders/views'
+import type { OrderSavedView } from '@/types'
+
+interface SaveOrderViewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Estado actual de la tabla (se guarda al crear la vista) */
+  state: OrderViewState
+  /** Vista a editar; sin vista se crea una nueva */
+  view?: OrderSavedView
+  /** Si la vista es la vista por defecto del usuario */
+  isDefault?: boolean
+  onSuccess: (view: OrderSavedView) => void
+}
+
+/**
+ * Guarda el estado de la tabla de pedidos como vista, o cambia el nombre y
+ * las opciones de una vista existente
+ */
+export function SaveOrderViewDialog({
+  open,
+  onOpenChange,
+  state,
+  view,
+  isDefault = false,
+  onSuccess,
+}: SaveOrderViewDialogProps) {
+  const [name, setName] = useState(view?.name ?? '')
+  const [shared, setShared] = useState(view?.is_shared ?? false)
+  const [makeDefault, setMakeDefault] = useState(isDefault)
+  const [saving, setSaving] = useState(false)
+
+  const handleSave = async () => {
+    if (!name.trim()) return
+
+    setSaving(true)
+    try {
+      const result = view
+        ? await updateOrderSavedView(view.id, { name, is_shared: shared })
+        : await createOrderSavedView({ name, is_shared: shared, state })
+
+      if (!result.success || !result.view) {
+        toast.error(result.error || 'Error al guardar la vista')
+        return
+      }
+
+      if (makeDefault !== isDefault) {
+        const defaultResult = await setDefaultOrderView(makeDefault ? result.view.id : null)
+        if (!defaultResult.success) {
+          toast.error(defaultResult.error || 'Error al elegir la vista por defecto')
+        }
+      }
+
+      toast.success(view ? 'Vista actualizada' : `Vista "${result.view.name}" guardada`)
+      onOpenChange(false)
+      onSuccess(result.view)
+    } catch (error) {
+      console.error('Error saving order view:', error)
+      toast.error('Error inesperado al guardar la vista')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookmarkPlus className="h-5 w-5" />
+            {view ? 'Editar vista' : 'Guardar vista'}
+          </DialogTitle>
+          <DialogDescription>
+            {view
+              ? 'Cambia el nombre y las opciones de la vista.'
+              : 'Guarda los filtros, el orden, las columnas y el tamaño de página actuales.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="order-view-name">Nombre</Label>
+            <Input
+              id="order-view-name"
+              value={name}
+              maxLength={60}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Ej: Urgentes pendientes"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              id="order-view-shared"
+              type="checkbox"
+              checked={shared}
+              onChange={(e) => setShared(e.target.checked)}
+              className="h-4 w-4 accent-primary"
+            />
+            <Label htmlFor="order-view-shared" className="font-normal">
+              Compartir con el equipo
+            </Label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              id="order-view-default"
+              type="checkbox"
+              checked={makeDefault}
+              onChange={(e) => setMakeDefault(e.target.checked)}
+              className="h-4 w-4 accent-primary"
+            />
+            <Label htmlFor="order-view-default" className="font-normal">
+              Abrir esta vista por defecto
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Volver
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !name.trim()}>
+            {saving ? 'Guardando...' : 'Guardar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,160 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { CheckCircle2, MoreHorizontal, SlidersHorizontal } from 'lucide-react'
+import { RiderAdjustmentsDialog } from './RiderAdjustmentsDialog'
+import { settleRiderPeriod } from '@/lib/api/payouts'
+import { formatSettlementPeriod, type SettlementPeriod } from '@/lib/periods'
+import type { RiderStatement } from '@/lib/payouts/statement'
+
+interface PayoutActionsProps {
+  statement: RiderStatement
+  period: SettlementPeriod
+  settled: boolean
+  /** El período terminó y se puede liquidar */
+  periodClosed: boolean
+  /** Se llama después de cualquier cambio en ajustes o liquidaciones */
+  onSuccess: () => void
+}
+
+/**
+ * Acciones sobre la liquidación de un rider: ajustes manuales y cierre
+ */
+export function PayoutActions({
+  statement,
+  period,
+  settled,
+  periodClosed,
+  onSuccess,
+}: PayoutActionsProps) {
+  const [dialog, setDialog] = useState<'adjustments' | 'settle' | null>(null)
+  const [notes, setNotes] = useState('')
+  const [running, setRunning] = useState(false)
+
+  const handleSettle = async () => {
+    setRunning(true)
+    try {
+      const result = await settleRiderPeriod(statement.rider_id, period, notes.trim())
+      if (result.success) {
+        toast.success(`Liquidación de ${statement.rider_name} cerrada`)
+        setDialog(null)
+        onSuccess()
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      console.error('Error settling rider:', error)
+      toast.error('Error inesperado al liquidar')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const closeDialog = (open: boolean) => {
+    if (!open) setDialog(null)
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon-sm">
+            <MoreHorizontal className="h-4 w-4" />
+            <span className="sr-only">Acciones</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => setDialog('adjustments')}>
+            <SlidersHorizontal className="h-4 w-4" />
+            {settled ? 'Ver ajustes' : 'Ajustes'}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={settled || !periodClosed}
+            onSelect={() => setDialog('settle')}
+          >
+            <CheckCircle2 className="h-4 w-4" />
+            {periodClosed ? 'Liquidar' : 'Liquidar (al cerrar el período)'}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {dialog === 'adjustments' && (
+        <RiderAdjustmentsDialog
+          open
+          onOpenChange={closeDialog}
+          statement={statement}
+          period={period}
+          settled={settled}
+          onSuccess={onSuccess}
+        />
+      )}
+
+      {dialog === 'settle' && (
+        <Dialog open onOpenChange={closeDialog}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Liquidar a {statement.rider_name}</DialogTitle>
+              <DialogDescription>
+                {formatSettlementPeriod(period)}. Los montos se recalculan al confirmar con
+                las entregas y ajustes vigentes; una vez liquidado, el período no admite más
+                ajustes.
+              </DialogDescription>
+            </DialogHeader>
+
+            <dl className="grid grid-cols-2 gap-y-1 text-sm">
+              <dt className="text-muted-foreground">Entregas</dt>
+              <dd className="text-right">{statement.deliveries}</dd>
+              <dt className="text-muted-foreground">Costos de envío</dt>
+              <dd className="text-right">${statement.gross_fees.toFixed(2)}</dd>
+              <dt className="text-muted-foreground">Comisión</dt>
+              <dd className="text-right">-${statement.commission.toFixed(2)}</dd>
+              <dt className="text-muted-foreground">Bonos</dt>
+              <dd className="text-right">${statement.bonuses.toFixed(2)}</dd>
+              <dt className="text-muted-foreground">Ajustes</dt>
+              <dd className="text-right">${statement.adjustments.toFixed(2)}</dd>
+              <dt className="font-semibold">Total a pagar</dt>
+              <dd className="text-right font-semibold">${statement.total.toFixed(2)}</dd>
+            </dl>
+
+            <div className="space-y-2">
+              <Label htmlFor="settlement-notes">Nota (opcional)</Label>
+              <Input
+                id="settlement-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Ej: Transferencia #1234"
+              />
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialog(null)} disabled={running}>
+                Volver
+              </Button>
+              <Button onClick={handleSettle} disabled={running}>
+                {running ? 'Liquidando...' : 'Confirmar liquidación'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,343 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { CheckCircle2, ChevronLeft, ChevronRight, DollarSign, Percent, Users, Wallet } from 'lucide-react'
+import { ExportMenu } from '@/components/shared/ExportMenu'
+import { PayoutActions } from './PayoutActions'
+import { getPayoutPeriodData, type PayoutPeriodData } from '@/lib/api/payouts'
+import { getConfig } from '@/lib/api/config'
+import type { PayoutSettings } from '@/lib/payouts/settings'
+import { buildRiderStatement, type RiderStatement } from '@/lib/payouts/statement'
+import {
+  formatSettlementPeriod,
+  getSettlementPeriod,
+  PERIOD_FREQUENCY_LABELS,
+  shiftSettlementPeriod,
+  type SettlementPeriod,
+} from '@/lib/periods'
+import type { RiderSettlement } from '@/types'
+
+interface PayoutRow {
+  statement: RiderStatement
+  /** Liquidación que cubre el período, si existe */
+  settlement: RiderSettlement | null
+}
+
+/**
+ * Usa los totales guardados al liquidar, que no cambian aunque después se
+ * modifiquen las reglas o los pedidos
+ */
+function withSettledTotals(
+  statement: RiderStatement,
+  settlement: RiderSettlement | null,
+  period: SettlementPeriod
+): RiderStatement {
+  if (
+    !settlement ||
+    settlement.period_start !== period.start ||
+    settlement.period_end !== period.end
+  ) {
+    return statement
+  }
+
+  return {
+    ...statement,
+    deliveries: settlement.deliveries,
+    gross_fees: settlement.gross_fees,
+    commission: settlement.commission,
+    bonuses: settlement.bonuses,
+    adjustments: settlement.adjustments,
+    total: settlement.total,
+  }
+}
+
+/**
+ * Liquidaciones de riders por período: lo que se le debe a cada uno,
+ * ajustes manuales, cierre y estados de cuenta
+ */
+export function PayoutsView() {
+  const [settings, setSettings] = useState<PayoutSettings | null>(null)
+  const [period, setPeriod] = useState<SettlementPeriod | null>(null)
+  const [data, setData] = useState<PayoutPeriodData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  useEffect(() => {
+    getConfig('payout_settings').then((result) => {
+      setSettings(result)
+      setPeriod(getSettlementPeriod(new Date(), result.period))
+    })
+  }, [])
+
+  useEffect(() => {
+    if (!period) return
+    let cancelled = false
+
+    getPayoutPeriodData(period)
+      .then((result) => {
+        if (!cancelled) {
+          setData(result)
+          setSettings(result.settings)
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [period, refreshKey])
+
+  const rows = useMemo<PayoutRow[]>(() => {
+    if (!data || !period) return []
+
+    return data.riders
+      .map((rider) => {
+        const settlement = data.settlements.find((s) => s.rider_id === rider.id) ?? null
+        const statement = buildRiderStatement(rider, data.orders, data.adjustments, data.settings)
+        return { statement: withSettledTotals(statement, settlement, period), settlement }
+      })
+      .filter(
+        ({ statement, settlement }) =>
+          settlement || statement.deliveries > 0 || statement.adjustment_items.length > 0
+      )
+      .sort(
+        (a, b) =>
+          b.statement.total - a.statement.total ||
+          a.statement.rider_name.localeCompare(b.statement.rider_name)
+      )
+  }, [data, period])
+
+  const handleShift = (step: number) => {
+    if (!period || !settings) return
+    setLoading(true)
+    setPeriod(shiftSettlementPeriod(period, settings.period, step))
+  }
+
+  const handleChange = () => {
+    setRefreshKey((key) => key + 1)
+  }
+
+  const periodClosed = period ? period.end < format(new Date(), 'yyyy-MM-dd') : false
+  const totalToPay = rows.reduce((sum, row) => sum + row.statement.total, 0)
+  const totalCommission = rows.reduce((sum, row) => sum + row.statement.commission, 0)
+  const settledCount = rows.filter((row) => row.settlement).length
+
+  const stats = [
+    {
+      title: 'Riders',
+      value: rows.length.toString(),
+      icon: Users,
+      description: 'Con entregas o ajustes en el período',
+    },
+    {
+      title: 'Total a Pagar',
+      value: `$${totalToPay.toFixed(2)}`,
+      icon: DollarSign,
+      description: 'Envíos menos comisión, más bonos y ajustes',
+    },
+    {
+      title: 'Comisión Plataforma',
+      value: `$${totalCommission.toFixed(2)}`,
+      icon: Percent,
+      description: settings
+        ? `${(settings.platform_commission_rate * 100).toFixed(0)}% de cada envío`
+        : '—',
+    },
+    {
+      title: 'Liquidados',
+      value: `${settledCount}/${rows.length}`,
+      icon: CheckCircle2,
+      description: periodClosed ? 'Período cerrado' : 'El período sigue abierto',
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      {/* Período */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon-sm"
+            disabled={!period}
+            onClick={() => handleShift(-1)}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Período anterior</span>
+          </Button>
+          <span className="min-w-48 text-center font-medium">
+            {period ? formatSettlementPeriod(period) : '—'}
+          </span>
+          <Button
+            variant="outline"
+            size="icon-sm"
+            disabled={!period || !periodClosed}
+            onClick={() => handleShift(1)}
+          >
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Período siguiente</span>
+          </Button>
+        </div>
+        {settings && (
+          <p className="text-sm text-muted-foreground">
+            Liquidación {PERIOD_FREQUENCY_LABELS[settings.period].toLowerCase()} · Bono por
+            entrega ${settings.per_delivery_bonus.toFixed(2)} · Bono urgente $
+            {settings.urgent_bonus.toFixed(2)}
+          </p>
+        )}
+      </div>
+
+      {loading || !period || !settings ? (
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            {[1, 2, 3, 4].map((i) => (
+              <Skeleton key={i} className="h-28 w-full" />
+            ))}
+          </div>
+          <Skeleton className="h-[300px] w-full" />
+        </div>
+      ) : (
+        <>
+          {/* Resumen */}
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            {stats.map((stat) => {
+              const Icon = stat.icon
+              return (
+                <Card key={stat.title}>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">{stat.title}</CardTitle>
+                    <Icon className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{stat.value}</div>
+                    <p className="text-xs text-muted-foreground">{stat.description}</p>
+                  </CardContent>
+                </Card>
+              )
+            })}
+          </div>
+
+          {/* Riders */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Wallet className="h-5 w-5" />
+                Liquidaciones ({rows.length})
+              </CardTitle>
+              <CardDescription>
+                Entregas con fecha de entrega dentro del período
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {rows.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                  <Wallet className="h-12 w-12 text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-semibold mb-1">Sin movimientos</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Ningún rider tuvo entregas ni ajustes en el período
+                  </p>
+                </div>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Rider</TableHead>
+                        <TableHead className="text-right">Entregas</TableHead>
+                        <TableHead className="text-right">Envíos</TableHead>
+                        <TableHead className="text-right">Comisión</TableHead>
+                        <TableHead className="text-right">Bonos</TableHead>
+                        <TableHead className="text-right">Ajustes</TableHead>
+                        <TableHead className="text-right">Total</TableHead>
+                        <TableHead>Estado</TableHead>
+                        <TableHead className="text-right">Acciones</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.map(({ statement, settlement }) => (
+                        <TableRow key={statement.rider_id}>
+                          <TableCell className="font-medium">
+                            <Link
+                              href={`/riders/${statement.rider_id}`}
+                              className="hover:underline"
+                            >
+                              {statement.rider_name}
+                            </Link>
+                          </TableCell>
+                          <TableCell className="text-right">{statement.deliveries}</TableCell>
+                          <TableCell className="text-right">
+                            ${statement.gross_fees.toFixed(2)}
+                          </TableCell>
+                          <TableCell className="text-right text-muted-foreground">
+                            -${statement.commission.toFixed(2)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            ${statement.bonuses.toFixed(2)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            ${statement.adjustments.toFixed(2)}
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">
+                            ${statement.total.toFixed(2)}
+                          </TableCell>
+                          <TableCell>
+                            {settlement ? (
+                              <Badge className="bg-green-500 text-white">
+                                Liquidado {format(new Date(settlement.settled_at), 'dd/MM')}
+                              </Badge>
+                            ) : (
+                              <Badge variant="outline">Pendiente</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center justify-end gap-1">
+                              <ExportMenu
+                                path="/api/exports/payouts"
+                                params={
+                                  new URLSearchParams({
+                                    rider_id: statement.rider_id,
+                                    start: period.start,
+                                    end: period.end,
+                                  })
+                                }
+                                label="Estado de cuenta"
+                                size="icon-sm"
+                              />
+                              <PayoutActions
+                                statement={statement}
+                                period={period}
+                                settled={Boolean(settlement)}
+                                periodClosed={periodClosed}
+                                onSuccess={handleChange}
+                              />
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
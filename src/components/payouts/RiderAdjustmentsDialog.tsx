@@ -0,0 +1,251 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Trash2 } from 'lucide-react'
+import { createRiderAdjustment, deleteRiderAdjustment } from '@/lib/api/payouts'
+import {
+  ADJUSTMENT_KIND_LABELS,
+  riderAdjustmentFormSchema,
+  type RiderAdjustmentFormValues,
+} from '@/lib/payouts/schema'
+import { formatSettlementPeriod, type SettlementPeriod } from '@/lib/periods'
+import type { RiderStatement } from '@/lib/payouts/statement'
+
+interface RiderAdjustmentsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  statement: RiderStatement
+  period: SettlementPeriod
+  /** Si el período ya está liquidado, los ajustes son de solo lectura */
+  settled: boolean
+  onSuccess: () => void
+}
+
+/**
+ * Ajustes manuales (bonos y descuentos) de un rider en un período
+ */
+export function RiderAdjustmentsDialog({
+  open,
+  onOpenChange,
+  statement,
+  period,
+  settled,
+  onSuccess,
+}: RiderAdjustmentsDialogProps) {
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  // Por defecto se imputa a hoy, o al último día si el período ya terminó
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const form = useForm<RiderAdjustmentFormValues>({
+    resolver: zodResolver(riderAdjustmentFormSchema),
+    defaultValues: {
+      kind: 'bonus',
+      amount: Number.NaN,
+      effective_date: today < period.start || today > period.end ? period.end : today,
+      reason: '',
+    },
+  })
+
+  const onSubmit = async (values: RiderAdjustmentFormValues) => {
+    const result = await createRiderAdjustment(statement.rider_id, values)
+
+    if (!result.success) {
+      toast.error(result.error)
+      return
+    }
+
+    toast.success(`${ADJUSTMENT_KIND_LABELS[values.kind]} registrado`)
+    form.reset({ ...values, amount: Number.NaN, reason: '' })
+    onSuccess()
+  }
+
+  const handleDelete = async (adjustmentId: string) => {
+    setDeletingId(adjustmentId)
+    try {
+      const result = await deleteRiderAdjustment(adjustmentId)
+      if (result.success) {
+        toast.success('Ajuste eliminado')
+        onSuccess()
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      console.error('Error deleting adjustment:', error)
+      toast.error('Error inesperado al eliminar el ajuste')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Ajustes de {statement.rider_name}</DialogTitle>
+          <DialogDescription>{formatSettlementPeriod(period)}</DialogDescription>
+        </DialogHeader>
+
+        {statement.adjustment_items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No hay ajustes en el período</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {statement.adjustment_items.map((item) => (
+              <li key={item.id} className="flex items-center justify-between gap-3 p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={item.kind === 'bonus' ? 'secondary' : 'outline'}>
+                      {ADJUSTMENT_KIND_LABELS[item.kind]}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">{item.effective_date}</span>
+                  </div>
+                  <p className="mt-1 truncate text-sm">{item.reason}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span
+                    className={
+                      item.kind === 'bonus' ? 'font-medium text-green-600' : 'font-medium text-destructive'
+                    }
+                  >
+                    {item.kind === 'bonus' ? '+' : '-'}${item.amount.toFixed(2)}
+                  </span>
+                  {!settled && (
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      disabled={deletingId === item.id}
+                      onClick={() => handleDelete(item.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Eliminar ajuste</span>
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {settled ? (
+          <p className="text-sm text-muted-foreground">
+            El período ya está liquidado: no se pueden agregar ni quitar ajustes.
+          </p>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 border-t pt-4">
+              <div className="grid gap-4 sm:grid-cols-3">
+                <FormField
+                  control={form.control}
+                  name="kind"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tipo</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(ADJUSTMENT_KIND_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Monto</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min={0}
+                          value={Number.isNaN(field.value) ? '' : field.value}
+                          onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="effective_date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Fecha</FormLabel>
+                      <FormControl>
+                        <Input type="date" min={period.start} max={period.end} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Motivo</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ej: Bono por día de lluvia" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                  Cerrar
+                </Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? 'Guardando...' : 'Agregar ajuste'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,166 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Boxes, Eye, EyeOff, MoreHorizontal, Pencil, Trash2 } from 'lucide-react'
+import { ProductFormDialog } from './ProductFormDialog'
+import { StockAdjustDialog } from './StockAdjustDialog'
+import { deleteProduct, setProductsAvailability } from '@/lib/api/products'
+import { isOutOfStock } from '@/lib/products/catalog'
+import type { Product } from '@/types'
+
+interface ProductActionsProps {
+  product: Product
+  categories: string[]
+  /** Se llama después de cualquier cambio en el producto */
+  onSuccess: () => void
+}
+
+/**
+ * Acciones sobre un producto del catálogo: editar, ajustar stock,
+ * cambiar disponibilidad y eliminar
+ */
+export function ProductActions({ product, categories, onSuccess }: ProductActionsProps) {
+  const [dialog, setDialog] = useState<'edit' | 'stock' | 'delete' | null>(null)
+  const [running, setRunning] = useState(false)
+
+  const handleToggleAvailable = async () => {
+    setRunning(true)
+    try {
+      const updated = await setProductsAvailability([product.id], !product.is_available)
+      if (!updated) {
+        toast.error('Error al actualizar el producto')
+        return
+      }
+      toast.success(
+        product.is_available
+          ? `${product.name} no está disponible`
+          : `${product.name} está disponible`
+      )
+      onSuccess()
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    setRunning(true)
+    try {
+      const result = await deleteProduct(product.id)
+      if (result.success) {
+        toast.success(`${product.name} fue eliminado`)
+        setDialog(null)
+        onSuccess()
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      console.error('Error deleting product:', error)
+      toast.error('Error inesperado al eliminar el producto')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const closeDialog = (open: boolean) => {
+    if (!open) setDialog(null)
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon-sm">
+            <MoreHorizontal className="h-4 w-4" />
+            <span className="sr-only">Acciones</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => setDialog('edit')}>
+            <Pencil className="h-4 w-4" />
+            Editar
+          </DropdownMenuItem>
+          {product.stock !== null && (
+            <DropdownMenuItem onSelect={() => setDialog('stock')}>
+              <Boxes className="h-4 w-4" />
+              Ajustar stock
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem
+            disabled={running || (!product.is_available && isOutOfStock(product))}
+            onSelect={handleToggleAvailable}
+          >
+            {product.is_available ? (
+              <EyeOff className="h-4 w-4" />
+            ) : (
+              <Eye className="h-4 w-4" />
+            )}
+            {product.is_available ? 'Marcar no disponible' : 'Marcar disponible'}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem variant="destructive" onSelect={() => setDialog('delete')}>
+            <Trash2 className="h-4 w-4" />
+            Eliminar
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {dialog === 'edit' && (
+        <ProductFormDialog
+          open
+          onOpenChange={closeDialog}
+          storeId={product.store_id}
+          product={product}
+          categories={categories}
+          onSuccess={onSuccess}
+        />
+      )}
+
+      {dialog === 'stock' && (
+        <StockAdjustDialog
+          open
+          onOpenChange={closeDialog}
+          product={product}
+          onSuccess={onSuccess}
+        />
+      )}
+
+      {dialog === 'delete' && (
+        <Dialog open onOpenChange={closeDialog}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Eliminar producto</DialogTitle>
+              <DialogDescription>
+                {product.name} se quitará del catálogo. Esta acción no se puede deshacer.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialog(null)} disabled={running}>
+                Volver
+              </Button>
+              <Button variant="destructive" onClick={handleDelete} disabled={running}>
+                {running ? 'Eliminando...' : 'Eliminar'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,347 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { SearchBar } from '@/components/shared/SearchBar'
+import { ProductActions } from './ProductActions'
+import { ProductFormDialog } from './ProductFormDialog'
+import { ProductImportDialog } from './ProductImportDialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Download, Eye, EyeOff, Plus, ShoppingBag, Upload } from 'lucide-react'
+import { getStoreProducts, setProductsAvailability } from '@/lib/api/products'
+import { useAuth } from '@/hooks/useAuth'
+import { canWriteRoute } from '@/lib/auth/access'
+import { groupProductsByCategory, isOutOfStock } from '@/lib/products/catalog'
+import { productsToCsv } from '@/lib/products/csv'
+import { downloadCsv } from '@/lib/csv'
+import type { Product } from '@/types'
+
+interface ProductCatalogProps {
+  storeId: string
+  /** Slug del comercio, para el nombre del CSV exportado */
+  storeSlug: string
+  /** Se llama después de crear, eliminar o modificar productos */
+  onChange?: () => void
+}
+
+/**
+ * Catálogo de productos de un comercio, agrupado por categoría
+ *
+ * Permite seleccionar varios productos para cambiar su disponibilidad de
+ * una vez, e importar o exportar el catálogo en CSV. Las acciones que
+ * modifican el catálogo requieren el permiso de edición de comercios.
+ */
+export function ProductCatalog({ storeId, storeSlug, onChange }: ProductCatalogProps) {
+  const { permissions } = useAuth()
+  const canWrite = canWriteRoute('/stores', permissions)
+  const [products, setProducts] = useState<Product[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [creating, setCreating] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [updating, setUpdating] = useState(false)
+
+  const fetchProducts = async () => {
+    try {
+      const result = await getStoreProducts(storeId)
+      setProducts(result)
+      // Descartar seleccionados que ya no existen
+      setSelected(
+        (current) => new Set(result.filter((p) => current.has(p.id)).map((p) => p.id))
+      )
+    } catch (error) {
+      console.error('Error fetching products:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchProducts()
+  }, [storeId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleChange = () => {
+    fetchProducts()
+    onChange?.()
+  }
+
+  const categories = useMemo(
+    () => groupProductsByCategory(products).map((group) => group.category),
+    [products]
+  )
+
+  const groups = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return groupProductsByCategory(
+      term ? products.filter((product) => product.name.toLowerCase().includes(term)) : products
+    )
+  }, [products, search])
+
+  const toggleSelected = (ids: string[], checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current)
+      ids.forEach((id) => (checked ? next.add(id) : next.delete(id)))
+      return next
+    })
+  }
+
+  const handleBulkAvailability = async (isAvailable: boolean) => {
+    setUpdating(true)
+    try {
+      const updated = await setProductsAvailability(Array.from(selected), isAvailable)
+      if (!updated) {
+        toast.error('Error al actualizar los productos')
+        return
+      }
+
+      const withoutStock = updated.filter((product) => product.is_available !== isAvailable)
+      if (withoutStock.length > 0) {
+        toast.warning(
+          `${updated.length - withoutStock.length} productos actualizados. ${withoutStock.length} siguen no disponibles porque no tienen stock`
+        )
+      } else {
+        toast.success(
+          `${updated.length} productos marcados como ${isAvailable ? 'disponibles' : 'no disponibles'}`
+        )
+      }
+      setSelected(new Set())
+      handleChange()
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const handleExport = () => {
+    downloadCsv(`productos-${storeSlug}.csv`, productsToCsv(products))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ShoppingBag className="h-5 w-5" />
+            Catálogo ({products.length})
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              disabled={products.length === 0}
+              onClick={handleExport}
+            >
+              <Download className="h-4 w-4" />
+              Exportar CSV
+            </Button>
+            {canWrite && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => setImporting(true)}
+                >
+                  <Upload className="h-4 w-4" />
+                  Importar CSV
+                </Button>
+                <Button size="sm" className="gap-2" onClick={() => setCreating(true)}>
+                  <Plus className="h-4 w-4" />
+                  Nuevo Producto
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <SearchBar
+            value={search}
+            onChange={setSearch}
+            placeholder="Buscar producto..."
+            className="max-w-sm"
+          />
+
+          {/* Acciones masivas */}
+          {canWrite && selected.size > 0 && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">
+                {selected.size} seleccionados
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                disabled={updating}
+                onClick={() => handleBulkAvailability(true)}
+              >
+                <Eye className="h-4 w-4" />
+                Disponibles
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                disabled={updating}
+                onClick={() => handleBulkAvailability(false)}
+              >
+                <EyeOff className="h-4 w-4" />
+                No disponibles
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setSelected(new Set())}>
+                Limpiar
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-center">
+            <ShoppingBag className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-1">No hay productos</h3>
+            <p className="text-sm text-muted-foreground">
+              {search
+                ? 'No se encontraron productos con ese nombre'
+                : 'El comercio aún no tiene productos en su catálogo'}
+            </p>
+          </div>
+        ) : (
+          groups.map((group) => {
+            const groupIds = group.products.map((product) => product.id)
+            const allSelected = groupIds.every((id) => selected.has(id))
+
+            return (
+              <div key={group.category} className="space-y-2">
+                <h3 className="text-sm font-semibold">
+                  {group.category}{' '}
+                  <span className="font-normal text-muted-foreground">
+                    ({group.products.length})
+                  </span>
+                </h3>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {canWrite && (
+                          <TableHead className="w-10">
+                            <input
+                              type="checkbox"
+                              checked={allSelected}
+                              onChange={(e) => toggleSelected(groupIds, e.target.checked)}
+                              className="h-4 w-4 accent-primary"
+                              aria-label={`Seleccionar ${group.category}`}
+                            />
+                          </TableHead>
+                        )}
+                        <TableHead>Producto</TableHead>
+                        <TableHead>Precio</TableHead>
+                        <TableHead>Stock</TableHead>
+                        <TableHead>Estado</TableHead>
+                        {canWrite && <TableHead className="text-right">Acciones</TableHead>}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {group.products.map((product) => (
+                        <TableRow
+                          key={product.id}
+                          className={product.is_available ? '' : 'opacity-60'}
+                        >
+                          {canWrite && (
+                            <TableCell>
+                              <input
+                                type="checkbox"
+                                checked={selected.has(product.id)}
+                                onChange={(e) => toggleSelected([product.id], e.target.checked)}
+                                className="h-4 w-4 accent-primary"
+                                aria-label={`Seleccionar ${product.name}`}
+                              />
+                            </TableCell>
+                          )}
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span className="font-medium">{product.name}</span>
+                              {product.description && (
+                                <span className="text-xs text-muted-foreground">
+                                  {product.description}
+                                </span>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>${product.price.toFixed(2)}</TableCell>
+                          <TableCell>
+                            {product.stock !== null ? (
+                              product.stock
+                            ) : (
+                              <span className="text-muted-foreground">—</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {isOutOfStock(product) ? (
+                              <Badge variant="destructive">Sin stock</Badge>
+                            ) : product.is_available ? (
+                              <Badge className="bg-green-500 text-white">Disponible</Badge>
+                            ) : (
+                              <Badge variant="outline">No disponible</Badge>
+                            )}
+                          </TableCell>
+                          {canWrite && (
+                            <TableCell className="text-right">
+                              <ProductActions
+                                product={product}
+                                categories={categories}
+                                onSuccess={handleChange}
+                              />
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+
+      {canWrite && creating && (
+        <ProductFormDialog
+          open
+          onOpenChange={setCreating}
+          storeId={storeId}
+          categories={categories}
+          onSuccess={handleChange}
+        />
+      )}
+
+      {canWrite && importing && (
+        <ProductImportDialog
+          open
+          onOpenChange={setImporting}
+          storeId={storeId}
+          products={products}
+          onSuccess={handleChange}
+        />
+      )}
+    </Card>
+  )
+}
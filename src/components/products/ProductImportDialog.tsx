@@ -0,0 +1,194 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { importProducts } from '@/lib/api/products'
+import { parseProductsCsv, PRODUCT_CSV_COLUMNS } from '@/lib/products/csv'
+import type { Product } from '@/types'
+
+interface ProductImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  storeId: string
+  /** Catálogo actual, para decidir qué filas actualizan productos existentes */
+  products: Product[]
+  onSuccess: () => void
+}
+
+/**
+ * Importa productos desde un CSV con vista previa
+ *
+ * Muestra cada fila con la acción que se hará (crear o actualizar) o sus
+ * errores de validación. Solo se importan las filas válidas.
+ */
+export function ProductImportDialog({
+  open,
+  onOpenChange,
+  storeId,
+  products,
+  onSuccess,
+}: ProductImportDialogProps) {
+  const [fileText, setFileText] = useState<string | null>(null)
+  // Un catálogo vacío no tiene categorías conocidas contra las cuales validar
+  const [allowNewCategories, setAllowNewCategories] = useState(products.length === 0)
+  const [importing, setImporting] = useState(false)
+
+  const preview = useMemo(
+    () =>
+      fileText === null
+        ? null
+        : parseProductsCsv(fileText, { existingProducts: products, allowNewCategories }),
+    [fileText, products, allowNewCategories]
+  )
+
+  const validRows = preview?.rows.filter((row) => row.values !== null) ?? []
+  const invalidCount = (preview?.rows.length ?? 0) - validRows.length
+
+  const handleFile = async (file: File | undefined) => {
+    setFileText(file ? await file.text() : null)
+  }
+
+  const handleImport = async () => {
+    setImporting(true)
+    try {
+      const result = await importProducts(
+        storeId,
+        validRows.map((row) => ({ productId: row.productId, values: row.values! })),
+        preview?.columns ?? []
+      )
+
+      if (!result.success) {
+        toast.error(result.error)
+        return
+      }
+
+      toast.success(
+        `${result.created} productos creados y ${result.updated} actualizados` +
+          (invalidCount > 0 ? `. ${invalidCount} filas con errores se omitieron` : '')
+      )
+      onOpenChange(false)
+      onSuccess()
+    } catch (error) {
+      console.error('Error importing products:', error)
+      toast.error('Error inesperado al importar los productos')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar productos</DialogTitle>
+          <DialogDescription>
+            Columnas: {PRODUCT_CSV_COLUMNS.join(', ')}. Los productos con el mismo nombre
+            se actualizan; el resto se crean.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="products-csv">Archivo CSV</Label>
+            <Input
+              id="products-csv"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={allowNewCategories}
+              onChange={(e) => setAllowNewCategories(e.target.checked)}
+              className="h-4 w-4 accent-primary"
+            />
+            Permitir categorías nuevas
+          </label>
+
+          {preview && preview.missingColumns.length > 0 && (
+            <p className="text-sm text-destructive">
+              Faltan columnas obligatorias: {preview.missingColumns.join(', ')}
+            </p>
+          )}
+
+          {preview && preview.rows.length > 0 && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {validRows.length} filas válidas
+                {invalidCount > 0 && `, ${invalidCount} con errores`}
+              </p>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Línea</TableHead>
+                      <TableHead>Producto</TableHead>
+                      <TableHead>Resultado</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((row) => (
+                      <TableRow key={row.line}>
+                        <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                        <TableCell className="font-medium">{row.name || '—'}</TableCell>
+                        <TableCell>
+                          {row.errors.length > 0 ? (
+                            <ul className="space-y-0.5 text-sm text-destructive">
+                              {row.errors.map((error) => (
+                                <li key={error}>{error}</li>
+                              ))}
+                            </ul>
+                          ) : row.productId ? (
+                            <Badge variant="secondary">Actualizar</Badge>
+                          ) : (
+                            <Badge className="bg-green-500 text-white">Crear</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+
+          {preview && preview.missingColumns.length === 0 && preview.rows.length === 0 && (
+            <p className="text-sm text-muted-foreground">El archivo no tiene filas</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={importing}>
+            Cancelar
+          </Button>
+          <Button onClick={handleImport} disabled={importing || validRows.length === 0}>
+            {importing ? 'Importando...' : `Importar ${validRows.length} productos`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
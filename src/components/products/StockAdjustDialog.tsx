@@ -0,0 +1,112 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { adjustProductStock } from '@/lib/api/products'
+import type { Product } from '@/types'
+
+interface StockAdjustDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  product: Product
+  onSuccess: () => void
+}
+
+/**
+ * Diálogo para sumar o restar unidades al stock de un producto
+ */
+export function StockAdjustDialog({
+  open,
+  onOpenChange,
+  product,
+  onSuccess,
+}: StockAdjustDialogProps) {
+  const [delta, setDelta] = useState('')
+  const [running, setRunning] = useState(false)
+
+  const currentStock = product.stock ?? 0
+  const parsedDelta = Number(delta)
+  const isValid = delta !== '' && Number.isInteger(parsedDelta) && parsedDelta !== 0
+  const resultingStock = isValid ? currentStock + parsedDelta : currentStock
+
+  const handleConfirm = async () => {
+    setRunning(true)
+    try {
+      const result = await adjustProductStock(product.id, parsedDelta)
+
+      if (result.success) {
+        toast.success(
+          resultingStock === 0
+            ? `${product.name} se quedó sin stock y no está disponible`
+            : `Stock de ${product.name}: ${resultingStock} unidades`
+        )
+        onOpenChange(false)
+        onSuccess()
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      console.error('Error adjusting stock:', error)
+      toast.error('Error inesperado al ajustar el stock')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Ajustar stock</DialogTitle>
+          <DialogDescription>
+            {product.name} tiene {currentStock} unidades. Usa un número negativo para
+            restar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="stock-delta">Unidades</Label>
+          <Input
+            id="stock-delta"
+            type="number"
+            step="1"
+            value={delta}
+            onChange={(e) => setDelta(e.target.value)}
+            placeholder="Ej: 10 o -3"
+          />
+          {isValid && (
+            <p
+              className={
+                resultingStock < 0 ? 'text-sm text-destructive' : 'text-sm text-muted-foreground'
+              }
+            >
+              {resultingStock < 0
+                ? 'El stock no puede quedar negativo'
+                : `Quedarán ${resultingStock} unidades`}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={running}>
+            Volver
+          </Button>
+          <Button onClick={handleConfirm} disabled={running || !isValid || resultingStock < 0}>
+            {running ? 'Guardando...' : 'Ajustar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,148 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import Link from 'next/link'
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { XCircle } from 'lucide-react'
+import type { CancellationBreakdown, CancellationCount } from '@/lib/orders/cancellation'
+
+interface CancellationBreakdownCardProps {
+  breakdown: CancellationBreakdown
+  /** Acciones en la cabecera (ej: menú de exportación) */
+  actions?: ReactNode
+}
+
+/**
+ * Tabla de cancelaciones de una agrupación
+ */
+function CancellationTable({
+  label,
+  rows,
+  rateLabel,
+  href,
+}: {
+  label: string
+  rows: CancellationCount[]
+  rateLabel: string
+  href?: (key: string) => string
+}) {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{label}</TableHead>
+            <TableHead className="text-right">Cancelados</TableHead>
+            <TableHead className="text-right">{rateLabel}</TableHead>
+            <TableHead className="text-right">Con reembolso</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.key}>
+              <TableCell className="font-medium">
+                {href ? (
+                  <Link href={href(row.key)} className="hover:underline">
+                    {row.label}
+                  </Link>
+                ) : (
+                  row.label
+                )}
+              </TableCell>
+              <TableCell className="text-right">{row.cancelled}</TableCell>
+              <TableCell className="text-right">{row.rate.toFixed(1)}%</TableCell>
+              <TableCell className="text-right">{row.refunded}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+/**
+ * Cancelaciones del período por motivo, comercio y hora del día
+ */
+export function CancellationBreakdownCard({ breakdown, actions }: CancellationBreakdownCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <XCircle className="h-5 w-5" />
+          Cancelaciones
+        </CardTitle>
+        <CardDescription>
+          {breakdown.total} cancelados ({breakdown.rate.toFixed(1)}% de los pedidos) ·{' '}
+          {breakdown.refunded} con reembolso
+        </CardDescription>
+        {actions && <CardAction>{actions}</CardAction>}
+      </CardHeader>
+      <CardContent>
+        {breakdown.total === 0 ? (
+          <p className="text-sm text-muted-foreground">No hubo cancelaciones en el período</p>
+        ) : (
+          <Tabs defaultValue="reason">
+            <TabsList>
+              <TabsTrigger value="reason">Por motivo</TabsTrigger>
+              <TabsTrigger value="store">Por comercio</TabsTrigger>
+              <TabsTrigger value="hour">Por hora</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="reason">
+              <CancellationTable
+                label="Motivo"
+                rows={breakdown.byReason}
+                rateLabel="% de cancelaciones"
+              />
+            </TabsContent>
+
+            <TabsContent value="store">
+              <CancellationTable
+                label="Comercio"
+                rows={breakdown.byStore}
+                rateLabel="% de sus pedidos"
+                href={(storeId) => `/stores/${storeId}`}
+              />
+            </TabsContent>
+
+            <TabsContent value="hour">
+              <div className="h-[300px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={breakdown.byHour}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} fontSize={12} interval={2} />
+                    <YAxis allowDecimals={false} tickLine={false} fontSize={12} width={40} />
+                    <Tooltip />
+                    <Bar
+                      dataKey="cancelled"
+                      name="Cancelados"
+                      fill="var(--destructive)"
+                      radius={[4, 4, 0, 0]}
+                    />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
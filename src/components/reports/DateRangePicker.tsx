@@ -0,0 +1,91 @@
+'use client'
+
+import { format, subDays } from 'date-fns'
+import { CalendarDays } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+/**
+ * Rango elegido, con días en formato `yyyy-MM-dd`
+ */
+export interface DateRangeValue {
+  from: string
+  to: string
+}
+
+interface DateRangePickerProps {
+  value: DateRangeValue
+  onChange: (value: DateRangeValue) => void
+}
+
+const PRESETS = [
+  { label: 'Hoy', days: 0 },
+  { label: '7 días', days: 6 },
+  { label: '30 días', days: 29 },
+  { label: '90 días', days: 89 },
+]
+
+/**
+ * Rango de los últimos `days` días más hoy
+ */
+export function lastDaysRange(days: number): DateRangeValue {
+  const today = new Date()
+  return {
+    from: format(subDays(today, days), 'yyyy-MM-dd'),
+    to: format(today, 'yyyy-MM-dd'),
+  }
+}
+
+/**
+ * Selector de rango de fechas con atajos
+ */
+export function DateRangePicker({ value, onChange }: DateRangePickerProps) {
+  return (
+    <Card className="p-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2">
+          <CalendarDays className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm font-medium">Período:</span>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={value.from}
+            max={value.to}
+            onChange={(e) => e.target.value && onChange({ ...value, from: e.target.value })}
+            className="w-[160px]"
+            aria-label="Desde"
+          />
+          <span className="text-sm text-muted-foreground">a</span>
+          <Input
+            type="date"
+            value={value.to}
+            min={value.from}
+            onChange={(e) => e.target.value && onChange({ ...value, to: e.target.value })}
+            className="w-[160px]"
+            aria-label="Hasta"
+          />
+        </div>
+
+        <div className="flex items-center gap-1">
+          {PRESETS.map((preset) => {
+            const range = lastDaysRange(preset.days)
+            const selected = range.from === value.from && range.to === value.to
+            return (
+              <Button
+                key={preset.label}
+                variant={selected ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => onChange(range)}
+              >
+                {preset.label}
+              </Button>
+            )
+          })}
+        </div>
+      </div>
+    </Card>
+  )
+}
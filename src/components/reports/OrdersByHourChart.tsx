@@ -0,0 +1,48 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import type { OrderChartData } from '@/types'
+
+interface OrdersByHourChartProps {
+  data: OrderChartData[]
+  /** Acciones en la cabecera (ej: menú de exportación) */
+  actions?: ReactNode
+}
+
+/**
+ * Pedidos creados por hora del día en el período
+ */
+export function OrdersByHourChart({ data, actions }: OrdersByHourChartProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pedidos por Hora</CardTitle>
+        <CardDescription>Horas pico según la hora de creación del pedido</CardDescription>
+        {actions && <CardAction>{actions}</CardAction>}
+      </CardHeader>
+      <CardContent>
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="hour" tickLine={false} fontSize={12} interval={2} />
+              <YAxis allowDecimals={false} tickLine={false} fontSize={12} width={40} />
+              <Tooltip />
+              <Bar dataKey="count" name="Pedidos" fill="var(--chart-1)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
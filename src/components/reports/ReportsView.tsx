@@ -0,0 +1,201 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { endOfDay, parseISO, startOfDay } from 'date-fns'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Clock, DollarSign, Package, Receipt } from 'lucide-react'
+import { DateRangePicker, lastDaysRange, type DateRangeValue } from './DateRangePicker'
+import { OrdersByHourChart } from './OrdersByHourChart'
+import { RevenueTrendChart } from './RevenueTrendChart'
+import { RiderLeaderboard } from './RiderLeaderboard'
+import { StoreLeaderboard } from './StoreLeaderboard'
+import { CancellationBreakdownCard } from './CancellationBreakdownCard'
+import { ExportMenu } from '@/components/shared/ExportMenu'
+import { getReportData, type ReportData } from '@/lib/api/reports'
+import type { ReportExport } from '@/lib/exports/reports'
+import { localTimeZone } from '@/lib/timezone'
+import { buildCancellationBreakdown } from '@/lib/orders/cancellation'
+import {
+  buildOrdersByHour,
+  buildReportSummary,
+  buildRevenueTrend,
+  buildRiderLeaderboard,
+  buildStoreLeaderboard,
+  formatMinutes,
+  type ReportRange,
+} from '@/lib/reports/analytics'
+
+/**
+ * Convierte los días elegidos en un rango de fechas completo
+ */
+function toReportRange({ from, to }: DateRangeValue): ReportRange {
+  return { from: startOfDay(parseISO(from)), to: endOfDay(parseISO(to)) }
+}
+
+/**
+ * Reportes de pedidos, ingresos, riders y comercios para un período
+ */
+export function ReportsView() {
+  const [dateRange, setDateRange] = useState<DateRangeValue>(() => lastDaysRange(6))
+  const [data, setData] = useState<ReportData | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const range = useMemo(() => toReportRange(dateRange), [dateRange])
+
+  useEffect(() => {
+    let cancelled = false
+
+    getReportData(range)
+      .then((result) => {
+        if (!cancelled) setData(result)
+      })
+      .catch(() => {
+        if (cancelled) return
+        setData(null)
+        toast.error('Error al cargar el reporte')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [range])
+
+  const handleRangeChange = (value: DateRangeValue) => {
+    setLoading(true)
+    setDateRange(value)
+  }
+
+  /**
+   * Menú de exportación de una sección, con el rango elegido
+   */
+  const exportMenu = (section: ReportExport, label?: string) => (
+    <ExportMenu
+      path="/api/exports/reports"
+      params={
+        new URLSearchParams({
+          report: section,
+          from: range.from.toISOString(),
+          to: range.to.toISOString(),
+          tz: localTimeZone(),
+        })
+      }
+      label={label}
+      size={label ? 'sm' : 'icon-sm'}
+      disabled={loading}
+    />
+  )
+
+  const report = useMemo(() => {
+    if (!data) return null
+    return {
+      summary: buildReportSummary(data.orders),
+      byHour: buildOrdersByHour(data.orders),
+      trend: buildRevenueTrend(data.orders, range),
+      riders: buildRiderLeaderboard(data.orders, data.riders),
+      stores: buildStoreLeaderboard(data.orders, data.stores),
+      cancellations: buildCancellationBreakdown(data.orders),
+    }
+  }, [data, range])
+
+  const stats = report
+    ? [
+        {
+          title: 'Pedidos',
+          value: report.summary.total_orders.toString(),
+          icon: Package,
+          description: `${report.summary.delivered_orders} entregados · ${report.summary.cancelled_orders} cancelados`,
+        },
+        {
+          title: 'Ingresos',
+          value: `$${report.summary.revenue.toFixed(2)}`,
+          icon: DollarSign,
+          description: 'Pedidos entregados',
+        },
+        {
+          title: 'Ticket Promedio',
+          value: `$${report.summary.average_order_value.toFixed(2)}`,
+          icon: Receipt,
+          description: 'Por pedido entregado',
+        },
+        {
+          title: 'Tiempo de Entrega',
+          value:
+            report.summary.average_delivery_time !== null
+              ? formatMinutes(report.summary.average_delivery_time)
+              : '—',
+          icon: Clock,
+          description: 'Promedio desde la asignación',
+        },
+      ]
+    : []
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <DateRangePicker value={dateRange} onChange={handleRangeChange} />
+        {exportMenu('summary', 'Exportar resumen')}
+      </div>
+
+      {!loading && !report ? (
+        <Card>
+          <CardContent className="py-12 text-center text-sm text-muted-foreground">
+            No se pudo cargar el reporte. Intenta de nuevo o elige otro período.
+          </CardContent>
+        </Card>
+      ) : loading || !report ? (
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            {[1, 2, 3, 4].map((i) => (
+              <Skeleton key={i} className="h-28 w-full" />
+            ))}
+          </div>
+          <Skeleton className="h-[380px] w-full" />
+        </div>
+      ) : (
+        <>
+          {/* Resumen */}
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            {stats.map((stat) => {
+              const Icon = stat.icon
+              return (
+                <Card key={stat.title}>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">{stat.title}</CardTitle>
+                    <Icon className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{stat.value}</div>
+                    <p className="text-xs text-muted-foreground">{stat.description}</p>
+                  </CardContent>
+                </Card>
+              )
+            })}
+          </div>
+
+          {/* Gráficos */}
+          <div className="grid gap-6 lg:grid-cols-2">
+            <RevenueTrendChart data={report.trend} actions={exportMenu('trend')} />
+            <OrdersByHourChart data={report.byHour} actions={exportMenu('hourly')} />
+          </div>
+
+          {/* Rankings */}
+          <div className="grid gap-6 xl:grid-cols-2">
+            <RiderLeaderboard riders={report.riders} actions={exportMenu('riders')} />
+            <StoreLeaderboard stores={report.stores} actions={exportMenu('stores')} />
+          </div>
+
+          {/* Cancelaciones */}
+          <CancellationBreakdownCard
+            breakdown={report.cancellations}
+            actions={exportMenu('cancellations')}
+          />
+        </>
+      )}
+    </div>
+  )
+}
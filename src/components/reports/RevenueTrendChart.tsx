@@ -0,0 +1,85 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import type { RevenueTrendPoint } from '@/lib/reports/analytics'
+
+interface RevenueTrendChartProps {
+  data: RevenueTrendPoint[]
+  /** Acciones en la cabecera (ej: menú de exportación) */
+  actions?: ReactNode
+}
+
+/**
+ * Ingresos y pedidos por día en el período
+ */
+export function RevenueTrendChart({ data, actions }: RevenueTrendChartProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tendencia de Ingresos</CardTitle>
+        <CardDescription>Ingresos de pedidos entregados y pedidos creados por día</CardDescription>
+        {actions && <CardAction>{actions}</CardAction>}
+      </CardHeader>
+      <CardContent>
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="label" tickLine={false} fontSize={12} minTickGap={16} />
+              <YAxis
+                yAxisId="revenue"
+                tickLine={false}
+                fontSize={12}
+                width={56}
+                tickFormatter={(value) => `$${value}`}
+              />
+              <YAxis
+                yAxisId="orders"
+                orientation="right"
+                allowDecimals={false}
+                tickLine={false}
+                fontSize={12}
+                width={40}
+              />
+              <Tooltip
+                formatter={(value, name) =>
+                  name === 'Ingresos' ? [`$${Number(value).toFixed(2)}`, name] : [value, name]
+                }
+              />
+              <Legend />
+              <Line
+                yAxisId="revenue"
+                type="monotone"
+                dataKey="revenue"
+                name="Ingresos"
+                stroke="var(--chart-2)"
+                strokeWidth={2}
+                dot={false}
+              />
+              <Line
+                yAxisId="orders"
+                type="monotone"
+                dataKey="orders"
+                name="Pedidos"
+                stroke="var(--chart-1)"
+                strokeWidth={2}
+                dot={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,95 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import Link from 'next/link'
+import { Card, CardAction, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Star, Trophy } from 'lucide-react'
+import { formatMinutes } from '@/lib/reports/analytics'
+import type { RiderStats } from '@/types'
+
+interface RiderLeaderboardProps {
+  riders: RiderStats[]
+  /** Acciones en la cabecera (ej: menú de exportación) */
+  actions?: ReactNode
+}
+
+/**
+ * Ranking de riders del período
+ */
+export function RiderLeaderboard({ riders, actions }: RiderLeaderboardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trophy className="h-5 w-5" />
+          Ranking de Riders
+        </CardTitle>
+        {actions && <CardAction>{actions}</CardAction>}
+      </CardHeader>
+      <CardContent>
+        {riders.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Ningún rider tuvo pedidos en el período
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">#</TableHead>
+                  <TableHead>Rider</TableHead>
+                  <TableHead className="text-right">Entregas</TableHead>
+                  <TableHead className="text-right">Tiempo promedio</TableHead>
+                  <TableHead className="text-right">Ganancias</TableHead>
+                  <TableHead className="text-right">Rating</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {riders.map((rider, index) => (
+                  <TableRow key={rider.rider_id}>
+                    <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                    <TableCell className="font-medium">
+                      <Link href={`/riders/${rider.rider_id}`} className="hover:underline">
+                        {rider.rider_name}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {rider.completed_deliveries}
+                      <span className="text-muted-foreground"> / {rider.total_deliveries}</span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {rider.completed_deliveries > 0
+                        ? formatMinutes(rider.average_delivery_time)
+                        : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      ${rider.total_earnings.toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {rider.rating > 0 ? (
+                        <span className="inline-flex items-center gap-1">
+                          <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                          {rider.rating.toFixed(1)}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
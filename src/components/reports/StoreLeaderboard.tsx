@@ -0,0 +1,78 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import Link from 'next/link'
+import { Card, CardAction, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Store as StoreIcon } from 'lucide-react'
+import type { StoreStats } from '@/types'
+
+interface StoreLeaderboardProps {
+  stores: StoreStats[]
+  /** Acciones en la cabecera (ej: menú de exportación) */
+  actions?: ReactNode
+}
+
+/**
+ * Ranking de comercios del período
+ */
+export function StoreLeaderboard({ stores, actions }: StoreLeaderboardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <StoreIcon className="h-5 w-5" />
+          Ranking de Comercios
+        </CardTitle>
+        {actions && <CardAction>{actions}</CardAction>}
+      </CardHeader>
+      <CardContent>
+        {stores.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Ningún comercio tuvo pedidos en el período
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">#</TableHead>
+                  <TableHead>Comercio</TableHead>
+                  <TableHead className="text-right">Pedidos</TableHead>
+                  <TableHead className="text-right">Ingresos</TableHead>
+                  <TableHead className="text-right">Ticket promedio</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stores.map((store, index) => (
+                  <TableRow key={store.store_id}>
+                    <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                    <TableCell className="font-medium">
+                      <Link href={`/stores/${store.store_id}`} className="hover:underline">
+                        {store.store_name}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-right">{store.total_orders}</TableCell>
+                    <TableCell className="text-right">
+                      ${store.total_revenue.toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      ${store.average_order_value.toFixed(2)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,132 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Eye, MoreHorizontal, Pencil, Power, PowerOff } from 'lucide-react'
+import { RiderFormDialog } from './RiderFormDialog'
+import { setRiderActive } from '@/lib/api/riders'
+import { useAuth } from '@/hooks/useAuth'
+import { canWriteRoute } from '@/lib/auth/access'
+import type { Rider } from '@/types'
+
+interface RiderActionsProps {
+  rider: Rider
+  /** `buttons` para la página de detalle, `menu` para las filas de la tabla */
+  variant?: 'buttons' | 'menu'
+  /** Se llama después de editar o cambiar la activación */
+  onSuccess: () => void
+}
+
+/**
+ * Acciones sobre un rider: editar y activar/desactivar (con el permiso
+ * de edición)
+ */
+export function RiderActions({ rider, variant = 'buttons', onSuccess }: RiderActionsProps) {
+  const { permissions } = useAuth()
+  const [editing, setEditing] = useState(false)
+  const [toggling, setToggling] = useState(false)
+  const canWrite = canWriteRoute('/riders', permissions)
+
+  const handleToggleActive = async () => {
+    setToggling(true)
+    try {
+      const result = await setRiderActive(rider.id, !rider.is_active)
+      if (result.success) {
+        toast.success(
+          rider.is_active
+            ? `${rider.full_name} fue desactivado`
+            : `${rider.full_name} fue activado`
+        )
+        onSuccess()
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      console.error('Error toggling rider activation:', error)
+      toast.error('Error inesperado al actualizar el rider')
+    } finally {
+      setToggling(false)
+    }
+  }
+
+  const ToggleIcon = rider.is_active ? PowerOff : Power
+  const toggleLabel = rider.is_active ? 'Desactivar' : 'Activar'
+
+  const formDialog = editing && (
+    <RiderFormDialog open onOpenChange={setEditing} rider={rider} onSuccess={onSuccess} />
+  )
+
+  if (variant === 'menu') {
+    return (
+      <>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon-sm">
+              <MoreHorizontal className="h-4 w-4" />
+              <span className="sr-only">Acciones</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem asChild>
+              <Link href={`/riders/${rider.id}`}>
+                <Eye className="h-4 w-4" />
+                Ver detalle
+              </Link>
+            </DropdownMenuItem>
+            {canWrite && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={() => setEditing(true)}>
+                  <Pencil className="h-4 w-4" />
+                  Editar
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  variant={rider.is_active ? 'destructive' : 'default'}
+                  disabled={toggling}
+                  onSelect={handleToggleActive}
+                >
+                  <ToggleIcon className="h-4 w-4" />
+                  {toggleLabel}
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        {formDialog}
+      </>
+    )
+  }
+
+  if (!canWrite) return null
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => setEditing(true)}>
+          <Pencil className="h-4 w-4" />
+          Editar
+        </Button>
+        <Button
+          variant={rider.is_active ? 'destructive' : 'outline'}
+          size="sm"
+          className="gap-2"
+          disabled={toggling}
+          onClick={handleToggleActive}
+        >
+          <ToggleIcon className="h-4 w-4" />
+          {toggleLabel}
+        </Button>
+      </div>
+      {formDialog}
+    </>
+  )
+}
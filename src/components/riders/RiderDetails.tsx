@@ -0,0 +1,203 @@
+'use client'
+
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Bike, DollarSign, Package, Phone, Mail, Star, TrendingUp } from 'lucide-react'
+import { OrderStatus } from '@/components/orders/OrderStatus'
+import { RiderActions } from './RiderActions'
+import { getStatusColor, RIDER_STATUS_LABELS, VEHICLE_LABELS } from '@/lib/riders/labels'
+import type { Order, RiderWithStats } from '@/types'
+
+interface RiderDetailsProps {
+  rider: RiderWithStats
+  activeOrders: Pick<
+    Order,
+    'id' | 'order_number' | 'status' | 'customer_name' | 'store_name' | 'total_amount' | 'created_at'
+  >[]
+}
+
+export function RiderDetails({ rider, activeOrders }: RiderDetailsProps) {
+  const router = useRouter()
+
+  const stats = [
+    {
+      title: 'Pedidos Activos',
+      value: rider.active_orders.toString(),
+      icon: Package,
+      description: 'Asignados o en camino',
+    },
+    {
+      title: 'Completados Hoy',
+      value: rider.completed_today.toString(),
+      icon: TrendingUp,
+      description: `${rider.total_deliveries} entregas en total`,
+    },
+    {
+      title: 'Ganancias Hoy',
+      value: `$${rider.earnings_today.toFixed(2)}`,
+      icon: DollarSign,
+      description: 'Costos de envío entregados hoy',
+    },
+    {
+      title: 'Rating',
+      value: rider.rating !== null ? rider.rating.toFixed(1) : '—',
+      icon: Star,
+      description: 'Calificación promedio',
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold">{rider.full_name}</h1>
+            {rider.is_active ? (
+              <Badge className={`${getStatusColor(rider.status)} text-white`}>
+                {RIDER_STATUS_LABELS[rider.status]}
+              </Badge>
+            ) : (
+              <Badge variant="outline">Inactivo</Badge>
+            )}
+          </div>
+          <p className="text-muted-foreground mt-1">
+            Rider desde{' '}
+            {new Date(rider.created_at).toLocaleDateString('es-ES', {
+              day: '2-digit',
+              month: 'long',
+              year: 'numeric',
+            })}
+          </p>
+        </div>
+
+        <RiderActions rider={rider} onSuccess={() => router.refresh()} />
+      </div>
+
+      {/* Estadísticas */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {stats.map((stat) => {
+          const Icon = stat.icon
+          return (
+            <Card key={stat.title}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{stat.title}</CardTitle>
+                <Icon className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{stat.value}</div>
+                <p className="text-xs text-muted-foreground">{stat.description}</p>
+              </CardContent>
+            </Card>
+          )
+        })}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Pedidos activos */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Package className="h-5 w-5" />
+              Pedidos Activos
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {activeOrders.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                El rider no tiene pedidos activos
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>ID</TableHead>
+                    <TableHead>Cliente</TableHead>
+                    <TableHead>Comercio</TableHead>
+                    <TableHead>Total</TableHead>
+                    <TableHead>Estado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {activeOrders.map((order) => (
+                    <TableRow key={order.id}>
+                      <TableCell className="font-medium">
+                        <Link href={`/orders/${order.id}`} className="hover:underline">
+                          {order.order_number}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{order.customer_name}</TableCell>
+                      <TableCell>{order.store_name}</TableCell>
+                      <TableCell>${order.total_amount.toFixed(2)}</TableCell>
+                      <TableCell>
+                        <OrderStatus status={order.status} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Datos del rider */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Datos del Rider</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div>
+              <p className="text-sm text-muted-foreground">Teléfono</p>
+              <div className="flex items-center gap-2">
+                <Phone className="h-4 w-4 text-muted-foreground" />
+                <p className="font-medium">{rider.phone}</p>
+              </div>
+            </div>
+            {rider.email && (
+              <div>
+                <p className="text-sm text-muted-foreground">Email</p>
+                <div className="flex items-center gap-2">
+                  <Mail className="h-4 w-4 text-muted-foreground" />
+                  <p className="font-medium">{rider.email}</p>
+                </div>
+              </div>
+            )}
+            <div>
+              <p className="text-sm text-muted-foreground">Vehículo</p>
+              <div className="flex items-center gap-2">
+                <Bike className="h-4 w-4 text-muted-foreground" />
+                <p className="font-medium">
+                  {VEHICLE_LABELS[rider.vehicle_type]}
+                  {rider.vehicle_plate && ` · ${rider.vehicle_plate}`}
+                </p>
+              </div>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Última ubicación</p>
+              <p className="font-medium">
+                {rider.last_location_update
+                  ? new Date(rider.last_location_update).toLocaleString('es-ES', {
+                      day: '2-digit',
+                      month: 'short',
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })
+                  : 'Sin reportes'}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+'use client'
+
+import { useState } from 'react'
+import { Filter } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Card } from '@/components/ui/card'
+import { RIDER_STATUS_LABELS, VEHICLE_LABELS } from '@/lib/riders/labels'
+import type { RiderStatus, VehicleType } from '@/types'
+
+interface RiderFiltersProps {
+  onFilterChange: (filters: RiderFiltersState) => void
+}
+
+export interface RiderFiltersState {
+  status: string
+  isActive: string
+  vehicleType: string
+}
+
+export const EMPTY_RIDER_FILTERS: RiderFiltersState = {
+  status: 'all',
+  isActive: 'all',
+  vehicleType: 'all',
+}
+
+export function RiderFilters({ onFilterChange }: RiderFiltersProps) {
+  const [filters, setFilters] = useState<RiderFiltersState>(EMPTY_RIDER_FILTERS)
+
+  const handleFilterChange = (key: keyof RiderFiltersState, value: string) => {
+    const newFilters = { ...filters, [key]: value }
+    setFilters(newFilters)
+    onFilterChange(newFilters)
+  }
+
+  const clearFilters = () => {
+    setFilters(EMPTY_RIDER_FILTERS)
+    onFilterChange(EMPTY_RIDER_FILTERS)
+  }
+
+  const hasActiveFilters =
+    filters.status !== 'all' || filters.isActive !== 'all' || filters.vehicleType !== 'all'
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Filter className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm font-medium">Filtros:</span>
+        </div>
+
+        {/* Estado */}
+        <Select
+          value={filters.status}
+          onValueChange={(value) => handleFilterChange('status', value)}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Estado" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos los estados</SelectItem>
+            {(Object.keys(RIDER_STATUS_LABELS) as RiderStatus[]).map((status) => (
+              <SelectItem key={status} value={status}>
+                {RIDER_STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Activo */}
+        <Select
+          value={filters.isActive}
+          onValueChange={(value) => handleFilterChange('isActive', value)}
+        >
+          <SelectTrigger className="w-[150px]">
+            <SelectValue placeholder="Activo" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Activos e inactivos</SelectItem>
+            <SelectItem value="true">Activos</SelectItem>
+            <SelectItem value="false">Inactivos</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {/* Vehículo */}
+        <Select
+          value={filters.vehicleType}
+          onValueChange={(value) => handleFilterChange('vehicleType', value)}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Vehículo" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos los vehículos</SelectItem>
+            {(Object.keys(VEHICLE_LABELS) as VehicleType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {VEHICLE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Limpiar Filtros */}
+        {hasActiveFilters && (
+          <Button variant="outline" size="sm" onClick={clearFilters}>
+            Limpiar
+          </Button>
+        )}
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,218 @@
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { createRider, updateRider } from '@/lib/api/riders'
+import { VEHICLE_LABELS } from '@/lib/riders/labels'
+import {
+  EMPTY_RIDER_FORM,
+  riderFormSchema,
+  type RiderFormValues,
+} from '@/lib/riders/schema'
+import type { Rider, VehicleType } from '@/types'
+
+interface RiderFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Rider a editar; si se omite, el formulario da de alta uno nuevo */
+  rider?: Rider | null
+  onSuccess: () => void
+}
+
+/**
+ * Formulario de alta y edición de riders
+ */
+export function RiderFormDialog({ open, onOpenChange, rider, onSuccess }: RiderFormDialogProps) {
+  const isEdit = Boolean(rider)
+  const form = useForm<RiderFormValues>({
+    resolver: zodResolver(riderFormSchema),
+    defaultValues: rider
+      ? {
+          full_name: rider.full_name,
+          phone: rider.phone,
+          email: rider.email ?? '',
+          vehicle_type: rider.vehicle_type,
+          vehicle_plate: rider.vehicle_plate ?? '',
+          is_active: rider.is_active,
+        }
+      : EMPTY_RIDER_FORM,
+  })
+
+  const onSubmit = async (values: RiderFormValues) => {
+    const result = rider ? await updateRider(rider.id, values) : await createRider(values)
+
+    if (!result.success) {
+      if (result.code === 'DUPLICATE_PHONE') {
+        form.setError('phone', { message: result.error })
+      } else {
+        toast.error(result.error)
+      }
+      return
+    }
+
+    toast.success(isEdit ? 'Rider actualizado' : 'Rider creado')
+    onOpenChange(false)
+    onSuccess()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isEdit ? 'Editar Rider' : 'Nuevo Rider'}</DialogTitle>
+          <DialogDescription>
+            {isEdit
+              ? 'Actualiza los datos de contacto y del vehículo'
+              : 'Los riders nuevos quedan desconectados hasta que inician sesión en la app'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="full_name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nombre completo</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ej: Juan Pérez" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Teléfono</FormLabel>
+                    <FormControl>
+                      <Input placeholder="+58 412 1234567" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email (opcional)</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="rider@email.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="vehicle_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vehículo</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Tipo de vehículo" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(VEHICLE_LABELS) as VehicleType[]).map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {VEHICLE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="vehicle_plate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Placa (opcional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="AB123CD" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {!isEdit && (
+              <FormField
+                control={form.control}
+                name="is_active"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center gap-2">
+                    <FormControl>
+                      <input
+                        type="checkbox"
+                        checked={field.value}
+                        onChange={(e) => field.onChange(e.target.checked)}
+                        className="h-4 w-4 accent-primary"
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">Activo</FormLabel>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting
+                  ? 'Guardando...'
+                  : isEdit
+                    ? 'Guardar cambios'
+                    : 'Crear rider'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,285 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { SearchBar } from '@/components/shared/SearchBar'
+import { RiderFilters, EMPTY_RIDER_FILTERS, type RiderFiltersState } from './RiderFilters'
+import { RiderActions } from './RiderActions'
+import { RiderFormDialog } from './RiderFormDialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { AlertTriangle, ChevronLeft, ChevronRight, Plus, Star, Users } from 'lucide-react'
+import { getRiders, type RiderListItem } from '@/lib/api/riders'
+import { useAuth } from '@/hooks/useAuth'
+import { canWriteRoute } from '@/lib/auth/access'
+import { getConfig } from '@/lib/api/config'
+import { getStatusColor, RIDER_STATUS_LABELS, VEHICLE_LABELS } from '@/lib/riders/labels'
+import {
+  DEFAULT_RIDER_TRACKING_SETTINGS,
+  isLocationStale,
+  type RiderTrackingSettings,
+} from '@/lib/riders/tracking'
+import type { RiderFilters as RiderFiltersType, RiderStatus, VehicleType } from '@/types'
+
+const ITEMS_PER_PAGE = 10
+
+/**
+ * Convierte el estado de los selects en `RiderFilters`
+ */
+function toRiderFilters(filters: RiderFiltersState, search: string): RiderFiltersType {
+  return {
+    status: filters.status !== 'all' ? (filters.status as RiderStatus) : undefined,
+    is_active: filters.isActive !== 'all' ? filters.isActive === 'true' : undefined,
+    vehicle_type:
+      filters.vehicleType !== 'all' ? (filters.vehicleType as VehicleType) : undefined,
+    search: search || undefined,
+  }
+}
+
+export function RidersTable() {
+  const { permissions } = useAuth()
+  const [riders, setRiders] = useState<RiderListItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [filters, setFilters] = useState<RiderFiltersState>(EMPTY_RIDER_FILTERS)
+  const [currentPage, setCurrentPage] = useState(1)
+  const [totalCount, setTotalCount] = useState(0)
+  const [creating, setCreating] = useState(false)
+  const [trackingSettings, setTrackingSettings] = useState<RiderTrackingSettings>(
+    DEFAULT_RIDER_TRACKING_SETTINGS
+  )
+
+  const fetchRiders = async () => {
+    setLoading(true)
+    try {
+      const result = await getRiders(toRiderFilters(filters, search), {
+        page: currentPage,
+        per_page: ITEMS_PER_PAGE,
+      })
+      setRiders(result.data)
+      setTotalCount(result.total)
+    } catch (error) {
+      console.error('Error fetching riders:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchRiders()
+  }, [search, filters, currentPage]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    getConfig('rider_tracking').then(setTrackingSettings)
+  }, [])
+
+  const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE)
+  const hasFilters =
+    search !== '' ||
+    filters.status !== 'all' ||
+    filters.isActive !== 'all' ||
+    filters.vehicleType !== 'all'
+
+  const handleFilterChange = (newFilters: RiderFiltersState) => {
+    setFilters(newFilters)
+    setCurrentPage(1) // Reset a primera página
+  }
+
+  const handleSearchChange = (value: string) => {
+    setSearch(value)
+    setCurrentPage(1) // Reset a primera página
+  }
+
+  if (loading && riders.length === 0) {
+    return (
+      <div className="space-y-4">
+        <Card>
+          <CardHeader>
+            <Skeleton className="h-8 w-48" />
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {[1, 2, 3, 4, 5].map((i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Búsqueda */}
+      <SearchBar
+        value={search}
+        onChange={handleSearchChange}
+        placeholder="Buscar por nombre o teléfono..."
+        className="max-w-md"
+      />
+
+      {/* Filtros */}
+      <RiderFilters onFilterChange={handleFilterChange} />
+
+      {/* Tabla */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Riders ({totalCount})
+            </CardTitle>
+            {canWriteRoute('/riders', permissions) && (
+              <Button size="sm" className="gap-2" onClick={() => setCreating(true)}>
+                <Plus className="h-4 w-4" />
+                Nuevo Rider
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {riders.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <Users className="h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-1">No hay riders</h3>
+              <p className="text-sm text-muted-foreground">
+                {hasFilters
+                  ? 'No se encontraron riders con los filtros aplicados'
+                  : 'Aún no hay riders registrados'}
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Rider</TableHead>
+                      <TableHead>Teléfono</TableHead>
+                      <TableHead>Vehículo</TableHead>
+                      <TableHead>Estado</TableHead>
+                      <TableHead>Pedidos activos</TableHead>
+                      <TableHead>Rating</TableHead>
+                      <TableHead className="text-right">Acciones</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {riders.map((rider) => (
+                      <TableRow key={rider.id} className={rider.is_active ? '' : 'opacity-60'}>
+                        <TableCell>
+                          <Link href={`/riders/${rider.id}`} className="flex flex-col">
+                            <span className="font-medium hover:underline">
+                              {rider.full_name}
+                            </span>
+                            {rider.email && (
+                              <span className="text-xs text-muted-foreground">
+                                {rider.email}
+                              </span>
+                            )}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{rider.phone}</TableCell>
+                        <TableCell>
+                          {VEHICLE_LABELS[rider.vehicle_type]}
+                          {rider.vehicle_plate && (
+                            <span className="ml-1 text-xs text-muted-foreground">
+                              {rider.vehicle_plate}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap items-center gap-1">
+                            {rider.is_active ? (
+                              <Badge className={`${getStatusColor(rider.status)} text-white`}>
+                                {RIDER_STATUS_LABELS[rider.status]}
+                              </Badge>
+                            ) : (
+                              <Badge variant="outline">Inactivo</Badge>
+                            )}
+                            {isLocationStale(rider, trackingSettings) && (
+                              <Badge
+                                variant="destructive"
+                                className="flex items-center gap-1"
+                                title={`Sin reportar ubicación hace más de ${trackingSettings.stale_location_minutes} minutos`}
+                              >
+                                <AlertTriangle className="h-3 w-3" />
+                                Sin ubicación
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>{rider.active_orders}</TableCell>
+                        <TableCell>
+                          {rider.rating !== null ? (
+                            <span className="flex items-center gap-1">
+                              <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                              {rider.rating.toFixed(1)}
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <RiderActions rider={rider} variant="menu" onSuccess={fetchRiders} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {/* Paginación */}
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between mt-4">
+                  <div className="text-sm text-muted-foreground">
+                    Mostrando {(currentPage - 1) * ITEMS_PER_PAGE + 1} -{' '}
+                    {Math.min(currentPage * ITEMS_PER_PAGE, totalCount)} de {totalCount}{' '}
+                    riders
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+                      disabled={currentPage === 1}
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                      Anterior
+                    </Button>
+                    <span className="text-sm">
+                      Página {currentPage} de {totalPages}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
+                      disabled={currentPage === totalPages}
+                    >
+                      Siguiente
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {creating && (
+        <RiderFormDialog open onOpenChange={setCreating} onSuccess={fetchRiders} />
+      )}
+    </div>
+  )
+}
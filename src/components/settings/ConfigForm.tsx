@@ -0,0 +1,150 @@
+'use client'
+
+import { useForm, type FieldValues } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import type { z } from 'zod'
+import { toast } from 'sonner'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { updateConfig, type ConfigEntry } from '@/lib/api/config'
+import { getConfigDefinition, type ConfigField } from '@/lib/config/registry'
+
+interface ConfigFormProps {
+  entry: ConfigEntry
+  /** Si es false, los campos se muestran de solo lectura */
+  canEdit: boolean
+  onSuccess: () => void
+}
+
+/**
+ * Formulario de una clave de `app_config`, armado con los campos y el
+ * esquema de su definición en el registro
+ */
+export function ConfigForm({ entry, canEdit, onSuccess }: ConfigFormProps) {
+  const definition = getConfigDefinition(entry.key)
+  const form = useForm<FieldValues>({
+    resolver: zodResolver(definition.schema as z.ZodType<FieldValues, FieldValues>),
+    defaultValues: entry.value as FieldValues,
+  })
+
+  const onSubmit = async (values: FieldValues) => {
+    const result = await updateConfig(entry.key, values)
+    if (result.success) {
+      toast.success(`Configuración de ${definition.label.toLowerCase()} guardada`)
+      form.reset(values)
+      onSuccess()
+    } else {
+      toast.error(result.error)
+    }
+  }
+
+  const renderControl = (field: ConfigField) => (
+    <FormField
+      key={field.path}
+      control={form.control}
+      name={field.path}
+      render={({ field: input }) => {
+        if (field.type === 'boolean') {
+          return (
+            <FormItem className="flex flex-row items-center gap-2 sm:col-span-2">
+              <FormControl>
+                <input
+                  type="checkbox"
+                  checked={Boolean(input.value)}
+                  onChange={(e) => input.onChange(e.target.checked)}
+                  disabled={!canEdit}
+                  className="h-4 w-4 accent-primary"
+                />
+              </FormControl>
+              <FormLabel className="font-normal">{field.label}</FormLabel>
+              {field.description && <FormDescription>· {field.description}</FormDescription>}
+            </FormItem>
+          )
+        }
+
+        return (
+          <FormItem>
+            <FormLabel>{field.label}</FormLabel>
+            {field.type === 'select' ? (
+              <Select value={input.value} onValueChange={input.onChange} disabled={!canEdit}>
+                <FormControl>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {field.options.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <FormControl>
+                <Input
+                  type="number"
+                  step={field.step}
+                  min={field.min}
+                  max={field.max}
+                  value={Number.isNaN(input.value) ? '' : input.value}
+                  onChange={(e) => input.onChange(e.target.valueAsNumber)}
+                  disabled={!canEdit}
+                />
+              </FormControl>
+            )}
+            {field.description && <FormDescription>{field.description}</FormDescription>}
+            <FormMessage />
+          </FormItem>
+        )
+      }}
+    />
+  )
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          {definition.fields.map(renderControl)}
+        </div>
+
+        {canEdit && (
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              disabled={form.formState.isSubmitting}
+              onClick={() =>
+                form.reset(definition.defaults as FieldValues, { keepDefaultValues: true })
+              }
+            >
+              Valores por defecto
+            </Button>
+            <Button
+              type="submit"
+              disabled={!form.formState.isDirty || form.formState.isSubmitting}
+            >
+              {form.formState.isSubmitting ? 'Guardando...' : 'Guardar cambios'}
+            </Button>
+          </div>
+        )}
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,189 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { History, RotateCcw } from 'lucide-react'
+import {
+  canRestoreConfigVersion,
+  getConfigHistory,
+  rollbackConfig,
+  type ConfigHistoryEntry,
+} from '@/lib/api/config'
+import { diffConfigValues } from '@/lib/config/diff'
+import { getConfigDefinition, type ConfigKey } from '@/lib/config/registry'
+
+interface ConfigHistoryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  configKey: ConfigKey
+  /** Solo los admin pueden restaurar versiones anteriores */
+  canRollback: boolean
+  /** Se llama después de restaurar una versión */
+  onSuccess: () => void
+}
+
+/**
+ * Historial de versiones de una clave de `app_config`, con los campos que
+ * cambiaron en cada versión y la opción de restaurarla
+ */
+export function ConfigHistoryDialog({
+  open,
+  onOpenChange,
+  configKey,
+  canRollback,
+  onSuccess,
+}: ConfigHistoryDialogProps) {
+  const definition = getConfigDefinition(configKey)
+  const [history, setHistory] = useState<ConfigHistoryEntry[] | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    getConfigHistory(configKey).then((result) => {
+      if (!cancelled) setHistory(result)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [configKey, refreshKey])
+
+  const handleRollback = async (version: ConfigHistoryEntry) => {
+    setRestoringId(version.id)
+    try {
+      const result = await rollbackConfig(configKey, version)
+      if (result.success) {
+        toast.success(`Versión ${version.version} restaurada`)
+        setRefreshKey((key) => key + 1)
+        onSuccess()
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      console.error('Error rolling back config:', error)
+      toast.error('Error inesperado al restaurar la versión')
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  const versionNumbers = new Map(history?.map((version) => [version.id, version.version]))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Historial de {definition.label.toLowerCase()}
+          </DialogTitle>
+          <DialogDescription>
+            Cada cambio guarda el valor anterior y el nuevo. Restaurar una versión crea una
+            versión nueva con sus valores.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!history ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-20 w-full" />
+            ))}
+          </div>
+        ) : history.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Todavía no hay cambios registrados
+          </p>
+        ) : (
+          <ol className="space-y-3">
+            {history.map((version, index) => {
+              const changes = diffConfigValues(configKey, version.old_value, version.new_value)
+              const author = version.changed_by?.full_name || version.changed_by?.email
+              const restoredVersion = version.rolled_back_from
+                ? versionNumbers.get(version.rolled_back_from)
+                : undefined
+              const restorable = canRestoreConfigVersion(configKey, version)
+
+              return (
+                <li key={version.id} className="rounded-md border p-3 space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-semibold">Versión {version.version}</span>
+                      {index === 0 && <Badge>Actual</Badge>}
+                      {version.rolled_back_from && (
+                        <Badge variant="outline">
+                          {restoredVersion
+                            ? `Restaura la versión ${restoredVersion}`
+                            : 'Restauración'}
+                        </Badge>
+                      )}
+                      <span className="text-muted-foreground">
+                        {format(new Date(version.changed_at), 'dd/MM/yyyy HH:mm')}
+                        {author ? ` · ${author}` : ''}
+                      </span>
+                    </div>
+                    {canRollback && index > 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={restoringId !== null || !restorable}
+                        onClick={() => handleRollback(version)}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                        {restoringId === version.id ? 'Restaurando...' : 'Restaurar'}
+                      </Button>
+                    )}
+                  </div>
+
+                  {canRollback && index > 0 && !restorable && (
+                    <p className="text-xs text-muted-foreground">
+                      No se puede restaurar: sus valores ya no son válidos para la configuración
+                      actual
+                    </p>
+                  )}
+
+                  {changes.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">Sin cambios en los campos</p>
+                  ) : (
+                    <table className="w-full text-xs">
+                      <thead className="text-muted-foreground">
+                        <tr>
+                          <th className="text-left font-medium">Campo</th>
+                          <th className="text-right font-medium">Antes</th>
+                          <th className="text-right font-medium">Después</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {changes.map((change) => (
+                          <tr key={change.path}>
+                            <td className="py-0.5">{change.label}</td>
+                            <td className="py-0.5 text-right text-muted-foreground line-through">
+                              {change.before}
+                            </td>
+                            <td className="py-0.5 text-right font-medium">{change.after}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
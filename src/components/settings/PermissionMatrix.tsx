@@ -0,0 +1,179 @@
+'use client'
+
+import { Fragment, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Lock } from 'lucide-react'
+import { getRolePermissions, setRolePermission } from '@/lib/api/permissions'
+import {
+  EDITABLE_PERMISSION_ROLES,
+  PERMISSION_KEYS,
+  PERMISSIONS,
+  type Permission,
+  type PermissionGrant,
+} from '@/lib/auth/permissions'
+import { ROLE_LABELS } from '@/lib/auth/roles'
+import type { UserRole } from '@/types'
+
+interface PermissionMatrixProps {
+  /** Solo los admin pueden modificar la matriz */
+  canEdit: boolean
+}
+
+const PERMISSION_GROUPS = [...new Set(PERMISSION_KEYS.map((key) => PERMISSIONS[key].group))]
+
+/**
+ * Matriz de permisos por rol: una fila por permiso del catálogo y una
+ * columna por rol. admin tiene siempre todos los permisos.
+ */
+export function PermissionMatrix({ canEdit }: PermissionMatrixProps) {
+  const [grants, setGrants] = useState<PermissionGrant[] | null>(null)
+  const [saving, setSaving] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    getRolePermissions().then((result) => {
+      if (!cancelled) setGrants(result)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const isGranted = (role: UserRole, permission: Permission) =>
+    !!grants?.some((grant) => grant.role === role && grant.permission === permission)
+
+  const handleToggle = async (role: UserRole, permission: Permission, granted: boolean) => {
+    const cell = `${role}:${permission}`
+    setSaving(cell)
+    try {
+      const result = await setRolePermission(role, permission, granted)
+      if (result.success) {
+        setGrants((current) =>
+          granted
+            ? [...(current ?? []), { role, permission }]
+            : (current ?? []).filter(
+                (grant) => !(grant.role === role && grant.permission === permission)
+              )
+        )
+        toast.success(
+          `${PERMISSIONS[permission].label}: ${granted ? 'asignado a' : 'quitado a'} ${ROLE_LABELS[role].toLowerCase()}`
+        )
+      } else {
+        toast.error(result.error)
+      }
+    } catch (error) {
+      console.error('Error updating role permission:', error)
+      toast.error('Error inesperado al guardar los permisos')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Permisos por rol
+          {!canEdit && (
+            <Badge variant="outline" className="gap-1 font-normal">
+              <Lock className="h-3 w-3" />
+              Requiere {ROLE_LABELS.admin.toLowerCase()}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Qué puede hacer cada rol en el panel. {ROLE_LABELS.admin} tiene siempre todos los
+          permisos. Los cambios se aplican al próximo inicio de sesión o recarga de página.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!grants ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Permiso</TableHead>
+                <TableHead className="text-center">{ROLE_LABELS.admin}</TableHead>
+                {EDITABLE_PERMISSION_ROLES.map((role) => (
+                  <TableHead key={role} className="text-center">
+                    {ROLE_LABELS[role]}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {PERMISSION_GROUPS.map((group) => (
+                <Fragment key={group}>
+                  <TableRow className="hover:bg-transparent">
+                    <TableCell
+                      colSpan={EDITABLE_PERMISSION_ROLES.length + 2}
+                      className="pt-4 text-xs font-semibold uppercase text-muted-foreground"
+                    >
+                      {group}
+                    </TableCell>
+                  </TableRow>
+                  {PERMISSION_KEYS.filter((key) => PERMISSIONS[key].group === group).map(
+                    (permission) => (
+                      <TableRow key={permission}>
+                        <TableCell className="whitespace-normal">
+                          <div className="font-medium">{PERMISSIONS[permission].label}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {PERMISSIONS[permission].description}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-center">
+                          <input
+                            type="checkbox"
+                            checked
+                            disabled
+                            aria-label={`${PERMISSIONS[permission].label} (${ROLE_LABELS.admin})`}
+                            className="h-4 w-4 accent-primary"
+                          />
+                        </TableCell>
+                        {EDITABLE_PERMISSION_ROLES.map((role) => {
+                          const granted = isGranted(role, permission)
+                          return (
+                            <TableCell key={role} className="text-center">
+                              <input
+                                type="checkbox"
+                                checked={granted}
+                                disabled={!canEdit || saving !== null}
+                                onChange={() => handleToggle(role, permission, !granted)}
+                                aria-label={`${PERMISSIONS[permission].label} (${ROLE_LABELS[role]})`}
+                                className="h-4 w-4 accent-primary"
+                              />
+                            </TableCell>
+                          )
+                        })}
+                      </TableRow>
+                    )
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { History, Lock } from 'lucide-react'
+import { useAuth } from '@/hooks/useAuth'
+import { ConfigForm } from './ConfigForm'
+import { ConfigHistoryDialog } from './ConfigHistoryDialog'
+import { PermissionMatrix } from './PermissionMatrix'
+import { getConfigEntries, type ConfigEntry } from '@/lib/api/config'
+import { hasRole, ROLE_LABELS } from '@/lib/auth/roles'
+import { canEditConfig, getConfigDefinition, type ConfigKey } from '@/lib/config/registry'
+
+/**
+ * Configuración de la plataforma: una sección por cada clave del registro,
+ * con su historial de versiones, y la matriz de permisos por rol
+ */
+export function SettingsView() {
+  const { profile, permissions } = useAuth()
+  const [entries, setEntries] = useState<ConfigEntry[] | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [historyKey, setHistoryKey] = useState<ConfigKey | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    getConfigEntries().then((result) => {
+      if (!cancelled) setEntries(result)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [refreshKey])
+
+  const handleChange = () => {
+    setRefreshKey((key) => key + 1)
+  }
+
+  if (!entries) {
+    return (
+      <div className="space-y-4">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-48 w-full" />
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {entries.map((entry) => {
+        const definition = getConfigDefinition(entry.key)
+        const canEdit = canEditConfig(entry.key, profile?.role, permissions)
+        const updatedBy = entry.updated_by?.full_name || entry.updated_by?.email
+
+        return (
+          <Card key={entry.key}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {definition.label}
+                {!canEdit && (
+                  <Badge variant="outline" className="gap-1 font-normal">
+                    <Lock className="h-3 w-3" />
+                    Requiere {ROLE_LABELS[definition.requiredRole].toLowerCase()}
+                  </Badge>
+                )}
+              </CardTitle>
+              <CardDescription>
+                {definition.description}
+                {entry.updated_at
+                  ? ` · Modificado el ${format(new Date(entry.updated_at), 'dd/MM/yyyy HH:mm')}${updatedBy ? ` por ${updatedBy}` : ''}`
+                  : ' · Valores por defecto'}
+              </CardDescription>
+              <CardAction>
+                <Button variant="outline" size="sm" onClick={() => setHistoryKey(entry.key)}>
+                  <History className="h-4 w-4" />
+                  Historial
+                </Button>
+              </CardAction>
+            </CardHeader>
+            <CardContent>
+              {/* La clave remonta el formulario con los valores guardados */}
+              <ConfigForm
+                key={`${entry.key}-${entry.updated_at}`}
+                entry={entry}
+                canEdit={canEdit}
+                onSuccess={handleChange}
+              />
+            </CardContent>
+          </Card>
+        )
+      })}
+
+      <PermissionMatrix canEdit={hasRole(profile?.role, 'admin')} />
+
+      {historyKey && (
+        <ConfigHistoryDialog
+          open
+          onOpenChange={(open) => {
+            if (!open) setHistoryKey(null)
+          }}
+          configKey={historyKey}
+          canRollback={hasRole(profile?.role, 'admin')}
+          onSuccess={handleChange}
+        />
+      )}
+    </div>
+  )
+}
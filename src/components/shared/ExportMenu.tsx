@@ -0,0 +1,74 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Download, FileSpreadsheet, FileText, Printer } from 'lucide-react'
+import { EXPORT_FORMATS, EXPORT_FORMAT_LABELS, type ExportFormat } from '@/lib/exports/table'
+
+const FORMAT_ICONS: Record<ExportFormat, typeof FileText> = {
+  csv: FileText,
+  xlsx: FileSpreadsheet,
+  pdf: Printer,
+}
+
+interface ExportMenuProps {
+  /** Ruta del endpoint de exportación (ej: "/api/exports/orders") */
+  path: string
+  /** Parámetros del export; `format` se agrega por cada opción */
+  params?: URLSearchParams
+  label?: string
+  disabled?: boolean
+  size?: 'sm' | 'icon-sm'
+}
+
+/**
+ * Menú para descargar un listado en CSV, XLSX o PDF
+ *
+ * Cada opción es un enlace al endpoint del servidor, que genera el archivo
+ * en streaming; el PDF se abre en otra pestaña para imprimirlo.
+ */
+export function ExportMenu({
+  path,
+  params,
+  label = 'Exportar',
+  disabled = false,
+  size = 'sm',
+}: ExportMenuProps) {
+  const hrefFor = (format: ExportFormat) => {
+    const query = new URLSearchParams(params)
+    query.set('format', format)
+    return `${path}?${query.toString()}`
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} className="gap-2" disabled={disabled}>
+          <Download className="h-4 w-4" />
+          {size === 'icon-sm' ? <span className="sr-only">{label}</span> : label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {EXPORT_FORMATS.map((format) => {
+          const Icon = FORMAT_ICONS[format]
+          return (
+            <DropdownMenuItem key={format} asChild>
+              <a
+                href={hrefFor(format)}
+                {...(format === 'pdf' ? { target: '_blank', rel: 'noopener' } : { download: true })}
+              >
+                <Icon className="h-4 w-4" />
+                {EXPORT_FORMAT_LABELS[format]}
+              </a>
+            </DropdownMenuItem>
+          )
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,102 @@
+'use client'
+
+import { useFormContext, useWatch } from 'react-hook-form'
+import { Copy } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { FormControl, FormField, FormItem, FormMessage } from '@/components/ui/form'
+import { WEEK_DAYS, WEEK_DAY_LABELS, type StoreFormValues } from '@/lib/stores/schema'
+
+/**
+ * Editor del horario semanal de un comercio
+ *
+ * Debe usarse dentro del `<Form>` de `StoreFormDialog`: lee y escribe
+ * `opening_hours` del formulario. Los errores de formato y de cierre antes
+ * de la apertura los reporta `dayHoursSchema`.
+ */
+export function OpeningHoursEditor() {
+  const form = useFormContext<StoreFormValues>()
+  const openingHours = useWatch({ control: form.control, name: 'opening_hours' })
+
+  // Copia el horario del lunes al resto de los días abiertos
+  const copyMondayToAll = () => {
+    const monday = form.getValues('opening_hours.monday')
+    WEEK_DAYS.slice(1).forEach((day) => {
+      if (!form.getValues(`opening_hours.${day}.closed`)) {
+        form.setValue(`opening_hours.${day}.open`, monday.open, { shouldValidate: true })
+        form.setValue(`opening_hours.${day}.close`, monday.close, { shouldValidate: true })
+      }
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Horario de atención</p>
+        <Button type="button" variant="ghost" size="sm" className="gap-2" onClick={copyMondayToAll}>
+          <Copy className="h-4 w-4" />
+          Copiar lunes a todos
+        </Button>
+      </div>
+
+      <div className="space-y-2 rounded-lg border p-3">
+        {WEEK_DAYS.map((day) => {
+          const closed = openingHours?.[day]?.closed ?? false
+
+          return (
+            <div key={day} className="grid grid-cols-[100px_90px_1fr_1fr] items-start gap-3">
+              <span className="pt-2 text-sm font-medium">{WEEK_DAY_LABELS[day]}</span>
+
+              <FormField
+                control={form.control}
+                name={`opening_hours.${day}.closed`}
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center gap-2 pt-2">
+                    <FormControl>
+                      <input
+                        type="checkbox"
+                        checked={field.value}
+                        onChange={(e) => {
+                          field.onChange(e.target.checked)
+                          form.trigger(`opening_hours.${day}`)
+                        }}
+                        className="h-4 w-4 accent-primary"
+                      />
+                    </FormControl>
+                    <span className="text-sm text-muted-foreground">Cerrado</span>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name={`opening_hours.${day}.open`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input type="time" disabled={closed} aria-label="Apertura" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name={`opening_hours.${day}.close`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input type="time" disabled={closed} aria-label="Cierre" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+'use client'
+
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Clock, DollarSign, Mail, MapPin, Package, Phone, ShoppingBag, Star } from 'lucide-react'
+import { OrderStatus } from '@/components/orders/OrderStatus'
+import { StoreActions } from './StoreActions'
+import { ProductCatalog } from '@/components/products/ProductCatalog'
+import { parseOpeningHours, WEEK_DAY_LABELS, WEEK_DAYS } from '@/lib/stores/schema'
+import type { Order, StoreWithStats } from '@/types'
+
+interface StoreDetailsProps {
+  store: StoreWithStats
+  activeOrders: Pick<
+    Order,
+    'id' | 'order_number' | 'status' | 'customer_name' | 'total_amount' | 'created_at'
+  >[]
+}
+
+export function StoreDetails({ store, activeOrders }: StoreDetailsProps) {
+  const router = useRouter()
+  const openingHours = parseOpeningHours(store.opening_hours)
+
+  const stats = [
+    {
+      title: 'Productos',
+      value: store.total_products.toString(),
+      icon: ShoppingBag,
+      description: 'Registrados en el catálogo',
+    },
+    {
+      title: 'Pedidos Activos',
+      value: store.active_orders.toString(),
+      icon: Package,
+      description: 'Pendientes, asignados o en camino',
+    },
+    {
+      title: 'Ingresos Hoy',
+      value: `$${store.revenue_today.toFixed(2)}`,
+      icon: DollarSign,
+      description: 'Pedidos entregados hoy',
+    },
+    {
+      title: 'Rating',
+      value: store.rating !== null ? store.rating.toFixed(1) : '—',
+      icon: Star,
+      description: `${store.total_orders} pedidos en total`,
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold">{store.name}</h1>
+            {store.is_active ? (
+              <Badge className="bg-green-500 text-white">Activo</Badge>
+            ) : (
+              <Badge variant="outline">Inactivo</Badge>
+            )}
+          </div>
+          <p className="text-muted-foreground mt-1">
+            {store.category} · /{store.slug}
+          </p>
+        </div>
+
+        <StoreActions store={store} onSuccess={() => router.refresh()} />
+      </div>
+
+      {/* Estadísticas */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {stats.map((stat) => {
+          const Icon = stat.icon
+          return (
+            <Card key={stat.title}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{stat.title}</CardTitle>
+                <Icon className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{stat.value}</div>
+                <p className="text-xs text-muted-foreground">{stat.description}</p>
+              </CardContent>
+            </Card>
+          )
+        })}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Pedidos activos */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Package className="h-5 w-5" />
+              Pedidos Activos
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {activeOrders.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                El comercio no tiene pedidos activos
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>ID</TableHead>
+                    <TableHead>Cliente</TableHead>
+                    <TableHead>Total</TableHead>
+                    <TableHead>Estado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {activeOrders.map((order) => (
+                    <TableRow key={order.id}>
+                      <TableCell className="font-medium">
+                        <Link href={`/orders/${order.id}`} className="hover:underline">
+                          {order.order_number}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{order.customer_name}</TableCell>
+                      <TableCell>${order.total_amount.toFixed(2)}</TableCell>
+                      <TableCell>
+                        <OrderStatus status={order.status} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          {/* Datos del comercio */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Datos del Comercio</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div>
+                <p className="text-sm text-muted-foreground">Teléfono</p>
+                <div className="flex items-center gap-2">
+                  <Phone className="h-4 w-4 text-muted-foreground" />
+                  <p className="font-medium">{store.phone}</p>
+                </div>
+              </div>
+              {store.email && (
+                <div>
+                  <p className="text-sm text-muted-foreground">Email</p>
+                  <div className="flex items-center gap-2">
+                    <Mail className="h-4 w-4 text-muted-foreground" />
+                    <p className="font-medium">{store.email}</p>
+                  </div>
+                </div>
+              )}
+              <div>
+                <p className="text-sm text-muted-foreground">Dirección</p>
+                <div className="flex items-center gap-2">
+                  <MapPin className="h-4 w-4 text-muted-foreground" />
+                  <p className="font-medium">{store.address}</p>
+                </div>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Envío</p>
+                <p className="font-medium">
+                  ${store.delivery_fee.toFixed(2)}
+                  {store.min_order_amount !== null &&
+                    ` · Mínimo $${store.min_order_amount.toFixed(2)}`}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Comisión</p>
+                <p className="font-medium">
+                  {store.commission_rate !== null
+                    ? `${(store.commission_rate * 100).toFixed(2)}%`
+                    : 'Por defecto'}
+                </p>
+              </div>
+              {store.description && (
+                <div>
+                  <p className="text-sm text-muted-foreground">Descripción</p>
+                  <p className="text-sm">{store.description}</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Horario */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Clock className="h-5 w-5" />
+                Horario
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {WEEK_DAYS.map((day) => {
+                const hours = openingHours[day]
+                return (
+                  <div key={day} className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">{WEEK_DAY_LABELS[day]}</span>
+                    <span className="font-medium">
+                      {hours.closed ? 'Cerrado' : `${hours.open} – ${hours.close}`}
+                    </span>
+                  </div>
+                )
+              })}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Catálogo */}
+      <ProductCatalog storeId={store.id} storeSlug={store.slug} onChange={() => router.refresh()} />
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Filter } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Card } from '@/components/ui/card'
+import { getStoreCategories } from '@/lib/api/stores'
+
+interface StoreFiltersProps {
+  onFilterChange: (filters: StoreFiltersState) => void
+}
+
+export interface StoreFiltersState {
+  category: string
+  isActive: string
+}
+
+export const EMPTY_STORE_FILTERS: StoreFiltersState = {
+  category: 'all',
+  isActive: 'all',
+}
+
+export function StoreFilters({ onFilterChange }: StoreFiltersProps) {
+  const [filters, setFilters] = useState<StoreFiltersState>(EMPTY_STORE_FILTERS)
+  const [categories, setCategories] = useState<string[]>([])
+
+  useEffect(() => {
+    getStoreCategories().then(setCategories)
+  }, [])
+
+  const handleFilterChange = (key: keyof StoreFiltersState, value: string) => {
+    const newFilters = { ...filters, [key]: value }
+    setFilters(newFilters)
+    onFilterChange(newFilters)
+  }
+
+  const clearFilters = () => {
+    setFilters(EMPTY_STORE_FILTERS)
+    onFilterChange(EMPTY_STORE_FILTERS)
+  }
+
+  const hasActiveFilters = filters.category !== 'all' || filters.isActive !== 'all'
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Filter className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm font-medium">Filtros:</span>
+        </div>
+
+        {/* Categoría */}
+        <Select
+          value={filters.category}
+          onValueChange={(value) => handleFilterChange('category', value)}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Categoría" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todas las categorías</SelectItem>
+            {categories.map((category) => (
+              <SelectItem key={category} value={category}>
+                {category}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Activo */}
+        <Select
+          value={filters.isActive}
+          onValueChange={(value) => handleFilterChange('isActive', value)}
+        >
+          <SelectTrigger className="w-[150px]">
+            <SelectValue placeholder="Activo" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Activos e inactivos</SelectItem>
+            <SelectItem value="true">Activos</SelectItem>
+            <SelectItem value="false">Inactivos</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {/* Limpiar Filtros */}
+        {hasActiveFilters && (
+          <Button variant="outline" size="sm" onClick={clearFilters}>
+            Limpiar
+          </Button>
+        )}
+      </div>
+    </Card>
+  )
+}
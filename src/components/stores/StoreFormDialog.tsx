@@ -0,0 +1,338 @@
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { OpeningHoursEditor } from './OpeningHoursEditor'
+import { createStore, updateStore } from '@/lib/api/stores'
+import {
+  EMPTY_STORE_FORM,
+  slugify,
+  storeFormSchema,
+  storeToFormValues,
+  type StoreFormValues,
+} from '@/lib/stores/schema'
+import type { Store } from '@/types'
+
+interface StoreFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Comercio a editar; si se omite, el formulario da de alta uno nuevo */
+  store?: Store | null
+  onSuccess: () => void
+}
+
+/**
+ * Convierte el valor de un input numérico (vacío = null)
+ */
+const toNumberOrNull = (value: string) => (value === '' ? null : Number(value))
+
+/**
+ * Formulario de alta y edición de comercios
+ */
+export function StoreFormDialog({ open, onOpenChange, store, onSuccess }: StoreFormDialogProps) {
+  const isEdit = Boolean(store)
+  const form = useForm<StoreFormValues>({
+    resolver: zodResolver(storeFormSchema),
+    defaultValues: store ? storeToFormValues(store) : EMPTY_STORE_FORM,
+  })
+
+  const onSubmit = async (values: StoreFormValues) => {
+    const result = store ? await updateStore(store.id, values) : await createStore(values)
+
+    if (!result.success) {
+      if (result.code === 'DUPLICATE_SLUG') {
+        form.setError('slug', { message: result.error })
+      } else {
+        toast.error(result.error)
+      }
+      return
+    }
+
+    toast.success(isEdit ? 'Comercio actualizado' : 'Comercio creado')
+    onOpenChange(false)
+    onSuccess()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? 'Editar Comercio' : 'Nuevo Comercio'}</DialogTitle>
+          <DialogDescription>
+            Datos de contacto, condiciones de envío y horario de atención
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            {/* Datos generales */}
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nombre</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Ej: Pizzería Don Luigi"
+                        {...field}
+                        onChange={(e) => {
+                          field.onChange(e)
+                          // Sugerir el slug mientras el usuario no lo haya editado
+                          if (!isEdit && !form.getFieldState('slug').isDirty) {
+                            form.setValue('slug', slugify(e.target.value))
+                          }
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="slug"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Slug</FormLabel>
+                    <FormControl>
+                      <Input placeholder="pizzeria-don-luigi" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Categoría</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ej: Restaurante" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Descripción (opcional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Contacto y ubicación */}
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Teléfono</FormLabel>
+                    <FormControl>
+                      <Input placeholder="+58 212 1234567" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email (opcional)</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="address"
+                render={({ field }) => (
+                  <FormItem className="sm:col-span-2">
+                    <FormLabel>Dirección</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="lat"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Latitud (opcional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="any"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(toNumberOrNull(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="lng"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Longitud (opcional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="any"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(toNumberOrNull(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormDescription>Se usa en el mapa y en el despacho</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Condiciones de envío */}
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="delivery_fee"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Costo de envío</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min={0}
+                        value={Number.isNaN(field.value) ? '' : field.value}
+                        onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="min_order_amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pedido mínimo (opcional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min={0}
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(toNumberOrNull(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="commission_rate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Comisión % (opcional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min={0}
+                        max={100}
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(toNumberOrNull(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Sobre las ventas; si se deja vacío se usa la comisión por defecto
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <OpeningHoursEditor />
+
+            {!isEdit && (
+              <FormField
+                control={form.control}
+                name="is_active"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center gap-2">
+                    <FormControl>
+                      <input
+                        type="checkbox"
+                        checked={field.value}
+                        onChange={(e) => field.onChange(e.target.checked)}
+                        className="h-4 w-4 accent-primary"
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">Activo</FormLabel>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting
+                  ? 'Guardando...'
+                  : isEdit
+                    ? 'Guardar cambios'
+                    : 'Crear comercio'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,235 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { SearchBar } from '@/components/shared/SearchBar'
+import { StoreFilters, EMPTY_STORE_FILTERS, type StoreFiltersState } from './StoreFilters'
+import { StoreActions } from './StoreActions'
+import { StoreFormDialog } from './StoreFormDialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ChevronLeft, ChevronRight, Plus, Store as StoreIcon } from 'lucide-react'
+import { getStores } from '@/lib/api/stores'
+import { useAuth } from '@/hooks/useAuth'
+import { canWriteRoute } from '@/lib/auth/access'
+import type { Store, StoreFilters as StoreFiltersType } from '@/types'
+
+const ITEMS_PER_PAGE = 10
+
+/**
+ * Convierte el estado de los selects en `StoreFilters`
+ */
+function toStoreFilters(filters: StoreFiltersState, search: string): StoreFiltersType {
+  return {
+    category: filters.category !== 'all' ? filters.category : undefined,
+    is_active: filters.isActive !== 'all' ? filters.isActive === 'true' : undefined,
+    search: search || undefined,
+  }
+}
+
+export function StoresTable() {
+  const { permissions } = useAuth()
+  const [stores, setStores] = useState<Store[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [filters, setFilters] = useState<StoreFiltersState>(EMPTY_STORE_FILTERS)
+  const [currentPage, setCurrentPage] = useState(1)
+  const [totalCount, setTotalCount] = useState(0)
+  const [creating, setCreating] = useState(false)
+
+  const fetchStores = async () => {
+    setLoading(true)
+    try {
+      const result = await getStores(toStoreFilters(filters, search), {
+        page: currentPage,
+        per_page: ITEMS_PER_PAGE,
+      })
+      setStores(result.data)
+      setTotalCount(result.total)
+    } catch (error) {
+      console.error('Error fetching stores:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchStores()
+  }, [search, filters, currentPage]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE)
+  const hasFilters = search !== '' || filters.category !== 'all' || filters.isActive !== 'all'
+
+  const handleFilterChange = (newFilters: StoreFiltersState) => {
+    setFilters(newFilters)
+    setCurrentPage(1) // Reset a primera página
+  }
+
+  const handleSearchChange = (value: string) => {
+    setSearch(value)
+    setCurrentPage(1) // Reset a primera página
+  }
+
+  if (loading && stores.length === 0) {
+    return (
+      <div className="space-y-4">
+        <Card>
+          <CardHeader>
+            <Skeleton className="h-8 w-48" />
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {[1, 2, 3, 4, 5].map((i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Búsqueda */}
+      <SearchBar
+        value={search}
+        onChange={handleSearchChange}
+        placeholder="Buscar por nombre..."
+        className="max-w-md"
+      />
+
+      {/* Filtros */}
+      <StoreFilters onFilterChange={handleFilterChange} />
+
+      {/* Tabla */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <StoreIcon className="h-5 w-5" />
+              Comercios ({totalCount})
+            </CardTitle>
+            {canWriteRoute('/stores', permissions) && (
+              <Button size="sm" className="gap-2" onClick={() => setCreating(true)}>
+                <Plus className="h-4 w-4" />
+                Nuevo Comercio
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {stores.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <StoreIcon className="h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-1">No hay comercios</h3>
+              <p className="text-sm text-muted-foreground">
+                {hasFilters
+                  ? 'No se encontraron comercios con los filtros aplicados'
+                  : 'Aún no hay comercios registrados'}
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Comercio</TableHead>
+                      <TableHead>Categoría</TableHead>
+                      <TableHead>Teléfono</TableHead>
+                      <TableHead>Envío</TableHead>
+                      <TableHead>Pedido mínimo</TableHead>
+                      <TableHead>Estado</TableHead>
+                      <TableHead className="text-right">Acciones</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stores.map((store) => (
+                      <TableRow key={store.id} className={store.is_active ? '' : 'opacity-60'}>
+                        <TableCell>
+                          <Link href={`/stores/${store.id}`} className="flex flex-col">
+                            <span className="font-medium hover:underline">{store.name}</span>
+                            <span className="text-xs text-muted-foreground">{store.address}</span>
+                          </Link>
+                        </TableCell>
+                        <TableCell>{store.category}</TableCell>
+                        <TableCell>{store.phone}</TableCell>
+                        <TableCell>${store.delivery_fee.toFixed(2)}</TableCell>
+                        <TableCell>
+                          {store.min_order_amount !== null ? (
+                            `$${store.min_order_amount.toFixed(2)}`
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {store.is_active ? (
+                            <Badge className="bg-green-500 text-white">Activo</Badge>
+                          ) : (
+                            <Badge variant="outline">Inactivo</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <StoreActions store={store} variant="menu" onSuccess={fetchStores} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {/* Paginación */}
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between mt-4">
+                  <div className="text-sm text-muted-foreground">
+                    Mostrando {(currentPage - 1) * ITEMS_PER_PAGE + 1} -{' '}
+                    {Math.min(currentPage * ITEMS_PER_PAGE, totalCount)} de {totalCount}{' '}
+                    comercios
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+                      disabled={currentPage === 1}
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                      Anterior
+                    </Button>
+                    <span className="text-sm">
+                      Página {currentPage} de {totalPages}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
+                      disabled={currentPage === totalPages}
+                    >
+                      Siguiente
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {creating && (
+        <StoreFormDialog open onOpenChange={setCreating} onSuccess={fetchStores} />
+      )}
+    </div>
+  )
+}
@@ -24,7 +24,7 @@
  *
  * Características:
  * - Detecta cambios de sesión en tiempo real con Supabase Realtime
- * - Sistema de permisos jerárquico por rol
+ * - Permisos con nombre según la matriz de `role_permissions`
  * - Helpers booleanos para verificar roles
  * - Función signOut integrada
  * - Type safety completo con TypeScript
@@ -40,8 +40,10 @@
 import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
+import { getRolePermissions } from '@/lib/api/permissions'
+import { can, resolvePermissions, type Permission } from '@/lib/auth/permissions'
 import type { User } from '@supabase/supabase-js'
-import type { Profile, UserRole } from '@/types'
+import type { Profile } from '@/types'
 
 /**
  * Interfaz de retorno del hook useAuth
@@ -55,6 +57,9 @@ interface UseAuthReturn {
   /** Perfil del usuario desde la tabla profiles (null si no está autenticado) */
   profile: Profile | null
 
+  /** Permisos efectivos del usuario según su rol (vacío si no está autenticado) */
+  permissions: Permission[]
+
   /** Indica si el hook está cargando datos (true durante la carga inicial) */
   loading: boolean
 
@@ -62,17 +67,15 @@ interface UseAuthReturn {
   signOut: () => Promise<void>
 
   /**
-   * Verifica si el usuario actual tiene permisos para un rol específico
+   * Verifica si el usuario actual tiene un permiso
    *
-   * Sistema jerárquico:
-   * - admin (nivel 3) puede todo
-   * - sub-admin (nivel 2) puede acceder a sub-admin y soporte
-   * - soporte (nivel 1) solo acceso de soporte
+   * admin tiene todos los permisos; sub-admin y soporte, los que les asigna
+   * la matriz de permisos (ver `lib/auth/permissions`).
    *
-   * @param requiredRole - Rol requerido
+   * @param permission - Permiso requerido (ej: 'orders.cancel')
    * @returns true si el usuario tiene el permiso, false en caso contrario
    */
-  hasPermission: (requiredRole: UserRole) => boolean
+  hasPermission: (permission: Permission) => boolean
 
   /** Helper: true si el usuario es admin */
   isAdmin: boolean
@@ -116,7 +119,7 @@ interface UseAuthReturn {
  * function ProtectedAction() {
  *   const { hasPermission, signOut } = useAuth()
  *
- *   if (!hasPermission('admin')) {
+ *   if (!hasPermission('config.write')) {
  *     return <p>No tienes permisos</p>
  *   }
  *
@@ -133,6 +136,7 @@ export function useAuth(): UseAuthReturn {
   // Estado del usuario y perfil
   const [user, setUser] = useState<User | null>(null)
   const [profile, setProfile] = useState<Profile | null>(null)
+  const [permissions, setPermissions] = useState<Permission[]>([])
   const [loading, setLoading] = useState(true)
 
   // Hooks de Next.js
@@ -175,16 +179,22 @@ export function useAuth(): UseAuthReturn {
           if (profileError) {
             console.error('Error al obtener perfil:', profileError)
             setProfile(null)
+            setPermissions([])
           } else {
             setProfile(profileData)
+            setPermissions(
+              resolvePermissions(profileData.role, await getRolePermissions(supabase))
+            )
           }
         } else {
           setProfile(null)
+          setPermissions([])
         }
       } catch (error) {
         console.error('Error en getUser:', error)
         setUser(null)
         setProfile(null)
+        setPermissions([])
       } finally {
         setLoading(false)
       }
@@ -221,12 +231,17 @@ export function useAuth(): UseAuthReturn {
         if (profileError) {
           console.error('Error al obtener perfil:', profileError)
           setProfile(null)
+          setPermissions([])
         } else {
           setProfile(profileData)
+          setPermissions(
+            resolvePermissions(profileData.role, await getRolePermissions(supabase))
+          )
         }
       } else {
         // No hay sesión, limpiar perfil
         setProfile(null)
+        setPermissions([])
       }
 
       // Ya no estamos cargando después del primer evento
@@ -262,42 +277,22 @@ export function useAuth(): UseAuthReturn {
   }
 
   /**
-   * Verifica si el usuario tiene permisos para un rol específico
+   * Verifica si el usuario tiene un permiso
    *
-   * Sistema jerárquico de roles:
-   * - admin (nivel 3): Puede todo
-   * - sub-admin (nivel 2): Puede sub-admin y soporte
-   * - soporte (nivel 1): Solo soporte
+   * admin tiene todos los permisos; sub-admin y soporte, los que les asigna
+   * la matriz de permisos editable desde Configuración.
    *
-   * @param requiredRole - Rol mínimo requerido
+   * @param permission - Permiso requerido
    * @returns true si el usuario tiene el permiso
    *
    * @example
    * ```tsx
-   * if (hasPermission('admin')) {
-   *   // Solo admins pueden hacer esto
-   * }
-   *
-   * if (hasPermission('sub-admin')) {
-   *   // Admins y sub-admins pueden hacer esto
+   * if (hasPermission('orders.cancel')) {
+   *   // Mostrar el botón de cancelar
    * }
    * ```
    */
-  const hasPermission = (requiredRole: UserRole): boolean => {
-    if (!profile) return false
-
-    // Jerarquía de roles
-    const roleHierarchy: Record<UserRole, number> = {
-      admin: 3,
-      'sub-admin': 2,
-      soporte: 1,
-    }
-
-    const userLevel = roleHierarchy[profile.role]
-    const requiredLevel = roleHierarchy[requiredRole]
-
-    return userLevel >= requiredLevel
-  }
+  const hasPermission = (permission: Permission): boolean => can(permissions, permission)
 
   /**
    * Helpers booleanos para verificar roles específicos
@@ -312,6 +307,7 @@ export function useAuth(): UseAuthReturn {
   return {
     user,
     profile,
+    permissions,
     loading,
     signOut,
     hasPermission,
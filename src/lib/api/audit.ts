@@ -0,0 +1,114 @@
+/**
+ * API de Auditoría - PideAI Admin
+ *
+ * Consulta el registro de auditoría (`audit_log`). Los registros los
+ * escriben triggers de la base de datos en cada cambio, así que no hay
+ * funciones para crearlos; solo los usuarios con el permiso `audit.view`
+ * pueden leerlos.
+ *
+ * @module lib/api/audit
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import type {
+  AuditLog,
+  AuditLogFilters,
+  PaginatedResult,
+  PaginationOptions,
+  Profile,
+} from '@/types'
+
+/**
+ * Perfil resumido del autor de un cambio
+ */
+export type AuditActor = Pick<Profile, 'id' | 'full_name' | 'email'>
+
+/**
+ * Registro de auditoría con el perfil de su autor
+ */
+export interface AuditLogEntry extends AuditLog {
+  actor: AuditActor | null
+}
+
+/**
+ * Lista el registro de auditoría con filtros y paginación
+ *
+ * @param filters - Autor, entidad, ID de la entidad y rango de fechas
+ * @param pagination - Página (desde 1) y tamaño de página
+ * @returns Página de registros, del más reciente al más antiguo
+ */
+export async function getAuditLog(
+  filters: AuditLogFilters,
+  { page, per_page }: PaginationOptions
+): Promise<PaginatedResult<AuditLogEntry>> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from('audit_log')
+    .select('*, actor:profiles!audit_log_actor_id_fkey (id, full_name, email)', {
+      count: 'exact',
+    })
+    .order('created_at', { ascending: false })
+
+  if (filters.actor_id) {
+    query = query.eq('actor_id', filters.actor_id)
+  }
+
+  if (filters.entity_type) {
+    query = query.eq('entity_type', filters.entity_type)
+  }
+
+  if (filters.entity_id) {
+    query = query.eq('entity_id', filters.entity_id.trim())
+  }
+
+  if (filters.date_from) {
+    query = query.gte('created_at', filters.date_from)
+  }
+
+  if (filters.date_to) {
+    query = query.lte('created_at', filters.date_to)
+  }
+
+  const from = (page - 1) * per_page
+  const { data, count, error } = await query.range(from, from + per_page - 1)
+
+  if (error) {
+    console.error('Error fetching audit log:', error)
+    return { data: [], total: 0, page, per_page, total_pages: 0 }
+  }
+
+  const total = count || 0
+
+  return {
+    data: (data || []).map((row) => ({
+      ...row,
+      actor: row.actor as unknown as AuditActor | null,
+    })),
+    total,
+    page,
+    per_page,
+    total_pages: Math.ceil(total / per_page),
+  }
+}
+
+/**
+ * Lista los usuarios del panel para filtrar el registro por autor
+ *
+ * @returns Perfiles ordenados por nombre
+ */
+export async function getAuditActors(): Promise<AuditActor[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, full_name, email')
+    .order('full_name')
+
+  if (error) {
+    console.error('Error fetching audit actors:', error)
+    return []
+  }
+
+  return data || []
+}
@@ -0,0 +1,352 @@
+/**
+ * API de Facturación a Comercios - PideAI Admin
+ *
+ * Carga los pedidos entregados y los estados de cuenta de un período y
+ * guarda, emite y marca como pagados los estados de cuenta de cada comercio.
+ * Los montos se calculan con `lib/billing/statement`.
+ *
+ * @module lib/api/billing
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import { getConfig } from '@/lib/api/config'
+import type { StoreBillingSettings } from '@/lib/billing/settings'
+import type { BillingOrder, BillingStore, StoreBillingStatement } from '@/lib/billing/statement'
+import { settlementPeriodRange, type SettlementPeriod } from '@/lib/periods'
+import { BUSINESS_TIME_ZONE } from '@/lib/timezone'
+import type { StoreStatement, StoreStatementOrder } from '@/types'
+
+/**
+ * Códigos de error de las operaciones de facturación
+ */
+export type BillingMutationErrorCode =
+  | 'STATEMENT_LOCKED'
+  | 'STATEMENT_NOT_FOUND'
+  | 'STORE_NOT_FOUND'
+  | 'INVALID_STATUS'
+  | 'INVALID_PERIOD'
+  | 'PERIOD_OVERLAP'
+  | 'FORBIDDEN'
+  | 'UNKNOWN'
+
+/**
+ * Resultado de una operación de facturación
+ */
+export interface BillingMutationResult {
+  success: boolean
+  error?: string
+  code?: BillingMutationErrorCode
+}
+
+/**
+ * Datos de un período de facturación
+ */
+export interface BillingPeriodData {
+  settings: StoreBillingSettings
+  orders: BillingOrder[]
+  stores: BillingStore[]
+  /** Estados de cuenta guardados para exactamente este período */
+  statements: StoreStatement[]
+}
+
+const BILLING_MUTATION_ERROR_MESSAGES: Record<BillingMutationErrorCode, string> = {
+  STATEMENT_LOCKED: 'El estado de cuenta ya fue emitido y no se puede modificar',
+  STATEMENT_NOT_FOUND: 'Estado de cuenta no encontrado',
+  STORE_NOT_FOUND: 'Comercio no encontrado',
+  INVALID_STATUS: 'El estado de cuenta cambió de estado; recarga la página',
+  INVALID_PERIOD: 'El período no es válido',
+  PERIOD_OVERLAP: 'El período se superpone con otro estado de cuenta emitido del comercio',
+  FORBIDDEN: 'No tienes permisos para emitir estados de cuenta',
+  UNKNOWN: 'Error al guardar el estado de cuenta',
+}
+
+function billingMutationError(code: BillingMutationErrorCode): BillingMutationResult {
+  return { success: false, code, error: BILLING_MUTATION_ERROR_MESSAGES[code] }
+}
+
+/**
+ * Cliente de Supabase (del navegador o del servidor, para las exportaciones)
+ */
+type BillingClient = ReturnType<typeof createClient>
+
+/**
+ * Filas por consulta (el límite por defecto de PostgREST es 1000)
+ */
+const PAGE_SIZE = 1000
+
+const BILLING_ORDER_COLUMNS = 'id, order_number, store_id, total_amount, delivery_fee, delivered_at'
+
+/**
+ * Obtiene los pedidos entregados en un período, en páginas
+ */
+async function getDeliveredOrders(
+  supabase: BillingClient,
+  period: SettlementPeriod,
+  storeId?: string
+): Promise<BillingOrder[]> {
+  const { from, to } = settlementPeriodRange(period)
+  const orders: BillingOrder[] = []
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('orders')
+      .select(BILLING_ORDER_COLUMNS)
+      .eq('status', 'delivered')
+      .gte('delivered_at', from.toISOString())
+      .lte('delivered_at', to.toISOString())
+
+    if (storeId) {
+      query = query.eq('store_id', storeId)
+    }
+
+    const { data, error } = await query
+      .order('delivered_at')
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      console.error('Error fetching billing orders:', error)
+      break
+    }
+
+    orders.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return orders
+}
+
+/**
+ * Obtiene los datos de un período de facturación
+ *
+ * @param period - Período a facturar
+ * @param options.storeId - Limita los datos a un comercio (estado de cuenta individual)
+ * @param options.supabase - Cliente a usar; por defecto, el del navegador
+ * @returns Reglas, pedidos, comercios y estados de cuenta del período
+ */
+export async function getStoreBillingPeriodData(
+  period: SettlementPeriod,
+  { storeId, supabase = createClient() }: { storeId?: string; supabase?: BillingClient } = {}
+): Promise<BillingPeriodData> {
+  let storesQuery = supabase.from('stores').select('id, name, commission_rate').order('name')
+  let statementsQuery = supabase
+    .from('store_statements')
+    .select('*')
+    .eq('period_start', period.start)
+    .eq('period_end', period.end)
+
+  if (storeId) {
+    storesQuery = storesQuery.eq('id', storeId)
+    statementsQuery = statementsQuery.eq('store_id', storeId)
+  }
+
+  const [
+    settings,
+    orders,
+    { data: stores, error: storesError },
+    { data: statements, error: statementsError },
+  ] = await Promise.all([
+    getConfig('store_billing_settings', supabase),
+    getDeliveredOrders(supabase, period, storeId),
+    storesQuery,
+    statementsQuery,
+  ])
+
+  if (storesError) {
+    console.error('Error fetching billing stores:', storesError)
+  }
+  if (statementsError) {
+    console.error('Error fetching store statements:', statementsError)
+  }
+
+  return {
+    settings,
+    orders,
+    stores: stores || [],
+    statements: statements || [],
+  }
+}
+
+/**
+ * Obtiene los pedidos guardados en un estado de cuenta emitido
+ *
+ * @param statementId - ID del estado de cuenta
+ * @param supabase - Cliente a usar; por defecto, el del navegador
+ * @returns Pedidos con el desglose facturado
+ * @throws Si falla una consulta (un detalle incompleto no coincidiría con
+ *   los totales emitidos)
+ */
+export async function getStoreStatementOrders(
+  statementId: string,
+  supabase: BillingClient = createClient()
+): Promise<StoreStatementOrder[]> {
+  const orders: StoreStatementOrder[] = []
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('store_statement_orders')
+      .select('*')
+      .eq('statement_id', statementId)
+      .order('delivered_at')
+      .order('order_id')
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      console.error('Error fetching store statement orders:', error)
+      throw error
+    }
+
+    orders.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return orders
+}
+
+/**
+ * Guarda el estado de cuenta de un comercio como borrador
+ *
+ * Crea el registro del período o actualiza el borrador existente con los
+ * montos recalculados.
+ *
+ * @param statement - Estado de cuenta calculado con `buildStoreStatement`
+ * @param period - Período facturado
+ * @param notes - Nota opcional
+ * @returns Resultado de la operación
+ */
+export async function saveStoreStatement(
+  statement: StoreBillingStatement,
+  period: SettlementPeriod,
+  notes?: string
+): Promise<BillingMutationResult> {
+  const supabase = createClient()
+
+  const { error } = await supabase.from('store_statements').upsert(
+    {
+      store_id: statement.store_id,
+      period_start: period.start,
+      period_end: period.end,
+      status: 'draft',
+      orders_count: statement.orders_count,
+      gross_sales: statement.gross_sales,
+      commission_rate: statement.commission_rate,
+      commission: statement.commission,
+      delivery_fees: statement.delivery_fees,
+      net_payable: statement.net_payable,
+      notes: notes || null,
+    },
+    { onConflict: 'store_id,period_start,period_end' }
+  )
+
+  if (error) {
+    console.error('Error saving store statement:', error)
+    // P0001: el trigger rechaza cambios en estados de cuenta ya emitidos
+    return billingMutationError(error.code === 'P0001' ? 'STATEMENT_LOCKED' : 'UNKNOWN')
+  }
+
+  return { success: true }
+}
+
+/**
+ * Emite el estado de cuenta de un comercio
+ *
+ * La base calcula los pedidos y los montos con la comisión vigente, con el
+ * comercio bloqueado, y guarda el detalle de cada pedido. Al emitirse, los
+ * montos quedan fijos.
+ *
+ * @param storeId - ID del comercio
+ * @param period - Período facturado (días en la zona horaria del negocio)
+ * @param notes - Nota opcional
+ * @returns Resultado de la operación
+ */
+export async function issueStoreStatement(
+  storeId: string,
+  period: SettlementPeriod,
+  notes?: string
+): Promise<BillingMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('issue_store_statement', {
+    p_store_id: storeId,
+    p_period_start: period.start,
+    p_period_end: period.end,
+    p_time_zone: BUSINESS_TIME_ZONE,
+    p_notes: notes || null,
+  })
+
+  if (error) {
+    console.error('Error issuing store statement:', error)
+    // 42501: el usuario no tiene el permiso billing.manage
+    return billingMutationError(error.code === '42501' ? 'FORBIDDEN' : 'UNKNOWN')
+  }
+
+  if (!data?.success) {
+    return billingMutationError((data?.error_code as BillingMutationErrorCode) || 'UNKNOWN')
+  }
+
+  return { success: true }
+}
+
+/**
+ * Marca como pagado un estado de cuenta emitido
+ *
+ * @param statementId - ID del estado de cuenta
+ * @param notes - Nota opcional (ej: número de transferencia); si se omite se conserva la anterior
+ * @returns Resultado de la operación
+ */
+export async function markStoreStatementPaid(
+  statementId: string,
+  notes?: string
+): Promise<BillingMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('store_statements')
+    .update(notes ? { status: 'paid', notes } : { status: 'paid' })
+    .eq('id', statementId)
+    .eq('status', 'issued')
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error marking store statement as paid:', error)
+    return billingMutationError('UNKNOWN')
+  }
+
+  if (!data) {
+    return billingMutationError('INVALID_STATUS')
+  }
+
+  return { success: true }
+}
+
+/**
+ * Elimina un estado de cuenta en borrador
+ *
+ * @param statementId - ID del estado de cuenta
+ * @returns Resultado de la operación
+ */
+export async function deleteStoreStatementDraft(
+  statementId: string
+): Promise<BillingMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('store_statements')
+    .delete()
+    .eq('id', statementId)
+    .eq('status', 'draft')
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error deleting store statement:', error)
+    return billingMutationError('UNKNOWN')
+  }
+
+  if (!data) {
+    return billingMutationError('STATEMENT_NOT_FOUND')
+  }
+
+  return { success: true }
+}
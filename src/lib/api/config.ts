@@ -0,0 +1,277 @@
+/**
+ * API de Configuración - PideAI Admin
+ *
+ * Acceso tipado a `app_config`: cada clave se lee y se valida con su
+ * definición en `lib/config/registry`. El código no debe consultar
+ * `app_config` directamente.
+ *
+ * @module lib/api/config
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import { getUserAccess } from '@/lib/api/permissions'
+import {
+  canEditConfig,
+  CONFIG_KEYS,
+  getConfigDefinition,
+  type ConfigKey,
+  type ConfigValue,
+} from '@/lib/config/registry'
+import type { AppConfigHistory, Json, Profile } from '@/types'
+
+/**
+ * Códigos de error al guardar una configuración
+ */
+export type ConfigMutationErrorCode =
+  | 'INVALID_VALUE'
+  | 'FORBIDDEN'
+  | 'VERSION_NOT_FOUND'
+  | 'ALREADY_CURRENT'
+  | 'UNKNOWN'
+
+/**
+ * Resultado de guardar una configuración
+ */
+export interface ConfigMutationResult {
+  success: boolean
+  error?: string
+  code?: ConfigMutationErrorCode
+}
+
+/**
+ * Valor guardado de una clave con los datos de su última modificación
+ */
+export interface ConfigEntry<K extends ConfigKey = ConfigKey> {
+  key: K
+  value: ConfigValue<K>
+  /** null si la clave nunca se guardó y se usan los valores por defecto */
+  updated_at: string | null
+  updated_by: Pick<Profile, 'id' | 'full_name' | 'email'> | null
+}
+
+/**
+ * Versión del historial de una clave con el autor del cambio
+ */
+export interface ConfigHistoryEntry extends Omit<AppConfigHistory, 'changed_by'> {
+  changed_by: Pick<Profile, 'id' | 'full_name' | 'email'> | null
+}
+
+const CONFIG_MUTATION_ERROR_MESSAGES: Record<ConfigMutationErrorCode, string> = {
+  INVALID_VALUE: 'Hay valores no válidos en la configuración',
+  FORBIDDEN: 'No tienes permisos para modificar esta configuración',
+  VERSION_NOT_FOUND: 'La versión no existe',
+  ALREADY_CURRENT: 'La configuración ya tiene esos valores',
+  UNKNOWN: 'Error al guardar la configuración',
+}
+
+function configMutationError(code: ConfigMutationErrorCode): ConfigMutationResult {
+  return { success: false, code, error: CONFIG_MUTATION_ERROR_MESSAGES[code] }
+}
+
+/**
+ * Cliente de Supabase (del navegador o del servidor)
+ */
+type ConfigClient = ReturnType<typeof createClient>
+
+/**
+ * Lee una configuración
+ *
+ * Si la clave no existe o falla la consulta, devuelve los valores por
+ * defecto; los campos inválidos se reemplazan por su valor por defecto.
+ *
+ * @param key - Clave de `app_config`
+ * @param supabase - Cliente a usar; por defecto, el del navegador
+ * @returns Valor tipado de la configuración
+ */
+export async function getConfig<K extends ConfigKey>(
+  key: K,
+  supabase: ConfigClient = createClient()
+): Promise<ConfigValue<K>> {
+  const definition = getConfigDefinition(key)
+
+  const { data, error } = await supabase
+    .from('app_config')
+    .select('value')
+    .eq('key', key)
+    .maybeSingle()
+
+  if (error) {
+    console.error(`Error fetching config ${key}:`, error)
+  }
+
+  return definition.parse(data?.value)
+}
+
+/**
+ * Lee todas las configuraciones conocidas con su última modificación
+ *
+ * @returns Una entrada por clave del registro, en el orden del registro
+ */
+export async function getConfigEntries(): Promise<ConfigEntry[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('app_config')
+    .select('key, value, updated_at, updated_by, profiles:updated_by (id, full_name, email)')
+    .in('key', CONFIG_KEYS)
+
+  if (error) {
+    console.error('Error fetching config entries:', error)
+  }
+
+  return CONFIG_KEYS.map((key) => {
+    const row = data?.find((candidate) => candidate.key === key)
+    return {
+      key,
+      value: getConfigDefinition(key).parse(row?.value),
+      updated_at: row?.updated_at ?? null,
+      updated_by:
+        (row?.profiles as unknown as Pick<Profile, 'id' | 'full_name' | 'email'> | null) ?? null,
+    }
+  })
+}
+
+/**
+ * Guarda una configuración
+ *
+ * Valida el valor con el esquema de la clave y verifica el rol y los permisos
+ * del usuario.
+ * La base de datos vuelve a verificar el rol y registra quién hizo el cambio.
+ *
+ * @param key - Clave de `app_config`
+ * @param value - Valor nuevo (se valida antes de guardarlo)
+ * @returns Resultado de la operación
+ */
+export async function updateConfig<K extends ConfigKey>(
+  key: K,
+  value: unknown
+): Promise<ConfigMutationResult> {
+  const definition = getConfigDefinition(key)
+  const parsed = definition.schema.safeParse(value)
+
+  if (!parsed.success) {
+    return configMutationError('INVALID_VALUE')
+  }
+
+  const supabase = createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return configMutationError('FORBIDDEN')
+  }
+
+  const { role, permissions } = await getUserAccess(user.id, supabase)
+
+  if (!canEditConfig(key, role, permissions)) {
+    return configMutationError('FORBIDDEN')
+  }
+
+  const { error } = await supabase.from('app_config').upsert(
+    {
+      key,
+      value: parsed.data as unknown as Json,
+      description: definition.description,
+      required_role: definition.requiredRole,
+      updated_by: user.id,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'key' }
+  )
+
+  if (error) {
+    console.error(`Error updating config ${key}:`, error)
+    // 42501: el trigger o las políticas de RLS rechazan el cambio
+    return configMutationError(error.code === '42501' ? 'FORBIDDEN' : 'UNKNOWN')
+  }
+
+  return { success: true }
+}
+
+/**
+ * Obtiene el historial de versiones de una clave
+ *
+ * @param key - Clave de `app_config`
+ * @param limit - Cantidad máxima de versiones
+ * @returns Versiones de la más reciente a la más antigua
+ */
+export async function getConfigHistory(
+  key: ConfigKey,
+  limit: number = 20
+): Promise<ConfigHistoryEntry[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('app_config_history')
+    .select(
+      'id, config_key, version, old_value, new_value, rolled_back_from, changed_at, changed_by:profiles!app_config_history_changed_by_fkey (id, full_name, email)'
+    )
+    .eq('config_key', key)
+    .order('version', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error(`Error fetching config history ${key}:`, error)
+    return []
+  }
+
+  return (data || []).map((row) => ({
+    ...row,
+    changed_by: row.changed_by as unknown as Pick<Profile, 'id' | 'full_name' | 'email'> | null,
+  }))
+}
+
+/**
+ * Indica si una versión del historial sigue siendo válida para su clave
+ *
+ * Las versiones guardadas antes de un cambio del esquema (ej: un campo
+ * nuevo obligatorio) no se pueden restaurar.
+ *
+ * @param key - Clave de `app_config`
+ * @param version - Versión del historial
+ */
+export function canRestoreConfigVersion(
+  key: ConfigKey,
+  version: Pick<ConfigHistoryEntry, 'new_value'>
+): boolean {
+  return getConfigDefinition(key).schema.safeParse(version.new_value).success
+}
+
+/**
+ * Restaura una clave al valor de una versión anterior (solo admin)
+ *
+ * El valor de la versión se valida con el esquema actual de la clave antes
+ * de restaurarlo. El cambio queda registrado en el historial como una
+ * versión nueva.
+ *
+ * @param key - Clave de `app_config`
+ * @param version - Versión a restaurar
+ * @returns Resultado de la operación
+ */
+export async function rollbackConfig(
+  key: ConfigKey,
+  version: Pick<ConfigHistoryEntry, 'id' | 'new_value'>
+): Promise<ConfigMutationResult> {
+  if (!canRestoreConfigVersion(key, version)) {
+    return configMutationError('INVALID_VALUE')
+  }
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('rollback_app_config', {
+    p_history_id: version.id,
+  })
+
+  if (error) {
+    console.error('Error rolling back config:', error)
+    // 42501: el trigger de app_config rechaza el cambio
+    return configMutationError(error.code === '42501' ? 'FORBIDDEN' : 'UNKNOWN')
+  }
+
+  if (!data?.success) {
+    return configMutationError((data?.error_code as ConfigMutationErrorCode) || 'UNKNOWN')
+  }
+
+  return { success: true }
+}
@@ -0,0 +1,214 @@
+/**
+ * API de Despacho - PideAI Admin
+ *
+ * Propone y asigna riders automáticamente a pedidos pendientes usando el
+ * motor de puntaje de `lib/dispatch`. Cada asignación automática o elegida
+ * desde las propuestas queda guardada en `dispatch_decisions` con su
+ * desglose, para poder explicarla en la UI.
+ *
+ * @module lib/api/dispatch
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import { assignOrderToRider, getAvailableRiders } from '@/lib/api/orders'
+import { getConfig } from '@/lib/api/config'
+import type { DispatchSettings } from '@/lib/dispatch/settings'
+import {
+  rankRiders,
+  type DispatchCandidate,
+  type DispatchRiderInput,
+} from '@/lib/dispatch/scoring'
+import type { Json } from '@/types'
+
+/**
+ * Evaluación de riders para un pedido
+ */
+export interface DispatchEvaluation {
+  /** Todos los riders disponibles, ordenados por puntaje */
+  candidates: DispatchCandidate[]
+  /** Los mejores riders elegibles (según `proposals_count`) */
+  proposals: DispatchCandidate[]
+  settings: DispatchSettings
+}
+
+/**
+ * Resultado del despacho automático de un pedido
+ */
+export interface AutoDispatchResult {
+  success: boolean
+  error?: string
+  /** Rider elegido, con el desglose de su puntaje */
+  candidate?: DispatchCandidate
+}
+
+/**
+ * Evalúa a los riders disponibles para un pedido
+ *
+ * @param orderId - ID del pedido
+ * @param availableRiders - Riders ya cargados con `getAvailableRiders()`
+ *   (si se omite, se consultan)
+ * @returns Evaluación de riders, o null si el pedido no existe
+ */
+export async function evaluateRidersForOrder(
+  orderId: string,
+  availableRiders?: DispatchRiderInput[]
+): Promise<DispatchEvaluation | null> {
+  const supabase = createClient()
+
+  try {
+    const [{ data: order, error }, riders, settings] = await Promise.all([
+      supabase
+        .from('orders')
+        .select('id, is_urgent, stores(location)')
+        .eq('id', orderId)
+        .single(),
+      availableRiders ?? getAvailableRiders(),
+      getConfig('dispatch_settings'),
+    ])
+
+    if (error || !order) {
+      console.error('Error fetching order for dispatch:', error)
+      return null
+    }
+
+    // `stores` es una relación muchos-a-uno: PostgREST devuelve un objeto
+    const store = order.stores as unknown as { location: Json | null } | null
+
+    const candidates = rankRiders(
+      riders as DispatchRiderInput[],
+      { is_urgent: order.is_urgent, store_location: store?.location ?? null },
+      settings
+    )
+
+    return {
+      candidates,
+      proposals: candidates
+        .filter((candidate) => !candidate.excluded_reason)
+        .slice(0, settings.proposals_count),
+      settings,
+    }
+  } catch (error) {
+    console.error('Error in evaluateRidersForOrder:', error)
+    return null
+  }
+}
+
+/**
+ * Guarda una decisión de despacho para poder explicarla luego
+ *
+ * @param orderId - ID del pedido
+ * @param chosen - Rider elegido con su desglose
+ * @param mode - `auto` si la eligió el motor, `suggested` si un despachador
+ *   eligió una de las propuestas
+ * @param evaluation - Evaluación completa usada para decidir
+ */
+export async function recordDispatchDecision(
+  orderId: string,
+  chosen: DispatchCandidate,
+  mode: 'auto' | 'suggested',
+  evaluation: Pick<DispatchEvaluation, 'candidates' | 'settings'>
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase.from('dispatch_decisions').insert({
+    order_id: orderId,
+    rider_id: chosen.rider_id,
+    mode,
+    score: chosen.score,
+    factors: chosen.factors as unknown as Json,
+    candidates: evaluation.candidates.map((candidate) => ({
+      rider_id: candidate.rider_id,
+      rider_name: candidate.rider_name,
+      score: candidate.score,
+      distance_km: candidate.distance_km,
+      excluded_reason: candidate.excluded_reason,
+    })),
+    settings: evaluation.settings as unknown as Json,
+  })
+
+  if (error) {
+    // La asignación ya se hizo: no la revertimos por no poder explicarla
+    console.error('Error recording dispatch decision:', error)
+  }
+}
+
+/**
+ * Asigna automáticamente el mejor rider elegible a un pedido pendiente
+ *
+ * Recorre los candidatos en orden de puntaje: si otro despachador tomó al
+ * rider mientras tanto, prueba con el siguiente.
+ *
+ * @param orderId - ID del pedido
+ * @returns Resultado con el rider elegido
+ */
+export async function autoDispatchOrder(orderId: string): Promise<AutoDispatchResult> {
+  const evaluation = await evaluateRidersForOrder(orderId)
+
+  if (!evaluation) {
+    return { success: false, error: 'Pedido no encontrado' }
+  }
+
+  if (!evaluation.settings.auto_assign_enabled) {
+    return { success: false, error: 'El despacho automático está deshabilitado' }
+  }
+
+  const eligible = evaluation.candidates.filter((candidate) => !candidate.excluded_reason)
+
+  for (const candidate of eligible) {
+    const result = await assignOrderToRider(orderId, candidate.rider_id)
+
+    if (result.success) {
+      await recordDispatchDecision(orderId, candidate, 'auto', evaluation)
+      return { success: true, candidate }
+    }
+
+    // El rider dejó de estar disponible: probar con el siguiente
+    if (result.code === 'RIDER_UNAVAILABLE' || result.code === 'RIDER_INACTIVE') {
+      continue
+    }
+
+    return { success: false, error: result.error }
+  }
+
+  return { success: false, error: 'No hay riders elegibles para este pedido' }
+}
+
+/**
+ * Despacha automáticamente todos los pedidos pendientes
+ *
+ * Procesa primero los urgentes y luego por antigüedad.
+ *
+ * @returns Cantidad de pedidos asignados y sin asignar
+ */
+export async function autoDispatchPendingOrders(): Promise<{
+  assigned: number
+  unassigned: number
+}> {
+  const supabase = createClient()
+
+  const { data: pending, error } = await supabase
+    .from('orders')
+    .select('id')
+    .eq('status', 'pending')
+    .order('is_urgent', { ascending: false })
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching pending orders:', error)
+    return { assigned: 0, unassigned: 0 }
+  }
+
+  let assigned = 0
+  let unassigned = 0
+
+  for (const order of pending || []) {
+    const result = await autoDispatchOrder(order.id)
+    if (result.success) {
+      assigned++
+    } else {
+      unassigned++
+    }
+  }
+
+  return { assigned, unassigned }
+}
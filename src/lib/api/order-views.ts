@@ -0,0 +1,247 @@
+/**
+ * API de Vistas de Pedidos - PideAI Admin
+ *
+ * Vistas guardadas de la tabla de pedidos (`order_saved_views`) y la vista
+ * por defecto de cada usuario (`order_view_defaults`). Cada usuario ve sus
+ * vistas y las compartidas, pero solo modifica o borra las propias (RLS).
+ *
+ * @module lib/api/order-views
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import { toOrderViewColumns, type OrderViewState } from '@/lib/orders/views'
+import type { OrderSavedView, Profile } from '@/types'
+
+/**
+ * Vista guardada con el perfil de su autor
+ */
+export interface OrderSavedViewEntry extends OrderSavedView {
+  owner: Pick<Profile, 'id' | 'full_name'> | null
+}
+
+/**
+ * Datos de una vista al guardarla
+ */
+export interface OrderSavedViewValues {
+  name: string
+  is_shared: boolean
+  state: OrderViewState
+}
+
+/**
+ * Códigos de error de las operaciones sobre vistas
+ */
+export type OrderViewMutationErrorCode =
+  | 'VIEW_NOT_FOUND'
+  | 'DUPLICATE_NAME'
+  | 'INVALID_NAME'
+  | 'FORBIDDEN'
+  | 'UNKNOWN'
+
+/**
+ * Resultado de una operación sobre una vista
+ */
+export interface OrderViewMutationResult {
+  success: boolean
+  error?: string
+  code?: OrderViewMutationErrorCode
+  view?: OrderSavedView
+}
+
+const ORDER_VIEW_MUTATION_ERROR_MESSAGES: Record<OrderViewMutationErrorCode, string> = {
+  VIEW_NOT_FOUND: 'La vista no existe o no es tuya',
+  DUPLICATE_NAME: 'Ya tienes una vista con ese nombre',
+  INVALID_NAME: 'El nombre debe tener entre 1 y 60 caracteres',
+  FORBIDDEN: 'No tienes permisos para modificar esta vista',
+  UNKNOWN: 'Error al guardar la vista',
+}
+
+function orderViewMutationError(code: OrderViewMutationErrorCode): OrderViewMutationResult {
+  return { success: false, code, error: ORDER_VIEW_MUTATION_ERROR_MESSAGES[code] }
+}
+
+/**
+ * Traduce un error de Postgres en un resultado de la API
+ */
+function orderViewWriteError(error: { code?: string }): OrderViewMutationResult {
+  // 23505: unique_violation (nombre repetido para el mismo autor)
+  if (error.code === '23505') return orderViewMutationError('DUPLICATE_NAME')
+  // 23514: check_violation (largo del nombre)
+  if (error.code === '23514') return orderViewMutationError('INVALID_NAME')
+  // 42501: las políticas de RLS rechazan el cambio
+  if (error.code === '42501') return orderViewMutationError('FORBIDDEN')
+  return orderViewMutationError('UNKNOWN')
+}
+
+/**
+ * Lista las vistas del usuario y las compartidas
+ *
+ * @returns Vistas ordenadas por nombre
+ */
+export async function getOrderSavedViews(): Promise<OrderSavedViewEntry[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('order_saved_views')
+    .select('*, owner:profiles!order_saved_views_owner_id_fkey(id, full_name)')
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching order saved views:', error)
+    return []
+  }
+
+  return (data || []) as unknown as OrderSavedViewEntry[]
+}
+
+/**
+ * Obtiene la vista por defecto del usuario
+ *
+ * @returns ID de la vista, o null si el usuario no eligió ninguna
+ */
+export async function getDefaultOrderViewId(): Promise<string | null> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.from('order_view_defaults').select('view_id').maybeSingle()
+
+  if (error) {
+    console.error('Error fetching default order view:', error)
+    return null
+  }
+
+  return data?.view_id ?? null
+}
+
+/**
+ * Guarda una vista nueva del usuario
+ *
+ * @param values - Nombre, si es compartida y estado de la tabla
+ * @returns Resultado con la vista creada
+ */
+export async function createOrderSavedView(
+  values: OrderSavedViewValues
+): Promise<OrderViewMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('order_saved_views')
+    .insert({
+      name: values.name.trim(),
+      is_shared: values.is_shared,
+      ...toOrderViewColumns(values.state),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating order saved view:', error)
+    return orderViewWriteError(error)
+  }
+
+  return { success: true, view: data }
+}
+
+/**
+ * Actualiza una vista del usuario
+ *
+ * @param viewId - ID de la vista
+ * @param values - Campos a cambiar; `state` reemplaza filtros, orden,
+ *   columnas y tamaño de página
+ * @returns Resultado con la vista actualizada
+ */
+export async function updateOrderSavedView(
+  viewId: string,
+  values: Partial<OrderSavedViewValues>
+): Promise<OrderViewMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('order_saved_views')
+    .update({
+      ...(values.name !== undefined && { name: values.name.trim() }),
+      ...(values.is_shared !== undefined && { is_shared: values.is_shared }),
+      ...(values.state && toOrderViewColumns(values.state)),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', viewId)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error updating order saved view:', error)
+    return orderViewWriteError(error)
+  }
+
+  // Sin fila: la vista no existe o es de otro usuario (RLS)
+  if (!data) {
+    return orderViewMutationError('VIEW_NOT_FOUND')
+  }
+
+  return { success: true, view: data }
+}
+
+/**
+ * Borra una vista del usuario
+ *
+ * Los usuarios que la tenían por defecto vuelven a la tabla sin filtros.
+ *
+ * @param viewId - ID de la vista
+ * @returns Resultado de la operación
+ */
+export async function deleteOrderSavedView(viewId: string): Promise<OrderViewMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('order_saved_views')
+    .delete()
+    .eq('id', viewId)
+    .select('id')
+
+  if (error) {
+    console.error('Error deleting order saved view:', error)
+    return orderViewWriteError(error)
+  }
+
+  if (!data || data.length === 0) {
+    return orderViewMutationError('VIEW_NOT_FOUND')
+  }
+
+  return { success: true }
+}
+
+/**
+ * Elige la vista por defecto del usuario
+ *
+ * @param viewId - ID de la vista (propia o compartida), o null para abrir la
+ *   tabla sin filtros
+ * @returns Resultado de la operación
+ */
+export async function setDefaultOrderView(viewId: string | null): Promise<OrderViewMutationResult> {
+  const supabase = createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return orderViewMutationError('FORBIDDEN')
+  }
+
+  const { error } = viewId
+    ? await supabase
+        .from('order_view_defaults')
+        .upsert(
+          { user_id: user.id, view_id: viewId, updated_at: new Date().toISOString() },
+          { onConflict: 'user_id' }
+        )
+    : await supabase.from('order_view_defaults').delete().eq('user_id', user.id)
+
+  if (error) {
+    console.error('Error setting default order view:', error)
+    // 23503: foreign_key_violation (la vista se borró)
+    return error.code === '23503'
+      ? orderViewMutationError('VIEW_NOT_FOUND')
+      : orderViewWriteError(error)
+  }
+
+  return { success: true }
+}
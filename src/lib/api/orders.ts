@@ -7,101 +7,292 @@
  */
 
 import { createClient } from '@/lib/supabase/client'
+import { getUserAccess } from '@/lib/api/permissions'
+import type { Permission } from '@/lib/auth/permissions'
+import type { CancellationReason } from '@/lib/orders/cancellation'
+import { orderFiltersToSearchParams } from '@/lib/orders/filters'
+import {
+  DEFAULT_ORDER_SORT,
+  orderPaginationToSearchParams,
+  orderSortToSearchParams,
+  type OrderListItem,
+  type OrderSort,
+} from '@/lib/orders/query'
+import {
+  RIDER_ACTIVE_ORDER_STATUSES,
+  validateTransition,
+  type OrderAction,
+} from '@/lib/orders/state-machine'
+import { zonedDay, zonedStartOfDay } from '@/lib/timezone'
+import type {
+  CursorPaginatedResult,
+  CursorPaginationOptions,
+  OrderFilters,
+  OrderStatus,
+} from '@/types'
 
 /**
- * Resultado de la asignación de rider
+ * Códigos de error que pueden retornar las operaciones sobre pedidos
+ *
+ * Los códigos de conflicto (`ORDER_NOT_PENDING`, `RIDER_UNAVAILABLE`) indican
+ * que otro despachador modificó el pedido o el rider antes que nosotros.
+ */
+export type OrderActionErrorCode =
+  | 'ORDER_NOT_FOUND'
+  | 'ORDER_NOT_PENDING'
+  | 'ORDER_ALREADY_CANCELLED'
+  | 'ORDER_DELIVERED'
+  | 'RIDER_NOT_FOUND'
+  | 'RIDER_INACTIVE'
+  | 'RIDER_UNAVAILABLE'
+  | 'SAME_RIDER'
+  | 'INVALID_TRANSITION'
+  | 'INVALID_REASON'
+  | 'FORBIDDEN'
+  | 'UNKNOWN'
+
+/**
+ * Resultado de una operación sobre un pedido
  */
-export interface AssignRiderResult {
+export interface OrderActionResult {
   success: boolean
   error?: string
+  code?: OrderActionErrorCode
 }
 
 /**
- * Asigna un pedido a un rider disponible
+ * Mensajes para cada código de error
+ */
+const ORDER_ACTION_ERROR_MESSAGES: Record<OrderActionErrorCode, string> = {
+  ORDER_NOT_FOUND: 'Pedido no encontrado',
+  ORDER_NOT_PENDING: 'Pedido ya fue asignado o completado',
+  ORDER_ALREADY_CANCELLED: 'Pedido ya está cancelado',
+  ORDER_DELIVERED: 'No se puede cancelar un pedido entregado',
+  RIDER_NOT_FOUND: 'Rider no encontrado',
+  RIDER_INACTIVE: 'Rider no está activo',
+  RIDER_UNAVAILABLE: 'Rider no está disponible',
+  SAME_RIDER: 'El pedido ya está asignado a este rider',
+  INVALID_TRANSITION: 'La acción no está permitida en el estado actual del pedido',
+  INVALID_REASON: 'Selecciona un motivo de cancelación válido',
+  FORBIDDEN: 'No tienes permisos para realizar esta acción',
+  UNKNOWN: 'Error inesperado',
+}
+
+/**
+ * Respuesta de las funciones de pedidos en Postgres
+ */
+interface OrderRpcResponse {
+  success: boolean
+  error_code?: OrderActionErrorCode
+}
+
+/**
+ * Ejecuta una transición de estado sobre un pedido
  *
- * @param orderId - ID del pedido a asignar
- * @param riderId - ID del rider al que asignar
+ * Antes de llamar a la función de Postgres, consulta la máquina de estados
+ * con el estado actual del pedido y los permisos del usuario, para rechazar
+ * acciones inválidas sin tocar la base de datos. La función de Postgres
+ * vuelve a verificar el estado con las filas bloqueadas y escribe
+ * `order_status_history` con el usuario autenticado como `changed_by`.
+ *
+ * @param action - Acción de la máquina de estados
+ * @param fn - Nombre de la función de Postgres
+ * @param args - Argumentos de la función (debe incluir `p_order_id`)
+ * @param fallbackError - Mensaje si la llamada falla por un error inesperado
  * @returns Resultado de la operación
  */
-export async function assignOrderToRider(
-  orderId: string,
-  riderId: string
-): Promise<AssignRiderResult> {
+async function runOrderTransition(
+  action: OrderAction,
+  fn: string,
+  args: { p_order_id: string } & Record<string, unknown>,
+  fallbackError: string
+): Promise<OrderActionResult> {
   const supabase = createClient()
 
   try {
-    // 1. Verificar que el rider esté disponible
-    const { data: rider, error: riderCheckError } = await supabase
-      .from('riders')
-      .select('status, is_active')
-      .eq('id', riderId)
-      .single()
-
-    if (riderCheckError) {
-      return { success: false, error: 'Rider no encontrado' }
+    // 1. Validar la transición con la máquina de estados
+    const [{ data: order }, permissions] = await Promise.all([
+      supabase.from('orders').select('status').eq('id', args.p_order_id).single(),
+      getCurrentPermissions(),
+    ])
+
+    if (!order) {
+      return orderActionError('ORDER_NOT_FOUND')
     }
 
-    if (!rider.is_active) {
-      return { success: false, error: 'Rider no está activo' }
-    }
+    const transitionError = validateTransition(order.status as OrderStatus, action, permissions)
 
-    if (rider.status !== 'available') {
-      return { success: false, error: 'Rider no está disponible' }
+    if (transitionError) {
+      return orderActionError(transitionError)
     }
 
-    // 2. Verificar que el pedido esté pendiente
-    const { data: order, error: orderCheckError } = await supabase
-      .from('orders')
-      .select('status')
-      .eq('id', orderId)
-      .single()
+    // 2. Ejecutar la transición en Postgres
+    const { data, error } = await supabase.rpc(fn, args)
 
-    if (orderCheckError) {
-      return { success: false, error: 'Pedido no encontrado' }
+    if (error) {
+      console.error(`Error in ${fn}:`, error)
+      // 42501: el trigger de orders rechaza la acción por falta de permiso
+      return error.code === '42501'
+        ? orderActionError('FORBIDDEN')
+        : { success: false, code: 'UNKNOWN', error: fallbackError }
     }
 
-    if (order.status !== 'pending') {
-      return { success: false, error: 'Pedido ya fue asignado o completado' }
-    }
+    const result = data as OrderRpcResponse
 
-    // 3. Actualizar el pedido
-    const { error: orderUpdateError } = await supabase
-      .from('orders')
-      .update({
-        delivery_id: riderId,
-        status: 'assigned',
-        assigned_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', orderId)
-
-    if (orderUpdateError) {
-      console.error('Error updating order:', orderUpdateError)
-      return { success: false, error: 'Error al actualizar el pedido' }
+    if (!result.success) {
+      const code = result.error_code ?? 'UNKNOWN'
+      return code === 'UNKNOWN'
+        ? { success: false, code, error: fallbackError }
+        : orderActionError(code)
     }
 
-    // 4. Actualizar el estado del rider a 'busy'
-    const { error: riderUpdateError } = await supabase
-      .from('riders')
-      .update({
-        status: 'busy',
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', riderId)
-
-    if (riderUpdateError) {
-      console.error('Error updating rider:', riderUpdateError)
-      // No revertimos el pedido porque es más crítico
-      // En producción, esto debería ser una transacción
-    }
+    return { success: true }
+  } catch (error) {
+    console.error(`Error in ${fn}:`, error)
+    return { success: false, code: 'UNKNOWN', error: fallbackError }
+  }
+}
 
-    // 5. TODO: Enviar notificación push al rider
-    // await sendPushNotification(riderId, 'Nuevo pedido asignado', orderDetails)
+/**
+ * Construye un resultado de error a partir de su código
+ */
+function orderActionError(code: OrderActionErrorCode): OrderActionResult {
+  return { success: false, code, error: ORDER_ACTION_ERROR_MESSAGES[code] }
+}
 
-    return { success: true }
+/**
+ * Obtiene los permisos del usuario autenticado según su rol
+ *
+ * @returns Permisos del usuario (vacío si no hay sesión o perfil)
+ */
+async function getCurrentPermissions(): Promise<Permission[]> {
+  const supabase = createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) return []
+
+  const { permissions } = await getUserAccess(user.id, supabase)
+  return permissions
+}
+
+/**
+ * Asigna un pedido a un rider disponible
+ *
+ * La asignación se ejecuta en la función `assign_order_to_rider` de Postgres,
+ * que bloquea el pedido y el rider, verifica sus estados y escribe `orders`,
+ * `riders` y `order_status_history` en una sola transacción. Si dos
+ * despachadores asignan a la vez, solo uno gana y el otro recibe un código
+ * de conflicto.
+ *
+ * @param orderId - ID del pedido a asignar
+ * @param riderId - ID del rider al que asignar
+ * @returns Resultado de la operación
+ */
+export async function assignOrderToRider(
+  orderId: string,
+  riderId: string
+): Promise<OrderActionResult> {
+  const result = await runOrderTransition(
+    'assign',
+    'assign_order_to_rider',
+    { p_order_id: orderId, p_rider_id: riderId },
+    'Error inesperado al asignar rider'
+  )
+
+  // TODO: Enviar notificación push al rider
+  // if (result.success) await sendPushNotification(riderId, 'Nuevo pedido asignado', orderDetails)
+
+  return result
+}
+
+/**
+ * Reasigna un pedido activo a otro rider
+ *
+ * El pedido mantiene su estado; el nuevo rider pasa a `busy` y el anterior
+ * vuelve a `available` si no le quedan pedidos activos. El traspaso queda
+ * registrado en `order_status_history`.
+ *
+ * @param orderId - ID del pedido a reasignar
+ * @param riderId - ID del nuevo rider
+ * @param notes - Nota opcional para el historial (ej: motivo del traspaso)
+ * @returns Resultado de la operación
+ */
+export async function reassignOrder(
+  orderId: string,
+  riderId: string,
+  notes?: string
+): Promise<OrderActionResult> {
+  return runOrderTransition(
+    'reassign',
+    'reassign_order',
+    { p_order_id: orderId, p_rider_id: riderId, p_notes: notes ?? null },
+    'Error inesperado al reasignar rider'
+  )
+}
+
+/**
+ * Quita el rider de un pedido asignado y lo devuelve a `pending`
+ *
+ * @param orderId - ID del pedido
+ * @param notes - Nota opcional para el historial
+ * @returns Resultado de la operación
+ */
+export async function unassignOrder(
+  orderId: string,
+  notes?: string
+): Promise<OrderActionResult> {
+  return runOrderTransition(
+    'unassign',
+    'unassign_order',
+    { p_order_id: orderId, p_notes: notes ?? null },
+    'Error inesperado al desasignar rider'
+  )
+}
+
+/**
+ * Lista los pedidos con filtros y paginación
+ *
+ * Consulta `GET /api/orders`, que resuelve la página en el servidor con
+ * `queryOrders`. Para la página siguiente conviene pasar el `next_cursor` y
+ * el `total` de la respuesta anterior: la consulta no recorre las filas
+ * previas ni vuelve a contar.
+ *
+ * @param filters - Filtros de pedidos
+ * @param pagination - Página, tamaño, cursor y total conocido
+ * @param sort - Orden del listado
+ * @returns Página de pedidos (vacía si la consulta falla)
+ */
+export async function getOrders(
+  filters: OrderFilters,
+  pagination: CursorPaginationOptions,
+  sort: OrderSort = DEFAULT_ORDER_SORT
+): Promise<CursorPaginatedResult<OrderListItem>> {
+  const params = orderFiltersToSearchParams(filters)
+  orderPaginationToSearchParams(pagination).forEach((value, key) => params.set(key, value))
+  orderSortToSearchParams(sort).forEach((value, key) => params.set(key, value))
+
+  try {
+    const response = await fetch(`/api/orders?${params}`)
+
+    if (!response.ok) {
+      console.error('Error fetching orders:', await response.json().catch(() => null))
+    } else {
+      return await response.json()
+    }
   } catch (error) {
-    console.error('Error in assignOrderToRider:', error)
-    return { success: false, error: 'Error inesperado al asignar rider' }
+    console.error('Error in getOrders:', error)
+  }
+
+  return {
+    data: [],
+    total: 0,
+    page: pagination.page,
+    per_page: pagination.per_page,
+    total_pages: 0,
+    next_cursor: null,
   }
 }
 
@@ -119,9 +310,13 @@ export async function getAvailableRiders() {
       .select(
         `
         *,
-        orders!delivery_id(id, status)
+        orders!delivery_id(id, status),
+        deliveries_today:orders!delivery_id(id)
       `
       )
+      // Solo las entregas de hoy (la carga del día que usa el despacho)
+      .eq('deliveries_today.status', 'delivered')
+      .gte('deliveries_today.delivered_at', zonedStartOfDay(zonedDay(new Date())).toISOString())
       .eq('status', 'available')
       .eq('is_active', true)
       .order('full_name')
@@ -131,16 +326,17 @@ export async function getAvailableRiders() {
       return []
     }
 
-    // Contar pedidos activos de cada rider
-    const ridersWithActiveOrders = (riders || []).map((rider) => {
+    // Contar pedidos activos y entregas del día de cada rider
+    const ridersWithActiveOrders = (riders || []).map(({ deliveries_today, ...rider }) => {
       const activeOrders =
-        rider.orders?.filter((order: { status: string }) =>
-          ['assigned', 'in_transit'].includes(order.status)
+        rider.orders?.filter((order: { status: OrderStatus }) =>
+          RIDER_ACTIVE_ORDER_STATUSES.includes(order.status)
         ).length || 0
 
       return {
         ...rider,
         activeOrders,
+        deliveriesToday: deliveries_today?.length || 0,
       }
     })
 
@@ -152,82 +348,86 @@ export async function getAvailableRiders() {
   }
 }
 
+/**
+ * Datos de una cancelación
+ */
+export interface OrderCancellation {
+  reason: CancellationReason
+  /** Comentario opcional (queda también como nota en el historial) */
+  comment?: string
+  /** Si corresponde reembolsar al cliente */
+  refund?: boolean
+}
+
 /**
  * Cancela un pedido
  *
+ * Se ejecuta en la función `cancel_order` de Postgres, que guarda el motivo,
+ * el comentario, el reembolso y quién canceló en el pedido (sin tocar sus
+ * notas), libera al rider si no le quedan pedidos activos y registra el
+ * cambio en `order_status_history`.
+ *
  * @param orderId - ID del pedido a cancelar
- * @param reason - Razón de la cancelación
+ * @param cancellation - Motivo del catálogo, comentario y reembolso
  * @returns Resultado de la operación
  */
 export async function cancelOrder(
   orderId: string,
-  reason?: string
-): Promise<AssignRiderResult> {
-  const supabase = createClient()
-
-  try {
-    // 1. Obtener el pedido con rider asignado
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .select('delivery_id, status')
-      .eq('id', orderId)
-      .single()
-
-    if (orderError || !order) {
-      return { success: false, error: 'Pedido no encontrado' }
-    }
-
-    if (order.status === 'cancelled') {
-      return { success: false, error: 'Pedido ya está cancelado' }
-    }
-
-    if (order.status === 'delivered') {
-      return { success: false, error: 'No se puede cancelar un pedido entregado' }
-    }
-
-    // 2. Actualizar el pedido
-    const { error: updateError } = await supabase
-      .from('orders')
-      .update({
-        status: 'cancelled',
-        cancelled_at: new Date().toISOString(),
-        notes: reason
-          ? `Cancelado: ${reason}`
-          : 'Cancelado por el administrador',
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', orderId)
-
-    if (updateError) {
-      console.error('Error cancelling order:', updateError)
-      return { success: false, error: 'Error al cancelar el pedido' }
-    }
+  { reason, comment, refund = false }: OrderCancellation
+): Promise<OrderActionResult> {
+  return runOrderTransition(
+    'cancel',
+    'cancel_order',
+    {
+      p_order_id: orderId,
+      p_reason: reason,
+      p_comment: comment?.trim() || null,
+      p_refund: refund,
+    },
+    'Error inesperado al cancelar pedido'
+  )
+}
 
-    // 3. Si tenía rider asignado, liberar al rider
-    if (order.delivery_id) {
-      // Verificar si el rider tiene más pedidos activos
-      const { data: otherOrders } = await supabase
-        .from('orders')
-        .select('id')
-        .eq('delivery_id', order.delivery_id)
-        .in('status', ['assigned', 'in_transit'])
-        .neq('id', orderId)
-
-      // Si no tiene más pedidos, marcarlo como disponible
-      if (!otherOrders || otherOrders.length === 0) {
-        await supabase
-          .from('riders')
-          .update({
-            status: 'available',
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', order.delivery_id)
-      }
-    }
+/**
+ * Marca un pedido como recogido por el rider (assigned → in_transit)
+ *
+ * Pensado para que soporte complete el flujo en nombre de un rider que no
+ * puede hacerlo desde su teléfono.
+ *
+ * @param orderId - ID del pedido
+ * @param notes - Nota opcional para el historial
+ * @returns Resultado de la operación
+ */
+export async function markOrderPickedUp(
+  orderId: string,
+  notes?: string
+): Promise<OrderActionResult> {
+  return runOrderTransition(
+    'pick_up',
+    'mark_order_picked_up',
+    { p_order_id: orderId, p_notes: notes ?? null },
+    'Error inesperado al marcar el pedido como recogido'
+  )
+}
 
-    return { success: true }
-  } catch (error) {
-    console.error('Error in cancelOrder:', error)
-    return { success: false, error: 'Error inesperado al cancelar pedido' }
-  }
+/**
+ * Marca un pedido como entregado (assigned/in_transit → delivered)
+ *
+ * Suma la entrega al rider y lo libera a `available` si no le quedan
+ * otros pedidos activos.
+ *
+ * @param orderId - ID del pedido
+ * @param notes - Nota opcional para el historial
+ * @returns Resultado de la operación
+ */
+export async function markOrderDelivered(
+  orderId: string,
+  notes?: string
+): Promise<OrderActionResult> {
+  return runOrderTransition(
+    'deliver',
+    'mark_order_delivered',
+    { p_order_id: orderId, p_notes: notes ?? null },
+    'Error inesperado al marcar el pedido como entregado'
+  )
 }
@@ -0,0 +1,335 @@
+/**
+ * API de Liquidaciones - PideAI Admin
+ *
+ * Carga las entregas, ajustes y liquidaciones de un período y registra los
+ * ajustes manuales y el cierre de cada rider. Los montos se calculan con
+ * `lib/payouts/statement`.
+ *
+ * @module lib/api/payouts
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import { getConfig } from '@/lib/api/config'
+import type { PayoutSettings } from '@/lib/payouts/settings'
+import type { RiderAdjustmentFormValues } from '@/lib/payouts/schema'
+import type { PayoutAdjustment, PayoutOrder } from '@/lib/payouts/statement'
+import { settlementPeriodRange, type SettlementPeriod } from '@/lib/periods'
+import { BUSINESS_TIME_ZONE } from '@/lib/timezone'
+import type { Rider, RiderSettlement, RiderSettlementOrder } from '@/types'
+
+/**
+ * Códigos de error de las operaciones de liquidación
+ */
+export type PayoutMutationErrorCode =
+  | 'RIDER_NOT_FOUND'
+  | 'ALREADY_SETTLED'
+  | 'PERIOD_SETTLED'
+  | 'ADJUSTMENT_NOT_FOUND'
+  | 'INVALID_PERIOD'
+  | 'FORBIDDEN'
+  | 'UNKNOWN'
+
+/**
+ * Resultado de una operación de liquidación
+ */
+export interface PayoutMutationResult {
+  success: boolean
+  error?: string
+  code?: PayoutMutationErrorCode
+}
+
+/**
+ * Detalle guardado de una liquidación cerrada
+ */
+export interface SettlementDetail {
+  orders: RiderSettlementOrder[]
+  adjustments: PayoutAdjustment[]
+}
+
+/**
+ * Datos de un período de liquidación
+ */
+export interface PayoutPeriodData {
+  settings: PayoutSettings
+  orders: PayoutOrder[]
+  riders: Pick<Rider, 'id' | 'full_name'>[]
+  adjustments: PayoutAdjustment[]
+  /** Liquidaciones cerradas que se superponen con el período */
+  settlements: RiderSettlement[]
+}
+
+const PAYOUT_MUTATION_ERROR_MESSAGES: Record<PayoutMutationErrorCode, string> = {
+  RIDER_NOT_FOUND: 'Rider no encontrado',
+  ALREADY_SETTLED: 'El período ya está liquidado para este rider',
+  PERIOD_SETTLED: 'No se pueden cargar ajustes en un período ya liquidado',
+  ADJUSTMENT_NOT_FOUND: 'El ajuste no existe o ya fue liquidado',
+  INVALID_PERIOD: 'El período no es válido',
+  FORBIDDEN: 'No tienes permisos para liquidar',
+  UNKNOWN: 'Error al guardar la liquidación',
+}
+
+function payoutMutationError(code: PayoutMutationErrorCode): PayoutMutationResult {
+  return { success: false, code, error: PAYOUT_MUTATION_ERROR_MESSAGES[code] }
+}
+
+/**
+ * Cliente de Supabase (del navegador o del servidor, para las exportaciones)
+ */
+type PayoutsClient = ReturnType<typeof createClient>
+
+/**
+ * Filas por consulta (el límite por defecto de PostgREST es 1000)
+ */
+const PAGE_SIZE = 1000
+
+const PAYOUT_ORDER_COLUMNS =
+  'id, order_number, delivery_id, store_name, delivery_fee, is_urgent, delivered_at'
+
+/**
+ * Obtiene los pedidos entregados en un período, en páginas
+ */
+async function getDeliveredOrders(
+  supabase: PayoutsClient,
+  period: SettlementPeriod,
+  riderId?: string
+): Promise<PayoutOrder[]> {
+  const { from, to } = settlementPeriodRange(period)
+  const orders: PayoutOrder[] = []
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('orders')
+      .select(PAYOUT_ORDER_COLUMNS)
+      .eq('status', 'delivered')
+      .not('delivery_id', 'is', null)
+      .gte('delivered_at', from.toISOString())
+      .lte('delivered_at', to.toISOString())
+
+    if (riderId) {
+      query = query.eq('delivery_id', riderId)
+    }
+
+    const { data, error } = await query
+      .order('delivered_at')
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      console.error('Error fetching payout orders:', error)
+      break
+    }
+
+    orders.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return orders
+}
+
+/**
+ * Obtiene los datos de un período de liquidación
+ *
+ * @param period - Período a liquidar
+ * @param options.riderId - Limita los datos a un rider (estado de cuenta individual)
+ * @param options.supabase - Cliente a usar; por defecto, el del navegador
+ * @returns Reglas, entregas, riders, ajustes y liquidaciones del período
+ */
+export async function getPayoutPeriodData(
+  period: SettlementPeriod,
+  { riderId, supabase = createClient() }: { riderId?: string; supabase?: PayoutsClient } = {}
+): Promise<PayoutPeriodData> {
+  let ridersQuery = supabase.from('riders').select('id, full_name').order('full_name')
+  let adjustmentsQuery = supabase
+    .from('rider_adjustments')
+    .select('id, rider_id, effective_date, kind, amount, reason, settlement_id')
+    .gte('effective_date', period.start)
+    .lte('effective_date', period.end)
+  let settlementsQuery = supabase
+    .from('rider_settlements')
+    .select('*')
+    .lte('period_start', period.end)
+    .gte('period_end', period.start)
+
+  if (riderId) {
+    ridersQuery = ridersQuery.eq('id', riderId)
+    adjustmentsQuery = adjustmentsQuery.eq('rider_id', riderId)
+    settlementsQuery = settlementsQuery.eq('rider_id', riderId)
+  }
+
+  const [
+    settings,
+    orders,
+    { data: riders, error: ridersError },
+    { data: adjustments, error: adjustmentsError },
+    { data: settlements, error: settlementsError },
+  ] = await Promise.all([
+    getConfig('payout_settings', supabase),
+    getDeliveredOrders(supabase, period, riderId),
+    ridersQuery,
+    adjustmentsQuery,
+    settlementsQuery,
+  ])
+
+  if (ridersError) {
+    console.error('Error fetching payout riders:', ridersError)
+  }
+  if (adjustmentsError) {
+    console.error('Error fetching rider adjustments:', adjustmentsError)
+  }
+  if (settlementsError) {
+    console.error('Error fetching rider settlements:', settlementsError)
+  }
+
+  return {
+    settings,
+    orders,
+    riders: riders || [],
+    adjustments: adjustments || [],
+    settlements: settlements || [],
+  }
+}
+
+/**
+ * Obtiene las entregas y los ajustes guardados en una liquidación cerrada
+ *
+ * @param settlementId - ID de la liquidación
+ * @param supabase - Cliente a usar; por defecto, el del navegador
+ * @returns Detalle de la liquidación
+ * @throws Si falla alguna consulta (un detalle incompleto no coincidiría
+ *   con los totales guardados)
+ */
+export async function getSettlementDetail(
+  settlementId: string,
+  supabase: PayoutsClient = createClient()
+): Promise<SettlementDetail> {
+  const orders: RiderSettlementOrder[] = []
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('rider_settlement_orders')
+      .select('*')
+      .eq('settlement_id', settlementId)
+      .order('delivered_at')
+      .order('order_id')
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      console.error('Error fetching settlement orders:', error)
+      throw error
+    }
+
+    orders.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  const { data: adjustments, error } = await supabase
+    .from('rider_adjustments')
+    .select('id, rider_id, effective_date, kind, amount, reason, settlement_id')
+    .eq('settlement_id', settlementId)
+    .order('effective_date')
+
+  if (error) {
+    console.error('Error fetching settlement adjustments:', error)
+    throw error
+  }
+
+  return { orders, adjustments: adjustments || [] }
+}
+
+/**
+ * Carga un bono o descuento manual para un rider
+ *
+ * @param riderId - ID del rider
+ * @param values - Valores validados del formulario
+ * @returns Resultado de la operación
+ */
+export async function createRiderAdjustment(
+  riderId: string,
+  values: RiderAdjustmentFormValues
+): Promise<PayoutMutationResult> {
+  const supabase = createClient()
+
+  const { error } = await supabase.from('rider_adjustments').insert({
+    rider_id: riderId,
+    kind: values.kind,
+    amount: values.amount,
+    effective_date: values.effective_date,
+    reason: values.reason,
+  })
+
+  if (error) {
+    console.error('Error creating rider adjustment:', error)
+    // 42501: la política de RLS rechaza ajustes en períodos liquidados
+    return payoutMutationError(error.code === '42501' ? 'PERIOD_SETTLED' : 'UNKNOWN')
+  }
+
+  return { success: true }
+}
+
+/**
+ * Elimina un ajuste que todavía no se liquidó
+ *
+ * @param adjustmentId - ID del ajuste
+ * @returns Resultado de la operación
+ */
+export async function deleteRiderAdjustment(adjustmentId: string): Promise<PayoutMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('rider_adjustments')
+    .delete()
+    .eq('id', adjustmentId)
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error deleting rider adjustment:', error)
+    return payoutMutationError('UNKNOWN')
+  }
+
+  if (!data) {
+    return payoutMutationError('ADJUSTMENT_NOT_FOUND')
+  }
+
+  return { success: true }
+}
+
+/**
+ * Cierra la liquidación de un rider para un período
+ *
+ * La base calcula las entregas y los totales con las reglas vigentes, con el
+ * rider bloqueado, y guarda el desglose de cada entrega; los ajustes del
+ * período quedan vinculados a la liquidación y ya no se pueden tocar.
+ *
+ * @param riderId - ID del rider
+ * @param period - Período a liquidar (días en la zona horaria del negocio)
+ * @param notes - Nota opcional (ej: número de transferencia)
+ * @returns Resultado de la operación
+ */
+export async function settleRiderPeriod(
+  riderId: string,
+  period: SettlementPeriod,
+  notes?: string
+): Promise<PayoutMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('settle_rider_period', {
+    p_rider_id: riderId,
+    p_period_start: period.start,
+    p_period_end: period.end,
+    p_time_zone: BUSINESS_TIME_ZONE,
+    p_notes: notes || null,
+  })
+
+  if (error) {
+    console.error('Error settling rider period:', error)
+    // 42501: el usuario no tiene el permiso payouts.manage
+    return payoutMutationError(error.code === '42501' ? 'FORBIDDEN' : 'UNKNOWN')
+  }
+
+  if (!data?.success) {
+    return payoutMutationError((data?.error_code as PayoutMutationErrorCode) || 'UNKNOWN')
+  }
+
+  return { success: true }
+}
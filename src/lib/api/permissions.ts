@@ -0,0 +1,173 @@
+/**
+ * API de Permisos - PideAI Admin
+ *
+ * Lee y modifica la matriz de permisos por rol (`role_permissions`) y
+ * resuelve los permisos del usuario autenticado. Las funciones de lectura
+ * aceptan el cliente a usar, así sirven en el navegador, en el middleware y
+ * en Route Handlers.
+ *
+ * @module lib/api/permissions
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import {
+  EDITABLE_PERMISSION_ROLES,
+  isPermission,
+  resolvePermissions,
+  type Permission,
+  type PermissionGrant,
+} from '@/lib/auth/permissions'
+import type { UserRole } from '@/types'
+
+/**
+ * Códigos de error al modificar la matriz de permisos
+ */
+export type PermissionMutationErrorCode = 'INVALID_PERMISSION' | 'FORBIDDEN' | 'UNKNOWN'
+
+/**
+ * Resultado de modificar la matriz de permisos
+ */
+export interface PermissionMutationResult {
+  success: boolean
+  error?: string
+  code?: PermissionMutationErrorCode
+}
+
+/**
+ * Rol y permisos efectivos de un usuario
+ */
+export interface UserAccess {
+  /** null si el usuario no tiene perfil en el panel */
+  role: UserRole | null
+  permissions: Permission[]
+}
+
+const PERMISSION_MUTATION_ERROR_MESSAGES: Record<PermissionMutationErrorCode, string> = {
+  INVALID_PERMISSION: 'El permiso o el rol no se pueden modificar',
+  FORBIDDEN: 'Solo un administrador puede modificar los permisos',
+  UNKNOWN: 'Error al guardar los permisos',
+}
+
+function permissionMutationError(code: PermissionMutationErrorCode): PermissionMutationResult {
+  return { success: false, code, error: PERMISSION_MUTATION_ERROR_MESSAGES[code] }
+}
+
+/**
+ * Cliente de Supabase (del navegador, del servidor o del middleware)
+ */
+type PermissionsClient = ReturnType<typeof createClient>
+
+/**
+ * Obtiene la matriz de permisos
+ *
+ * @param supabase - Cliente a usar; por defecto, el del navegador
+ * @returns Filas de `role_permissions` (admin no figura: tiene todos)
+ */
+export async function getRolePermissions(
+  supabase: PermissionsClient = createClient()
+): Promise<PermissionGrant[]> {
+  const { data, error } = await supabase.from('role_permissions').select('role, permission')
+
+  if (error) {
+    console.error('Error fetching role permissions:', error)
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Obtiene el rol y los permisos efectivos de un usuario
+ *
+ * @param userId - ID del usuario (de `auth.getUser()`)
+ * @param supabase - Cliente a usar; por defecto, el del navegador
+ * @returns Rol del perfil y sus permisos
+ */
+export async function getUserAccess(
+  userId: string,
+  supabase: PermissionsClient = createClient()
+): Promise<UserAccess> {
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching profile role:', error)
+  }
+
+  const role = (profile?.role as UserRole | undefined) ?? null
+
+  if (!role) {
+    return { role: null, permissions: [] }
+  }
+
+  if (role === 'admin') {
+    return { role, permissions: resolvePermissions(role, []) }
+  }
+
+  const { data: grants, error: grantsError } = await supabase
+    .from('role_permissions')
+    .select('role, permission')
+    .eq('role', role)
+
+  if (grantsError) {
+    console.error('Error fetching role permissions:', grantsError)
+  }
+
+  return { role, permissions: resolvePermissions(role, grants || []) }
+}
+
+/**
+ * Asigna o quita un permiso a un rol (solo admin)
+ *
+ * @param role - Rol a modificar (sub-admin o soporte)
+ * @param permission - Permiso del catálogo
+ * @param granted - true para asignarlo, false para quitarlo
+ * @returns Resultado de la operación
+ */
+export async function setRolePermission(
+  role: UserRole,
+  permission: Permission,
+  granted: boolean
+): Promise<PermissionMutationResult> {
+  if (!EDITABLE_PERMISSION_ROLES.includes(role) || !isPermission(permission)) {
+    return permissionMutationError('INVALID_PERMISSION')
+  }
+
+  const supabase = createClient()
+
+  if (granted) {
+    const { error } = await supabase
+      .from('role_permissions')
+      .upsert({ role, permission }, { onConflict: 'role,permission', ignoreDuplicates: true })
+
+    if (error) {
+      console.error('Error granting permission:', error)
+      // 42501: las políticas de RLS rechazan el cambio
+      return permissionMutationError(error.code === '42501' ? 'FORBIDDEN' : 'UNKNOWN')
+    }
+
+    return { success: true }
+  }
+
+  const { data, error } = await supabase
+    .from('role_permissions')
+    .delete()
+    .eq('role', role)
+    .eq('permission', permission)
+    .select('permission')
+
+  if (error) {
+    console.error('Error revoking permission:', error)
+    return permissionMutationError(error.code === '42501' ? 'FORBIDDEN' : 'UNKNOWN')
+  }
+
+  // Las políticas de RLS descartan el borrado sin error si no es admin
+  if (!data?.length) {
+    return permissionMutationError('FORBIDDEN')
+  }
+
+  return { success: true }
+}
@@ -0,0 +1,310 @@
+/**
+ * API de Productos - PideAI Admin
+ *
+ * Funciones para gestionar el catálogo de cada comercio: alta, edición,
+ * baja, disponibilidad, ajustes de stock e importación desde CSV.
+ *
+ * Los productos con stock controlado que llegan a cero quedan no
+ * disponibles automáticamente (trigger `products_mark_unavailable_without_stock`).
+ *
+ * @module lib/api/products
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import type { ProductCsvColumn } from '@/lib/products/csv'
+import type { ProductFormValues } from '@/lib/products/schema'
+import type { Product, ProductInsert } from '@/types'
+
+/**
+ * Códigos de error de las operaciones sobre productos
+ */
+export type ProductMutationErrorCode =
+  | 'PRODUCT_NOT_FOUND'
+  | 'PRODUCT_HAS_ORDERS'
+  | 'STOCK_NOT_TRACKED'
+  | 'INSUFFICIENT_STOCK'
+  | 'FORBIDDEN'
+  | 'UNKNOWN'
+
+/**
+ * Resultado de una operación sobre un producto
+ */
+export interface ProductMutationResult {
+  success: boolean
+  error?: string
+  code?: ProductMutationErrorCode
+  product?: Product
+}
+
+/**
+ * Resultado de importar productos desde CSV
+ */
+export interface ProductImportResult {
+  success: boolean
+  error?: string
+  code?: ProductMutationErrorCode
+  created: number
+  updated: number
+}
+
+const PRODUCT_MUTATION_ERROR_MESSAGES: Record<ProductMutationErrorCode, string> = {
+  PRODUCT_NOT_FOUND: 'Producto no encontrado',
+  PRODUCT_HAS_ORDERS:
+    'El producto figura en pedidos y no se puede eliminar. Márcalo como no disponible',
+  STOCK_NOT_TRACKED: 'El producto no controla stock',
+  INSUFFICIENT_STOCK: 'El ajuste dejaría el stock en negativo',
+  FORBIDDEN: 'No tienes permisos para modificar el catálogo',
+  UNKNOWN: 'Error al guardar el producto',
+}
+
+function productMutationError(code: ProductMutationErrorCode): ProductMutationResult {
+  return { success: false, code, error: PRODUCT_MUTATION_ERROR_MESSAGES[code] }
+}
+
+/**
+ * Traduce un error de Postgres en un resultado de la API
+ */
+function productWriteError(error: { code?: string }): ProductMutationResult {
+  // 42501: el usuario no puede modificar el catálogo
+  return productMutationError(error.code === '42501' ? 'FORBIDDEN' : 'UNKNOWN')
+}
+
+/**
+ * Convierte los valores del formulario en columnas de `products`
+ */
+function toProductColumns(values: ProductFormValues): Omit<ProductInsert, 'store_id'> {
+  return {
+    name: values.name,
+    description: values.description || null,
+    price: values.price,
+    category: values.category,
+    image_url: values.image_url || null,
+    is_available: values.is_available,
+    stock: values.stock,
+  }
+}
+
+/**
+ * Obtiene el catálogo de un comercio
+ *
+ * @param storeId - ID del comercio
+ * @returns Productos ordenados por categoría y nombre
+ */
+export async function getStoreProducts(storeId: string): Promise<Product[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('products')
+    .select('*')
+    .eq('store_id', storeId)
+    .order('category')
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching products:', error)
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Da de alta un producto en el catálogo de un comercio
+ *
+ * @param storeId - ID del comercio
+ * @param values - Valores validados del formulario
+ * @returns Resultado con el producto creado
+ */
+export async function createProduct(
+  storeId: string,
+  values: ProductFormValues
+): Promise<ProductMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('products')
+    .insert({ ...toProductColumns(values), store_id: storeId })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating product:', error)
+    return productWriteError(error)
+  }
+
+  return { success: true, product: data }
+}
+
+/**
+ * Actualiza los datos de un producto
+ *
+ * @param productId - ID del producto
+ * @param values - Valores validados del formulario
+ * @returns Resultado con el producto actualizado
+ */
+export async function updateProduct(
+  productId: string,
+  values: ProductFormValues
+): Promise<ProductMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('products')
+    .update({ ...toProductColumns(values), updated_at: new Date().toISOString() })
+    .eq('id', productId)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error updating product:', error)
+    return productWriteError(error)
+  }
+
+  if (!data) {
+    return productMutationError('PRODUCT_NOT_FOUND')
+  }
+
+  return { success: true, product: data }
+}
+
+/**
+ * Elimina un producto del catálogo
+ *
+ * Los productos que ya figuran en pedidos no se pueden eliminar.
+ *
+ * @param productId - ID del producto
+ * @returns Resultado de la operación
+ */
+export async function deleteProduct(productId: string): Promise<ProductMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('products')
+    .delete()
+    .eq('id', productId)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error deleting product:', error)
+    // 23503: foreign_key_violation (order_items.product_id)
+    return error.code === '23503'
+      ? productMutationError('PRODUCT_HAS_ORDERS')
+      : productWriteError(error)
+  }
+
+  if (!data) {
+    return productMutationError('PRODUCT_NOT_FOUND')
+  }
+
+  return { success: true }
+}
+
+/**
+ * Marca varios productos como disponibles o no disponibles
+ *
+ * Los productos sin stock siguen no disponibles aunque se pidan como
+ * disponibles.
+ *
+ * @param productIds - IDs de los productos
+ * @param isAvailable - Nueva disponibilidad
+ * @returns Productos actualizados, o null si hubo un error
+ */
+export async function setProductsAvailability(
+  productIds: string[],
+  isAvailable: boolean
+): Promise<Product[] | null> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('products')
+    .update({ is_available: isAvailable, updated_at: new Date().toISOString() })
+    .in('id', productIds)
+    .select()
+
+  if (error) {
+    console.error('Error updating products availability:', error)
+    return null
+  }
+
+  return data || []
+}
+
+/**
+ * Suma o resta unidades al stock de un producto
+ *
+ * @param productId - ID del producto
+ * @param delta - Unidades a sumar (positivo) o restar (negativo)
+ * @returns Resultado de la operación
+ */
+export async function adjustProductStock(
+  productId: string,
+  delta: number
+): Promise<ProductMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('adjust_product_stock', {
+    p_product_id: productId,
+    p_delta: delta,
+  })
+
+  if (error) {
+    console.error('Error adjusting product stock:', error)
+    return productWriteError(error)
+  }
+
+  if (!data?.success) {
+    return productMutationError((data?.error_code as ProductMutationErrorCode) || 'UNKNOWN')
+  }
+
+  return { success: true }
+}
+
+/**
+ * Crea o actualiza productos a partir de filas validadas de un CSV
+ *
+ * La importación es una sola transacción (`import_products`): si una fila
+ * falla no se guarda ninguna.
+ *
+ * @param storeId - ID del comercio
+ * @param rows - Filas sin errores de `parseProductsCsv`; las que traen
+ *   `productId` actualizan ese producto
+ * @param columns - Columnas presentes en el CSV; al actualizar solo se
+ *   escriben estas
+ * @returns Cantidad de productos creados y actualizados
+ */
+export async function importProducts(
+  storeId: string,
+  rows: { productId: string | null; values: ProductFormValues }[],
+  columns: ProductCsvColumn[]
+): Promise<ProductImportResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('import_products', {
+    p_store_id: storeId,
+    p_rows: rows.map((row) => {
+      const values = toProductColumns(row.values)
+      return {
+        product_id: row.productId,
+        values: row.productId
+          ? Object.fromEntries(columns.map((column) => [column, values[column]]))
+          : values,
+      }
+    }),
+  })
+
+  if (error) {
+    console.error('Error importing products:', error)
+    return { ...productWriteError(error), created: 0, updated: 0 }
+  }
+
+  if (!data?.success) {
+    return {
+      ...productMutationError((data?.error_code as ProductMutationErrorCode) || 'UNKNOWN'),
+      created: 0,
+      updated: 0,
+    }
+  }
+
+  return { success: true, created: data.created, updated: data.updated }
+}
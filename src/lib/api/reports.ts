@@ -0,0 +1,102 @@
+/**
+ * API de Reportes - PideAI Admin
+ *
+ * Carga los pedidos de un rango de fechas junto con los riders y comercios
+ * necesarios para armar los reportes con `lib/reports/analytics`.
+ *
+ * @module lib/api/reports
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import type { ReportOrder, ReportRange } from '@/lib/reports/analytics'
+import type { Rider, Store } from '@/types'
+
+/**
+ * Datos crudos de un reporte
+ */
+export interface ReportData {
+  orders: ReportOrder[]
+  riders: Pick<Rider, 'id' | 'full_name' | 'rating'>[]
+  stores: Pick<Store, 'id' | 'name' | 'rating'>[]
+}
+
+/**
+ * Cliente de Supabase (del navegador o del servidor, para las exportaciones)
+ */
+type ReportsClient = ReturnType<typeof createClient>
+
+/**
+ * Filas por consulta (el límite por defecto de PostgREST es 1000)
+ */
+const PAGE_SIZE = 1000
+
+const REPORT_ORDER_COLUMNS =
+  'id, status, store_id, store_name, delivery_id, total_amount, delivery_fee, created_at, assigned_at, delivered_at, cancelled_at, cancellation_reason, cancellation_refund'
+
+/**
+ * Obtiene todos los pedidos creados en un rango, en páginas
+ *
+ * El orden incluye `id` para que las páginas no repitan ni salteen pedidos
+ * con el mismo `created_at`.
+ *
+ * @throws Error de PostgREST si falla alguna página (un reporte parcial se
+ *   vería como completo)
+ */
+async function getOrdersInRange(
+  supabase: ReportsClient,
+  { from, to }: ReportRange
+): Promise<ReportOrder[]> {
+  const orders: ReportOrder[] = []
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('orders')
+      .select(REPORT_ORDER_COLUMNS)
+      .gte('created_at', from.toISOString())
+      .lte('created_at', to.toISOString())
+      .order('created_at')
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      console.error('Error fetching report orders:', error)
+      throw error
+    }
+
+    orders.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return orders
+}
+
+/**
+ * Obtiene los datos de un reporte
+ *
+ * @param range - Rango de fechas (por `created_at` de los pedidos)
+ * @param supabase - Cliente a usar; por defecto, el del navegador
+ * @returns Pedidos del rango, riders y comercios
+ * @throws Error de PostgREST si falla alguna consulta
+ */
+export async function getReportData(
+  range: ReportRange,
+  supabase: ReportsClient = createClient()
+): Promise<ReportData> {
+  const [orders, { data: riders, error: ridersError }, { data: stores, error: storesError }] =
+    await Promise.all([
+      getOrdersInRange(supabase, range),
+      supabase.from('riders').select('id, full_name, rating'),
+      supabase.from('stores').select('id, name, rating'),
+    ])
+
+  if (ridersError) {
+    console.error('Error fetching report riders:', ridersError)
+    throw ridersError
+  }
+  if (storesError) {
+    console.error('Error fetching report stores:', storesError)
+    throw storesError
+  }
+
+  return { orders, riders: riders || [], stores: stores || [] }
+}
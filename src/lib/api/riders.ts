@@ -0,0 +1,308 @@
+/**
+ * API de Riders - PideAI Admin
+ *
+ * Funciones para gestionar riders: listado con filtros, alta, edición,
+ * activación y seguimiento de ubicación.
+ *
+ * @module lib/api/riders
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import { parseCoordinates } from '@/lib/geo'
+import { RIDER_ACTIVE_ORDER_STATUSES } from '@/lib/orders/state-machine'
+import type { RiderFormValues } from '@/lib/riders/schema'
+import type {
+  Coordinates,
+  PaginatedResult,
+  PaginationOptions,
+  Rider,
+  RiderFilters,
+  RiderInsert,
+} from '@/types'
+
+/**
+ * Rider del listado con la cantidad de pedidos activos
+ */
+export interface RiderListItem extends Rider {
+  active_orders: number
+}
+
+/**
+ * Códigos de error de las operaciones sobre riders
+ */
+export type RiderMutationErrorCode =
+  | 'RIDER_NOT_FOUND'
+  | 'RIDER_HAS_ACTIVE_ORDERS'
+  | 'DUPLICATE_PHONE'
+  | 'FORBIDDEN'
+  | 'UNKNOWN'
+
+/**
+ * Resultado de una operación sobre un rider
+ */
+export interface RiderMutationResult {
+  success: boolean
+  error?: string
+  code?: RiderMutationErrorCode
+  rider?: Rider
+}
+
+const RIDER_MUTATION_ERROR_MESSAGES: Record<RiderMutationErrorCode, string> = {
+  RIDER_NOT_FOUND: 'Rider no encontrado',
+  RIDER_HAS_ACTIVE_ORDERS:
+    'El rider tiene pedidos activos. Reasígnalos antes de desactivarlo',
+  DUPLICATE_PHONE: 'Ya existe un rider con ese teléfono',
+  FORBIDDEN: 'No tienes permisos para modificar riders',
+  UNKNOWN: 'Error al guardar el rider',
+}
+
+function riderMutationError(code: RiderMutationErrorCode): RiderMutationResult {
+  return { success: false, code, error: RIDER_MUTATION_ERROR_MESSAGES[code] }
+}
+
+/**
+ * Punto del recorrido de un rider
+ */
+export interface RiderRoutePoint {
+  position: Coordinates
+  recorded_at: string
+}
+
+/**
+ * Puntos por consulta del recorrido (el límite por defecto de PostgREST es 1000)
+ */
+const ROUTE_PAGE_SIZE = 1000
+
+/**
+ * Obtiene el recorrido de un rider entre dos fechas
+ *
+ * Lee los puntos en páginas, así un turno largo no queda cortado en el
+ * límite de filas de PostgREST.
+ *
+ * @param riderId - ID del rider
+ * @param from - Inicio del intervalo (ISO)
+ * @param to - Fin del intervalo (ISO); si se omite, hasta ahora
+ * @returns Puntos ordenados cronológicamente (vacío si la consulta falla)
+ */
+export async function getRiderRoute(
+  riderId: string,
+  from: string,
+  to?: string | null
+): Promise<RiderRoutePoint[]> {
+  const supabase = createClient()
+  const points: RiderRoutePoint[] = []
+
+  for (let offset = 0; ; offset += ROUTE_PAGE_SIZE) {
+    let query = supabase
+      .from('rider_locations')
+      .select('location, recorded_at')
+      .eq('rider_id', riderId)
+      .gte('recorded_at', from)
+      .order('recorded_at', { ascending: true })
+      .order('id', { ascending: true })
+
+    if (to) {
+      query = query.lte('recorded_at', to)
+    }
+
+    const { data, error } = await query.range(offset, offset + ROUTE_PAGE_SIZE - 1)
+
+    if (error) {
+      console.error('Error fetching rider route:', error)
+      return []
+    }
+
+    points.push(
+      ...(data || []).flatMap((point) => {
+        const position = parseCoordinates(point.location)
+        return position ? [{ position, recorded_at: point.recorded_at }] : []
+      })
+    )
+    if (!data || data.length < ROUTE_PAGE_SIZE) break
+  }
+
+  return points
+}
+
+/**
+ * Lista riders con filtros y paginación
+ *
+ * @param filters - Filtros de estado, activo, vehículo y búsqueda
+ * @param pagination - Página (desde 1) y tamaño de página
+ * @returns Página de riders con sus pedidos activos
+ */
+export async function getRiders(
+  filters: RiderFilters,
+  { page, per_page }: PaginationOptions
+): Promise<PaginatedResult<RiderListItem>> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from('riders')
+    .select('*, orders!delivery_id(status)', { count: 'exact' })
+    // Solo se embeben los pedidos activos (los riders sin pedidos siguen en la lista)
+    .in('orders.status', RIDER_ACTIVE_ORDER_STATUSES)
+    .order('full_name')
+
+  if (filters.status) {
+    query = Array.isArray(filters.status)
+      ? query.in('status', filters.status)
+      : query.eq('status', filters.status)
+  }
+
+  if (filters.is_active !== undefined) {
+    query = query.eq('is_active', filters.is_active)
+  }
+
+  if (filters.vehicle_type) {
+    query = query.eq('vehicle_type', filters.vehicle_type)
+  }
+
+  if (filters.search) {
+    // Quitar caracteres con significado en la sintaxis de filtros de PostgREST
+    const term = filters.search.replace(/[,()%]/g, ' ').trim()
+    if (term) {
+      query = query.or(`full_name.ilike.%${term}%,phone.ilike.%${term}%`)
+    }
+  }
+
+  const from = (page - 1) * per_page
+  const { data, count, error } = await query.range(from, from + per_page - 1)
+
+  if (error) {
+    console.error('Error fetching riders:', error)
+    return { data: [], total: 0, page, per_page, total_pages: 0 }
+  }
+
+  const riders = (data || []).map(({ orders, ...rider }) => ({
+    ...rider,
+    active_orders: (orders || []).length,
+  })) as RiderListItem[]
+
+  const total = count || 0
+
+  return {
+    data: riders,
+    total,
+    page,
+    per_page,
+    total_pages: Math.ceil(total / per_page),
+  }
+}
+
+/**
+ * Convierte los valores del formulario en columnas de `riders`
+ *
+ * `is_active` queda fuera: al editar se cambia con `setRiderActive`.
+ */
+function toRiderColumns(values: RiderFormValues): RiderInsert {
+  return {
+    full_name: values.full_name,
+    phone: values.phone,
+    email: values.email || null,
+    vehicle_type: values.vehicle_type,
+    vehicle_plate: values.vehicle_plate || null,
+  }
+}
+
+/**
+ * Traduce un error de Postgres en un resultado de la API
+ */
+function riderWriteError(error: { code?: string }): RiderMutationResult {
+  // 23505: unique_violation (teléfono duplicado)
+  if (error.code === '23505') return riderMutationError('DUPLICATE_PHONE')
+  // 42501: el rol del usuario no alcanza para modificar riders
+  if (error.code === '42501') return riderMutationError('FORBIDDEN')
+  return riderMutationError('UNKNOWN')
+}
+
+/**
+ * Da de alta un rider
+ *
+ * @param values - Valores validados del formulario
+ * @returns Resultado con el rider creado
+ */
+export async function createRider(values: RiderFormValues): Promise<RiderMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('riders')
+    .insert({ ...toRiderColumns(values), is_active: values.is_active, status: 'offline' })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating rider:', error)
+    return riderWriteError(error)
+  }
+
+  return { success: true, rider: data }
+}
+
+/**
+ * Actualiza los datos de un rider
+ *
+ * La activación se cambia con `setRiderActive`, que valida los pedidos
+ * activos; este método no modifica `is_active`.
+ *
+ * @param riderId - ID del rider
+ * @param values - Valores validados del formulario
+ * @returns Resultado con el rider actualizado
+ */
+export async function updateRider(
+  riderId: string,
+  values: RiderFormValues
+): Promise<RiderMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('riders')
+    .update({ ...toRiderColumns(values), updated_at: new Date().toISOString() })
+    .eq('id', riderId)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error updating rider:', error)
+    return riderWriteError(error)
+  }
+
+  if (!data) {
+    return riderMutationError('RIDER_NOT_FOUND')
+  }
+
+  return { success: true, rider: data }
+}
+
+/**
+ * Activa o desactiva un rider
+ *
+ * Se ejecuta en la función `set_rider_active` de Postgres, que no permite
+ * desactivar riders con pedidos activos y los deja desconectados.
+ *
+ * @param riderId - ID del rider
+ * @param isActive - Nuevo estado
+ * @returns Resultado de la operación
+ */
+export async function setRiderActive(
+  riderId: string,
+  isActive: boolean
+): Promise<RiderMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('set_rider_active', {
+    p_rider_id: riderId,
+    p_is_active: isActive,
+  })
+
+  if (error) {
+    console.error('Error updating rider activation:', error)
+    return riderMutationError('UNKNOWN')
+  }
+
+  if (!data?.success) {
+    return riderMutationError((data?.error_code as RiderMutationErrorCode) || 'UNKNOWN')
+  }
+
+  return { success: true }
+}
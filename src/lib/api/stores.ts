@@ -0,0 +1,238 @@
+/**
+ * API de Comercios - PideAI Admin
+ *
+ * Funciones para gestionar comercios: listado con filtros, alta, edición y
+ * activación.
+ *
+ * @module lib/api/stores
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import type { StoreFormValues } from '@/lib/stores/schema'
+import type {
+  Json,
+  PaginatedResult,
+  PaginationOptions,
+  Store,
+  StoreFilters,
+  StoreInsert,
+} from '@/types'
+
+/**
+ * Códigos de error de las operaciones sobre comercios
+ */
+export type StoreMutationErrorCode =
+  | 'STORE_NOT_FOUND'
+  | 'DUPLICATE_SLUG'
+  | 'FORBIDDEN'
+  | 'UNKNOWN'
+
+/**
+ * Resultado de una operación sobre un comercio
+ */
+export interface StoreMutationResult {
+  success: boolean
+  error?: string
+  code?: StoreMutationErrorCode
+  store?: Store
+}
+
+const STORE_MUTATION_ERROR_MESSAGES: Record<StoreMutationErrorCode, string> = {
+  STORE_NOT_FOUND: 'Comercio no encontrado',
+  DUPLICATE_SLUG: 'Ya existe un comercio con ese slug',
+  FORBIDDEN: 'No tienes permisos para modificar comercios',
+  UNKNOWN: 'Error al guardar el comercio',
+}
+
+function storeMutationError(code: StoreMutationErrorCode): StoreMutationResult {
+  return { success: false, code, error: STORE_MUTATION_ERROR_MESSAGES[code] }
+}
+
+/**
+ * Traduce un error de Postgres en un resultado de la API
+ */
+function storeWriteError(error: { code?: string }): StoreMutationResult {
+  // 23505: unique_violation (slug duplicado)
+  if (error.code === '23505') return storeMutationError('DUPLICATE_SLUG')
+  // 42501: el rol del usuario no alcanza para modificar comercios
+  if (error.code === '42501') return storeMutationError('FORBIDDEN')
+  return storeMutationError('UNKNOWN')
+}
+
+/**
+ * Convierte los valores del formulario en columnas de `stores`
+ */
+function toStoreColumns(values: StoreFormValues): StoreInsert {
+  return {
+    name: values.name,
+    slug: values.slug,
+    category: values.category,
+    description: values.description || null,
+    phone: values.phone,
+    email: values.email || null,
+    address: values.address,
+    location:
+      values.lat !== null && values.lng !== null ? { lat: values.lat, lng: values.lng } : null,
+    delivery_fee: values.delivery_fee,
+    min_order_amount: values.min_order_amount,
+    commission_rate:
+      values.commission_rate === null ? null : Math.round(values.commission_rate * 100) / 10000,
+    is_active: values.is_active,
+    opening_hours: values.opening_hours as unknown as Json,
+  }
+}
+
+/**
+ * Lista comercios con filtros y paginación
+ *
+ * @param filters - Filtros de categoría, activo y búsqueda
+ * @param pagination - Página (desde 1) y tamaño de página
+ * @returns Página de comercios
+ */
+export async function getStores(
+  filters: StoreFilters,
+  { page, per_page }: PaginationOptions
+): Promise<PaginatedResult<Store>> {
+  const supabase = createClient()
+
+  let query = supabase.from('stores').select('*', { count: 'exact' }).order('name')
+
+  if (filters.category) {
+    query = query.eq('category', filters.category)
+  }
+
+  if (filters.is_active !== undefined) {
+    query = query.eq('is_active', filters.is_active)
+  }
+
+  if (filters.search) {
+    query = query.ilike('name', `%${filters.search}%`)
+  }
+
+  const from = (page - 1) * per_page
+  const { data, count, error } = await query.range(from, from + per_page - 1)
+
+  if (error) {
+    console.error('Error fetching stores:', error)
+    return { data: [], total: 0, page, per_page, total_pages: 0 }
+  }
+
+  const total = count || 0
+
+  return {
+    data: data || [],
+    total,
+    page,
+    per_page,
+    total_pages: Math.ceil(total / per_page),
+  }
+}
+
+/**
+ * Obtiene las categorías usadas por los comercios
+ *
+ * @returns Categorías sin repetir, ordenadas alfabéticamente
+ */
+export async function getStoreCategories(): Promise<string[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.from('stores').select('category')
+
+  if (error) {
+    console.error('Error fetching store categories:', error)
+    return []
+  }
+
+  return Array.from(new Set((data || []).map((store) => store.category))).sort((a, b) =>
+    a.localeCompare(b, 'es')
+  )
+}
+
+/**
+ * Da de alta un comercio
+ *
+ * @param values - Valores validados del formulario
+ * @returns Resultado con el comercio creado
+ */
+export async function createStore(values: StoreFormValues): Promise<StoreMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('stores')
+    .insert(toStoreColumns(values))
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating store:', error)
+    return storeWriteError(error)
+  }
+
+  return { success: true, store: data }
+}
+
+/**
+ * Actualiza los datos de un comercio
+ *
+ * @param storeId - ID del comercio
+ * @param values - Valores validados del formulario
+ * @returns Resultado con el comercio actualizado
+ */
+export async function updateStore(
+  storeId: string,
+  values: StoreFormValues
+): Promise<StoreMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('stores')
+    .update({ ...toStoreColumns(values), updated_at: new Date().toISOString() })
+    .eq('id', storeId)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error updating store:', error)
+    return storeWriteError(error)
+  }
+
+  if (!data) {
+    return storeMutationError('STORE_NOT_FOUND')
+  }
+
+  return { success: true, store: data }
+}
+
+/**
+ * Activa o desactiva un comercio
+ *
+ * Los pedidos en curso del comercio no se ven afectados.
+ *
+ * @param storeId - ID del comercio
+ * @param isActive - Nuevo estado
+ * @returns Resultado de la operación
+ */
+export async function setStoreActive(
+  storeId: string,
+  isActive: boolean
+): Promise<StoreMutationResult> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('stores')
+    .update({ is_active: isActive, updated_at: new Date().toISOString() })
+    .eq('id', storeId)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error updating store activation:', error)
+    return storeWriteError(error)
+  }
+
+  if (!data) {
+    return storeMutationError('STORE_NOT_FOUND')
+  }
+
+  return { success: true, store: data }
+}
@@ -0,0 +1,65 @@
+/**
+ * Diferencias de Auditoría - PideAI Admin
+ *
+ * Compara las filas antes y después de un cambio del registro de auditoría,
+ * columna por columna.
+ *
+ * @module lib/audit/diff
+ */
+
+import type { Json } from '@/types'
+
+/**
+ * Columna que cambió
+ */
+export interface AuditChange {
+  field: string
+  before: string
+  after: string
+}
+
+/**
+ * Columnas que se completan solas en cada escritura y no se muestran
+ */
+const IGNORED_FIELDS = ['updated_at']
+
+/**
+ * Formatea el valor de una columna para mostrarlo
+ */
+function formatValue(value: Json | undefined): string {
+  if (value === undefined || value === null) return '—'
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No'
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Obtiene las columnas de una fila guardada en el registro
+ */
+function toRecord(value: Json | null): Record<string, Json | undefined> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {}
+}
+
+/**
+ * Compara la fila antes y después de un cambio
+ *
+ * En las altas `before` es null y en las eliminaciones `after` es null: se
+ * listan todas las columnas de la fila.
+ *
+ * @param before - Fila antes del cambio
+ * @param after - Fila después del cambio
+ * @returns Columnas que cambiaron, en el orden de la fila
+ */
+export function diffAuditSnapshots(before: Json | null, after: Json | null): AuditChange[] {
+  const beforeRow = toRecord(before)
+  const afterRow = toRecord(after)
+  const fields = [...new Set([...Object.keys(beforeRow), ...Object.keys(afterRow)])]
+
+  return fields
+    .filter((field) => !IGNORED_FIELDS.includes(field))
+    .filter((field) => JSON.stringify(beforeRow[field]) !== JSON.stringify(afterRow[field]))
+    .map((field) => ({
+      field,
+      before: formatValue(beforeRow[field]),
+      after: formatValue(afterRow[field]),
+    }))
+}
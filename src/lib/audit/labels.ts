@@ -0,0 +1,75 @@
+/**
+ * Etiquetas de Auditoría - PideAI Admin
+ *
+ * Textos en español para las entidades y acciones del registro de
+ * auditoría (`audit_log`), y enlaces a la página de cada entidad.
+ *
+ * @module lib/audit/labels
+ */
+
+/**
+ * Tablas auditadas (valor de `audit_log.entity_type`)
+ */
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  orders: 'Pedido',
+  dispatch_decisions: 'Decisión de despacho',
+  riders: 'Rider',
+  stores: 'Comercio',
+  products: 'Producto',
+  app_config: 'Configuración',
+  role_permissions: 'Permiso',
+  rider_settlements: 'Liquidación',
+  rider_adjustments: 'Ajuste de liquidación',
+  store_statements: 'Estado de cuenta',
+}
+
+/**
+ * Acciones registradas (valor de `audit_log.action`)
+ */
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  insert: 'Alta',
+  update: 'Edición',
+  delete: 'Eliminación',
+  activate: 'Activación',
+  deactivate: 'Desactivación',
+  assign: 'Asignación',
+  reassign: 'Reasignación',
+  unassign: 'Desasignación',
+  pick_up: 'Recogido',
+  deliver: 'Entrega',
+  cancel: 'Cancelación',
+  issue: 'Emisión',
+  pay: 'Cobro',
+}
+
+/**
+ * Etiqueta de una entidad auditada
+ */
+export function getAuditEntityLabel(entityType: string): string {
+  return AUDIT_ENTITY_LABELS[entityType] ?? entityType
+}
+
+/**
+ * Etiqueta de una acción auditada
+ */
+export function getAuditActionLabel(action: string): string {
+  return AUDIT_ACTION_LABELS[action] ?? action
+}
+
+/**
+ * Página del panel de una entidad auditada
+ *
+ * @param entityType - Tabla de la entidad
+ * @param entityId - ID de la fila
+ * @returns Ruta de la página de detalle, o null si la entidad no tiene una
+ */
+export function getAuditEntityHref(entityType: string, entityId: string): string | null {
+  switch (entityType) {
+    case 'orders':
+    case 'riders':
+    case 'stores':
+      return `/${entityType}/${entityId}`
+    default:
+      return null
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Acceso por Ruta - PideAI Admin
+ *
+ * Permiso requerido para ver cada sección del panel y para modificarla. El
+ * proxy (`src/proxy.ts`) aplica este mapa en el servidor a cada request; los
+ * componentes lo usan para ocultar las acciones que el usuario no puede
+ * ejecutar.
+ *
+ * - Ver: requests GET y HEAD (páginas, exportaciones).
+ * - Modificar: el resto de los métodos, incluidas las Server Actions (que
+ *   llegan como POST a la ruta de la página).
+ *
+ * Las rutas que no figuran en el mapa (o que no piden permiso) solo
+ * requieren un rol del panel. Este módulo no importa código de servidor para
+ * poder usarse en el proxy y en el navegador.
+ *
+ * @module lib/auth/access
+ */
+
+import { can, type Permission } from '@/lib/auth/permissions'
+
+/**
+ * Regla de acceso de una ruta y sus subrutas
+ */
+export interface RouteAccessRule {
+  /** Prefijo de la ruta (ej: "/riders" cubre "/riders/123") */
+  path: string
+  /** Permiso para ver la ruta; si se omite, basta con un rol del panel */
+  permission?: Permission
+  /** Permiso para modificar; si se omite, el mismo que para ver */
+  writePermission?: Permission
+}
+
+/**
+ * Mapa de acceso por ruta
+ */
+export const ROUTE_ACCESS: RouteAccessRule[] = [
+  { path: '/settings', permission: 'config.write' },
+  { path: '/payouts', permission: 'payouts.manage' },
+  { path: '/billing', permission: 'billing.manage' },
+  { path: '/audit', permission: 'audit.view' },
+  { path: '/riders', writePermission: 'riders.edit' },
+  { path: '/stores', writePermission: 'stores.edit' },
+  { path: '/api/exports/orders', permission: 'reports.export' },
+  { path: '/api/exports/reports', permission: 'reports.export' },
+  { path: '/api/exports/payouts', permission: 'payouts.manage' },
+  { path: '/api/exports/store-statements', permission: 'billing.manage' },
+]
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+/**
+ * Obtiene la regla que aplica a una ruta (la de prefijo más largo)
+ *
+ * @param pathname - Ruta del request (ej: "/riders/123")
+ * @returns Regla de la ruta, o null si no figura en el mapa
+ */
+export function getRouteAccess(pathname: string): RouteAccessRule | null {
+  return ROUTE_ACCESS.filter(
+    (rule) => pathname === rule.path || pathname.startsWith(`${rule.path}/`)
+  ).reduce<RouteAccessRule | null>(
+    (best, rule) => (!best || rule.path.length > best.path.length ? rule : best),
+    null
+  )
+}
+
+/**
+ * Obtiene el permiso requerido para un request
+ *
+ * @param pathname - Ruta del request
+ * @param method - Método HTTP (por defecto GET)
+ * @returns Permiso requerido, o null si basta con un rol del panel
+ */
+export function getRequiredPermission(
+  pathname: string,
+  method: string = 'GET'
+): Permission | null {
+  const rule = getRouteAccess(pathname)
+  if (!rule) return null
+
+  if (READ_METHODS.includes(method.toUpperCase())) {
+    return rule.permission ?? null
+  }
+  return rule.writePermission ?? rule.permission ?? null
+}
+
+/**
+ * Indica si unos permisos alcanzan para ver una ruta
+ *
+ * @param pathname - Ruta (ej: "/settings")
+ * @param permissions - Permisos efectivos del usuario
+ * @returns true si la ruta no pide permiso o el usuario lo tiene
+ */
+export function canViewRoute(
+  pathname: string,
+  permissions: readonly Permission[] | null | undefined
+): boolean {
+  const permission = getRequiredPermission(pathname, 'GET')
+  return !permission || can(permissions, permission)
+}
+
+/**
+ * Indica si unos permisos alcanzan para modificar los datos de una sección
+ *
+ * @param pathname - Ruta de la sección (ej: "/riders")
+ * @param permissions - Permisos efectivos del usuario
+ * @returns true si la ruta no pide permiso o el usuario lo tiene
+ */
+export function canWriteRoute(
+  pathname: string,
+  permissions: readonly Permission[] | null | undefined
+): boolean {
+  const permission = getRequiredPermission(pathname, 'POST')
+  return !permission || can(permissions, permission)
+}
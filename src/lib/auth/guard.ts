@@ -0,0 +1,126 @@
+/**
+ * Autorización en el Servidor - PideAI Admin
+ *
+ * Verifica la sesión y los permisos (según el rol leído de `profiles`) en
+ * Route Handlers y Server Actions. El rol nunca se toma de `user_metadata`,
+ * que el propio usuario puede modificar.
+ *
+ * Uso en un Route Handler:
+ * ```ts
+ * export const GET = withPermission('payouts.manage', async (request, { supabase }) => {
+ *   ...
+ * })
+ * ```
+ *
+ * Uso en una Server Action:
+ * ```ts
+ * const auth = await authorize('config.write')
+ * if (!auth.authorized) return { success: false, code: auth.code, error: auth.message }
+ * ```
+ *
+ * @module lib/auth/guard
+ */
+
+import type { User } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { getUserAccess } from '@/lib/api/permissions'
+import { can, type Permission } from '@/lib/auth/permissions'
+import type { ApiError, UserRole } from '@/types'
+
+/**
+ * Cliente de Supabase del servidor con la sesión del usuario
+ */
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * Sesión autorizada
+ */
+export interface AuthorizedContext {
+  supabase: ServerClient
+  user: User
+  role: UserRole
+  /** Permisos efectivos del usuario */
+  permissions: Permission[]
+}
+
+/**
+ * Resultado de la autorización
+ */
+export type AuthorizationResult =
+  | ({ authorized: true } & AuthorizedContext)
+  | {
+      authorized: false
+      status: 401 | 403
+      code: 'UNAUTHORIZED' | 'FORBIDDEN'
+      message: string
+    }
+
+/**
+ * Verifica que haya sesión y que el usuario tenga el permiso requerido
+ *
+ * @param permission - Permiso requerido; con null basta con un rol del panel
+ * @returns Contexto autorizado, o el motivo del rechazo (401 sin sesión, 403 sin permiso)
+ */
+export async function authorize(permission: Permission | null): Promise<AuthorizationResult> {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { authorized: false, status: 401, code: 'UNAUTHORIZED', message: 'Sesión no válida' }
+  }
+
+  const { role, permissions } = await getUserAccess(user.id, supabase)
+
+  if (!role || (permission && !can(permissions, permission))) {
+    return {
+      authorized: false,
+      status: 403,
+      code: 'FORBIDDEN',
+      message: 'No tienes permisos para realizar esta acción',
+    }
+  }
+
+  return { authorized: true, supabase, user, role, permissions }
+}
+
+/**
+ * Envuelve un Route Handler para que solo se ejecute con el permiso requerido
+ *
+ * Responde 401 sin sesión y 403 sin el permiso, con el formato `ApiError`.
+ *
+ * @param permission - Permiso requerido; con null basta con un rol del panel
+ * @param handler - Route Handler que recibe además el contexto autorizado
+ * @returns Route Handler protegido
+ */
+export function withPermission<Context>(
+  permission: Permission | null,
+  handler: (request: Request, auth: AuthorizedContext, context: Context) => Promise<Response>
+): (request: Request, context: Context) => Promise<Response> {
+  return async (request, context) => {
+    const auth = await authorize(permission)
+
+    if (!auth.authorized) {
+      const body: ApiError = { error: auth.code, message: auth.message, statusCode: auth.status }
+      return Response.json(body, { status: auth.status })
+    }
+
+    const { supabase, user, role, permissions } = auth
+    return handler(request, { supabase, user, role, permissions }, context)
+  }
+}
+
+/**
+ * Indica si el usuario de la sesión tiene un permiso
+ *
+ * Para Server Components que solo necesitan mostrar u ocultar contenido;
+ * las acciones deben usar `authorize` o `withPermission`.
+ *
+ * @param permission - Permiso requerido
+ * @returns true si hay sesión y el usuario tiene el permiso
+ */
+export async function hasPermission(permission: Permission): Promise<boolean> {
+  const auth = await authorize(permission)
+  return auth.authorized
+}
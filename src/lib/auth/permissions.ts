@@ -0,0 +1,155 @@
+/**
+ * Permisos - PideAI Admin
+ *
+ * Catálogo de permisos con nombre (ej: `orders.cancel`) y reglas para
+ * resolver los permisos de un rol. La asignación de permisos a cada rol se
+ * guarda en la tabla `role_permissions` y la editan los admin desde
+ * Configuración; la base de datos la consulta con `has_permission()`.
+ *
+ * - admin tiene siempre todos los permisos (no se guardan en la tabla), así
+ *   nadie puede quitarse el acceso a la matriz.
+ * - sub-admin y soporte tienen solo los permisos asignados.
+ *
+ * Este módulo no importa código de servidor para poder usarse en el
+ * middleware, en Route Handlers y en el navegador.
+ *
+ * Uso:
+ * ```ts
+ * const permissions = resolvePermissions(profile.role, grants)
+ * if (can(permissions, 'orders.cancel')) { ... }
+ * ```
+ *
+ * @module lib/auth/permissions
+ */
+
+import type { UserRole } from '@/types'
+
+/**
+ * Definición de un permiso del catálogo
+ */
+export interface PermissionDefinition {
+  label: string
+  description: string
+  /** Sección en la que se agrupa en la matriz de permisos */
+  group: string
+}
+
+/**
+ * Catálogo de permisos, en el orden en que se muestran
+ */
+export const PERMISSIONS = {
+  'orders.assign': {
+    label: 'Asignar pedidos',
+    description: 'Asignar, reasignar y desasignar riders',
+    group: 'Pedidos',
+  },
+  'orders.update_status': {
+    label: 'Actualizar entregas',
+    description: 'Marcar pedidos como recogidos o entregados',
+    group: 'Pedidos',
+  },
+  'orders.cancel': {
+    label: 'Cancelar pedidos',
+    description: 'Cancelar pedidos en curso',
+    group: 'Pedidos',
+  },
+  'riders.edit': {
+    label: 'Editar riders',
+    description: 'Dar de alta, editar y activar/desactivar riders',
+    group: 'Riders y comercios',
+  },
+  'stores.edit': {
+    label: 'Editar comercios',
+    description: 'Dar de alta, editar y activar/desactivar comercios',
+    group: 'Riders y comercios',
+  },
+  'payouts.manage': {
+    label: 'Liquidaciones',
+    description: 'Ver y cerrar liquidaciones de riders',
+    group: 'Finanzas',
+  },
+  'billing.manage': {
+    label: 'Facturación',
+    description: 'Ver, emitir y cobrar estados de cuenta de comercios',
+    group: 'Finanzas',
+  },
+  'reports.export': {
+    label: 'Exportar',
+    description: 'Descargar pedidos y reportes en CSV, XLSX o PDF',
+    group: 'Reportes',
+  },
+  'config.write': {
+    label: 'Modificar configuración',
+    description: 'Editar la configuración de la plataforma (según el rol de cada sección)',
+    group: 'Configuración',
+  },
+  'audit.view': {
+    label: 'Ver auditoría',
+    description: 'Consultar el registro de cambios hechos desde el panel',
+    group: 'Configuración',
+  },
+} as const satisfies Record<string, PermissionDefinition>
+
+/**
+ * Permiso con nombre
+ */
+export type Permission = keyof typeof PERMISSIONS
+
+/**
+ * Permisos del catálogo, en orden
+ */
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as Permission[]
+
+/**
+ * Roles cuyos permisos se editan en la matriz (admin los tiene todos)
+ */
+export const EDITABLE_PERMISSION_ROLES: UserRole[] = ['sub-admin', 'soporte']
+
+/**
+ * Asignación de un permiso a un rol (fila de `role_permissions`)
+ */
+export interface PermissionGrant {
+  role: UserRole
+  permission: string
+}
+
+/**
+ * Indica si un valor de texto es un permiso del catálogo
+ */
+export function isPermission(value: string | null | undefined): value is Permission {
+  return !!value && value in PERMISSIONS
+}
+
+/**
+ * Resuelve los permisos efectivos de un rol
+ *
+ * @param role - Rol del usuario (sin rol no hay permisos)
+ * @param grants - Filas de `role_permissions` (pueden incluir otros roles)
+ * @returns Permisos del rol, en el orden del catálogo
+ */
+export function resolvePermissions(
+  role: UserRole | null | undefined,
+  grants: PermissionGrant[]
+): Permission[] {
+  if (!role) return []
+  if (role === 'admin') return [...PERMISSION_KEYS]
+
+  const granted = new Set(
+    grants.filter((grant) => grant.role === role).map((grant) => grant.permission)
+  )
+  return PERMISSION_KEYS.filter((permission) => granted.has(permission))
+}
+
+/**
+ * Verifica si una lista de permisos incluye el requerido
+ *
+ * @param permissions - Permisos efectivos del usuario
+ * @param permission - Permiso requerido
+ * @returns true si el usuario tiene el permiso
+ */
+export function can(
+  permissions: readonly Permission[] | null | undefined,
+  permission: Permission
+): boolean {
+  return !!permissions?.includes(permission)
+}
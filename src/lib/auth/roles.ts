@@ -0,0 +1,41 @@
+/**
+ * Roles de Usuario - PideAI Admin
+ *
+ * Jerarquía de roles del panel: cada rol puede hacer todo lo que puede hacer
+ * un rol de menor nivel.
+ *
+ * - admin (nivel 3): Puede todo
+ * - sub-admin (nivel 2): Puede sub-admin y soporte
+ * - soporte (nivel 1): Solo soporte
+ *
+ * @module lib/auth/roles
+ */
+
+import type { UserRole } from '@/types'
+
+/**
+ * Nivel de cada rol (mayor nivel, más permisos)
+ */
+export const ROLE_LEVELS: Record<UserRole, number> = {
+  admin: 3,
+  'sub-admin': 2,
+  soporte: 1,
+}
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrador',
+  'sub-admin': 'Sub-administrador',
+  soporte: 'Soporte',
+}
+
+/**
+ * Verifica si un rol alcanza el rol mínimo requerido
+ *
+ * @param role - Rol del usuario
+ * @param requiredRole - Rol mínimo requerido
+ * @returns true si el rol tiene el nivel requerido
+ */
+export function hasRole(role: UserRole | null | undefined, requiredRole: UserRole): boolean {
+  if (!role) return false
+  return ROLE_LEVELS[role] >= ROLE_LEVELS[requiredRole]
+}
@@ -0,0 +1,74 @@
+/**
+ * Reglas de Facturación a Comercios - PideAI Admin
+ *
+ * Se guardan en `app_config` bajo la clave `store_billing_settings` y se
+ * combinan con los valores por defecto, de modo que una configuración
+ * parcial sigue siendo válida.
+ *
+ * @module lib/billing/settings
+ */
+
+import { z } from 'zod'
+import type { PeriodFrequency } from '@/lib/periods'
+import type { Json } from '@/types'
+
+/**
+ * Clave de `app_config` donde se guardan las reglas de facturación
+ */
+export const STORE_BILLING_SETTINGS_KEY = 'store_billing_settings'
+
+/**
+ * Reglas de facturación a comercios
+ */
+export interface StoreBillingSettings {
+  /** Período que cubre cada estado de cuenta (las semanas empiezan el lunes) */
+  period: PeriodFrequency
+  /** Comisión sobre las ventas para los comercios sin comisión propia (0 a 1) */
+  default_commission_rate: number
+}
+
+/**
+ * Valores por defecto de las reglas de facturación
+ */
+export const DEFAULT_STORE_BILLING_SETTINGS: StoreBillingSettings = {
+  period: 'monthly',
+  default_commission_rate: 0.15,
+}
+
+const numberSchema = z.number({ error: 'Ingresa un número' })
+
+/**
+ * Validación de las reglas al guardarlas desde el panel
+ */
+export const storeBillingSettingsSchema = z.object({
+  period: z.enum(['weekly', 'monthly']),
+  default_commission_rate: numberSchema.min(0, 'Mínimo 0').max(1, 'Máximo 1'),
+}) satisfies z.ZodType<StoreBillingSettings>
+
+/**
+ * Combina el valor guardado en `app_config` con los valores por defecto
+ *
+ * Ignora los campos con tipos inválidos en lugar de fallar.
+ *
+ * @param value - Valor de `app_config.value` para `store_billing_settings`
+ * @returns Reglas completas
+ */
+export function mergeStoreBillingSettings(value: Json | null | undefined): StoreBillingSettings {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return DEFAULT_STORE_BILLING_SETTINGS
+  }
+
+  const raw = value as Record<string, unknown>
+  const rate = raw.default_commission_rate
+
+  return {
+    period:
+      raw.period === 'weekly' || raw.period === 'monthly'
+        ? raw.period
+        : DEFAULT_STORE_BILLING_SETTINGS.period,
+    default_commission_rate:
+      typeof rate === 'number' && Number.isFinite(rate) && rate >= 0 && rate <= 1
+        ? rate
+        : DEFAULT_STORE_BILLING_SETTINGS.default_commission_rate,
+  }
+}
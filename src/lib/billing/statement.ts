@@ -0,0 +1,202 @@
+/**
+ * Estados de Cuenta de Comercios - PideAI Admin
+ *
+ * Calcula lo que la plataforma le debe a cada comercio en un período a partir
+ * de sus pedidos entregados. Este módulo es puro: recibe los registros ya
+ * cargados y no consulta la base de datos.
+ *
+ * Criterios:
+ * - Cuentan los pedidos entregados cuyo `delivered_at` cae en el período.
+ * - La venta de cada pedido es `total_amount - delivery_fee`; el costo de
+ *   envío lo cobra la plataforma y se informa aparte.
+ * - La comisión es la tasa del comercio (o la tasa por defecto) aplicada a
+ *   la venta de cada pedido.
+ * - A pagar al comercio: ventas - comisión.
+ *
+ * @module lib/billing/statement
+ */
+
+import type { StoreBillingSettings } from '@/lib/billing/settings'
+import { roundMoney } from '@/lib/payouts/statement'
+import type { Order, Store, StoreStatement, StoreStatementOrder } from '@/types'
+
+/**
+ * Columnas de `orders` que usan los estados de cuenta de comercios
+ */
+export type BillingOrder = Pick<
+  Order,
+  'id' | 'order_number' | 'store_id' | 'total_amount' | 'delivery_fee' | 'delivered_at'
+>
+
+/**
+ * Columnas de `stores` que usan los estados de cuenta
+ */
+export type BillingStore = Pick<Store, 'id' | 'name' | 'commission_rate'>
+
+/**
+ * Estados de un estado de cuenta guardado
+ */
+export type StoreStatementStatus = StoreStatement['status']
+
+export const STORE_STATEMENT_STATUS_LABELS: Record<StoreStatementStatus, string> = {
+  draft: 'Borrador',
+  issued: 'Emitido',
+  paid: 'Pagado',
+}
+
+/**
+ * Detalle de un pedido en el estado de cuenta
+ */
+export interface BillingLine {
+  order: BillingOrder
+  sales: number
+  commission: number
+  delivery_fee: number
+  net: number
+}
+
+/**
+ * Estado de cuenta de un comercio en un período
+ */
+export interface StoreBillingStatement {
+  store_id: string
+  store_name: string
+  orders_count: number
+  /** Ventas del comercio (total de los pedidos sin el costo de envío) */
+  gross_sales: number
+  /** Tasa de comisión aplicada (0 a 1) */
+  commission_rate: number
+  /** Comisión que retiene la plataforma */
+  commission: number
+  /** Costos de envío cobrados por la plataforma */
+  delivery_fees: number
+  /** A pagar al comercio: ventas - comisión */
+  net_payable: number
+  lines: BillingLine[]
+}
+
+const sum = (values: number[]) => roundMoney(values.reduce((total, value) => total + value, 0))
+
+/**
+ * Obtiene la tasa de comisión de un comercio
+ *
+ * @param store - Comercio
+ * @param settings - Reglas de facturación
+ * @returns Tasa propia del comercio o, si no tiene, la tasa por defecto
+ */
+export function getStoreCommissionRate(
+  store: Pick<Store, 'commission_rate'>,
+  settings: StoreBillingSettings
+): number {
+  return store.commission_rate ?? settings.default_commission_rate
+}
+
+/**
+ * Arma el estado de cuenta de un comercio
+ *
+ * @param store - Comercio
+ * @param orders - Pedidos entregados en el período (de cualquier comercio)
+ * @param commissionRate - Tasa de comisión a aplicar
+ * @returns Estado de cuenta con el detalle de pedidos
+ */
+export function buildStoreStatement(
+  store: BillingStore,
+  orders: BillingOrder[],
+  commissionRate: number
+): StoreBillingStatement {
+  const lines = orders
+    .filter((order) => order.store_id === store.id)
+    .sort((a, b) => (a.delivered_at ?? '').localeCompare(b.delivered_at ?? ''))
+    .map((order) => {
+      const deliveryFee = roundMoney(order.delivery_fee)
+      const sales = roundMoney(order.total_amount - deliveryFee)
+      const commission = roundMoney(sales * commissionRate)
+      return { order, sales, commission, delivery_fee: deliveryFee, net: roundMoney(sales - commission) }
+    })
+
+  const grossSales = sum(lines.map((line) => line.sales))
+  const commission = sum(lines.map((line) => line.commission))
+
+  return {
+    store_id: store.id,
+    store_name: store.name,
+    orders_count: lines.length,
+    gross_sales: grossSales,
+    commission_rate: commissionRate,
+    commission,
+    delivery_fees: sum(lines.map((line) => line.delivery_fee)),
+    net_payable: roundMoney(grossSales - commission),
+    lines,
+  }
+}
+
+/**
+ * Usa los montos guardados en un estado de cuenta emitido o pagado, que no
+ * cambian aunque después se modifiquen las tasas o los pedidos
+ *
+ * @param statement - Estado de cuenta calculado
+ * @param saved - Estado de cuenta guardado del período, si existe
+ * @returns Estado de cuenta con los totales vigentes
+ */
+export function withSavedTotals(
+  statement: StoreBillingStatement,
+  saved: StoreStatement | null
+): StoreBillingStatement {
+  if (!saved || saved.status === 'draft') return statement
+
+  return {
+    ...statement,
+    orders_count: saved.orders_count,
+    gross_sales: saved.gross_sales,
+    commission_rate: saved.commission_rate,
+    commission: saved.commission,
+    delivery_fees: saved.delivery_fees,
+    net_payable: saved.net_payable,
+  }
+}
+
+/**
+ * Arma el estado de cuenta de un documento emitido o pagado
+ *
+ * Usa los totales y el detalle guardados al emitir, no los pedidos ni las
+ * tasas actuales, así coincide con lo facturado.
+ *
+ * @param store - Comercio
+ * @param saved - Estado de cuenta emitido o pagado
+ * @param orders - Pedidos guardados en el estado de cuenta
+ * @returns Estado de cuenta con el detalle de pedidos
+ */
+export function buildIssuedStoreStatement(
+  store: BillingStore,
+  saved: StoreStatement,
+  orders: StoreStatementOrder[]
+): StoreBillingStatement {
+  const lines = [...orders]
+    .sort((a, b) => a.delivered_at.localeCompare(b.delivered_at))
+    .map((order) => ({
+      order: {
+        id: order.order_id,
+        order_number: order.order_number,
+        store_id: saved.store_id,
+        total_amount: roundMoney(order.sales + order.delivery_fee),
+        delivery_fee: order.delivery_fee,
+        delivered_at: order.delivered_at,
+      },
+      sales: order.sales,
+      commission: order.commission,
+      delivery_fee: order.delivery_fee,
+      net: order.net,
+    }))
+
+  return {
+    store_id: store.id,
+    store_name: store.name,
+    orders_count: saved.orders_count,
+    gross_sales: saved.gross_sales,
+    commission_rate: saved.commission_rate,
+    commission: saved.commission,
+    delivery_fees: saved.delivery_fees,
+    net_payable: saved.net_payable,
+    lines,
+  }
+}
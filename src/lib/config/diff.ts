@@ -0,0 +1,90 @@
+/**
+ * Diferencias entre Versiones de Configuración - PideAI Admin
+ *
+ * Compara dos valores de una clave de `app_config` campo por campo, para
+ * mostrar qué cambió en cada versión del historial.
+ *
+ * @module lib/config/diff
+ */
+
+import { getConfigDefinition, type ConfigKey } from '@/lib/config/registry'
+import type { Json } from '@/types'
+
+/**
+ * Campo que cambió entre dos versiones
+ */
+export interface ConfigChange {
+  /** Ruta del campo (ej: "weights.distance") */
+  path: string
+  /** Etiqueta del campo en el registro, o la ruta si no está registrado */
+  label: string
+  before: string
+  after: string
+}
+
+/**
+ * Aplana un valor en un mapa de ruta → valor de cada hoja
+ */
+function flatten(value: Json | null | undefined, prefix = '', into = new Map<string, Json>()) {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child ?? null, prefix ? `${prefix}.${key}` : key, into)
+    }
+  } else if (prefix) {
+    into.set(prefix, value ?? null)
+  }
+  return into
+}
+
+/**
+ * Formatea el valor de un campo para mostrarlo
+ *
+ * @param key - Clave de `app_config`
+ * @param path - Ruta del campo
+ * @param value - Valor del campo (undefined si no existía)
+ * @returns Texto para mostrar
+ */
+export function formatConfigValue(key: ConfigKey, path: string, value: Json | undefined): string {
+  if (value === undefined || value === null) return '—'
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No'
+
+  const field = getConfigDefinition(key).fields.find((candidate) => candidate.path === path)
+  if (field?.type === 'select') {
+    return field.options.find((option) => option.value === value)?.label ?? String(value)
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Compara dos valores de una clave
+ *
+ * @param key - Clave de `app_config`
+ * @param before - Valor anterior (null en la primera versión)
+ * @param after - Valor nuevo
+ * @returns Campos que cambiaron, en el orden de los campos del registro
+ */
+export function diffConfigValues(
+  key: ConfigKey,
+  before: Json | null,
+  after: Json | null
+): ConfigChange[] {
+  const fields = getConfigDefinition(key).fields
+  const beforeFields = flatten(before)
+  const afterFields = flatten(after)
+  const paths = [...new Set([...beforeFields.keys(), ...afterFields.keys()])]
+  const order = (path: string) => {
+    const index = fields.findIndex((field) => field.path === path)
+    return index === -1 ? fields.length : index
+  }
+
+  return paths
+    .filter((path) => JSON.stringify(beforeFields.get(path)) !== JSON.stringify(afterFields.get(path)))
+    .sort((a, b) => order(a) - order(b))
+    .map((path) => ({
+      path,
+      label: fields.find((field) => field.path === path)?.label ?? path,
+      before: formatConfigValue(key, path, beforeFields.get(path)),
+      after: formatConfigValue(key, path, afterFields.get(path)),
+    }))
+}
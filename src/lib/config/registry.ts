@@ -0,0 +1,253 @@
+/**
+ * Registro de Configuración - PideAI Admin
+ *
+ * Claves conocidas de `app_config` con su esquema de validación, valores por
+ * defecto, descripción y rol mínimo para editarlas (además del permiso
+ * `config.write`). La página de
+ * Configuración arma sus formularios a partir de este registro y el resto
+ * del código lee los valores con `getConfig` (`lib/api/config`).
+ *
+ * Cada área conserva su propio módulo de reglas (tipos, valores por defecto
+ * y `merge...`); el registro solo los reúne.
+ *
+ * Uso:
+ * ```ts
+ * const settings = await getConfig('dispatch_settings') // DispatchSettings
+ * if (canEditConfig('payout_settings', profile.role, permissions)) { ... }
+ * ```
+ *
+ * @module lib/config/registry
+ */
+
+import type { z } from 'zod'
+import { can, type Permission } from '@/lib/auth/permissions'
+import { hasRole } from '@/lib/auth/roles'
+import {
+  DEFAULT_STORE_BILLING_SETTINGS,
+  mergeStoreBillingSettings,
+  STORE_BILLING_SETTINGS_KEY,
+  storeBillingSettingsSchema,
+} from '@/lib/billing/settings'
+import {
+  DEFAULT_DISPATCH_SETTINGS,
+  DISPATCH_SETTINGS_KEY,
+  dispatchSettingsSchema,
+  mergeDispatchSettings,
+} from '@/lib/dispatch/settings'
+import {
+  DEFAULT_PAYOUT_SETTINGS,
+  mergePayoutSettings,
+  PAYOUT_SETTINGS_KEY,
+  payoutSettingsSchema,
+} from '@/lib/payouts/settings'
+import { PERIOD_FREQUENCY_LABELS } from '@/lib/periods'
+import {
+  DEFAULT_RIDER_TRACKING_SETTINGS,
+  mergeRiderTrackingSettings,
+  RIDER_TRACKING_KEY,
+  riderTrackingSettingsSchema,
+} from '@/lib/riders/tracking'
+import type { Json, UserRole } from '@/types'
+
+/**
+ * Campo editable de una configuración
+ *
+ * `path` es la ruta del valor dentro del objeto (ej: "weights.distance").
+ */
+export type ConfigField =
+  | {
+      path: string
+      label: string
+      description?: string
+      type: 'number'
+      step?: number
+      min?: number
+      max?: number
+    }
+  | { path: string; label: string; description?: string; type: 'boolean' }
+  | {
+      path: string
+      label: string
+      description?: string
+      type: 'select'
+      options: { value: string; label: string }[]
+    }
+
+/**
+ * Definición de una clave de `app_config`
+ */
+export interface ConfigDefinition<T> {
+  key: string
+  /** Título de la sección en la página de Configuración */
+  label: string
+  /** Se guarda también en `app_config.description` */
+  description: string
+  /** Rol mínimo para editar la configuración */
+  requiredRole: UserRole
+  /** Valida los valores antes de guardarlos */
+  schema: z.ZodType<T>
+  defaults: T
+  /** Lee el valor guardado, completando los campos faltantes o inválidos */
+  parse: (value: Json | null | undefined) => T
+  fields: ConfigField[]
+}
+
+const PERIOD_OPTIONS = Object.entries(PERIOD_FREQUENCY_LABELS).map(([value, label]) => ({
+  value,
+  label,
+}))
+
+/**
+ * Claves de `app_config` conocidas por el panel
+ */
+export const CONFIG_REGISTRY = {
+  [DISPATCH_SETTINGS_KEY]: {
+    key: DISPATCH_SETTINGS_KEY,
+    label: 'Despacho',
+    description: 'Reglas y pesos del motor de despacho automático',
+    requiredRole: 'admin',
+    schema: dispatchSettingsSchema,
+    defaults: DEFAULT_DISPATCH_SETTINGS,
+    parse: mergeDispatchSettings,
+    fields: [
+      {
+        path: 'auto_assign_enabled',
+        label: 'Asignación automática',
+        description: 'Si está desactivada, solo se proponen riders',
+        type: 'boolean',
+      },
+      { path: 'proposals_count', label: 'Riders propuestos', type: 'number', step: 1, min: 1, max: 10 },
+      { path: 'max_distance_km', label: 'Distancia máxima (km)', type: 'number', step: 0.5, min: 0 },
+      {
+        path: 'max_daily_deliveries',
+        label: 'Entregas diarias máximas',
+        description: 'Entregas del día a partir de las cuales la carga puntúa 0',
+        type: 'number',
+        step: 1,
+        min: 1,
+      },
+      {
+        path: 'urgent_distance_multiplier',
+        label: 'Multiplicador de distancia (urgentes)',
+        type: 'number',
+        step: 0.1,
+        min: 1,
+      },
+      { path: 'weights.distance', label: 'Peso: distancia', type: 'number', step: 0.05, min: 0 },
+      { path: 'weights.load', label: 'Peso: carga', type: 'number', step: 0.05, min: 0 },
+      { path: 'weights.rating', label: 'Peso: calificación', type: 'number', step: 0.05, min: 0 },
+      { path: 'weights.vehicle', label: 'Peso: vehículo', type: 'number', step: 0.05, min: 0 },
+      { path: 'vehicle_scores.motorcycle', label: 'Preferencia: moto', type: 'number', step: 0.05, min: 0, max: 1 },
+      { path: 'vehicle_scores.car', label: 'Preferencia: auto', type: 'number', step: 0.05, min: 0, max: 1 },
+      { path: 'vehicle_scores.bike', label: 'Preferencia: bicicleta', type: 'number', step: 0.05, min: 0, max: 1 },
+    ],
+  },
+  [RIDER_TRACKING_KEY]: {
+    key: RIDER_TRACKING_KEY,
+    label: 'Seguimiento de riders',
+    description: 'Umbral para marcar como desactualizada la ubicación de un rider ocupado',
+    requiredRole: 'sub-admin',
+    schema: riderTrackingSettingsSchema,
+    defaults: DEFAULT_RIDER_TRACKING_SETTINGS,
+    parse: mergeRiderTrackingSettings,
+    fields: [
+      {
+        path: 'stale_location_minutes',
+        label: 'Minutos sin reportar ubicación',
+        type: 'number',
+        step: 1,
+        min: 1,
+        max: 120,
+      },
+    ],
+  },
+  [PAYOUT_SETTINGS_KEY]: {
+    key: PAYOUT_SETTINGS_KEY,
+    label: 'Liquidaciones',
+    description: 'Período de liquidación, comisión de la plataforma y bonos por entrega',
+    requiredRole: 'admin',
+    schema: payoutSettingsSchema,
+    defaults: DEFAULT_PAYOUT_SETTINGS,
+    parse: mergePayoutSettings,
+    fields: [
+      { path: 'period', label: 'Período', type: 'select', options: PERIOD_OPTIONS },
+      {
+        path: 'platform_commission_rate',
+        label: 'Comisión sobre el envío',
+        description: 'Fracción de 0 a 1 (ej: 0.2 = 20%)',
+        type: 'number',
+        step: 0.01,
+        min: 0,
+        max: 1,
+      },
+      { path: 'per_delivery_bonus', label: 'Bono por entrega ($)', type: 'number', step: 0.01, min: 0 },
+      { path: 'urgent_bonus', label: 'Bono por urgencia ($)', type: 'number', step: 0.01, min: 0 },
+    ],
+  },
+  [STORE_BILLING_SETTINGS_KEY]: {
+    key: STORE_BILLING_SETTINGS_KEY,
+    label: 'Facturación a comercios',
+    description: 'Período de los estados de cuenta de comercios y comisión por defecto sobre sus ventas',
+    requiredRole: 'admin',
+    schema: storeBillingSettingsSchema,
+    defaults: DEFAULT_STORE_BILLING_SETTINGS,
+    parse: mergeStoreBillingSettings,
+    fields: [
+      { path: 'period', label: 'Período', type: 'select', options: PERIOD_OPTIONS },
+      {
+        path: 'default_commission_rate',
+        label: 'Comisión por defecto',
+        description: 'Fracción de 0 a 1 para los comercios sin comisión propia',
+        type: 'number',
+        step: 0.01,
+        min: 0,
+        max: 1,
+      },
+    ],
+  },
+} as const satisfies Record<string, ConfigDefinition<unknown>>
+
+/**
+ * Clave conocida de `app_config`
+ */
+export type ConfigKey = keyof typeof CONFIG_REGISTRY
+
+/**
+ * Tipo del valor de una clave de `app_config`
+ */
+export type ConfigValue<K extends ConfigKey> = ReturnType<(typeof CONFIG_REGISTRY)[K]['parse']>
+
+/**
+ * Claves conocidas, en el orden en que se muestran
+ */
+export const CONFIG_KEYS = Object.keys(CONFIG_REGISTRY) as ConfigKey[]
+
+/**
+ * Obtiene la definición de una clave
+ */
+export function getConfigDefinition<K extends ConfigKey>(key: K): ConfigDefinition<ConfigValue<K>> {
+  return CONFIG_REGISTRY[key] as unknown as ConfigDefinition<ConfigValue<K>>
+}
+
+/**
+ * Indica si un valor de texto es una clave conocida
+ */
+export function isConfigKey(value: string | null | undefined): value is ConfigKey {
+  return !!value && value in CONFIG_REGISTRY
+}
+
+/**
+ * Verifica si un usuario puede editar una configuración
+ *
+ * @param key - Clave de `app_config`
+ * @param role - Rol del usuario
+ * @param permissions - Permisos efectivos del usuario
+ * @returns true si tiene `config.write` y su rol alcanza el rol mínimo de la clave
+ */
+export function canEditConfig(
+  key: ConfigKey,
+  role: UserRole | null | undefined,
+  permissions: readonly Permission[] | null | undefined
+): boolean {
+  return can(permissions, 'config.write') && hasRole(role, CONFIG_REGISTRY[key].requiredRole)
+}
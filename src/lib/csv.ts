@@ -0,0 +1,119 @@
+/**
+ * Utilidades CSV - PideAI Admin
+ *
+ * Lectura y escritura de CSV (RFC 4180): campos entre comillas, comillas
+ * escapadas (`""`) y saltos de línea dentro de un campo.
+ *
+ * @module lib/csv
+ */
+
+export type CsvValue = string | number | boolean | null | undefined
+
+/**
+ * Lee un texto CSV
+ *
+ * Detecta el separador (`,` o `;`, el que usan las planillas en español)
+ * a partir de la primera línea. Las filas vacías se omiten.
+ *
+ * @param text - Contenido del archivo
+ * @returns Filas con sus campos, incluida la cabecera
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '')
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? ''
+  const delimiter =
+    (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ','
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  row.push(field)
+  rows.push(row)
+
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''))
+}
+
+/**
+ * Escribe filas como CSV
+ *
+ * @param rows - Filas a escribir (la primera suele ser la cabecera)
+ * @returns Texto CSV con saltos de línea `\r\n`
+ */
+export function toCsv(rows: CsvValue[][]): string {
+  return rows
+    .map((fields) =>
+      fields
+        .map((value) => {
+          const text = value === null || value === undefined ? '' : String(value)
+          return /[",\r\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+        })
+        .join(',')
+    )
+    .join('\r\n')
+}
+
+/**
+ * Neutraliza un valor que una planilla interpretaría como fórmula
+ *
+ * Los textos que empiezan con `=`, `+`, `-`, `@`, tabulación o retorno de
+ * carro se prefijan con `'`, así Excel y Sheets los muestran como texto en
+ * lugar de evaluarlos. Es para las exportaciones: el CSV de productos se
+ * vuelve a importar y conserva los valores tal cual.
+ *
+ * @param value - Valor de una celda
+ * @returns El mismo valor, o el texto prefijado
+ */
+export function escapeCsvFormula(value: CsvValue): CsvValue {
+  return typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+}
+
+/**
+ * Descarga un texto CSV como archivo (solo en el navegador)
+ *
+ * Antepone el BOM de UTF-8 para que Excel respete los acentos.
+ *
+ * @param filename - Nombre del archivo, con extensión
+ * @param content - Texto CSV
+ */
+export function downloadCsv(filename: string, content: string): void {
+  const blob = new Blob(['\uFEFF', content], { type: 'text/csv;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,206 @@
+/**
+ * Puntaje de Riders para el Despacho - PideAI Admin
+ *
+ * Calcula un puntaje de 0 a 100 para cada rider disponible a partir de la
+ * distancia al comercio, la carga del día, el rating y el tipo de vehículo.
+ * Cada factor queda desglosado con un texto legible para que cualquier
+ * decisión (automática o propuesta) pueda explicarse en la UI.
+ *
+ * Este módulo es puro: no consulta la base de datos.
+ *
+ * @module lib/dispatch/scoring
+ */
+
+import { distanceKm, parseCoordinates } from '@/lib/geo'
+import type { Coordinates, Json, VehicleType } from '@/types'
+import type { DispatchFactorKey, DispatchSettings } from './settings'
+
+/**
+ * Datos del rider necesarios para calcular su puntaje
+ */
+export interface DispatchRiderInput {
+  id: string
+  full_name: string
+  vehicle_type: VehicleType
+  rating: number | null
+  current_location: Json | null
+  /** Entregas completadas hoy (en la zona horaria del negocio) */
+  deliveriesToday: number
+}
+
+/**
+ * Datos del pedido necesarios para calcular los puntajes
+ */
+export interface DispatchOrderContext {
+  is_urgent: boolean
+  store_location: Json | null
+}
+
+/**
+ * Contribución de un factor al puntaje final
+ */
+export interface DispatchFactor {
+  key: DispatchFactorKey
+  label: string
+  /** Explicación legible del valor (ej: "A 1.2 km del comercio") */
+  detail: string
+  /** Puntaje normalizado del factor (0 a 1) */
+  score: number
+  /** Peso efectivo aplicado */
+  weight: number
+}
+
+/**
+ * Rider evaluado por el motor de despacho
+ */
+export interface DispatchCandidate {
+  rider_id: string
+  rider_name: string
+  /** Puntaje final de 0 a 100 */
+  score: number
+  distance_km: number | null
+  factors: DispatchFactor[]
+  /** Motivo por el que el rider se descartó, o null si es elegible */
+  excluded_reason: string | null
+}
+
+const vehicleLabels: Record<VehicleType, string> = {
+  bike: 'Bicicleta',
+  motorcycle: 'Moto',
+  car: 'Auto',
+}
+
+/**
+ * Rating asumido para riders sin calificaciones
+ */
+const DEFAULT_RATING = 3
+
+/**
+ * Calcula el puntaje de un rider para un pedido
+ *
+ * @param rider - Rider a evaluar
+ * @param order - Contexto del pedido
+ * @param settings - Configuración del despacho
+ * @returns Rider evaluado con el desglose de factores
+ */
+export function scoreRider(
+  rider: DispatchRiderInput,
+  order: DispatchOrderContext,
+  settings: DispatchSettings
+): DispatchCandidate {
+  const storeLocation = parseCoordinates(order.store_location)
+  const riderLocation = parseCoordinates(rider.current_location)
+  const distance =
+    storeLocation && riderLocation ? distanceKm(riderLocation, storeLocation) : null
+
+  const distanceWeight =
+    settings.weights.distance * (order.is_urgent ? settings.urgent_distance_multiplier : 1)
+
+  const factors: DispatchFactor[] = [
+    distanceFactor(distance, storeLocation, settings, distanceWeight, order.is_urgent),
+    {
+      key: 'load',
+      label: 'Carga',
+      detail: `${rider.deliveriesToday} entrega${rider.deliveriesToday !== 1 ? 's' : ''} hoy`,
+      score:
+        1 -
+        Math.min(rider.deliveriesToday, settings.max_daily_deliveries) /
+          settings.max_daily_deliveries,
+      weight: settings.weights.load,
+    },
+    {
+      key: 'rating',
+      label: 'Rating',
+      detail:
+        rider.rating !== null
+          ? `${rider.rating.toFixed(1)} / 5`
+          : `Sin calificaciones (se asume ${DEFAULT_RATING})`,
+      score: Math.min(Math.max((rider.rating ?? DEFAULT_RATING) / 5, 0), 1),
+      weight: settings.weights.rating,
+    },
+    {
+      key: 'vehicle',
+      label: 'Vehículo',
+      detail: vehicleLabels[rider.vehicle_type] ?? rider.vehicle_type,
+      score: Math.min(Math.max(settings.vehicle_scores[rider.vehicle_type] ?? 0, 0), 1),
+      weight: settings.weights.vehicle,
+    },
+  ]
+
+  const totalWeight = factors.reduce((sum, factor) => sum + factor.weight, 0)
+  const weighted = factors.reduce((sum, factor) => sum + factor.score * factor.weight, 0)
+
+  let excludedReason: string | null = null
+  if (distance !== null && distance > settings.max_distance_km) {
+    excludedReason = `A más de ${settings.max_distance_km} km del comercio`
+  }
+
+  return {
+    rider_id: rider.id,
+    rider_name: rider.full_name,
+    score: totalWeight > 0 ? Math.round((weighted / totalWeight) * 1000) / 10 : 0,
+    distance_km: distance !== null ? Math.round(distance * 100) / 100 : null,
+    factors,
+    excluded_reason: excludedReason,
+  }
+}
+
+/**
+ * Evalúa y ordena a todos los riders para un pedido
+ *
+ * Los riders elegibles van primero, ordenados por puntaje descendente; a
+ * igual puntaje gana el más cercano. Los descartados van al final.
+ *
+ * @param riders - Riders disponibles
+ * @param order - Contexto del pedido
+ * @param settings - Configuración del despacho
+ * @returns Riders evaluados y ordenados
+ */
+export function rankRiders(
+  riders: DispatchRiderInput[],
+  order: DispatchOrderContext,
+  settings: DispatchSettings
+): DispatchCandidate[] {
+  return riders
+    .map((rider) => scoreRider(rider, order, settings))
+    .sort((a, b) => {
+      if (!!a.excluded_reason !== !!b.excluded_reason) {
+        return a.excluded_reason ? 1 : -1
+      }
+      if (b.score !== a.score) return b.score - a.score
+      return (a.distance_km ?? Infinity) - (b.distance_km ?? Infinity)
+    })
+}
+
+/**
+ * Factor de distancia: 1 junto al comercio, 0 en la distancia máxima
+ */
+function distanceFactor(
+  distance: number | null,
+  storeLocation: Coordinates | null,
+  settings: DispatchSettings,
+  weight: number,
+  isUrgent: boolean
+): DispatchFactor {
+  const urgentNote = isUrgent
+    ? ` · Pedido urgente: la distancia pesa x${settings.urgent_distance_multiplier}`
+    : ''
+
+  if (distance === null) {
+    return {
+      key: 'distance',
+      label: 'Distancia',
+      detail: (storeLocation ? 'Rider sin ubicación' : 'Comercio sin ubicación') + urgentNote,
+      score: 0,
+      weight,
+    }
+  }
+
+  return {
+    key: 'distance',
+    label: 'Distancia',
+    detail: `A ${distance.toFixed(1)} km del comercio${urgentNote}`,
+    score: Math.max(0, 1 - distance / settings.max_distance_km),
+    weight,
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Configuración del Despacho Automático - PideAI Admin
+ *
+ * Reglas y pesos del motor de despacho. Se guardan en `app_config` bajo la
+ * clave `dispatch_settings` y se combinan con los valores por defecto, de
+ * modo que una configuración parcial sigue siendo válida.
+ *
+ * @module lib/dispatch/settings
+ */
+
+import { z } from 'zod'
+import type { Json, VehicleType } from '@/types'
+
+/**
+ * Clave de `app_config` donde se guarda la configuración del despacho
+ */
+export const DISPATCH_SETTINGS_KEY = 'dispatch_settings'
+
+/**
+ * Factores que intervienen en el puntaje de un rider
+ */
+export type DispatchFactorKey = 'distance' | 'load' | 'rating' | 'vehicle'
+
+/**
+ * Configuración del motor de despacho
+ */
+export interface DispatchSettings {
+  /** Habilita la asignación automática (si es false, solo se proponen riders) */
+  auto_assign_enabled: boolean
+  /** Cantidad de riders propuestos en el modal de asignación */
+  proposals_count: number
+  /** Distancia máxima al comercio; los riders más lejanos se descartan */
+  max_distance_km: number
+  /**
+   * Entregas del día a partir de las cuales la carga puntúa 0. Los riders
+   * disponibles no tienen pedidos activos, así que la carga se mide por lo
+   * que ya entregaron hoy para repartir el trabajo.
+   */
+  max_daily_deliveries: number
+  /** Multiplicador del peso de la distancia en pedidos urgentes */
+  urgent_distance_multiplier: number
+  /** Peso relativo de cada factor */
+  weights: Record<DispatchFactorKey, number>
+  /** Preferencia por tipo de vehículo (0 a 1) */
+  vehicle_scores: Record<VehicleType, number>
+}
+
+/**
+ * Valores por defecto del motor de despacho
+ */
+export const DEFAULT_DISPATCH_SETTINGS: DispatchSettings = {
+  auto_assign_enabled: false,
+  proposals_count: 3,
+  max_distance_km: 10,
+  max_daily_deliveries: 15,
+  urgent_distance_multiplier: 1.5,
+  weights: {
+    distance: 0.5,
+    load: 0.2,
+    rating: 0.2,
+    vehicle: 0.1,
+  },
+  vehicle_scores: {
+    motorcycle: 1,
+    car: 0.7,
+    bike: 0.6,
+  },
+}
+
+const numberSchema = z.number({ error: 'Ingresa un número' })
+
+const weightSchema = numberSchema.min(0, 'No puede ser negativo')
+const scoreSchema = numberSchema.min(0, 'Mínimo 0').max(1, 'Máximo 1')
+
+/**
+ * Validación de la configuración al guardarla desde el panel
+ */
+export const dispatchSettingsSchema = z.object({
+  auto_assign_enabled: z.boolean(),
+  proposals_count: numberSchema
+    .int('Debe ser un número entero')
+    .min(1, 'Mínimo 1')
+    .max(10, 'Máximo 10'),
+  max_distance_km: numberSchema.positive('Debe ser mayor a 0'),
+  max_daily_deliveries: numberSchema.int('Debe ser un número entero').min(1, 'Mínimo 1'),
+  urgent_distance_multiplier: numberSchema.min(1, 'Mínimo 1'),
+  weights: z.object({
+    distance: weightSchema,
+    load: weightSchema,
+    rating: weightSchema,
+    vehicle: weightSchema,
+  }),
+  vehicle_scores: z.object({
+    motorcycle: scoreSchema,
+    car: scoreSchema,
+    bike: scoreSchema,
+  }),
+}) satisfies z.ZodType<DispatchSettings>
+
+/**
+ * Combina el valor guardado en `app_config` con los valores por defecto
+ *
+ * Ignora los campos con tipos inválidos en lugar de fallar, para que una
+ * configuración mal cargada no detenga el despacho.
+ *
+ * @param value - Valor de `app_config.value` para `dispatch_settings`
+ * @returns Configuración completa
+ */
+export function mergeDispatchSettings(value: Json | null | undefined): DispatchSettings {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return DEFAULT_DISPATCH_SETTINGS
+  }
+
+  const raw = value as Record<string, unknown>
+  const number = (input: unknown, fallback: number) =>
+    typeof input === 'number' && Number.isFinite(input) && input >= 0 ? input : fallback
+  const record = <K extends string>(input: unknown, fallback: Record<K, number>) => {
+    const source = input && typeof input === 'object' ? (input as Record<string, unknown>) : {}
+    return Object.fromEntries(
+      Object.entries(fallback).map(([key, fallbackValue]) => [
+        key,
+        number(source[key], fallbackValue as number),
+      ])
+    ) as Record<K, number>
+  }
+
+  return {
+    auto_assign_enabled:
+      typeof raw.auto_assign_enabled === 'boolean'
+        ? raw.auto_assign_enabled
+        : DEFAULT_DISPATCH_SETTINGS.auto_assign_enabled,
+    proposals_count: Math.max(
+      1,
+      Math.round(number(raw.proposals_count, DEFAULT_DISPATCH_SETTINGS.proposals_count))
+    ),
+    max_distance_km: number(raw.max_distance_km, DEFAULT_DISPATCH_SETTINGS.max_distance_km),
+    max_daily_deliveries: Math.max(
+      1,
+      number(raw.max_daily_deliveries, DEFAULT_DISPATCH_SETTINGS.max_daily_deliveries)
+    ),
+    urgent_distance_multiplier: number(
+      raw.urgent_distance_multiplier,
+      DEFAULT_DISPATCH_SETTINGS.urgent_distance_multiplier
+    ),
+    weights: record(raw.weights, DEFAULT_DISPATCH_SETTINGS.weights),
+    vehicle_scores: record(raw.vehicle_scores, DEFAULT_DISPATCH_SETTINGS.vehicle_scores),
+  }
+}
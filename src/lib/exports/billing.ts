@@ -0,0 +1,81 @@
+/**
+ * Exportación de Estados de Cuenta de Comercios - PideAI Admin
+ *
+ * Convierte el estado de cuenta de un comercio en una tabla exportable: una
+ * fila por pedido entregado y los totales del período.
+ *
+ * @module lib/exports/billing
+ */
+
+import { STORE_STATEMENT_STATUS_LABELS, type StoreBillingStatement } from '@/lib/billing/statement'
+import { formatSettlementPeriod, type SettlementPeriod } from '@/lib/periods'
+import { fromArray, type ExportTable } from '@/lib/exports/table'
+import { formatZonedDateTime, zonedDay } from '@/lib/timezone'
+import type { CsvValue } from '@/lib/csv'
+import type { StoreStatement } from '@/types'
+
+/**
+ * Describe el estado del documento para el subtítulo
+ */
+function describeStatus(saved: StoreStatement | null): string {
+  if (!saved) return 'Sin emitir'
+
+  const label = STORE_STATEMENT_STATUS_LABELS[saved.status]
+  if (saved.status === 'paid' && saved.paid_at) {
+    return `${label} el ${zonedDay(new Date(saved.paid_at))}`
+  }
+  if (saved.status === 'issued' && saved.issued_at) {
+    return `${label} el ${zonedDay(new Date(saved.issued_at))}`
+  }
+  return label
+}
+
+/**
+ * Arma la tabla exportable del estado de cuenta de un comercio
+ *
+ * @param statement - Estado de cuenta del período
+ * @param period - Período facturado
+ * @param saved - Estado de cuenta guardado del período, si existe
+ * @returns Tabla lista para escribir
+ */
+export function buildStoreStatementExport(
+  statement: StoreBillingStatement,
+  period: SettlementPeriod,
+  saved: StoreStatement | null
+): ExportTable {
+  const rate = `${(statement.commission_rate * 100).toFixed(2).replace(/\.?0+$/, '')}%`
+  const rows: CsvValue[][] = [
+    ...statement.lines.map((line) => [
+      line.order.delivered_at ? formatZonedDateTime(new Date(line.order.delivered_at)) : null,
+      `Pedido ${line.order.order_number}`,
+      line.sales,
+      -line.commission,
+      line.net,
+      line.delivery_fee,
+    ]),
+    [
+      null,
+      `Total (${statement.orders_count} pedidos, comisión ${rate})`,
+      statement.gross_sales,
+      -statement.commission,
+      statement.net_payable,
+      statement.delivery_fees,
+    ],
+  ]
+
+  const number = saved ? `${saved.statement_number} · ` : ''
+
+  return {
+    title: `Estado de cuenta - ${statement.store_name}`,
+    subtitle: `${number}${formatSettlementPeriod(period)} · ${describeStatus(saved)}`,
+    columns: [
+      { header: 'Fecha', width: 16 },
+      { header: 'Concepto', width: 36 },
+      { header: 'Ventas', width: 12 },
+      { header: 'Comisión', width: 12 },
+      { header: 'A pagar', width: 12 },
+      { header: 'Envío', width: 10 },
+    ],
+    rows: fromArray(rows),
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Exportación CSV - PideAI Admin
+ *
+ * Los datos de las exportaciones vienen de los usuarios (nombres, notas,
+ * direcciones), así que cada celda pasa por `escapeCsvFormula` antes de
+ * escribirse.
+ *
+ * @module lib/exports/csv
+ */
+
+import { escapeCsvFormula, toCsv, type CsvValue } from '@/lib/csv'
+import type { ExportTable } from '@/lib/exports/table'
+
+/** Filas por bloque escrito */
+const BATCH_SIZE = 500
+
+const encoder = new TextEncoder()
+
+const toSafeCsv = (rows: CsvValue[][]) => toCsv(rows.map((row) => row.map(escapeCsvFormula)))
+
+/**
+ * Escribe una tabla como CSV en bloques
+ *
+ * Empieza con el BOM de UTF-8 para que Excel respete los acentos.
+ *
+ * @param table - Tabla a exportar
+ */
+export async function* writeCsv(table: ExportTable): AsyncGenerator<Uint8Array> {
+  yield encoder.encode('\uFEFF' + toSafeCsv([table.columns.map((column) => column.header)]))
+
+  let batch: CsvValue[][] = []
+  for await (const row of table.rows) {
+    batch.push(row)
+    if (batch.length === BATCH_SIZE) {
+      yield encoder.encode('\r\n' + toSafeCsv(batch))
+      batch = []
+    }
+  }
+
+  if (batch.length > 0) {
+    yield encoder.encode('\r\n' + toSafeCsv(batch))
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Exportación de Pedidos - PideAI Admin
+ *
+ * Arma la tabla exportable del listado de pedidos con los mismos
+ * `OrderFilters` y el mismo orden que la tabla de la página. Las fechas se
+ * escriben en la zona horaria de quien exporta. Los pedidos se leen en bloques
+ * con `iterateOrders` (paginación por cursor) y se entregan a medida que
+ * llegan, así una exportación de miles de filas no se carga entera en
+ * memoria.
+ *
+ * @module lib/exports/orders
+ */
+
+import type { createClient } from '@/lib/supabase/server'
+import { getCancellationReasonLabel } from '@/lib/orders/cancellation'
+import { ORDER_STATUS_LABELS } from '@/lib/orders/labels'
+import { iterateOrders, type OrderSort } from '@/lib/orders/query'
+import { formatZonedDateTime } from '@/lib/timezone'
+import type { CsvValue } from '@/lib/csv'
+import type { ExportColumn, ExportTable } from '@/lib/exports/table'
+import type { Order, OrderFilters } from '@/types'
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+type ExportOrder = Pick<
+  Order,
+  | 'id'
+  | 'order_number'
+  | 'status'
+  | 'customer_name'
+  | 'customer_phone'
+  | 'customer_address'
+  | 'store_name'
+  | 'total_amount'
+  | 'delivery_fee'
+  | 'is_urgent'
+  | 'created_at'
+  | 'assigned_at'
+  | 'delivered_at'
+  | 'cancelled_at'
+  | 'cancellation_reason'
+  | 'cancellation_refund'
+>
+
+const ORDER_EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Pedido', width: 12 },
+  { header: 'Fecha', width: 16 },
+  { header: 'Estado', width: 11 },
+  { header: 'Cliente', width: 18 },
+  { header: 'Teléfono', width: 13 },
+  { header: 'Dirección', width: 26 },
+  { header: 'Comercio', width: 16 },
+  { header: 'Rider', width: 16 },
+  { header: 'Total', width: 9 },
+  { header: 'Envío', width: 8 },
+  { header: 'Urgente', width: 8 },
+  { header: 'Asignado', width: 16 },
+  { header: 'Entregado', width: 16 },
+  { header: 'Cancelado', width: 16 },
+  { header: 'Motivo de cancelación', width: 20 },
+  { header: 'Reembolso', width: 9 },
+]
+
+function toRow(order: ExportOrder, riderName: string | null, timeZone: string): CsvValue[] {
+  const formatDateTime = (value: string | null) =>
+    value ? formatZonedDateTime(new Date(value), timeZone) : null
+
+  return [
+    order.order_number,
+    formatDateTime(order.created_at),
+    ORDER_STATUS_LABELS[order.status],
+    order.customer_name,
+    order.customer_phone,
+    order.customer_address,
+    order.store_name,
+    riderName,
+    order.total_amount,
+    order.delivery_fee,
+    order.is_urgent,
+    formatDateTime(order.assigned_at),
+    formatDateTime(order.delivered_at),
+    formatDateTime(order.cancelled_at),
+    order.status === 'cancelled' ? getCancellationReasonLabel(order.cancellation_reason) : null,
+    order.cancellation_refund,
+  ]
+}
+
+/**
+ * Lee los pedidos filtrados en bloques y los convierte en filas
+ */
+async function* orderRows(
+  supabase: ServerClient,
+  filters: OrderFilters,
+  sort: OrderSort,
+  timeZone: string
+): AsyncIterable<CsvValue[]> {
+  for await (const order of iterateOrders(supabase, filters, undefined, sort)) {
+    yield toRow(order, order.riders?.full_name ?? null, timeZone)
+  }
+}
+
+/**
+ * Describe los filtros activos para el subtítulo del PDF
+ */
+function describeFilters(filters: OrderFilters): string {
+  const parts: string[] = []
+
+  if (filters.status) {
+    const statuses = Array.isArray(filters.status) ? filters.status : [filters.status]
+    parts.push(`Estado: ${statuses.map((status) => ORDER_STATUS_LABELS[status]).join(', ')}`)
+  }
+  if (filters.store_id) parts.push('Comercio filtrado')
+  if (filters.delivery_id) parts.push('Rider filtrado')
+  if (filters.is_urgent !== undefined) parts.push(filters.is_urgent ? 'Solo urgentes' : 'Sin urgentes')
+  if (filters.date_from) parts.push(`Desde ${filters.date_from.slice(0, 10)}`)
+  if (filters.date_to) parts.push(`Hasta ${filters.date_to.slice(0, 10)}`)
+  if (filters.search) parts.push(`Búsqueda: "${filters.search}"`)
+
+  return parts.length > 0 ? parts.join(' · ') : 'Todos los pedidos'
+}
+
+/**
+ * Arma la tabla exportable de pedidos
+ *
+ * @param supabase - Cliente de Supabase del servidor (con la sesión del usuario)
+ * @param filters - Filtros activos en el listado
+ * @param sort - Orden del listado
+ * @param timeZone - Zona horaria de las fechas
+ * @returns Tabla con las filas leídas en streaming
+ */
+export function buildOrdersExport(
+  supabase: ServerClient,
+  filters: OrderFilters,
+  sort: OrderSort,
+  timeZone: string
+): ExportTable {
+  return {
+    title: 'Pedidos',
+    subtitle: `${describeFilters(filters)} · Generado el ${formatZonedDateTime(new Date(), timeZone)}`,
+    columns: ORDER_EXPORT_COLUMNS,
+    rows: orderRows(supabase, filters, sort, timeZone),
+  }
+}
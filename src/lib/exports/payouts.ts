@@ -0,0 +1,79 @@
+/**
+ * Exportación de Estados de Cuenta - PideAI Admin
+ *
+ * Convierte el estado de cuenta de un rider en una tabla exportable: una
+ * fila por entrega, una por ajuste manual y el total a pagar.
+ *
+ * @module lib/exports/payouts
+ */
+
+import { ADJUSTMENT_KIND_LABELS } from '@/lib/payouts/schema'
+import type { RiderStatement } from '@/lib/payouts/statement'
+import { formatSettlementPeriod, type SettlementPeriod } from '@/lib/periods'
+import { fromArray, type ExportTable } from '@/lib/exports/table'
+import { formatZonedDateTime, zonedDay } from '@/lib/timezone'
+import type { CsvValue } from '@/lib/csv'
+import type { RiderSettlement } from '@/types'
+
+/**
+ * Arma la tabla exportable del estado de cuenta de un rider
+ *
+ * @param statement - Estado de cuenta del período
+ * @param period - Período liquidado
+ * @param settlement - Liquidación cerrada del período, si existe
+ * @returns Tabla lista para escribir
+ */
+export function buildRiderStatementExport(
+  statement: RiderStatement,
+  period: SettlementPeriod,
+  settlement: RiderSettlement | null
+): ExportTable {
+  const rows: CsvValue[][] = [
+    ...statement.lines.map((line) => [
+      line.order.delivered_at ? formatZonedDateTime(new Date(line.order.delivered_at)) : null,
+      `Pedido ${line.order.order_number}${line.order.is_urgent ? ' (urgente)' : ''}`,
+      line.order.store_name,
+      line.fee,
+      -line.commission,
+      line.bonus,
+      line.earning,
+    ]),
+    ...statement.adjustment_items.map((item) => [
+      item.effective_date,
+      `${ADJUSTMENT_KIND_LABELS[item.kind]}: ${item.reason}`,
+      null,
+      null,
+      null,
+      null,
+      item.kind === 'bonus' ? item.amount : -item.amount,
+    ]),
+    [
+      null,
+      `Total (${statement.deliveries} entregas)`,
+      null,
+      statement.gross_fees,
+      -statement.commission,
+      statement.bonuses,
+      statement.total,
+    ],
+  ]
+
+  const status = settlement
+    ? `Liquidado el ${zonedDay(new Date(settlement.settled_at))}`
+    : 'Pendiente de liquidación'
+
+  return {
+    title: `Estado de cuenta - ${statement.rider_name}`,
+    subtitle: `${formatSettlementPeriod(period)} · ${status}`,
+    columns: [
+      { header: 'Fecha', width: 16 },
+      { header: 'Concepto', width: 34 },
+      { header: 'Comercio', width: 20 },
+      { header: 'Envío', width: 10 },
+      { header: 'Comisión', width: 10 },
+      { header: 'Bonos', width: 10 },
+      { header: 'Importe', width: 12 },
+    ],
+    rows: fromArray(rows),
+  }
+}
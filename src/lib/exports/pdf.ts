@@ -0,0 +1,189 @@
+/**
+ * Exportación PDF - PideAI Admin
+ *
+ * Escribe una tabla como PDF imprimible (A4 apaisado, Helvetica) sin
+ * dependencias externas. Cada página se escribe apenas se completa, así
+ * los listados grandes no se arman enteros en memoria.
+ *
+ * Los textos se codifican en WinAnsi (Latin-1): los acentos y la ñ se
+ * ven bien; los caracteres fuera de ese juego se reemplazan por `?`.
+ *
+ * @module lib/exports/pdf
+ */
+
+import type { CsvValue } from '@/lib/csv'
+import type { ExportTable } from '@/lib/exports/table'
+
+const PAGE_WIDTH = 842
+const PAGE_HEIGHT = 595
+const MARGIN = 36
+const FONT_SIZE = 8
+const ROW_HEIGHT = 13
+const TITLE_SIZE = 14
+/** Ancho promedio de un carácter de Helvetica, en fracción del tamaño */
+const CHAR_WIDTH = 0.5
+const CELL_PADDING = 4
+
+/** Objetos fijos: 1 catálogo, 2 árbol de páginas, 3 y 4 fuentes */
+const CATALOG_ID = 1
+const PAGES_ID = 2
+const FONT_ID = 3
+const BOLD_FONT_ID = 4
+const FIRST_PAGE_OBJECT_ID = 5
+
+/**
+ * Convierte un texto a Latin-1 y escapa los caracteres especiales de PDF
+ */
+function pdfText(text: string): string {
+  return text
+    .replace(/…/g, '\x85') // elipsis en WinAnsi
+    .replace(/[^\x20-\x7e\x85\xa0-\xff]/g, '?')
+    .replace(/[\\()]/g, '\\$&')
+}
+
+const toLatin1 = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0) & 0xff)
+
+function formatValue(value: CsvValue): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No'
+  return String(value)
+}
+
+/**
+ * Recorta un texto al ancho de la columna
+ */
+function fit(text: string, width: number): string {
+  const maxChars = Math.max(Math.floor((width - CELL_PADDING * 2) / (FONT_SIZE * CHAR_WIDTH)), 1)
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text
+}
+
+/**
+ * Escribe una tabla como PDF
+ *
+ * @param table - Tabla a exportar
+ */
+export async function* writePdf(table: ExportTable): AsyncGenerator<Uint8Array> {
+  const offsets: number[] = []
+  let position = 0
+
+  const emit = (text: string) => {
+    const bytes = toLatin1(text)
+    position += bytes.length
+    return bytes
+  }
+  const object = (id: number, body: string) => {
+    offsets[id] = position
+    return emit(`${id} 0 obj\n${body}\nendobj\n`)
+  }
+
+  // Anchos de columna proporcionales a `width`
+  const available = PAGE_WIDTH - MARGIN * 2
+  const weights = table.columns.map((column) => column.width ?? 12)
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+  const widths = weights.map((weight) => (weight / totalWeight) * available)
+  const xs = widths.map((_, index) =>
+    widths.slice(0, index).reduce((sum, width) => sum + width, MARGIN)
+  )
+
+  const firstRowY = PAGE_HEIGHT - MARGIN - TITLE_SIZE - (table.subtitle ? 16 : 0) - 24
+  const rowsPerPage = Math.floor((firstRowY - MARGIN - 16) / ROW_HEIGHT)
+
+  const textAt = (x: number, y: number, font: string, size: number, text: string) =>
+    `BT /${font} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${pdfText(text)}) Tj ET\n`
+
+  const renderRow = (values: string[], y: number, font: string) =>
+    values
+      .map((value, index) =>
+        textAt(xs[index] + CELL_PADDING, y, font, FONT_SIZE, fit(value, widths[index]))
+      )
+      .join('')
+
+  const pageIds: number[] = []
+  let nextId = FIRST_PAGE_OBJECT_ID
+
+  /**
+   * Escribe una página con sus filas (objeto de contenido + objeto página)
+   */
+  const renderPage = (rows: string[][]) => {
+    const pageNumber = pageIds.length + 1
+    let content = ''
+
+    let y = PAGE_HEIGHT - MARGIN - TITLE_SIZE
+    content += textAt(MARGIN, y, 'F2', TITLE_SIZE, table.title)
+    if (table.subtitle) {
+      y -= 16
+      content += textAt(MARGIN, y, 'F1', 9, table.subtitle)
+    }
+
+    // Cabecera con fondo gris
+    y = firstRowY
+    content += `0.9 g ${MARGIN} ${y - 4} ${available} ${ROW_HEIGHT} re f 0 g\n`
+    content += renderRow(
+      table.columns.map((column) => column.header),
+      y,
+      'F2'
+    )
+
+    rows.forEach((values, index) => {
+      y -= ROW_HEIGHT
+      if (index % 2 === 1) {
+        content += `0.97 g ${MARGIN} ${y - 4} ${available} ${ROW_HEIGHT} re f 0 g\n`
+      }
+      content += renderRow(values, y, 'F1')
+    })
+
+    content += textAt(PAGE_WIDTH - MARGIN - 50, MARGIN / 2, 'F1', 8, `Página ${pageNumber}`)
+
+    const contentId = nextId++
+    const pageId = nextId++
+    pageIds.push(pageId)
+
+    const contentBytes = toLatin1(content)
+    return [
+      object(contentId, `<< /Length ${contentBytes.length} >>\nstream\n${content}endstream`),
+      object(
+        pageId,
+        `<< /Type /Page /Parent ${PAGES_ID} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 ${FONT_ID} 0 R /F2 ${BOLD_FONT_ID} 0 R >> >> /Contents ${contentId} 0 R >>`
+      ),
+    ]
+  }
+
+  yield emit('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')
+  yield object(CATALOG_ID, `<< /Type /Catalog /Pages ${PAGES_ID} 0 R >>`)
+  yield object(
+    FONT_ID,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+  )
+  yield object(
+    BOLD_FONT_ID,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  )
+
+  let pageRows: string[][] = []
+  for await (const values of table.rows) {
+    pageRows.push(values.map(formatValue))
+    if (pageRows.length === rowsPerPage) {
+      yield* renderPage(pageRows)
+      pageRows = []
+    }
+  }
+  if (pageRows.length > 0 || pageIds.length === 0) {
+    yield* renderPage(pageRows)
+  }
+
+  yield object(
+    PAGES_ID,
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+  )
+
+  const xrefOffset = position
+  const size = nextId
+  let xref = `xref\n0 ${size}\n0000000000 65535 f \n`
+  for (let id = 1; id < size; id++) {
+    xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+  }
+  yield emit(
+    `${xref}trailer\n<< /Size ${size} /Root ${CATALOG_ID} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+  )
+}
@@ -0,0 +1,187 @@
+/**
+ * Exportación de Reportes - PideAI Admin
+ *
+ * Convierte cada sección de la página de reportes en una tabla exportable.
+ * Los valores se calculan con `lib/reports/analytics`, igual que en
+ * pantalla. Las horas y los días se agrupan en la zona horaria del
+ * navegador que pidió el archivo, para que coincidan con la pantalla.
+ *
+ * @module lib/exports/reports
+ */
+
+import type { ReportData } from '@/lib/api/reports'
+import {
+  buildOrdersByHour,
+  buildReportSummary,
+  buildRevenueTrend,
+  buildRiderLeaderboard,
+  buildStoreLeaderboard,
+  type ReportRange,
+} from '@/lib/reports/analytics'
+import { buildCancellationBreakdown, type CancellationCount } from '@/lib/orders/cancellation'
+import { fromArray, type ExportTable } from '@/lib/exports/table'
+import { zonedDay } from '@/lib/timezone'
+
+export const REPORT_EXPORTS = [
+  'summary',
+  'hourly',
+  'trend',
+  'riders',
+  'stores',
+  'cancellations',
+] as const
+
+export type ReportExport = (typeof REPORT_EXPORTS)[number]
+
+export const REPORT_EXPORT_LABELS: Record<ReportExport, string> = {
+  summary: 'Resumen',
+  hourly: 'Pedidos por hora',
+  trend: 'Tendencia diaria',
+  riders: 'Ranking de riders',
+  stores: 'Ranking de comercios',
+  cancellations: 'Cancelaciones',
+}
+
+/**
+ * Indica si un valor (ej: parámetro de URL) es un reporte exportable
+ */
+export function isReportExport(value: string | null): value is ReportExport {
+  return REPORT_EXPORTS.includes(value as ReportExport)
+}
+
+const round = (value: number, decimals = 2) => Number(value.toFixed(decimals))
+
+type ReportTableContent = Pick<ExportTable, 'columns' | 'rows'>
+
+const BUILDERS: Record<
+  ReportExport,
+  (data: ReportData, range: ReportRange, timeZone: string) => ReportTableContent
+> = {
+  summary: ({ orders }) => {
+    const summary = buildReportSummary(orders)
+    return {
+      columns: [{ header: 'Indicador', width: 30 }, { header: 'Valor', width: 16 }],
+      rows: fromArray([
+        ['Pedidos', summary.total_orders],
+        ['Entregados', summary.delivered_orders],
+        ['Cancelados', summary.cancelled_orders],
+        ['Ingresos', round(summary.revenue)],
+        ['Ticket promedio', round(summary.average_order_value)],
+        [
+          'Tiempo promedio de entrega (min)',
+          summary.average_delivery_time === null ? null : round(summary.average_delivery_time, 1),
+        ],
+      ]),
+    }
+  },
+  hourly: ({ orders }, _range, timeZone) => ({
+    columns: [
+      { header: 'Hora', width: 10 },
+      { header: 'Pedidos', width: 10 },
+      { header: 'Ingresos', width: 12 },
+    ],
+    rows: fromArray(
+      buildOrdersByHour(orders, timeZone).map((point) => [point.hour, point.count, round(point.revenue)])
+    ),
+  }),
+  trend: ({ orders }, range, timeZone) => ({
+    columns: [
+      { header: 'Fecha', width: 12 },
+      { header: 'Pedidos', width: 10 },
+      { header: 'Ingresos', width: 12 },
+    ],
+    rows: fromArray(
+      buildRevenueTrend(orders, range, timeZone).map((point) => [
+        point.date,
+        point.orders,
+        round(point.revenue),
+      ])
+    ),
+  }),
+  riders: ({ orders, riders }) => ({
+    columns: [
+      { header: 'Rider', width: 24 },
+      { header: 'Pedidos', width: 10 },
+      { header: 'Entregados', width: 10 },
+      { header: 'Tiempo promedio (min)', width: 14 },
+      { header: 'Ganancias', width: 12 },
+      { header: 'Calificación', width: 10 },
+    ],
+    rows: fromArray(
+      buildRiderLeaderboard(orders, riders).map((rider) => [
+        rider.rider_name,
+        rider.total_deliveries,
+        rider.completed_deliveries,
+        round(rider.average_delivery_time, 1),
+        round(rider.total_earnings),
+        round(rider.rating, 1),
+      ])
+    ),
+  }),
+  stores: ({ orders, stores }) => ({
+    columns: [
+      { header: 'Comercio', width: 24 },
+      { header: 'Pedidos', width: 10 },
+      { header: 'Ingresos', width: 12 },
+      { header: 'Ticket promedio', width: 12 },
+      { header: 'Calificación', width: 10 },
+    ],
+    rows: fromArray(
+      buildStoreLeaderboard(orders, stores).map((store) => [
+        store.store_name,
+        store.total_orders,
+        round(store.total_revenue),
+        round(store.average_order_value),
+        round(store.rating, 1),
+      ])
+    ),
+  }),
+  cancellations: ({ orders }, _range, timeZone) => {
+    const breakdown = buildCancellationBreakdown(orders, timeZone)
+    const rows = (group: string, counts: CancellationCount[]) =>
+      counts.map((count) => [
+        group,
+        count.label,
+        count.cancelled,
+        round(count.rate, 1),
+        count.refunded,
+      ])
+
+    return {
+      columns: [
+        { header: 'Agrupación', width: 12 },
+        { header: 'Valor', width: 24 },
+        { header: 'Cancelados', width: 10 },
+        { header: '%', width: 8 },
+        { header: 'Con reembolso', width: 12 },
+      ],
+      rows: fromArray([
+        ...rows('Motivo', breakdown.byReason),
+        ...rows('Comercio', breakdown.byStore),
+        ...rows('Hora', breakdown.byHour.filter((count) => count.cancelled > 0)),
+      ]),
+    }
+  },
+}
+
+/**
+ * Arma la tabla exportable de una sección de reportes
+ *
+ * @param report - Sección a exportar
+ * @param data - Datos del reporte (de `getReportData`)
+ * @param range - Rango del reporte
+ * @param timeZone - Zona horaria en la que se agrupan horas y días
+ * @returns Tabla lista para escribir
+ */
+export function buildReportExport(
+  report: ReportExport,
+  data: ReportData,
+  range: ReportRange,
+  timeZone: string
+): ExportTable {
+  return {
+    title: REPORT_EXPORT_LABELS[report],
+    subtitle: `Del ${zonedDay(range.from, timeZone)} al ${zonedDay(range.to, timeZone)}`,
+    ...BUILDERS[report](data, range, timeZone),
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Respuestas de Exportación - PideAI Admin
+ *
+ * Convierte una tabla en la respuesta HTTP de un Route Handler, escribiendo
+ * el archivo a medida que se leen las filas.
+ *
+ * @module lib/exports/response
+ */
+
+import { writeCsv } from '@/lib/exports/csv'
+import { writePdf } from '@/lib/exports/pdf'
+import { writeXlsx } from '@/lib/exports/xlsx'
+import type { ExportFormat, ExportTable } from '@/lib/exports/table'
+import type { ApiError } from '@/types'
+
+const WRITERS: Record<ExportFormat, (table: ExportTable) => AsyncGenerator<Uint8Array>> = {
+  csv: writeCsv,
+  xlsx: writeXlsx,
+  pdf: writePdf,
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+}
+
+/**
+ * Arma la respuesta con el archivo exportado
+ *
+ * El PDF se abre en el navegador (para imprimirlo); CSV y XLSX se
+ * descargan.
+ *
+ * @param format - Formato del archivo
+ * @param filename - Nombre del archivo sin extensión
+ * @param table - Tabla a exportar
+ * @returns Respuesta con el archivo en streaming
+ */
+export function exportResponse(
+  format: ExportFormat,
+  filename: string,
+  table: ExportTable
+): Response {
+  const chunks = WRITERS[format](table)
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next()
+        if (done) {
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      } catch (error) {
+        console.error('Error writing export:', error)
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined)
+    },
+  })
+
+  const disposition = format === 'pdf' ? 'inline' : 'attachment'
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `${disposition}; filename="${filename}.${format}"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
+
+/**
+ * Arma una respuesta de error con el formato `ApiError`
+ *
+ * @param statusCode - Código HTTP
+ * @param error - Código corto del error (ej: "INVALID_FORMAT")
+ * @param message - Mensaje para mostrar
+ */
+export function exportErrorResponse(statusCode: number, error: string, message: string): Response {
+  const body: ApiError = { error, message, statusCode }
+  return Response.json(body, { status: statusCode })
+}
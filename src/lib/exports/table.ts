@@ -0,0 +1,57 @@
+/**
+ * Tablas de Exportación - PideAI Admin
+ *
+ * Describe una tabla a exportar independientemente del formato. Las filas
+ * llegan como iterable asíncrono para poder escribirlas a medida que se
+ * leen de la base de datos, sin cargar todo el resultado en memoria.
+ *
+ * @module lib/exports/table
+ */
+
+import type { CsvValue } from '@/lib/csv'
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'pdf'] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  pdf: 'PDF imprimible',
+}
+
+/**
+ * Columna de una tabla exportada
+ */
+export interface ExportColumn {
+  header: string
+  /** Ancho relativo (en caracteres aproximados) para PDF y XLSX */
+  width?: number
+}
+
+/**
+ * Tabla a exportar
+ */
+export interface ExportTable {
+  /** Título del documento (PDF) y nombre de la hoja (XLSX) */
+  title: string
+  /** Línea descriptiva bajo el título del PDF (período, filtros) */
+  subtitle?: string
+  columns: ExportColumn[]
+  /** Filas con un valor por columna, en el mismo orden */
+  rows: AsyncIterable<CsvValue[]>
+}
+
+/**
+ * Indica si un valor (ej: parámetro de URL) es un formato soportado
+ */
+export function isExportFormat(value: string | null): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat)
+}
+
+/**
+ * Convierte una lista ya calculada en filas asíncronas
+ */
+export async function* fromArray(rows: CsvValue[][]): AsyncIterable<CsvValue[]> {
+  yield* rows
+}
@@ -0,0 +1,291 @@
+/**
+ * Exportación XLSX - PideAI Admin
+ *
+ * Escribe un libro de Excel de una hoja sin dependencias externas. El
+ * archivo es un ZIP sin compresión cuyas entradas usan "data descriptor"
+ * (CRC y tamaños al final de cada entrada), así la hoja se puede escribir
+ * mientras llegan las filas.
+ *
+ * @module lib/exports/xlsx
+ */
+
+import type { CsvValue } from '@/lib/csv'
+import type { ExportTable } from '@/lib/exports/table'
+
+/** Filas por bloque escrito */
+const BATCH_SIZE = 500
+
+const encoder = new TextEncoder()
+
+// ----------------------------------------------------------------------------
+// ZIP
+// ----------------------------------------------------------------------------
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+function updateCrc(crc: number, data: Uint8Array): number {
+  let c = crc ^ 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8)
+  }
+  return (c ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Arma un registro binario con enteros little-endian de 2 y 4 bytes
+ */
+function record(fields: [number, 2 | 4][], name?: Uint8Array): Uint8Array {
+  const size = fields.reduce((sum, [, bytes]) => sum + bytes, 0)
+  const buffer = new Uint8Array(size + (name?.length ?? 0))
+  const view = new DataView(buffer.buffer)
+
+  let offset = 0
+  for (const [value, bytes] of fields) {
+    if (bytes === 2) view.setUint16(offset, value, true)
+    else view.setUint32(offset, value, true)
+    offset += bytes
+  }
+  if (name) buffer.set(name, offset)
+
+  return buffer
+}
+
+interface ZipEntry {
+  name: Uint8Array
+  offset: number
+  crc: number
+  size: number
+}
+
+/** Bit 3: CRC y tamaños en el data descriptor; bit 11: nombres UTF-8 */
+const ZIP_FLAGS = 0x0808
+
+/**
+ * Escribe un ZIP sin compresión a partir de entradas con contenido asíncrono
+ */
+async function* writeZip(
+  files: { name: string; content: AsyncIterable<Uint8Array> }[]
+): AsyncGenerator<Uint8Array> {
+  const entries: ZipEntry[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = encoder.encode(file.name)
+    const entry: ZipEntry = { name, offset, crc: 0, size: 0 }
+
+    const header = record(
+      [
+        [0x04034b50, 4],
+        [20, 2],
+        [ZIP_FLAGS, 2],
+        [0, 2], // sin compresión
+        [0, 2],
+        [0, 2],
+        [0, 4],
+        [0, 4],
+        [0, 4],
+        [name.length, 2],
+        [0, 2],
+      ],
+      name
+    )
+    yield header
+    offset += header.length
+
+    for await (const chunk of file.content) {
+      entry.crc = updateCrc(entry.crc, chunk)
+      entry.size += chunk.length
+      yield chunk
+    }
+    offset += entry.size
+
+    const descriptor = record([
+      [0x08074b50, 4],
+      [entry.crc, 4],
+      [entry.size, 4],
+      [entry.size, 4],
+    ])
+    yield descriptor
+    offset += descriptor.length
+
+    entries.push(entry)
+  }
+
+  const directoryOffset = offset
+  let directorySize = 0
+  for (const entry of entries) {
+    const header = record(
+      [
+        [0x02014b50, 4],
+        [20, 2],
+        [20, 2],
+        [ZIP_FLAGS, 2],
+        [0, 2],
+        [0, 2],
+        [0, 2],
+        [entry.crc, 4],
+        [entry.size, 4],
+        [entry.size, 4],
+        [entry.name.length, 2],
+        [0, 2],
+        [0, 2],
+        [0, 2],
+        [0, 2],
+        [0, 4],
+        [entry.offset, 4],
+      ],
+      entry.name
+    )
+    yield header
+    directorySize += header.length
+  }
+
+  yield record([
+    [0x06054b50, 4],
+    [0, 2],
+    [0, 2],
+    [entries.length, 2],
+    [entries.length, 2],
+    [directorySize, 4],
+    [directoryOffset, 4],
+    [0, 2],
+  ])
+}
+
+// ----------------------------------------------------------------------------
+// SpreadsheetML
+// ----------------------------------------------------------------------------
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Caracteres de control no permitidos en XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+
+/**
+ * Celda de la hoja; `style` 1 es el estilo en negrita de la cabecera
+ */
+function cell(value: CsvValue, style = 0): string {
+  const s = style ? ` s="${style}"` : ''
+  if (value === null || value === undefined || value === '') return `<c${s}/>`
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c${s}><v>${value}</v></c>`
+  if (typeof value === 'boolean') return `<c t="b"${s}><v>${value ? 1 : 0}</v></c>`
+  return `<c t="inlineStr"${s}><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`
+}
+
+const row = (values: CsvValue[], style = 0) =>
+  `<row>${values.map((value) => cell(value, style)).join('')}</row>`
+
+async function* staticContent(xml: string): AsyncIterable<Uint8Array> {
+  yield encoder.encode(xml)
+}
+
+async function* worksheet(table: ExportTable): AsyncIterable<Uint8Array> {
+  const cols = table.columns
+    .map(
+      (column, index) =>
+        `<col min="${index + 1}" max="${index + 1}" width="${column.width ?? 14}" customWidth="1"/>`
+    )
+    .join('')
+
+  yield encoder.encode(
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/></sheetView></sheetViews>' +
+      `<cols>${cols}</cols><sheetData>` +
+      row(
+        table.columns.map((column) => column.header),
+        1
+      )
+  )
+
+  let batch: string[] = []
+  for await (const values of table.rows) {
+    batch.push(row(values))
+    if (batch.length === BATCH_SIZE) {
+      yield encoder.encode(batch.join(''))
+      batch = []
+    }
+  }
+
+  yield encoder.encode(batch.join('') + '</sheetData></worksheet>')
+}
+
+/**
+ * Nombre de hoja válido para Excel (máximo 31 caracteres, sin `[]:*?/\`)
+ */
+const sheetName = (title: string) => title.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Hoja1'
+
+/**
+ * Escribe una tabla como libro XLSX de una hoja
+ *
+ * @param table - Tabla a exportar
+ */
+export function writeXlsx(table: ExportTable): AsyncGenerator<Uint8Array> {
+  return writeZip([
+    {
+      name: '[Content_Types].xml',
+      content: staticContent(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+          '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+          '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+          '<Default Extension="xml" ContentType="application/xml"/>' +
+          '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+          '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+          '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+          '</Types>'
+      ),
+    },
+    {
+      name: '_rels/.rels',
+      content: staticContent(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+          '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+          '</Relationships>'
+      ),
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: staticContent(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+          '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+          `<sheets><sheet name="${escapeXml(sheetName(table.title))}" sheetId="1" r:id="rId1"/></sheets>` +
+          '</workbook>'
+      ),
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: staticContent(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+          '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+          '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+          '</Relationships>'
+      ),
+    },
+    {
+      name: 'xl/styles.xml',
+      content: staticContent(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+          '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+          '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+          '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+          '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+          '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+          '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+          '</styleSheet>'
+      ),
+    },
+    { name: 'xl/worksheets/sheet1.xml', content: worksheet(table) },
+  ])
+}
@@ -0,0 +1,52 @@
+/**
+ * Utilidades geográficas - PideAI Admin
+ *
+ * Funciones para leer las columnas de ubicación (`Json` con `{ lat, lng }`)
+ * y calcular distancias entre coordenadas.
+ *
+ * @module lib/geo
+ */
+
+import type { Coordinates, Json } from '@/types'
+
+/**
+ * Radio medio de la Tierra en kilómetros
+ */
+const EARTH_RADIUS_KM = 6371
+
+/**
+ * Convierte un valor de ubicación de la base de datos en coordenadas
+ *
+ * @param value - Valor de una columna de ubicación (`{ lat, lng }`)
+ * @returns Coordenadas válidas, o null si el valor no tiene el formato esperado
+ */
+export function parseCoordinates(value: Json | Coordinates | null | undefined): Coordinates | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+
+  const { lat, lng } = value as { lat?: unknown; lng?: unknown }
+
+  if (typeof lat !== 'number' || typeof lng !== 'number') return null
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null
+
+  return { lat, lng }
+}
+
+/**
+ * Calcula la distancia en línea recta entre dos coordenadas (fórmula de Haversine)
+ *
+ * @param from - Coordenadas de origen
+ * @param to - Coordenadas de destino
+ * @returns Distancia en kilómetros
+ */
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+  const dLat = toRadians(to.lat - from.lat)
+  const dLng = toRadians(to.lng - from.lng)
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a))
+}
@@ -0,0 +1,214 @@
+/**
+ * Marcadores del Mapa - PideAI Admin
+ *
+ * Convierte pedidos, riders y comercios en marcadores independientes del
+ * proveedor de mapas, y agrupa marcadores cercanos para las capas que no
+ * traen su propio clustering.
+ *
+ * Este módulo es puro: no depende de Google Maps ni de React.
+ *
+ * @module lib/map/markers
+ */
+
+import { parseCoordinates } from '@/lib/geo'
+import { getStatusColor } from '@/lib/riders/labels'
+import type { Coordinates, Json, OrderStatus, RiderStatus } from '@/types'
+
+export type MapMarkerKind = 'order' | 'rider' | 'store'
+
+/**
+ * Marcador a dibujar en cualquier capa de mapa
+ */
+export interface MapMarker {
+  /** Identificador único en el mapa (`order:<id>`, `rider:<id>`, ...) */
+  key: string
+  kind: MapMarkerKind
+  /** ID del registro representado */
+  id: string
+  position: Coordinates
+  /** Color de relleno en hexadecimal */
+  color: string
+  /** Texto corto dentro del marcador */
+  label: string
+  /** Texto del tooltip */
+  title: string
+  /** La ubicación está desactualizada (se dibuja atenuada) */
+  stale?: boolean
+}
+
+/**
+ * Grupo de marcadores cercanos
+ */
+export interface MapCluster {
+  key: string
+  position: Coordinates
+  markers: MapMarker[]
+}
+
+/**
+ * Equivalente hexadecimal de las clases de color usadas en los marcadores,
+ * para las capas que no renderizan HTML (ej: íconos de Google Maps)
+ */
+const tailwindHexColors: Record<string, string> = {
+  'bg-yellow-500': '#eab308',
+  'bg-blue-500': '#3b82f6',
+  'bg-purple-500': '#a855f7',
+  'bg-green-500': '#22c55e',
+  'bg-red-500': '#ef4444',
+  'bg-orange-500': '#f97316',
+  'bg-gray-500': '#6b7280',
+  'bg-slate-900': '#0f172a',
+}
+
+/**
+ * Clase de color de cada estado de pedido (la misma de `OrderStatus`)
+ */
+const orderStatusColors: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-500',
+  assigned: 'bg-blue-500',
+  in_transit: 'bg-purple-500',
+  delivered: 'bg-green-500',
+  cancelled: 'bg-red-500',
+}
+
+const STORE_COLOR = 'bg-slate-900'
+
+/**
+ * Convierte una clase de color de Tailwind en hexadecimal
+ *
+ * @param className - Clase `bg-*` de la paleta de marcadores
+ * @returns Color hexadecimal (gris si la clase no está en la paleta)
+ */
+export function toHexColor(className: string): string {
+  return tailwindHexColors[className] ?? tailwindHexColors['bg-gray-500']
+}
+
+interface MarkerSources {
+  orders: {
+    id: string
+    order_number: string
+    status: OrderStatus
+    customer_name: string
+    customer_location: Json | Coordinates | null
+  }[]
+  riders: {
+    id: string
+    full_name: string
+    status: RiderStatus | string
+    current_location: Json | Coordinates | null
+    /** Calculado con `isLocationStale` */
+    stale?: boolean
+  }[]
+  stores: {
+    id: string
+    name: string
+    location: Json | Coordinates | null
+  }[]
+}
+
+/**
+ * Arma los marcadores del mapa a partir de los registros
+ *
+ * Los registros sin ubicación válida se omiten.
+ *
+ * @param sources - Pedidos, riders y comercios a dibujar
+ * @returns Marcadores en orden: comercios, pedidos y riders
+ */
+export function buildMapMarkers({ orders, riders, stores }: MarkerSources): MapMarker[] {
+  const markers: MapMarker[] = []
+
+  for (const store of stores) {
+    const position = parseCoordinates(store.location)
+    if (!position) continue
+    markers.push({
+      key: `store:${store.id}`,
+      kind: 'store',
+      id: store.id,
+      position,
+      color: toHexColor(STORE_COLOR),
+      label: 'C',
+      title: store.name,
+    })
+  }
+
+  for (const order of orders) {
+    const position = parseCoordinates(order.customer_location)
+    if (!position) continue
+    markers.push({
+      key: `order:${order.id}`,
+      kind: 'order',
+      id: order.id,
+      position,
+      color: toHexColor(orderStatusColors[order.status]),
+      label: 'P',
+      title: `${order.order_number} · ${order.customer_name}`,
+    })
+  }
+
+  for (const rider of riders) {
+    const position = parseCoordinates(rider.current_location)
+    if (!position) continue
+    markers.push({
+      key: `rider:${rider.id}`,
+      kind: 'rider',
+      id: rider.id,
+      position,
+      color: toHexColor(getStatusColor(rider.status)),
+      label: 'R',
+      title: rider.stale ? `${rider.full_name} · Ubicación desactualizada` : rider.full_name,
+      stale: rider.stale,
+    })
+  }
+
+  return markers
+}
+
+/**
+ * Calcula el centro de un conjunto de coordenadas
+ *
+ * @param points - Coordenadas a centrar (marcadores, recorridos)
+ * @returns Centro del rectángulo que las contiene, o null si no hay puntos
+ */
+export function getBoundsCenter(points: Coordinates[]): Coordinates | null {
+  if (points.length === 0) return null
+
+  const lats = points.map((point) => point.lat)
+  const lngs = points.map((point) => point.lng)
+
+  return {
+    lat: (Math.min(...lats) + Math.max(...lats)) / 2,
+    lng: (Math.min(...lngs) + Math.max(...lngs)) / 2,
+  }
+}
+
+/**
+ * Agrupa marcadores en una grilla de coordenadas
+ *
+ * @param markers - Marcadores a agrupar
+ * @param cellSizeDeg - Tamaño de la celda en grados
+ * @returns Grupos con la posición promedio de sus marcadores
+ */
+export function clusterMarkers(markers: MapMarker[], cellSizeDeg: number): MapCluster[] {
+  const cells = new Map<string, MapMarker[]>()
+
+  for (const marker of markers) {
+    const cellKey = `${Math.floor(marker.position.lat / cellSizeDeg)}:${Math.floor(
+      marker.position.lng / cellSizeDeg
+    )}`
+    const cell = cells.get(cellKey)
+    if (cell) {
+      cell.push(marker)
+    } else {
+      cells.set(cellKey, [marker])
+    }
+  }
+
+  return Array.from(cells.entries()).map(([cellKey, cellMarkers]) => ({
+    key: cellKey,
+    position: {
+      lat: cellMarkers.reduce((sum, marker) => sum + marker.position.lat, 0) / cellMarkers.length,
+      lng: cellMarkers.reduce((sum, marker) => sum + marker.position.lng, 0) / cellMarkers.length,
+    },
+    markers: cellMarkers,
+  }))
+}
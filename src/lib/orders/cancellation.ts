@@ -0,0 +1,179 @@
+/**
+ * Cancelación de Pedidos - PideAI Admin
+ *
+ * Catálogo de motivos de cancelación (`orders.cancellation_reason`) y la
+ * analítica de cancelaciones de la página de reportes. Este módulo es puro:
+ * recibe los registros ya cargados y no consulta la base de datos.
+ *
+ * Criterios de la analítica:
+ * - Cuentan los pedidos cancelados creados en el rango.
+ * - La hora es la de creación del pedido, igual que en "Pedidos por hora".
+ * - Los pedidos cancelados antes de existir el catálogo no tienen motivo y
+ *   se agrupan como "Sin motivo".
+ *
+ * @module lib/orders/cancellation
+ */
+
+import { localTimeZone, zonedHour } from '@/lib/timezone'
+import type { Order } from '@/types'
+
+/**
+ * Motivo de cancelación del catálogo
+ */
+export type CancellationReason = NonNullable<Order['cancellation_reason']>
+
+/**
+ * Motivos del catálogo, en el orden en que se muestran
+ */
+export const CANCELLATION_REASONS: CancellationReason[] = [
+  'customer_no_show',
+  'store_closed',
+  'no_rider',
+  'duplicate',
+  'fraud',
+]
+
+export const CANCELLATION_REASON_LABELS: Record<CancellationReason, string> = {
+  customer_no_show: 'Cliente no se presentó',
+  store_closed: 'Comercio cerrado',
+  no_rider: 'Sin rider disponible',
+  duplicate: 'Pedido duplicado',
+  fraud: 'Fraude',
+}
+
+const NO_REASON_LABEL = 'Sin motivo'
+
+/**
+ * Indica si un valor de texto es un motivo del catálogo
+ */
+export function isCancellationReason(value: string | null | undefined): value is CancellationReason {
+  return CANCELLATION_REASONS.includes(value as CancellationReason)
+}
+
+/**
+ * Etiqueta del motivo de un pedido cancelado
+ */
+export function getCancellationReasonLabel(reason: CancellationReason | null): string {
+  return reason ? CANCELLATION_REASON_LABELS[reason] : NO_REASON_LABEL
+}
+
+/**
+ * Columnas de `orders` que usa la analítica de cancelaciones
+ */
+export type CancellationOrder = Pick<
+  Order,
+  'status' | 'store_id' | 'store_name' | 'created_at' | 'cancellation_reason' | 'cancellation_refund'
+>
+
+/**
+ * Cantidad de cancelaciones de un grupo
+ */
+export interface CancellationCount {
+  /** Clave del grupo (motivo, ID del comercio u hora "HH:00") */
+  key: string
+  label: string
+  cancelled: number
+  /** Cancelaciones con reembolso al cliente */
+  refunded: number
+  /**
+   * Porcentaje (0 a 100): por motivo, sobre el total de cancelados; por
+   * comercio y hora, sobre los pedidos del grupo
+   */
+  rate: number
+}
+
+/**
+ * Cancelaciones del rango agrupadas por motivo, comercio y hora
+ */
+export interface CancellationBreakdown {
+  total: number
+  refunded: number
+  /** Porcentaje sobre todos los pedidos del rango (0 a 100) */
+  rate: number
+  /** Motivos del catálogo (todos) y "Sin motivo" si hubo */
+  byReason: CancellationCount[]
+  /** Comercios con al menos una cancelación, de más a menos */
+  byStore: CancellationCount[]
+  /** Las 24 horas */
+  byHour: CancellationCount[]
+}
+
+const isCancelled = (order: CancellationOrder) => order.status === 'cancelled'
+
+const percentage = (part: number, total: number) => (total > 0 ? (part / total) * 100 : 0)
+
+/**
+ * Cuenta las cancelaciones de un grupo de pedidos
+ */
+function countGroup(
+  key: string,
+  label: string,
+  orders: CancellationOrder[],
+  total: number
+): CancellationCount {
+  const cancelled = orders.filter(isCancelled)
+  return {
+    key,
+    label,
+    cancelled: cancelled.length,
+    refunded: cancelled.filter((order) => order.cancellation_refund).length,
+    rate: percentage(cancelled.length, total),
+  }
+}
+
+/**
+ * Agrupa las cancelaciones del rango por motivo, comercio y hora
+ *
+ * @param orders - Pedidos creados en el rango (todos los estados, para las tasas)
+ * @param timeZone - Zona horaria de las horas (por defecto, la del proceso)
+ * @returns Totales y agrupaciones
+ */
+export function buildCancellationBreakdown(
+  orders: CancellationOrder[],
+  timeZone: string = localTimeZone()
+): CancellationBreakdown {
+  const cancelled = orders.filter(isCancelled)
+
+  // Por motivo: la tasa es sobre los cancelados (reparto de los motivos)
+  const byReason = CANCELLATION_REASONS.map((reason) =>
+    countGroup(
+      reason,
+      CANCELLATION_REASON_LABELS[reason],
+      cancelled.filter((order) => order.cancellation_reason === reason),
+      cancelled.length
+    )
+  )
+  const withoutReason = cancelled.filter((order) => !isCancellationReason(order.cancellation_reason))
+  if (withoutReason.length > 0) {
+    byReason.push(countGroup('none', NO_REASON_LABEL, withoutReason, cancelled.length))
+  }
+
+  // Por comercio y hora: la tasa es sobre los pedidos del grupo
+  const stores = new Map<string, CancellationOrder[]>()
+  for (const order of orders) {
+    stores.set(order.store_id, [...(stores.get(order.store_id) ?? []), order])
+  }
+  const byStore = Array.from(stores.entries())
+    .map(([storeId, storeOrders]) =>
+      countGroup(storeId, storeOrders[0].store_name, storeOrders, storeOrders.length)
+    )
+    .filter((count) => count.cancelled > 0)
+    .sort((a, b) => b.cancelled - a.cancelled || b.rate - a.rate)
+
+  const byHour = Array.from({ length: 24 }, (_, hour) => {
+    const hourOrders = orders.filter(
+      (order) => zonedHour(new Date(order.created_at), timeZone) === hour
+    )
+    const label = `${hour.toString().padStart(2, '0')}:00`
+    return countGroup(label, label, hourOrders, hourOrders.length)
+  })
+
+  return {
+    total: cancelled.length,
+    refunded: cancelled.filter((order) => order.cancellation_refund).length,
+    rate: percentage(cancelled.length, orders.length),
+    byReason,
+    byStore,
+    byHour,
+  }
+}
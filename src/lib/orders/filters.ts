@@ -0,0 +1,138 @@
+/**
+ * Filtros de Pedidos - PideAI Admin
+ *
+ * Aplica `OrderFilters` a una consulta de `orders` y los convierte a
+ * parámetros de URL, para que la tabla de pedidos y las exportaciones del
+ * servidor filtren exactamente igual.
+ *
+ * @module lib/orders/filters
+ */
+
+import { isValid, parseISO } from 'date-fns'
+import { ORDER_STATUS_LABELS } from '@/lib/orders/labels'
+import type { OrderFilters, OrderStatus } from '@/types'
+
+/**
+ * Métodos de filtro de PostgREST que usan los filtros de pedidos
+ *
+ * Lo cumplen tanto el cliente del navegador como el del servidor.
+ */
+interface OrderFilterQuery<Q> {
+  eq(column: string, value: string | boolean): Q
+  in(column: string, values: string[]): Q
+  gte(column: string, value: string): Q
+  lte(column: string, value: string): Q
+  or(filters: string): Q
+}
+
+/**
+ * Escapa un término de búsqueda para usarlo dentro de `or()`
+ *
+ * Las comas y paréntesis separan condiciones en la sintaxis de PostgREST.
+ */
+function toSearchPattern(search: string): string {
+  return `"%${search.replace(/["\\]/g, '\\$&')}%"`
+}
+
+/**
+ * Aplica los filtros a una consulta de `orders`
+ *
+ * @param query - Consulta sobre `orders`
+ * @param filters - Filtros a aplicar (los vacíos se ignoran)
+ * @returns La consulta filtrada
+ */
+export function applyOrderFilters<Q extends OrderFilterQuery<Q>>(
+  query: Q,
+  filters: OrderFilters
+): Q {
+  let filtered = query
+
+  if (filters.status) {
+    filtered = Array.isArray(filters.status)
+      ? filtered.in('status', filters.status)
+      : filtered.eq('status', filters.status)
+  }
+
+  if (filters.store_id) {
+    filtered = filtered.eq('store_id', filters.store_id)
+  }
+
+  if (filters.delivery_id) {
+    filtered = filtered.eq('delivery_id', filters.delivery_id)
+  }
+
+  if (filters.is_urgent !== undefined) {
+    filtered = filtered.eq('is_urgent', filters.is_urgent)
+  }
+
+  if (filters.date_from) {
+    filtered = filtered.gte('created_at', filters.date_from)
+  }
+
+  if (filters.date_to) {
+    filtered = filtered.lte('created_at', filters.date_to)
+  }
+
+  if (filters.search) {
+    const pattern = toSearchPattern(filters.search)
+    filtered = filtered.or(
+      `order_number.ilike.${pattern},customer_name.ilike.${pattern},customer_phone.ilike.${pattern}`
+    )
+  }
+
+  return filtered
+}
+
+/**
+ * Convierte los filtros en parámetros de URL
+ *
+ * @param filters - Filtros de pedidos
+ * @returns Parámetros con solo los filtros definidos
+ */
+export function orderFiltersToSearchParams(filters: OrderFilters): URLSearchParams {
+  const params = new URLSearchParams()
+
+  if (filters.status) {
+    params.set('status', Array.isArray(filters.status) ? filters.status.join(',') : filters.status)
+  }
+  if (filters.store_id) params.set('store_id', filters.store_id)
+  if (filters.delivery_id) params.set('delivery_id', filters.delivery_id)
+  if (filters.is_urgent !== undefined) params.set('is_urgent', String(filters.is_urgent))
+  if (filters.date_from) params.set('date_from', filters.date_from)
+  if (filters.date_to) params.set('date_to', filters.date_to)
+  if (filters.search) params.set('search', filters.search)
+
+  return params
+}
+
+/**
+ * Lee una fecha ISO de los parámetros, o undefined si no es válida
+ */
+function parseDateParam(value: string | null): string | undefined {
+  return value && isValid(parseISO(value)) ? value : undefined
+}
+
+/**
+ * Lee los filtros desde parámetros de URL
+ *
+ * @param params - Parámetros generados con `orderFiltersToSearchParams`
+ * @returns Filtros de pedidos (los estados desconocidos y las fechas no
+ *   válidas se ignoran)
+ */
+export function parseOrderFilters(params: URLSearchParams): OrderFilters {
+  const status = params
+    .get('status')
+    ?.split(',')
+    .filter((value): value is OrderStatus => Object.hasOwn(ORDER_STATUS_LABELS, value))
+  const isUrgent = params.get('is_urgent')
+
+  return {
+    status: status && status.length > 0 ? (status.length === 1 ? status[0] : status) : undefined,
+    store_id: params.get('store_id') || undefined,
+    delivery_id: params.get('delivery_id') || undefined,
+    is_urgent: isUrgent === null ? undefined : isUrgent === 'true',
+    date_from: parseDateParam(params.get('date_from')),
+    date_to: parseDateParam(params.get('date_to')),
+    search: params.get('search') || undefined,
+  }
+}
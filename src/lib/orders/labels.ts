@@ -0,0 +1,17 @@
+/**
+ * Etiquetas de Pedidos - PideAI Admin
+ *
+ * Textos en español para los enums de pedidos.
+ *
+ * @module lib/orders/labels
+ */
+
+import type { OrderStatus } from '@/types'
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pendiente',
+  assigned: 'Asignado',
+  in_transit: 'En Camino',
+  delivered: 'Entregado',
+  cancelled: 'Cancelado',
+}
@@ -0,0 +1,299 @@
+/**
+ * Consulta de Pedidos - PideAI Admin
+ *
+ * Servicio único para listar pedidos con `OrderFilters`: lo usan la ruta
+ * `GET /api/orders` (tabla y mapa) y las exportaciones, así todos filtran y
+ * ordenan igual.
+ *
+ * - Orden: por fecha de creación (por defecto, más recientes primero) o por
+ *   total, y luego `id`, para que el orden sea estable aunque varios
+ *   pedidos compartan el valor.
+ * - Paginación por cursor: el cursor codifica el valor de orden y el ID del
+ *   último pedido de la página, y la siguiente página se lee con una
+ *   condición sobre esas columnas (índice) en lugar de un offset, que en
+ *   tablas grandes obliga a recorrer todas las filas previas.
+ * - Sin cursor se usa `page` con offset (primera página o salto a una
+ *   página concreta).
+ * - El total se cuenta solo si el llamador no lo conoce todavía.
+ *
+ * Recibe el cliente de Supabase para funcionar en el servidor y en el
+ * navegador.
+ *
+ * @module lib/orders/query
+ */
+
+import type { createClient } from '@/lib/supabase/client'
+import { applyOrderFilters } from '@/lib/orders/filters'
+import type {
+  CursorPaginatedResult,
+  CursorPaginationOptions,
+  Order,
+  OrderFilters,
+  OrderSavedView,
+  Rider,
+} from '@/types'
+
+/**
+ * Cliente de Supabase (del navegador o del servidor)
+ */
+type OrdersClient = ReturnType<typeof createClient>
+
+/**
+ * Pedido del listado, con el nombre de su rider
+ */
+export type OrderListItem = Order & {
+  riders: Pick<Rider, 'full_name'> | null
+}
+
+const ORDER_LIST_COLUMNS = '*, riders(full_name)'
+
+/**
+ * Tamaño máximo de página (el límite por defecto de PostgREST es 1000)
+ */
+export const MAX_ORDERS_PER_PAGE = 1000
+
+/**
+ * Columna por la que se ordena el listado
+ */
+export type OrderSortField = OrderSavedView['sort_field']
+
+/**
+ * Orden del listado
+ */
+export interface OrderSort {
+  field: OrderSortField
+  direction: OrderSavedView['sort_direction']
+}
+
+export const ORDER_SORT_FIELDS: OrderSortField[] = ['created_at', 'total_amount']
+
+export const DEFAULT_ORDER_SORT: OrderSort = { field: 'created_at', direction: 'desc' }
+
+/**
+ * Posición de un pedido en el orden del listado
+ */
+interface OrderCursor {
+  field: OrderSortField
+  value: string | number
+  id: string
+}
+
+function encodeOrderCursor({ field, value, id }: OrderCursor): string {
+  return btoa(JSON.stringify([field, value, id]))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+/**
+ * Decodifica un cursor de `encodeOrderCursor`
+ *
+ * @returns La posición, o null si el cursor no es válido
+ */
+function decodeOrderCursor(cursor: string): OrderCursor | null {
+  try {
+    const [field, value, id] = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')))
+    const validValue =
+      field === 'created_at'
+        ? typeof value === 'string' && !Number.isNaN(Date.parse(value))
+        : field === 'total_amount' && typeof value === 'number' && Number.isFinite(value)
+
+    if (!validValue || typeof id !== 'string' || !/^[0-9a-f-]{36}$/i.test(id)) {
+      return null
+    }
+    return { field, value, id }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Posición del último pedido de una página
+ */
+function toOrderCursor(order: OrderListItem, field: OrderSortField): OrderCursor {
+  return { field, value: order[field], id: order.id }
+}
+
+/**
+ * Indica si un cursor recibido (ej: parámetro de URL) es válido para un orden
+ */
+export function isValidOrderCursor(cursor: string, sort: OrderSort = DEFAULT_ORDER_SORT): boolean {
+  return decodeOrderCursor(cursor)?.field === sort.field
+}
+
+/**
+ * Lista una página de pedidos filtrados
+ *
+ * @param supabase - Cliente de Supabase (con la sesión del usuario)
+ * @param filters - Filtros de pedidos
+ * @param pagination - Página y tamaño; `cursor` (de `next_cursor`) para la
+ *   página siguiente y `total` si ya se conoce
+ * @param sort - Orden del listado (el cursor debe venir del mismo orden)
+ * @returns Página de pedidos con el cursor de la siguiente
+ * @throws Error de PostgREST si la consulta falla o el cursor no es válido
+ */
+export async function queryOrders(
+  supabase: OrdersClient,
+  filters: OrderFilters,
+  { page, per_page, cursor, total }: CursorPaginationOptions,
+  sort: OrderSort = DEFAULT_ORDER_SORT
+): Promise<CursorPaginatedResult<OrderListItem>> {
+  const perPage = Math.min(Math.max(1, Math.floor(per_page)), MAX_ORDERS_PER_PAGE)
+  const position = cursor ? decodeOrderCursor(cursor) : null
+  const ascending = sort.direction === 'asc'
+
+  if (cursor && position?.field !== sort.field) {
+    throw new Error('Invalid order cursor')
+  }
+
+  let query = applyOrderFilters(
+    supabase
+      .from('orders')
+      .select(ORDER_LIST_COLUMNS, { count: total === undefined ? 'exact' : undefined })
+      .order(sort.field, { ascending })
+      .order('id', { ascending }),
+    filters
+  )
+
+  if (position) {
+    const op = ascending ? 'gt' : 'lt'
+    const value = typeof position.value === 'string' ? `"${position.value}"` : position.value
+    query = query.or(
+      `${sort.field}.${op}.${value},and(${sort.field}.eq.${value},id.${op}.${position.id})`
+    )
+  }
+
+  // Una fila de más indica si hay página siguiente
+  const from = position ? 0 : (Math.max(1, page) - 1) * perPage
+  const { data, count, error } = await query.range(from, from + perPage)
+
+  if (error) throw error
+
+  const rows = (data || []) as unknown as OrderListItem[]
+  const pageRows = rows.slice(0, perPage)
+  const last = pageRows[pageRows.length - 1]
+  const resultTotal = total ?? count ?? 0
+
+  return {
+    data: pageRows,
+    total: resultTotal,
+    page,
+    per_page: perPage,
+    total_pages: Math.ceil(resultTotal / perPage),
+    next_cursor:
+      rows.length > perPage && last ? encodeOrderCursor(toOrderCursor(last, sort.field)) : null,
+  }
+}
+
+/**
+ * Recorre todos los pedidos filtrados en bloques, con paginación por cursor
+ *
+ * @param supabase - Cliente de Supabase (con la sesión del usuario)
+ * @param filters - Filtros de pedidos
+ * @param batchSize - Pedidos por consulta
+ * @param sort - Orden del listado
+ * @returns Pedidos en el orden del listado, a medida que se leen
+ */
+export async function* iterateOrders(
+  supabase: OrdersClient,
+  filters: OrderFilters,
+  batchSize: number = MAX_ORDERS_PER_PAGE,
+  sort: OrderSort = DEFAULT_ORDER_SORT
+): AsyncIterable<OrderListItem> {
+  let cursor: string | null = null
+
+  do {
+    const result: CursorPaginatedResult<OrderListItem> = await queryOrders(
+      supabase,
+      filters,
+      {
+        page: 1,
+        per_page: batchSize,
+        cursor,
+        total: 0, // No se necesita el total
+      },
+      sort
+    )
+    yield* result.data
+    cursor = result.next_cursor
+  } while (cursor)
+}
+
+/**
+ * Convierte las opciones de paginación en parámetros de URL
+ *
+ * @param pagination - Página, tamaño, cursor y total conocido
+ * @returns Parámetros con solo las opciones definidas
+ */
+export function orderPaginationToSearchParams({
+  page,
+  per_page,
+  cursor,
+  total,
+}: CursorPaginationOptions): URLSearchParams {
+  const params = new URLSearchParams({ page: String(page), per_page: String(per_page) })
+
+  if (cursor) params.set('cursor', cursor)
+  if (total !== undefined) params.set('total', String(total))
+
+  return params
+}
+
+/**
+ * Lee las opciones de paginación desde parámetros de URL
+ *
+ * @param params - Parámetros generados con `orderPaginationToSearchParams`
+ * @param defaultPerPage - Tamaño si no se indica
+ * @returns Opciones de paginación (los valores no numéricos se ignoran)
+ */
+export function parseOrderPagination(
+  params: URLSearchParams,
+  defaultPerPage: number
+): CursorPaginationOptions {
+  const toNumber = (value: string | null) => {
+    const parsed = value === null ? NaN : Number(value)
+    return Number.isFinite(parsed) ? parsed : undefined
+  }
+
+  return {
+    page: toNumber(params.get('page')) ?? 1,
+    per_page: toNumber(params.get('per_page')) ?? defaultPerPage,
+    cursor: params.get('cursor') || null,
+    total: toNumber(params.get('total')),
+  }
+}
+
+/**
+ * Convierte el orden en parámetros de URL
+ *
+ * @param sort - Orden del listado
+ * @returns Parámetros `sort` y `dir`, o vacíos si es el orden por defecto
+ */
+export function orderSortToSearchParams({ field, direction }: OrderSort): URLSearchParams {
+  const params = new URLSearchParams()
+
+  if (field !== DEFAULT_ORDER_SORT.field || direction !== DEFAULT_ORDER_SORT.direction) {
+    params.set('sort', field)
+    params.set('dir', direction)
+  }
+
+  return params
+}
+
+/**
+ * Lee el orden desde parámetros de URL
+ *
+ * @param params - Parámetros generados con `orderSortToSearchParams`
+ * @returns Orden del listado (el por defecto si falta o no es válido)
+ */
+export function parseOrderSort(params: URLSearchParams): OrderSort {
+  const field = params.get('sort')
+  const direction = params.get('dir')
+
+  return {
+    field: ORDER_SORT_FIELDS.includes(field as OrderSortField)
+      ? (field as OrderSortField)
+      : DEFAULT_ORDER_SORT.field,
+    direction: direction === 'asc' || direction === 'desc' ? direction : DEFAULT_ORDER_SORT.direction,
+  }
+}
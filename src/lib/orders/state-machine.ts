@@ -0,0 +1,227 @@
+/**
+ * Máquina de Estados de Pedidos - PideAI Admin
+ *
+ * Tabla única de transiciones sobre el enum `OrderStatus`. Define qué
+ * movimientos están permitidos, qué campos se completan al entrar al nuevo
+ * estado, qué permiso requieren y qué efecto tienen sobre el rider.
+ *
+ * Tanto las funciones de `lib/api/orders` como los botones de la UI
+ * consultan esta tabla, de modo que nunca se ofrece una acción inválida.
+ * Las funciones de Postgres vuelven a verificar el estado con las filas
+ * bloqueadas, por lo que esta tabla es la fuente de verdad para la UI y la
+ * base de datos es la última defensa ante condiciones de carrera.
+ *
+ * @module lib/orders/state-machine
+ *
+ * Uso:
+ * ```tsx
+ * import { canTransition, getAvailableActions } from '@/lib/orders/state-machine'
+ *
+ * if (canTransition(order.status, 'cancel', permissions)) {
+ *   // Mostrar botón de cancelar
+ * }
+ * ```
+ */
+
+import { can, type Permission } from '@/lib/auth/permissions'
+import type { Order, OrderStatus, RiderStatus } from '@/types'
+
+/**
+ * Acciones que se pueden ejecutar sobre un pedido
+ */
+export type OrderAction =
+  | 'assign'
+  | 'reassign'
+  | 'unassign'
+  | 'pick_up'
+  | 'deliver'
+  | 'cancel'
+
+/**
+ * Efecto de una transición sobre el rider del pedido
+ *
+ * - `busy`: el rider pasa a ocupado
+ * - `release`: el rider vuelve a disponible si no le quedan pedidos activos
+ * - `swap`: el nuevo rider pasa a ocupado y el anterior se libera
+ * - `none`: el rider no cambia
+ */
+export type RiderEffect = Extract<RiderStatus, 'busy'> | 'release' | 'swap' | 'none'
+
+/**
+ * Definición de una transición de estado
+ */
+export interface OrderTransition {
+  /** Acción que dispara la transición */
+  action: OrderAction
+  /** Etiqueta para botones y menús */
+  label: string
+  /** Estados desde los que se permite la transición */
+  from: OrderStatus[]
+  /** Estado resultante (null si la transición no cambia el estado) */
+  to: OrderStatus | null
+  /** Campos del pedido que deben completarse al entrar al nuevo estado */
+  requiredFields: (keyof Order)[]
+  /** Permiso requerido para ejecutar la transición */
+  permission: Permission
+  /** Efecto sobre el rider asignado */
+  riderEffect: RiderEffect
+  /** Si la transición es destructiva (se muestra con estilo de peligro) */
+  destructive?: boolean
+}
+
+/**
+ * Tabla de transiciones de pedidos
+ */
+export const ORDER_TRANSITIONS: Record<OrderAction, OrderTransition> = {
+  assign: {
+    action: 'assign',
+    label: 'Asignar Rider',
+    from: ['pending'],
+    to: 'assigned',
+    requiredFields: ['delivery_id', 'assigned_at'],
+    permission: 'orders.assign',
+    riderEffect: 'busy',
+  },
+  reassign: {
+    action: 'reassign',
+    label: 'Reasignar Rider',
+    from: ['assigned', 'in_transit'],
+    to: null,
+    requiredFields: ['delivery_id', 'assigned_at'],
+    permission: 'orders.assign',
+    riderEffect: 'swap',
+  },
+  unassign: {
+    action: 'unassign',
+    label: 'Desasignar Rider',
+    from: ['assigned'],
+    to: 'pending',
+    requiredFields: [],
+    permission: 'orders.assign',
+    riderEffect: 'release',
+  },
+  pick_up: {
+    action: 'pick_up',
+    label: 'Marcar Recogido',
+    from: ['assigned'],
+    to: 'in_transit',
+    requiredFields: ['picked_up_at'],
+    permission: 'orders.update_status',
+    riderEffect: 'none',
+  },
+  deliver: {
+    action: 'deliver',
+    label: 'Marcar Entregado',
+    // Desde `assigned` se completa también picked_up_at
+    from: ['assigned', 'in_transit'],
+    to: 'delivered',
+    requiredFields: ['picked_up_at', 'delivered_at'],
+    permission: 'orders.update_status',
+    riderEffect: 'release',
+  },
+  cancel: {
+    action: 'cancel',
+    label: 'Cancelar Pedido',
+    from: ['pending', 'assigned', 'in_transit'],
+    to: 'cancelled',
+    requiredFields: ['cancelled_at'],
+    permission: 'orders.cancel',
+    riderEffect: 'release',
+    destructive: true,
+  },
+}
+
+/**
+ * Estados en los que un pedido ocupa a su rider
+ */
+export const RIDER_ACTIVE_ORDER_STATUSES: OrderStatus[] = ['assigned', 'in_transit']
+
+/**
+ * Estados en los que un pedido sigue en curso
+ */
+export const ACTIVE_ORDER_STATUSES: OrderStatus[] = ['pending', ...RIDER_ACTIVE_ORDER_STATUSES]
+
+/**
+ * Motivo por el que una transición no está permitida
+ */
+export type TransitionError = 'INVALID_TRANSITION' | 'FORBIDDEN'
+
+/**
+ * Obtiene la definición de una transición
+ *
+ * @param action - Acción a consultar
+ * @returns Definición de la transición
+ */
+export function getTransition(action: OrderAction): OrderTransition {
+  return ORDER_TRANSITIONS[action]
+}
+
+/**
+ * Verifica si una acción puede ejecutarse sobre un pedido
+ *
+ * @param status - Estado actual del pedido
+ * @param action - Acción a ejecutar
+ * @param permissions - Permisos del usuario (si se omite, solo se verifica el estado)
+ * @returns Motivo del rechazo, o null si la transición es válida
+ */
+export function validateTransition(
+  status: OrderStatus,
+  action: OrderAction,
+  permissions?: readonly Permission[] | null
+): TransitionError | null {
+  const transition = ORDER_TRANSITIONS[action]
+
+  if (!transition.from.includes(status)) {
+    return 'INVALID_TRANSITION'
+  }
+
+  if (permissions !== undefined && !can(permissions, transition.permission)) {
+    return 'FORBIDDEN'
+  }
+
+  return null
+}
+
+/**
+ * Indica si una acción puede ejecutarse sobre un pedido
+ *
+ * @param status - Estado actual del pedido
+ * @param action - Acción a ejecutar
+ * @param permissions - Permisos del usuario (si se omite, solo se verifica el estado)
+ * @returns true si la transición es válida
+ */
+export function canTransition(
+  status: OrderStatus,
+  action: OrderAction,
+  permissions?: readonly Permission[] | null
+): boolean {
+  return validateTransition(status, action, permissions) === null
+}
+
+/**
+ * Lista las transiciones que un usuario puede ejecutar desde un estado
+ *
+ * @param status - Estado actual del pedido
+ * @param permissions - Permisos del usuario
+ * @returns Transiciones disponibles, en el orden de la tabla
+ */
+export function getAvailableActions(
+  status: OrderStatus,
+  permissions: readonly Permission[] | null | undefined
+): OrderTransition[] {
+  return Object.values(ORDER_TRANSITIONS).filter((transition) =>
+    canTransition(status, transition.action, permissions ?? null)
+  )
+}
+
+/**
+ * Indica si un estado es final (no admite más transiciones)
+ *
+ * @param status - Estado a consultar
+ * @returns true si ninguna transición parte de este estado
+ */
+export function isFinalStatus(status: OrderStatus): boolean {
+  return !Object.values(ORDER_TRANSITIONS).some((transition) =>
+    transition.from.includes(status)
+  )
+}
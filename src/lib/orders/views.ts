@@ -0,0 +1,118 @@
+/**
+ * Vistas de la Tabla de Pedidos - PideAI Admin
+ *
+ * Estado de la tabla que se guarda en una vista (`order_saved_views`):
+ * filtros, orden, columnas visibles y tamaño de página. Las vistas
+ * guardadas se leen siempre con `getOrderViewState`, que descarta los
+ * valores que ya no son válidos (ej: un estado o una columna que dejó de
+ * existir).
+ *
+ * @module lib/orders/views
+ */
+
+import { orderFiltersToSearchParams, parseOrderFilters } from '@/lib/orders/filters'
+import { DEFAULT_ORDER_SORT, ORDER_SORT_FIELDS, type OrderSort } from '@/lib/orders/query'
+import type { OrderFilters, OrderSavedView, OrderSavedViewInsert } from '@/types'
+
+/**
+ * Columnas opcionales de la tabla (el ID y las acciones siempre se ven)
+ */
+export type OrderTableColumn = 'customer' | 'store' | 'rider' | 'total' | 'status' | 'created_at'
+
+export const ORDER_TABLE_COLUMN_LABELS: Record<OrderTableColumn, string> = {
+  customer: 'Cliente',
+  store: 'Comercio',
+  rider: 'Rider',
+  total: 'Total',
+  status: 'Estado',
+  created_at: 'Fecha',
+}
+
+export const ORDER_TABLE_COLUMNS = Object.keys(ORDER_TABLE_COLUMN_LABELS) as OrderTableColumn[]
+
+/**
+ * Tamaños de página que ofrece la tabla
+ */
+export const ORDER_PAGE_SIZES = [10, 25, 50, 100]
+
+/**
+ * Estado de la tabla de pedidos que guarda una vista
+ */
+export interface OrderViewState {
+  filters: OrderFilters
+  sort: OrderSort
+  columns: OrderTableColumn[]
+  page_size: number
+}
+
+export const DEFAULT_ORDER_VIEW_STATE: OrderViewState = {
+  filters: {},
+  sort: DEFAULT_ORDER_SORT,
+  columns: ORDER_TABLE_COLUMNS,
+  page_size: ORDER_PAGE_SIZES[0],
+}
+
+/**
+ * Lee el estado de la tabla de una vista guardada
+ *
+ * @param view - Vista guardada
+ * @returns Estado de la tabla (los valores no válidos se reemplazan por los
+ *   de `DEFAULT_ORDER_VIEW_STATE`)
+ */
+export function getOrderViewState(view: OrderSavedView): OrderViewState {
+  const params = new URLSearchParams()
+
+  if (view.filters && typeof view.filters === 'object' && !Array.isArray(view.filters)) {
+    Object.entries(view.filters).forEach(([key, value]) => {
+      if (typeof value === 'string') params.set(key, value)
+    })
+  }
+
+  const columns = ORDER_TABLE_COLUMNS.filter((column) => view.columns.includes(column))
+
+  return {
+    filters: parseOrderFilters(params),
+    sort: {
+      field: ORDER_SORT_FIELDS.includes(view.sort_field) ? view.sort_field : DEFAULT_ORDER_SORT.field,
+      direction: view.sort_direction === 'asc' ? 'asc' : 'desc',
+    },
+    columns: columns.length > 0 ? columns : DEFAULT_ORDER_VIEW_STATE.columns,
+    page_size: ORDER_PAGE_SIZES.includes(view.page_size)
+      ? view.page_size
+      : DEFAULT_ORDER_VIEW_STATE.page_size,
+  }
+}
+
+/**
+ * Convierte el estado de la tabla en columnas de `order_saved_views`
+ *
+ * Los filtros se guardan con las mismas claves que los parámetros de URL.
+ */
+export function toOrderViewColumns(
+  state: OrderViewState
+): Pick<OrderSavedViewInsert, 'filters' | 'sort_field' | 'sort_direction' | 'columns' | 'page_size'> {
+  return {
+    filters: Object.fromEntries(orderFiltersToSearchParams(state.filters)),
+    sort_field: state.sort.field,
+    sort_direction: state.sort.direction,
+    columns: state.columns,
+    page_size: state.page_size,
+  }
+}
+
+/**
+ * Indica si dos estados de la tabla muestran lo mismo
+ *
+ * Sirve para marcar la vista activa: al cambiar un filtro, la tabla deja de
+ * coincidir con la vista.
+ */
+export function isSameOrderViewState(a: OrderViewState, b: OrderViewState): boolean {
+  return (
+    orderFiltersToSearchParams(a.filters).toString() ===
+      orderFiltersToSearchParams(b.filters).toString() &&
+    a.sort.field === b.sort.field &&
+    a.sort.direction === b.sort.direction &&
+    ORDER_TABLE_COLUMNS.every((column) => a.columns.includes(column) === b.columns.includes(column)) &&
+    a.page_size === b.page_size
+  )
+}
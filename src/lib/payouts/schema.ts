@@ -0,0 +1,24 @@
+/**
+ * Validación de Ajustes de Liquidación - PideAI Admin
+ *
+ * Esquema zod del formulario de bonos y descuentos manuales de un rider.
+ *
+ * @module lib/payouts/schema
+ */
+
+import { z } from 'zod'
+
+export const ADJUSTMENT_KIND_LABELS = {
+  bonus: 'Bono',
+  deduction: 'Descuento',
+} as const
+
+export const riderAdjustmentFormSchema = z.object({
+  kind: z.enum(['bonus', 'deduction']),
+  amount: z.number({ error: 'Ingresa un monto' }).positive('El monto debe ser mayor a 0'),
+  /** Día del período al que se imputa (`yyyy-MM-dd`) */
+  effective_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Elige una fecha'),
+  reason: z.string().trim().min(3, 'Indica el motivo del ajuste').max(200, 'Máximo 200 caracteres'),
+})
+
+export type RiderAdjustmentFormValues = z.infer<typeof riderAdjustmentFormSchema>
@@ -0,0 +1,85 @@
+/**
+ * Reglas de Liquidación de Riders - PideAI Admin
+ *
+ * Se guardan en `app_config` bajo la clave `payout_settings` y se combinan
+ * con los valores por defecto, de modo que una configuración parcial sigue
+ * siendo válida.
+ *
+ * @module lib/payouts/settings
+ */
+
+import { z } from 'zod'
+import type { PeriodFrequency } from '@/lib/periods'
+import type { Json } from '@/types'
+
+/**
+ * Clave de `app_config` donde se guardan las reglas de liquidación
+ */
+export const PAYOUT_SETTINGS_KEY = 'payout_settings'
+
+/**
+ * Reglas de liquidación
+ */
+export interface PayoutSettings {
+  /** Período que se liquida de una vez (las semanas empiezan el lunes) */
+  period: PeriodFrequency
+  /** Fracción del costo de envío que retiene la plataforma (0 a 1) */
+  platform_commission_rate: number
+  /** Monto fijo que se suma por cada entrega */
+  per_delivery_bonus: number
+  /** Monto fijo que se suma por cada entrega urgente */
+  urgent_bonus: number
+}
+
+/**
+ * Valores por defecto de las reglas de liquidación
+ */
+export const DEFAULT_PAYOUT_SETTINGS: PayoutSettings = {
+  period: 'weekly',
+  platform_commission_rate: 0.2,
+  per_delivery_bonus: 0,
+  urgent_bonus: 0.5,
+}
+
+const numberSchema = z.number({ error: 'Ingresa un número' })
+
+/**
+ * Validación de las reglas al guardarlas desde el panel
+ */
+export const payoutSettingsSchema = z.object({
+  period: z.enum(['weekly', 'monthly']),
+  platform_commission_rate: numberSchema.min(0, 'Mínimo 0').max(1, 'Máximo 1'),
+  per_delivery_bonus: numberSchema.min(0, 'No puede ser negativo'),
+  urgent_bonus: numberSchema.min(0, 'No puede ser negativo'),
+}) satisfies z.ZodType<PayoutSettings>
+
+/**
+ * Combina el valor guardado en `app_config` con los valores por defecto
+ *
+ * Ignora los campos con tipos inválidos en lugar de fallar.
+ *
+ * @param value - Valor de `app_config.value` para `payout_settings`
+ * @returns Reglas completas
+ */
+export function mergePayoutSettings(value: Json | null | undefined): PayoutSettings {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return DEFAULT_PAYOUT_SETTINGS
+  }
+
+  const raw = value as Record<string, unknown>
+  const number = (input: unknown, fallback: number) =>
+    typeof input === 'number' && Number.isFinite(input) && input >= 0 ? input : fallback
+
+  return {
+    period:
+      raw.period === 'weekly' || raw.period === 'monthly'
+        ? raw.period
+        : DEFAULT_PAYOUT_SETTINGS.period,
+    platform_commission_rate: Math.min(
+      number(raw.platform_commission_rate, DEFAULT_PAYOUT_SETTINGS.platform_commission_rate),
+      1
+    ),
+    per_delivery_bonus: number(raw.per_delivery_bonus, DEFAULT_PAYOUT_SETTINGS.per_delivery_bonus),
+    urgent_bonus: number(raw.urgent_bonus, DEFAULT_PAYOUT_SETTINGS.urgent_bonus),
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Estados de Cuenta de Riders - PideAI Admin
+ *
+ * Calcula lo que se le debe a cada rider en un período de liquidación a
+ * partir de los pedidos que entregó. Este módulo es puro: recibe los
+ * registros ya cargados y no consulta la base de datos.
+ *
+ * Criterios:
+ * - Cuentan los pedidos entregados cuyo `delivered_at` cae en el período.
+ * - Por cada entrega el rider cobra el `delivery_fee` menos la comisión de la
+ *   plataforma, más los bonos fijos por entrega y por urgencia.
+ * - Los ajustes manuales (bonos y descuentos) se imputan por `effective_date`.
+ *
+ * @module lib/payouts/statement
+ */
+
+import type { PayoutSettings } from '@/lib/payouts/settings'
+import type { Order, Rider, RiderAdjustment, RiderSettlement, RiderSettlementOrder } from '@/types'
+
+/**
+ * Columnas de `orders` que usan las liquidaciones
+ */
+export type PayoutOrder = Pick<
+  Order,
+  'id' | 'order_number' | 'delivery_id' | 'store_name' | 'delivery_fee' | 'is_urgent' | 'delivered_at'
+>
+
+/**
+ * Columnas de `rider_adjustments` que usan las liquidaciones
+ */
+export type PayoutAdjustment = Pick<
+  RiderAdjustment,
+  'id' | 'rider_id' | 'effective_date' | 'kind' | 'amount' | 'reason' | 'settlement_id'
+>
+
+/**
+ * Detalle de lo que cobra el rider por una entrega
+ */
+export interface PayoutLine {
+  order: PayoutOrder
+  fee: number
+  commission: number
+  bonus: number
+  earning: number
+}
+
+/**
+ * Estado de cuenta de un rider en un período
+ */
+export interface RiderStatement {
+  rider_id: string
+  rider_name: string
+  deliveries: number
+  /** Suma de los costos de envío */
+  gross_fees: number
+  /** Comisión retenida por la plataforma */
+  commission: number
+  /** Bonos automáticos (por entrega y por urgencia) */
+  bonuses: number
+  /** Neto de los ajustes manuales (bonos menos descuentos) */
+  adjustments: number
+  /** A pagar: costos de envío - comisión + bonos + ajustes */
+  total: number
+  lines: PayoutLine[]
+  adjustment_items: PayoutAdjustment[]
+}
+
+/**
+ * Redondea un monto a centavos
+ */
+export const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+const sum = (values: number[]) => roundMoney(values.reduce((total, value) => total + value, 0))
+
+/**
+ * Calcula lo que cobra el rider por una entrega
+ *
+ * @param order - Pedido entregado
+ * @param settings - Reglas de liquidación
+ * @returns Desglose de la entrega
+ */
+export function computeOrderPayout(order: PayoutOrder, settings: PayoutSettings): PayoutLine {
+  const fee = roundMoney(order.delivery_fee)
+  const commission = roundMoney(fee * settings.platform_commission_rate)
+  const bonus = roundMoney(
+    settings.per_delivery_bonus + (order.is_urgent ? settings.urgent_bonus : 0)
+  )
+
+  return { order, fee, commission, bonus, earning: roundMoney(fee - commission + bonus) }
+}
+
+/**
+ * Arma el estado de cuenta de un rider
+ *
+ * @param rider - Rider
+ * @param orders - Pedidos entregados en el período (de cualquier rider)
+ * @param adjustments - Ajustes del período (de cualquier rider)
+ * @param settings - Reglas de liquidación
+ * @returns Estado de cuenta con el detalle de entregas y ajustes
+ */
+export function buildRiderStatement(
+  rider: Pick<Rider, 'id' | 'full_name'>,
+  orders: PayoutOrder[],
+  adjustments: PayoutAdjustment[],
+  settings: PayoutSettings
+): RiderStatement {
+  const lines = orders
+    .filter((order) => order.delivery_id === rider.id)
+    .sort((a, b) => (a.delivered_at ?? '').localeCompare(b.delivered_at ?? ''))
+    .map((order) => computeOrderPayout(order, settings))
+  const adjustmentItems = adjustments
+    .filter((adjustment) => adjustment.rider_id === rider.id)
+    .sort((a, b) => a.effective_date.localeCompare(b.effective_date))
+
+  const grossFees = sum(lines.map((line) => line.fee))
+  const commission = sum(lines.map((line) => line.commission))
+  const bonuses = sum(lines.map((line) => line.bonus))
+  const adjustmentsTotal = sum(
+    adjustmentItems.map((item) => (item.kind === 'bonus' ? item.amount : -item.amount))
+  )
+
+  return {
+    rider_id: rider.id,
+    rider_name: rider.full_name,
+    deliveries: lines.length,
+    gross_fees: grossFees,
+    commission,
+    bonuses,
+    adjustments: adjustmentsTotal,
+    total: roundMoney(grossFees - commission + bonuses + adjustmentsTotal),
+    lines,
+    adjustment_items: adjustmentItems,
+  }
+}
+
+/**
+ * Arma el estado de cuenta de una liquidación cerrada
+ *
+ * Usa los totales y el desglose guardados al liquidar, no los pedidos ni las
+ * reglas actuales, así coincide con lo que se pagó.
+ *
+ * @param rider - Rider
+ * @param settlement - Liquidación cerrada
+ * @param orders - Entregas guardadas en la liquidación
+ * @param adjustments - Ajustes vinculados a la liquidación
+ * @returns Estado de cuenta con el detalle de entregas y ajustes
+ */
+export function buildSettledRiderStatement(
+  rider: Pick<Rider, 'id' | 'full_name'>,
+  settlement: RiderSettlement,
+  orders: RiderSettlementOrder[],
+  adjustments: PayoutAdjustment[]
+): RiderStatement {
+  const lines = [...orders]
+    .sort((a, b) => a.delivered_at.localeCompare(b.delivered_at))
+    .map((order) => ({
+      order: {
+        id: order.order_id,
+        order_number: order.order_number,
+        delivery_id: settlement.rider_id,
+        store_name: order.store_name,
+        delivery_fee: order.fee,
+        is_urgent: order.is_urgent,
+        delivered_at: order.delivered_at,
+      },
+      fee: order.fee,
+      commission: order.commission,
+      bonus: order.bonus,
+      earning: order.earning,
+    }))
+
+  return {
+    rider_id: rider.id,
+    rider_name: rider.full_name,
+    deliveries: settlement.deliveries,
+    gross_fees: settlement.gross_fees,
+    commission: settlement.commission,
+    bonuses: settlement.bonuses,
+    adjustments: settlement.adjustments,
+    total: settlement.total,
+    lines,
+    adjustment_items: [...adjustments].sort((a, b) =>
+      a.effective_date.localeCompare(b.effective_date)
+    ),
+  }
+}
+
+/**
+ * Arma los estados de cuenta de todos los riders con movimientos
+ *
+ * @param riders - Riders a incluir (los que no tuvieron entregas ni ajustes se omiten)
+ * @param orders - Pedidos entregados en el período
+ * @param adjustments - Ajustes del período
+ * @param settings - Reglas de liquidación
+ * @returns Estados de cuenta ordenados por monto a pagar
+ */
+export function buildPayoutSummary(
+  riders: Pick<Rider, 'id' | 'full_name'>[],
+  orders: PayoutOrder[],
+  adjustments: PayoutAdjustment[],
+  settings: PayoutSettings
+): RiderStatement[] {
+  return riders
+    .map((rider) => buildRiderStatement(rider, orders, adjustments, settings))
+    .filter((statement) => statement.deliveries > 0 || statement.adjustment_items.length > 0)
+    .sort((a, b) => b.total - a.total || a.rider_name.localeCompare(b.rider_name))
+}
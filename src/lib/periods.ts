@@ -0,0 +1,98 @@
+/**
+ * Períodos de Liquidación - PideAI Admin
+ *
+ * Períodos semanales o mensuales que usan las liquidaciones de riders y los
+ * estados de cuenta de comercios. Se expresan como días `yyyy-MM-dd` para
+ * guardarlos en columnas `date` sin depender de la zona horaria.
+ *
+ * @module lib/periods
+ */
+
+import {
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns'
+import { es } from 'date-fns/locale'
+import type { ReportRange } from '@/lib/reports/analytics'
+import { BUSINESS_TIME_ZONE, zonedEndOfDay, zonedStartOfDay } from '@/lib/timezone'
+
+/**
+ * Duración de los períodos
+ */
+export type PeriodFrequency = 'weekly' | 'monthly'
+
+export const PERIOD_FREQUENCY_LABELS: Record<PeriodFrequency, string> = {
+  weekly: 'Semanal',
+  monthly: 'Mensual',
+}
+
+/**
+ * Período de liquidación (días `yyyy-MM-dd`, ambos incluidos)
+ */
+export interface SettlementPeriod {
+  start: string
+  end: string
+}
+
+const DAY_FORMAT = 'yyyy-MM-dd'
+
+/**
+ * Obtiene el período de liquidación que contiene una fecha
+ *
+ * @param date - Fecha de referencia
+ * @param period - Duración de los períodos
+ * @returns Período (las semanas van de lunes a domingo)
+ */
+export function getSettlementPeriod(date: Date, period: PeriodFrequency): SettlementPeriod {
+  const [start, end] =
+    period === 'weekly'
+      ? [startOfWeek(date, { weekStartsOn: 1 }), endOfWeek(date, { weekStartsOn: 1 })]
+      : [startOfMonth(date), endOfMonth(date)]
+
+  return { start: format(start, DAY_FORMAT), end: format(end, DAY_FORMAT) }
+}
+
+/**
+ * Avanza o retrocede períodos de liquidación
+ *
+ * @param current - Período actual
+ * @param period - Duración de los períodos
+ * @param step - Cantidad de períodos (negativo para retroceder)
+ * @returns Período resultante
+ */
+export function shiftSettlementPeriod(
+  current: SettlementPeriod,
+  period: PeriodFrequency,
+  step: number
+): SettlementPeriod {
+  const start = parseISO(current.start)
+  return getSettlementPeriod(
+    period === 'weekly' ? addWeeks(start, step) : addMonths(start, step),
+    period
+  )
+}
+
+/**
+ * Convierte un período en un rango de instantes (del inicio del primer día
+ * al final del último, en la zona horaria del negocio, igual que
+ * `settle_rider_period`)
+ */
+export function settlementPeriodRange({ start, end }: SettlementPeriod): ReportRange {
+  return {
+    from: zonedStartOfDay(start, BUSINESS_TIME_ZONE),
+    to: zonedEndOfDay(end, BUSINESS_TIME_ZONE),
+  }
+}
+
+/**
+ * Formatea un período para mostrar (ej: "13 oct al 19 oct 2026")
+ */
+export function formatSettlementPeriod({ start, end }: SettlementPeriod): string {
+  return `${format(parseISO(start), 'd MMM', { locale: es })} al ${format(parseISO(end), 'd MMM yyyy', { locale: es })}`
+}
@@ -0,0 +1,51 @@
+/**
+ * Catálogo de Productos - PideAI Admin
+ *
+ * Agrupa y filtra los productos de un comercio para mostrarlos por
+ * categoría.
+ *
+ * @module lib/products/catalog
+ */
+
+import type { Product } from '@/types'
+
+/**
+ * Productos de una categoría del catálogo
+ */
+export interface ProductCategoryGroup {
+  category: string
+  products: Product[]
+}
+
+/**
+ * Agrupa productos por categoría
+ *
+ * @param products - Productos del comercio
+ * @returns Categorías en orden alfabético, con sus productos ordenados por nombre
+ */
+export function groupProductsByCategory(products: Product[]): ProductCategoryGroup[] {
+  const groups = new Map<string, Product[]>()
+
+  for (const product of products) {
+    const group = groups.get(product.category)
+    if (group) {
+      group.push(product)
+    } else {
+      groups.set(product.category, [product])
+    }
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b, 'es'))
+    .map(([category, categoryProducts]) => ({
+      category,
+      products: categoryProducts.sort((a, b) => a.name.localeCompare(b.name, 'es')),
+    }))
+}
+
+/**
+ * Indica si el producto controla stock y se quedó sin unidades
+ */
+export function isOutOfStock(product: Pick<Product, 'stock'>): boolean {
+  return product.stock !== null && product.stock <= 0
+}
@@ -0,0 +1,206 @@
+/**
+ * CSV de Productos - PideAI Admin
+ *
+ * Convierte el catálogo de un comercio en CSV y valida un CSV importado
+ * fila por fila con el mismo esquema del formulario de productos.
+ *
+ * Los productos se identifican por nombre (sin distinguir mayúsculas): una
+ * fila con el nombre de un producto existente lo actualiza, el resto se
+ * crean. Así un CSV exportado, editado en una planilla y vuelto a importar
+ * no duplica productos. Al actualizar solo se escriben las columnas que trae
+ * el archivo.
+ *
+ * @module lib/products/csv
+ */
+
+import { parseCsv, toCsv } from '@/lib/csv'
+import { productFormSchema, type ProductFormValues } from '@/lib/products/schema'
+import type { Product } from '@/types'
+
+/**
+ * Columnas del CSV, en el orden de la exportación
+ */
+export const PRODUCT_CSV_COLUMNS = [
+  'name',
+  'description',
+  'category',
+  'price',
+  'stock',
+  'is_available',
+  'image_url',
+] as const
+
+export type ProductCsvColumn = (typeof PRODUCT_CSV_COLUMNS)[number]
+
+const REQUIRED_COLUMNS: ProductCsvColumn[] = ['name', 'category', 'price']
+
+const COLUMN_LABELS: Record<ProductCsvColumn, string> = {
+  name: 'Nombre',
+  description: 'Descripción',
+  category: 'Categoría',
+  price: 'Precio',
+  stock: 'Stock',
+  is_available: 'Disponible',
+  image_url: 'Imagen',
+}
+
+const TRUE_VALUES = ['true', '1', 'si', 'sí', 'yes']
+const FALSE_VALUES = ['false', '0', 'no']
+
+/**
+ * Fila del CSV validada
+ */
+export interface ProductImportRow {
+  /** Número de línea en el archivo (la cabecera es la 1) */
+  line: number
+  name: string
+  /** Valores listos para guardar; null si la fila tiene errores */
+  values: ProductFormValues | null
+  errors: string[]
+  /** Producto existente que se actualiza; null si se crea */
+  productId: string | null
+}
+
+/**
+ * Resultado de leer un CSV de productos
+ */
+export interface ProductImportPreview {
+  rows: ProductImportRow[]
+  /** Columnas conocidas presentes en la cabecera (las que se actualizan) */
+  columns: ProductCsvColumn[]
+  /** Columnas obligatorias que faltan en la cabecera */
+  missingColumns: string[]
+}
+
+interface ParseProductsCsvOptions {
+  /** Catálogo actual del comercio */
+  existingProducts: Pick<Product, 'id' | 'name' | 'category'>[]
+  /** Aceptar categorías que aún no existen en el catálogo */
+  allowNewCategories: boolean
+}
+
+const normalize = (value: string) => value.trim().toLocaleLowerCase('es')
+
+/**
+ * Convierte el catálogo en CSV
+ *
+ * @param products - Productos del comercio
+ * @returns Texto CSV con cabecera
+ */
+export function productsToCsv(products: Product[]): string {
+  return toCsv([
+    [...PRODUCT_CSV_COLUMNS],
+    ...products.map((product) => [
+      product.name,
+      product.description,
+      product.category,
+      product.price,
+      product.stock,
+      product.is_available,
+      product.image_url,
+    ]),
+  ])
+}
+
+/**
+ * Convierte un campo numérico (acepta coma decimal); vacío = null
+ */
+function toNumber(value: string): number | null {
+  const trimmed = value.trim().replace(',', '.')
+  return trimmed === '' ? null : Number(trimmed)
+}
+
+/**
+ * Lee y valida un CSV de productos
+ *
+ * Cada fila se valida con `productFormSchema`. Además se marcan como error
+ * las categorías desconocidas (salvo `allowNewCategories`) y los nombres
+ * repetidos dentro del archivo.
+ *
+ * @param text - Contenido del archivo
+ * @param options - Catálogo actual y reglas de categorías
+ * @returns Filas validadas, columnas presentes y columnas faltantes
+ */
+export function parseProductsCsv(
+  text: string,
+  { existingProducts, allowNewCategories }: ParseProductsCsvOptions
+): ProductImportPreview {
+  const [header = [], ...records] = parseCsv(text)
+  const columns = header.map(normalize)
+
+  const missingColumns = REQUIRED_COLUMNS.filter((column) => !columns.includes(column)).map(
+    (column) => COLUMN_LABELS[column]
+  )
+  if (missingColumns.length > 0) {
+    return { rows: [], columns: [], missingColumns }
+  }
+
+  const productsByName = new Map(
+    existingProducts.map((product) => [normalize(product.name), product.id])
+  )
+  const knownCategories = new Set(existingProducts.map((product) => normalize(product.category)))
+  const seenNames = new Map<string, number>()
+
+  const rows = records.map((record, index): ProductImportRow => {
+    const line = index + 2
+    const field = (column: ProductCsvColumn) => {
+      const position = columns.indexOf(column)
+      return position === -1 ? '' : (record[position] ?? '').trim()
+    }
+
+    const errors: string[] = []
+    const availability = normalize(field('is_available'))
+    if (
+      availability !== '' &&
+      !TRUE_VALUES.includes(availability) &&
+      !FALSE_VALUES.includes(availability)
+    ) {
+      errors.push(`${COLUMN_LABELS.is_available}: usa "true" o "false"`)
+    }
+
+    const parsed = productFormSchema.safeParse({
+      name: field('name'),
+      description: field('description'),
+      category: field('category'),
+      price: toNumber(field('price')) ?? Number.NaN,
+      stock: toNumber(field('stock')),
+      is_available: availability === '' || TRUE_VALUES.includes(availability),
+      image_url: field('image_url'),
+    })
+
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const column = issue.path[0] as ProductCsvColumn
+        errors.push(`${COLUMN_LABELS[column] ?? column}: ${issue.message}`)
+      }
+    }
+
+    const name = field('name')
+    const key = normalize(name)
+    const firstLine = seenNames.get(key)
+    if (key && firstLine !== undefined) {
+      errors.push(`Nombre repetido (línea ${firstLine})`)
+    } else if (key) {
+      seenNames.set(key, line)
+    }
+
+    const category = field('category')
+    if (category && !allowNewCategories && !knownCategories.has(normalize(category))) {
+      errors.push(`Categoría desconocida: ${category}`)
+    }
+
+    return {
+      line,
+      name,
+      values: errors.length === 0 && parsed.success ? parsed.data : null,
+      errors,
+      productId: productsByName.get(key) ?? null,
+    }
+  })
+
+  return {
+    rows,
+    columns: PRODUCT_CSV_COLUMNS.filter((column) => columns.includes(column)),
+    missingColumns: [],
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Validación de Productos - PideAI Admin
+ *
+ * Esquema zod del formulario de alta y edición de productos, compartido por
+ * el formulario (react-hook-form) y la API.
+ *
+ * @module lib/products/schema
+ */
+
+import { z } from 'zod'
+import type { Product } from '@/types'
+
+export const productFormSchema = z.object({
+  name: z.string().trim().min(2, 'Ingresa el nombre del producto'),
+  description: z.string().trim().max(500, 'Máximo 500 caracteres'),
+  price: z.number({ error: 'Ingresa un precio' }).positive('El precio debe ser mayor a 0'),
+  category: z.string().trim().min(2, 'Ingresa una categoría'),
+  image_url: z.union([z.literal(''), z.url('Ingresa una URL válida')]),
+  is_available: z.boolean(),
+  /** null = sin control de stock */
+  stock: z
+    .number()
+    .int('El stock debe ser un número entero')
+    .min(0, 'El stock no puede ser negativo')
+    .nullable(),
+})
+
+export type ProductFormValues = z.infer<typeof productFormSchema>
+
+/**
+ * Valores iniciales del formulario de alta
+ */
+export const EMPTY_PRODUCT_FORM: ProductFormValues = {
+  name: '',
+  description: '',
+  price: Number.NaN,
+  category: '',
+  image_url: '',
+  is_available: true,
+  stock: null,
+}
+
+/**
+ * Convierte un producto en valores del formulario de edición
+ *
+ * @param product - Producto a editar
+ * @returns Valores del formulario
+ */
+export function productToFormValues(product: Product): ProductFormValues {
+  return {
+    name: product.name,
+    description: product.description ?? '',
+    price: product.price,
+    category: product.category,
+    image_url: product.image_url ?? '',
+    is_available: product.is_available,
+    stock: product.stock,
+  }
+}
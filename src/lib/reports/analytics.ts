@@ -0,0 +1,249 @@
+/**
+ * Analítica de Reportes - PideAI Admin
+ *
+ * Calcula las series y rankings de la página de reportes a partir de los
+ * pedidos de un rango de fechas. Este módulo es puro: recibe los registros
+ * ya cargados y no consulta la base de datos.
+ *
+ * Criterios:
+ * - Los pedidos se cuentan por `created_at` dentro del rango.
+ * - Los ingresos son `total_amount` de los pedidos entregados.
+ * - Las ganancias de un rider son los `delivery_fee` de sus entregas.
+ * - El tiempo de entrega va de `assigned_at` a `delivered_at`.
+ *
+ * @module lib/reports/analytics
+ */
+
+import { eachDayOfInterval, format, parseISO } from 'date-fns'
+import { es } from 'date-fns/locale'
+import { localTimeZone, zonedDay, zonedHour } from '@/lib/timezone'
+import type { Order, OrderChartData, Rider, RiderStats, Store, StoreStats } from '@/types'
+
+/**
+ * Columnas de `orders` que usan los reportes
+ */
+export type ReportOrder = Pick<
+  Order,
+  | 'id'
+  | 'status'
+  | 'store_id'
+  | 'store_name'
+  | 'delivery_id'
+  | 'total_amount'
+  | 'delivery_fee'
+  | 'created_at'
+  | 'assigned_at'
+  | 'delivered_at'
+  | 'cancelled_at'
+  | 'cancellation_reason'
+  | 'cancellation_refund'
+>
+
+/**
+ * Rango de fechas de un reporte (ambos extremos incluidos)
+ */
+export interface ReportRange {
+  from: Date
+  to: Date
+}
+
+/**
+ * Punto de la tendencia diaria
+ */
+export interface RevenueTrendPoint {
+  /** Día en formato `yyyy-MM-dd` */
+  date: string
+  /** Día para mostrar en el eje (ej: "19 oct") */
+  label: string
+  orders: number
+  revenue: number
+}
+
+/**
+ * Totales del rango
+ */
+export interface ReportSummary {
+  total_orders: number
+  delivered_orders: number
+  cancelled_orders: number
+  revenue: number
+  average_order_value: number
+  /** Promedio en minutos; null si no hubo entregas con asignación */
+  average_delivery_time: number | null
+}
+
+const isDelivered = (order: ReportOrder) => order.status === 'delivered'
+
+/**
+ * Minutos entre la asignación y la entrega, o null si falta alguno
+ */
+function deliveryMinutes(order: ReportOrder): number | null {
+  if (!order.assigned_at || !order.delivered_at) return null
+  return (new Date(order.delivered_at).getTime() - new Date(order.assigned_at).getTime()) / 60000
+}
+
+/**
+ * Promedio de una lista de números, o null si está vacía
+ */
+function average(values: number[]): number | null {
+  if (values.length === 0) return null
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+/**
+ * Formatea una duración en minutos como "25 min" o "1 h 05 min"
+ */
+export function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes)
+  if (rounded < 60) return `${rounded} min`
+  return `${Math.floor(rounded / 60)} h ${(rounded % 60).toString().padStart(2, '0')} min`
+}
+
+/**
+ * Calcula los totales del rango
+ *
+ * @param orders - Pedidos creados en el rango
+ * @returns Totales y promedios
+ */
+export function buildReportSummary(orders: ReportOrder[]): ReportSummary {
+  const delivered = orders.filter(isDelivered)
+  const revenue = delivered.reduce((sum, order) => sum + order.total_amount, 0)
+
+  return {
+    total_orders: orders.length,
+    delivered_orders: delivered.length,
+    cancelled_orders: orders.filter((order) => order.status === 'cancelled').length,
+    revenue,
+    average_order_value: delivered.length > 0 ? revenue / delivered.length : 0,
+    average_delivery_time: average(
+      delivered.map(deliveryMinutes).filter((minutes): minutes is number => minutes !== null)
+    ),
+  }
+}
+
+/**
+ * Agrupa los pedidos por hora del día en que se crearon
+ *
+ * @param orders - Pedidos creados en el rango
+ * @param timeZone - Zona horaria de las horas (por defecto, la del proceso)
+ * @returns Las 24 horas, con pedidos creados e ingresos de los entregados
+ */
+export function buildOrdersByHour(
+  orders: ReportOrder[],
+  timeZone: string = localTimeZone()
+): OrderChartData[] {
+  const hours: OrderChartData[] = Array.from({ length: 24 }, (_, hour) => ({
+    hour: `${hour.toString().padStart(2, '0')}:00`,
+    count: 0,
+    revenue: 0,
+  }))
+
+  for (const order of orders) {
+    const bucket = hours[zonedHour(new Date(order.created_at), timeZone)]
+    bucket.count++
+    if (isDelivered(order)) bucket.revenue += order.total_amount
+  }
+
+  return hours
+}
+
+/**
+ * Arma la tendencia diaria de pedidos e ingresos
+ *
+ * @param orders - Pedidos creados en el rango
+ * @param range - Rango del reporte (incluye los días sin pedidos)
+ * @param timeZone - Zona horaria de los días (por defecto, la del proceso)
+ * @returns Un punto por día del rango
+ */
+export function buildRevenueTrend(
+  orders: ReportOrder[],
+  range: ReportRange,
+  timeZone: string = localTimeZone()
+): RevenueTrendPoint[] {
+  const days = new Map<string, RevenueTrendPoint>(
+    eachDayOfInterval({
+      start: parseISO(zonedDay(range.from, timeZone)),
+      end: parseISO(zonedDay(range.to, timeZone)),
+    }).map((day) => {
+      const date = format(day, 'yyyy-MM-dd')
+      return [date, { date, label: format(day, 'd MMM', { locale: es }), orders: 0, revenue: 0 }]
+    })
+  )
+
+  for (const order of orders) {
+    const point = days.get(zonedDay(new Date(order.created_at), timeZone))
+    if (!point) continue
+    point.orders++
+    if (isDelivered(order)) point.revenue += order.total_amount
+  }
+
+  return Array.from(days.values())
+}
+
+/**
+ * Ranking de riders por entregas completadas
+ *
+ * @param orders - Pedidos creados en el rango
+ * @param riders - Riders a incluir (los que no tuvieron pedidos se omiten)
+ * @returns Estadísticas ordenadas por entregas y luego por ganancias
+ */
+export function buildRiderLeaderboard(
+  orders: ReportOrder[],
+  riders: Pick<Rider, 'id' | 'full_name' | 'rating'>[]
+): RiderStats[] {
+  return riders
+    .map((rider) => {
+      const riderOrders = orders.filter((order) => order.delivery_id === rider.id)
+      const delivered = riderOrders.filter(isDelivered)
+
+      return {
+        rider_id: rider.id,
+        rider_name: rider.full_name,
+        total_deliveries: riderOrders.length,
+        completed_deliveries: delivered.length,
+        average_delivery_time:
+          average(
+            delivered
+              .map(deliveryMinutes)
+              .filter((minutes): minutes is number => minutes !== null)
+          ) ?? 0,
+        total_earnings: delivered.reduce((sum, order) => sum + order.delivery_fee, 0),
+        rating: rider.rating ?? 0,
+      }
+    })
+    .filter((stats) => stats.total_deliveries > 0)
+    .sort(
+      (a, b) =>
+        b.completed_deliveries - a.completed_deliveries || b.total_earnings - a.total_earnings
+    )
+}
+
+/**
+ * Ranking de comercios por ingresos
+ *
+ * @param orders - Pedidos creados en el rango
+ * @param stores - Comercios a incluir (los que no tuvieron pedidos se omiten)
+ * @returns Estadísticas ordenadas por ingresos y luego por pedidos
+ */
+export function buildStoreLeaderboard(
+  orders: ReportOrder[],
+  stores: Pick<Store, 'id' | 'name' | 'rating'>[]
+): StoreStats[] {
+  return stores
+    .map((store) => {
+      const storeOrders = orders.filter((order) => order.store_id === store.id)
+      const delivered = storeOrders.filter(isDelivered)
+      const revenue = delivered.reduce((sum, order) => sum + order.total_amount, 0)
+
+      return {
+        store_id: store.id,
+        store_name: store.name,
+        total_orders: storeOrders.length,
+        total_revenue: revenue,
+        average_order_value: delivered.length > 0 ? revenue / delivered.length : 0,
+        rating: store.rating ?? 0,
+      }
+    })
+    .filter((stats) => stats.total_orders > 0)
+    .sort((a, b) => b.total_revenue - a.total_revenue || b.total_orders - a.total_orders)
+}
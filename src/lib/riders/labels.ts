@@ -0,0 +1,36 @@
+/**
+ * Etiquetas de Riders - PideAI Admin
+ *
+ * Textos en español y colores para los enums de riders.
+ *
+ * @module lib/riders/labels
+ */
+
+import type { RiderStatus, VehicleType } from '@/types'
+
+export const RIDER_STATUS_LABELS: Record<RiderStatus, string> = {
+  available: 'Disponible',
+  busy: 'Ocupado',
+  offline: 'Desconectado',
+}
+
+export const VEHICLE_LABELS: Record<VehicleType, string> = {
+  bike: 'Bicicleta',
+  motorcycle: 'Moto',
+  car: 'Auto',
+}
+
+/**
+ * Clase de color de un rider según su estado
+ *
+ * @param status - Estado del rider
+ * @returns Clase de Tailwind para el fondo
+ */
+export function getStatusColor(status: RiderStatus | string) {
+  const colors: Record<string, string> = {
+    available: 'bg-green-500',
+    busy: 'bg-orange-500',
+    offline: 'bg-gray-500',
+  }
+  return colors[status] || 'bg-gray-500'
+}
@@ -0,0 +1,36 @@
+/**
+ * Validación de Riders - PideAI Admin
+ *
+ * Esquema zod del formulario de alta y edición de riders, compartido por el
+ * formulario (react-hook-form) y la API.
+ *
+ * @module lib/riders/schema
+ */
+
+import { z } from 'zod'
+
+export const riderFormSchema = z.object({
+  full_name: z.string().trim().min(2, 'Ingresa el nombre completo'),
+  phone: z
+    .string()
+    .trim()
+    .regex(/^\+?[0-9\s-]{7,20}$/, 'Ingresa un teléfono válido'),
+  email: z.union([z.literal(''), z.email('Ingresa un email válido')]),
+  vehicle_type: z.enum(['bike', 'motorcycle', 'car']),
+  vehicle_plate: z.string().trim().max(20, 'Máximo 20 caracteres'),
+  is_active: z.boolean(),
+})
+
+export type RiderFormValues = z.infer<typeof riderFormSchema>
+
+/**
+ * Valores iniciales del formulario de alta
+ */
+export const EMPTY_RIDER_FORM: RiderFormValues = {
+  full_name: '',
+  phone: '',
+  email: '',
+  vehicle_type: 'motorcycle',
+  vehicle_plate: '',
+  is_active: true,
+}
@@ -0,0 +1,42 @@
+/**
+ * Estadísticas de Riders - PideAI Admin
+ *
+ * Calcula las métricas del día de un rider a partir de sus pedidos.
+ *
+ * @module lib/riders/stats
+ */
+
+import { RIDER_ACTIVE_ORDER_STATUSES } from '@/lib/orders/state-machine'
+import type { Order, Rider, RiderWithStats } from '@/types'
+
+/**
+ * Combina un rider con las métricas calculadas de sus pedidos
+ *
+ * Las ganancias del día son la suma de `delivery_fee` de los pedidos
+ * entregados desde el inicio del día.
+ *
+ * @param rider - Rider
+ * @param orders - Pedidos activos del rider y entregados hoy
+ * @param startOfToday - Inicio del día de referencia
+ * @returns Rider con estadísticas
+ */
+export function buildRiderStats(
+  rider: Rider,
+  orders: Pick<Order, 'status' | 'delivery_fee' | 'delivered_at'>[],
+  startOfToday: Date
+): RiderWithStats {
+  const deliveredToday = orders.filter(
+    (order) =>
+      order.status === 'delivered' &&
+      order.delivered_at !== null &&
+      new Date(order.delivered_at) >= startOfToday
+  )
+
+  return {
+    ...rider,
+    active_orders: orders.filter((order) => RIDER_ACTIVE_ORDER_STATUSES.includes(order.status))
+      .length,
+    completed_today: deliveredToday.length,
+    earnings_today: deliveredToday.reduce((sum, order) => sum + order.delivery_fee, 0),
+  }
+}
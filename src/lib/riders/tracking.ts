@@ -0,0 +1,87 @@
+/**
+ * Seguimiento de Ubicación de Riders - PideAI Admin
+ *
+ * Configuración y reglas para detectar riders ocupados que dejaron de
+ * reportar su ubicación. La configuración se guarda en `app_config` bajo la
+ * clave `rider_tracking`.
+ *
+ * @module lib/riders/tracking
+ */
+
+import { z } from 'zod'
+import type { Json, RiderStatus } from '@/types'
+
+/**
+ * Clave de `app_config` donde se guarda la configuración del seguimiento
+ */
+export const RIDER_TRACKING_KEY = 'rider_tracking'
+
+/**
+ * Configuración del seguimiento de ubicación
+ */
+export interface RiderTrackingSettings {
+  /** Minutos sin reportar ubicación para marcar a un rider ocupado */
+  stale_location_minutes: number
+}
+
+/**
+ * Valores por defecto del seguimiento de ubicación
+ */
+export const DEFAULT_RIDER_TRACKING_SETTINGS: RiderTrackingSettings = {
+  stale_location_minutes: 5,
+}
+
+const numberSchema = z.number({ error: 'Ingresa un número' })
+
+/**
+ * Validación de la configuración al guardarla desde el panel
+ */
+export const riderTrackingSettingsSchema = z.object({
+  stale_location_minutes: numberSchema.positive('Debe ser mayor a 0').max(120, 'Máximo 120 minutos'),
+}) satisfies z.ZodType<RiderTrackingSettings>
+
+/**
+ * Combina el valor guardado en `app_config` con los valores por defecto
+ *
+ * @param value - Valor de `app_config.value` para `rider_tracking`
+ * @returns Configuración completa
+ */
+export function mergeRiderTrackingSettings(
+  value: Json | null | undefined
+): RiderTrackingSettings {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return DEFAULT_RIDER_TRACKING_SETTINGS
+  }
+
+  const minutes = (value as Record<string, unknown>).stale_location_minutes
+
+  return {
+    stale_location_minutes:
+      typeof minutes === 'number' && Number.isFinite(minutes) && minutes > 0
+        ? minutes
+        : DEFAULT_RIDER_TRACKING_SETTINGS.stale_location_minutes,
+  }
+}
+
+/**
+ * Indica si la ubicación de un rider está desactualizada
+ *
+ * Solo aplica a riders ocupados: un rider disponible o desconectado puede
+ * dejar de reportar sin que afecte a ningún pedido.
+ *
+ * @param rider - Estado del rider y fecha de su última ubicación
+ * @param settings - Configuración del seguimiento
+ * @param now - Fecha de referencia
+ * @returns true si el rider está ocupado y no reporta hace más del umbral
+ */
+export function isLocationStale(
+  rider: { status: RiderStatus | string; last_location_update: string | null },
+  settings: RiderTrackingSettings,
+  now: Date = new Date()
+): boolean {
+  if (rider.status !== 'busy') return false
+  if (!rider.last_location_update) return true
+
+  const elapsedMs = now.getTime() - new Date(rider.last_location_update).getTime()
+  return elapsedMs > settings.stale_location_minutes * 60 * 1000
+}
@@ -0,0 +1,204 @@
+/**
+ * Validación de Comercios - PideAI Admin
+ *
+ * Esquemas zod del formulario de comercios, incluido el horario semanal
+ * (`OpeningHours`), y conversiones entre el formulario y las columnas de
+ * `stores`.
+ *
+ * @module lib/stores/schema
+ */
+
+import { z } from 'zod'
+import { parseCoordinates } from '@/lib/geo'
+import type { DayHours, Json, OpeningHours, Store } from '@/types'
+
+/**
+ * Días de la semana en el orden en que se muestran
+ */
+export const WEEK_DAYS = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+] as const satisfies readonly (keyof OpeningHours)[]
+
+export type WeekDay = (typeof WEEK_DAYS)[number]
+
+export const WEEK_DAY_LABELS: Record<WeekDay, string> = {
+  monday: 'Lunes',
+  tuesday: 'Martes',
+  wednesday: 'Miércoles',
+  thursday: 'Jueves',
+  friday: 'Viernes',
+  saturday: 'Sábado',
+  sunday: 'Domingo',
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+/**
+ * Horario de un día: `open` y `close` en formato "HH:MM"
+ *
+ * Si el día está cerrado no se validan los horarios.
+ */
+export const dayHoursSchema = z
+  .object({
+    open: z.string(),
+    close: z.string(),
+    closed: z.boolean(),
+  })
+  .superRefine((day, ctx) => {
+    if (day.closed) return
+
+    if (!TIME_PATTERN.test(day.open)) {
+      ctx.addIssue({ code: 'custom', path: ['open'], message: 'Formato HH:MM' })
+    }
+    if (!TIME_PATTERN.test(day.close)) {
+      ctx.addIssue({ code: 'custom', path: ['close'], message: 'Formato HH:MM' })
+    }
+    // "HH:MM" se compara bien como texto
+    if (TIME_PATTERN.test(day.open) && TIME_PATTERN.test(day.close) && day.close <= day.open) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['close'],
+        message: 'El cierre debe ser posterior a la apertura',
+      })
+    }
+  })
+
+export const openingHoursSchema = z.object(
+  Object.fromEntries(WEEK_DAYS.map((day) => [day, dayHoursSchema])) as Record<
+    WeekDay,
+    typeof dayHoursSchema
+  >
+)
+
+export const storeFormSchema = z.object({
+  name: z.string().trim().min(2, 'Ingresa el nombre del comercio'),
+  slug: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Solo minúsculas, números y guiones'),
+  category: z.string().trim().min(2, 'Ingresa la categoría'),
+  description: z.string().trim().max(500, 'Máximo 500 caracteres'),
+  phone: z
+    .string()
+    .trim()
+    .regex(/^\+?[0-9\s-]{7,20}$/, 'Ingresa un teléfono válido'),
+  email: z.union([z.literal(''), z.email('Ingresa un email válido')]),
+  address: z.string().trim().min(5, 'Ingresa la dirección'),
+  lat: z.number().min(-90).max(90).nullable(),
+  lng: z.number().min(-180).max(180).nullable(),
+  delivery_fee: z.number({ error: 'Ingresa un monto' }).min(0, 'No puede ser negativo'),
+  min_order_amount: z.number().min(0, 'No puede ser negativo').nullable(),
+  /** Porcentaje (0 a 100); null usa la comisión por defecto */
+  commission_rate: z
+    .number()
+    .min(0, 'No puede ser negativo')
+    .max(100, 'Máximo 100%')
+    .nullable(),
+  is_active: z.boolean(),
+  opening_hours: openingHoursSchema,
+})
+
+export type StoreFormValues = z.infer<typeof storeFormSchema>
+export type OpeningHoursFormValues = z.infer<typeof openingHoursSchema>
+
+const DEFAULT_DAY: Required<DayHours> = { open: '09:00', close: '18:00', closed: false }
+
+/**
+ * Valores iniciales del formulario de alta
+ */
+export const EMPTY_STORE_FORM: StoreFormValues = {
+  name: '',
+  slug: '',
+  category: '',
+  description: '',
+  phone: '',
+  email: '',
+  address: '',
+  lat: null,
+  lng: null,
+  delivery_fee: 0,
+  min_order_amount: null,
+  commission_rate: null,
+  is_active: true,
+  opening_hours: Object.fromEntries(
+    WEEK_DAYS.map((day) => [day, { ...DEFAULT_DAY, closed: day === 'sunday' }])
+  ) as OpeningHoursFormValues,
+}
+
+/**
+ * Genera un slug a partir del nombre del comercio
+ *
+ * @param name - Nombre del comercio
+ * @returns Slug en minúsculas sin acentos (ej: "Café Ñandú" → "cafe-nandu")
+ */
+export function slugify(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Lee `stores.opening_hours` completando los días faltantes como cerrados
+ *
+ * @param value - Valor de la columna `opening_hours`
+ * @returns Horario con los 7 días
+ */
+export function parseOpeningHours(value: Json | null | undefined): OpeningHoursFormValues {
+  const source =
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, Partial<DayHours> | undefined>)
+      : {}
+
+  return Object.fromEntries(
+    WEEK_DAYS.map((day) => {
+      const hours = source[day]
+      return [
+        day,
+        hours
+          ? {
+              open: hours.open ?? DEFAULT_DAY.open,
+              close: hours.close ?? DEFAULT_DAY.close,
+              closed: hours.closed ?? false,
+            }
+          : { ...DEFAULT_DAY, closed: true },
+      ]
+    })
+  ) as OpeningHoursFormValues
+}
+
+/**
+ * Convierte un comercio en valores del formulario de edición
+ *
+ * @param store - Comercio a editar
+ * @returns Valores del formulario
+ */
+export function storeToFormValues(store: Store): StoreFormValues {
+  const location = parseCoordinates(store.location)
+
+  return {
+    name: store.name,
+    slug: store.slug,
+    category: store.category,
+    description: store.description ?? '',
+    phone: store.phone,
+    email: store.email ?? '',
+    address: store.address,
+    lat: location?.lat ?? null,
+    lng: location?.lng ?? null,
+    delivery_fee: store.delivery_fee,
+    min_order_amount: store.min_order_amount,
+    commission_rate:
+      store.commission_rate === null ? null : Math.round(store.commission_rate * 10000) / 100,
+    is_active: store.is_active,
+    opening_hours: parseOpeningHours(store.opening_hours),
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Estadísticas de Comercios - PideAI Admin
+ *
+ * Calcula las métricas de un comercio a partir de sus productos y pedidos.
+ *
+ * @module lib/stores/stats
+ */
+
+import { ACTIVE_ORDER_STATUSES } from '@/lib/orders/state-machine'
+import type { Order, Store, StoreWithStats } from '@/types'
+
+/**
+ * Combina un comercio con las métricas calculadas
+ *
+ * Los ingresos del día son la suma de `total_amount` de los pedidos
+ * entregados desde el inicio del día.
+ *
+ * @param store - Comercio
+ * @param totalProducts - Cantidad de productos del comercio
+ * @param orders - Pedidos activos del comercio y entregados hoy
+ * @param startOfToday - Inicio del día de referencia
+ * @returns Comercio con estadísticas
+ */
+export function buildStoreStats(
+  store: Store,
+  totalProducts: number,
+  orders: Pick<Order, 'status' | 'total_amount' | 'delivered_at'>[],
+  startOfToday: Date
+): StoreWithStats {
+  return {
+    ...store,
+    total_products: totalProducts,
+    active_orders: orders.filter((order) => ACTIVE_ORDER_STATUSES.includes(order.status)).length,
+    revenue_today: orders
+      .filter(
+        (order) =>
+          order.status === 'delivered' &&
+          order.delivered_at !== null &&
+          new Date(order.delivered_at) >= startOfToday
+      )
+      .reduce((sum, order) => sum + order.total_amount, 0),
+  }
+}
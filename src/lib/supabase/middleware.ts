@@ -6,11 +6,11 @@
  *
  * @module lib/supabase/middleware
  *
- * Uso en middleware.ts en la raíz del proyecto:
+ * Uso en src/proxy.ts (el middleware de Next.js, renombrado a proxy en Next 16):
  * ```tsx
  * import { updateSession } from '@/lib/supabase/middleware'
  *
- * export async function middleware(request: NextRequest) {
+ * export async function proxy(request: NextRequest) {
  *   return await updateSession(request)
  * }
  *
@@ -27,6 +27,7 @@
  * - Redirige a login si el usuario no está autenticado
  * - Maneja cookies de forma segura
  * - Permite acceso público a rutas específicas
+ * - Aplica el permiso requerido por cada ruta (ver `lib/auth/access`)
  *
  * Principios SOLID aplicados:
  * - Single Responsibility: Solo maneja la autenticación en el middleware
@@ -41,6 +42,10 @@
 
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
+import { getRequiredPermission } from '@/lib/auth/access'
+import { can } from '@/lib/auth/permissions'
+import { getUserAccess } from '@/lib/api/permissions'
+import type { ApiError } from '@/types'
 
 /**
  * Lista de rutas públicas que no requieren autenticación
@@ -52,6 +57,13 @@ import { NextResponse, type NextRequest } from 'next/server'
  */
 const PUBLIC_ROUTES = ['/login', '/signup', '/forgot-password', '/reset-password']
 
+/**
+ * Página que se muestra cuando el usuario no tiene permiso para ver una ruta
+ *
+ * @constant
+ */
+const FORBIDDEN_ROUTE = '/forbidden'
+
 /**
  * Actualiza la sesión del usuario y protege rutas autenticadas
  *
@@ -62,7 +74,8 @@ const PUBLIC_ROUTES = ['/login', '/signup', '/forgot-password', '/reset-password
  * 1. Crea un cliente de Supabase para el middleware
  * 2. Intenta obtener el usuario actual de la sesión
  * 3. Si el usuario no existe y la ruta no es pública, redirige a /login
- * 4. Si el usuario existe, permite el acceso
+ * 4. Si el usuario existe, lee su rol y sus permisos y verifica que tenga
+ *    un rol del panel y el permiso de la ruta; si no, responde 403
  * 5. Actualiza las cookies de sesión si es necesario
  *
  * @param {NextRequest} request - El request de Next.js
@@ -73,7 +86,7 @@ const PUBLIC_ROUTES = ['/login', '/signup', '/forgot-password', '/reset-password
  * // En middleware.ts
  * import { updateSession } from '@/lib/supabase/middleware'
  *
- * export async function middleware(request: NextRequest) {
+ * export async function proxy(request: NextRequest) {
  *   return await updateSession(request)
  * }
  * ```
@@ -191,6 +204,36 @@ export async function updateSession(request: NextRequest) {
     return NextResponse.redirect(url)
   }
 
+  /**
+   * Verificar los permisos del usuario contra los de la ruta
+   *
+   * El rol se lee de `profiles` y no de `user_metadata`, que el propio
+   * usuario puede modificar; sus permisos, de `role_permissions`. Las Server
+   * Actions llegan como POST a la ruta de la página, así que también pasan
+   * por esta verificación.
+   */
+  if (user && !isPublicRoute) {
+    const { pathname } = request.nextUrl
+    const requiredPermission = getRequiredPermission(pathname, request.method)
+    const { role, permissions } = await getUserAccess(user.id, supabase)
+
+    if (!role || (requiredPermission && !can(permissions, requiredPermission))) {
+      if (pathname.startsWith('/api/')) {
+        const body: ApiError = {
+          error: 'FORBIDDEN',
+          message: 'No tienes permisos para realizar esta acción',
+          statusCode: 403,
+        }
+        return NextResponse.json(body, { status: 403 })
+      }
+
+      // Las páginas muestran el aviso de acceso denegado sin cambiar la URL
+      const url = request.nextUrl.clone()
+      url.pathname = FORBIDDEN_ROUTE
+      return NextResponse.rewrite(url, { status: 403 })
+    }
+  }
+
   /**
    * Retornar la respuesta con las cookies actualizadas
    *
@@ -200,41 +243,3 @@ export async function updateSession(request: NextRequest) {
    */
   return supabaseResponse
 }
-
-/**
- * Verifica si un usuario tiene un rol específico
- *
- * Esta función de utilidad puede ser usada en middleware personalizado
- * o en Server Components para verificar permisos.
- *
- * @param {object} user - El objeto de usuario de Supabase
- * @param {string} requiredRole - El rol requerido ('admin', 'sub-admin', 'soporte')
- * @returns {boolean} true si el usuario tiene el rol requerido
- *
- * @example
- * ```tsx
- * const user = await supabase.auth.getUser()
- * if (hasRole(user.data.user, 'admin')) {
- *   // Usuario es admin
- * }
- * ```
- *
- * Nota: Esta es una verificación básica. Para una verificación más robusta,
- * deberías consultar la tabla 'profiles' en la base de datos.
- */
-export function hasRole(user: any, requiredRole: string): boolean {
-  if (!user) return false
-
-  // El rol se almacena en user_metadata o en app_metadata
-  // dependiendo de cómo lo configures en Supabase
-  const userRole = user.user_metadata?.role || user.app_metadata?.role
-
-  // Jerarquía de roles
-  const roleHierarchy: Record<string, number> = {
-    admin: 3,
-    'sub-admin': 2,
-    soporte: 1,
-  }
-
-  return roleHierarchy[userRole] >= roleHierarchy[requiredRole]
-}
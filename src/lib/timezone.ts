@@ -0,0 +1,123 @@
+/**
+ * Zonas Horarias - PideAI Admin
+ *
+ * Días y horas en una zona horaria concreta, sin depender de la zona del
+ * proceso (el servidor suele correr en UTC). Los límites que definen qué
+ * pedidos entran en un día o período (ej: "entregados hoy", un período de
+ * liquidación) se calculan en la zona del negocio; los reportes que se
+ * comparan con la pantalla usan la zona del navegador.
+ *
+ * @module lib/timezone
+ */
+
+/**
+ * Indica si una zona horaria IANA es válida (ej: 'America/Caracas')
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Zona horaria del proceso (en el navegador, la del usuario)
+ */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+/**
+ * Zona horaria del negocio (`NEXT_PUBLIC_BUSINESS_TIME_ZONE`, UTC si falta o
+ * no es válida)
+ */
+export const BUSINESS_TIME_ZONE = (() => {
+  const timeZone = process.env.NEXT_PUBLIC_BUSINESS_TIME_ZONE
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : 'UTC'
+})()
+
+/**
+ * Fecha y hora de un instante en una zona horaria
+ */
+function zonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value)
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  }
+}
+
+/**
+ * Diferencia en milisegundos entre la hora local de la zona y UTC
+ */
+function timeZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = zonedParts(date, timeZone)
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/**
+ * Día (`yyyy-MM-dd`) de un instante en una zona horaria
+ */
+export function zonedDay(date: Date, timeZone: string = BUSINESS_TIME_ZONE): string {
+  const { year, month, day } = zonedParts(date, timeZone)
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Fecha y hora (`yyyy-MM-dd HH:mm`) de un instante en una zona horaria
+ */
+export function formatZonedDateTime(date: Date, timeZone: string = BUSINESS_TIME_ZONE): string {
+  const { hour, minute } = zonedParts(date, timeZone)
+  return `${zonedDay(date, timeZone)} ${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`
+}
+
+/**
+ * Hora (0 a 23) de un instante en una zona horaria
+ */
+export function zonedHour(date: Date, timeZone: string = BUSINESS_TIME_ZONE): number {
+  return zonedParts(date, timeZone).hour
+}
+
+/**
+ * Instante en que empieza un día en una zona horaria
+ *
+ * @param day - Día `yyyy-MM-dd`
+ * @param timeZone - Zona horaria IANA
+ * @returns Inicio del día (00:00 en la zona)
+ */
+export function zonedStartOfDay(day: string, timeZone: string = BUSINESS_TIME_ZONE): Date {
+  const midnightUtc = Date.parse(`${day}T00:00:00Z`)
+  const guess = midnightUtc - timeZoneOffset(new Date(midnightUtc), timeZone)
+  // Si entre medio hay un cambio de horario, el desfase del resultado manda
+  return new Date(midnightUtc - timeZoneOffset(new Date(guess), timeZone))
+}
+
+/**
+ * Último instante de un día en una zona horaria
+ *
+ * @param day - Día `yyyy-MM-dd`
+ * @param timeZone - Zona horaria IANA
+ * @returns Fin del día (23:59:59.999 en la zona)
+ */
+export function zonedEndOfDay(day: string, timeZone: string = BUSINESS_TIME_ZONE): Date {
+  const nextDay = new Date(Date.parse(`${day}T00:00:00Z`) + 24 * 60 * 60 * 1000)
+  return new Date(zonedStartOfDay(nextDay.toISOString().slice(0, 10), timeZone).getTime() - 1)
+}
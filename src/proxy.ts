@@ -1,14 +1,16 @@
 /**
- * Middleware principal de Next.js para PideAI Admin
+ * Proxy principal de Next.js para PideAI Admin
  *
- * Este archivo configura el middleware que se ejecuta antes de cada request.
- * Actualmente se encarga de:
+ * Este archivo configura el proxy (antes llamado middleware) que se ejecuta
+ * antes de cada request. Next.js solo lo carga desde `src/proxy.ts` porque
+ * la app vive en `src/`. Actualmente se encarga de:
  * - Verificar la autenticación del usuario
  * - Actualizar la sesión de Supabase
  * - Proteger rutas que requieren autenticación
  * - Redirigir usuarios no autenticados a /login
+ * - Aplicar el permiso requerido por cada ruta (ver `lib/auth/access`)
  *
- * @see https://nextjs.org/docs/app/building-your-application/routing/middleware
+ * @see https://nextjs.org/docs/app/api-reference/file-conventions/proxy
  *
  * Principios SOLID aplicados:
  * - Single Responsibility: Delega la lógica de autenticación a updateSession
@@ -19,28 +21,28 @@ import { type NextRequest } from 'next/server'
 import { updateSession } from '@/lib/supabase/middleware'
 
 /**
- * Función de middleware que se ejecuta en cada request
+ * Función de proxy que se ejecuta en cada request
  *
  * @param {NextRequest} request - El request de Next.js
  * @returns {Promise<NextResponse>} La respuesta procesada
  */
-export async function middleware(request: NextRequest) {
+export async function proxy(request: NextRequest) {
   return await updateSession(request)
 }
 
 /**
- * Configuración del matcher para el middleware
+ * Configuración del matcher para el proxy
  *
- * Define en qué rutas se ejecutará el middleware.
+ * Define en qué rutas se ejecutará el proxy.
  * Actualmente se ejecuta en todas las rutas excepto:
  * - Archivos estáticos de Next.js (_next/static)
  * - Imágenes de Next.js (_next/image)
  * - Favicon
  * - Archivos de imagen (svg, png, jpg, jpeg, gif, webp)
  *
- * Esto optimiza el rendimiento al no ejecutar el middleware en archivos estáticos.
+ * Esto optimiza el rendimiento al no ejecutar el proxy en archivos estáticos.
  *
- * @see https://nextjs.org/docs/app/building-your-application/routing/middleware#matcher
+ * @see https://nextjs.org/docs/app/api-reference/file-conventions/proxy#matcher
  */
 export const config = {
   matcher: [
@@ -103,6 +103,16 @@ export interface Database {
           picked_up_at: string | null
           delivered_at: string | null
           cancelled_at: string | null
+          cancellation_reason:
+            | 'customer_no_show'
+            | 'store_closed'
+            | 'no_rider'
+            | 'duplicate'
+            | 'fraud'
+            | null
+          cancellation_comment: string | null
+          cancellation_refund: boolean | null
+          cancelled_by: string | null
         }
         Insert: {
           id?: string
@@ -125,6 +135,16 @@ export interface Database {
           picked_up_at?: string | null
           delivered_at?: string | null
           cancelled_at?: string | null
+          cancellation_reason?:
+            | 'customer_no_show'
+            | 'store_closed'
+            | 'no_rider'
+            | 'duplicate'
+            | 'fraud'
+            | null
+          cancellation_comment?: string | null
+          cancellation_refund?: boolean | null
+          cancelled_by?: string | null
         }
         Update: {
           id?: string
@@ -147,6 +167,16 @@ export interface Database {
           picked_up_at?: string | null
           delivered_at?: string | null
           cancelled_at?: string | null
+          cancellation_reason?:
+            | 'customer_no_show'
+            | 'store_closed'
+            | 'no_rider'
+            | 'duplicate'
+            | 'fraud'
+            | null
+          cancellation_comment?: string | null
+          cancellation_refund?: boolean | null
+          cancelled_by?: string | null
         }
         Relationships: [
           {
@@ -162,6 +192,13 @@ export interface Database {
             isOneToOne: false
             referencedRelation: 'stores'
             referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'orders_cancelled_by_fkey'
+            columns: ['cancelled_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
           }
         ]
       }
@@ -245,6 +282,7 @@ export interface Database {
           is_active: boolean
           delivery_fee: number
           min_order_amount: number | null
+          commission_rate: number | null // null = comisión por defecto (store_billing_settings)
           opening_hours: Json | null // { monday: { open: "09:00", close: "18:00" }, ... }
           rating: number | null
           total_orders: number
@@ -266,6 +304,7 @@ export interface Database {
           is_active?: boolean
           delivery_fee?: number
           min_order_amount?: number | null
+          commission_rate?: number | null
           opening_hours?: Json | null
           rating?: number | null
           total_orders?: number
@@ -287,6 +326,7 @@ export interface Database {
           is_active?: boolean
           delivery_fee?: number
           min_order_amount?: number | null
+          commission_rate?: number | null
           opening_hours?: Json | null
           rating?: number | null
           total_orders?: number
@@ -415,6 +455,7 @@ export interface Database {
         Row: {
           id: string
           order_id: string
+          previous_status: 'pending' | 'assigned' | 'in_transit' | 'delivered' | 'cancelled' | null
           status: 'pending' | 'assigned' | 'in_transit' | 'delivered' | 'cancelled'
           notes: string | null
           changed_by: string | null
@@ -423,6 +464,7 @@ export interface Database {
         Insert: {
           id?: string
           order_id: string
+          previous_status?: 'pending' | 'assigned' | 'in_transit' | 'delivered' | 'cancelled' | null
           status: 'pending' | 'assigned' | 'in_transit' | 'delivered' | 'cancelled'
           notes?: string | null
           changed_by?: string | null
@@ -431,6 +473,7 @@ export interface Database {
         Update: {
           id?: string
           order_id?: string
+          previous_status?: 'pending' | 'assigned' | 'in_transit' | 'delivered' | 'cancelled' | null
           status?: 'pending' | 'assigned' | 'in_transit' | 'delivered' | 'cancelled'
           notes?: string | null
           changed_by?: string | null
@@ -443,6 +486,13 @@ export interface Database {
             isOneToOne: false
             referencedRelation: 'orders'
             referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'order_status_history_changed_by_fkey'
+            columns: ['changed_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
           }
         ]
       }
@@ -457,6 +507,7 @@ export interface Database {
           key: string
           value: Json
           description: string | null
+          required_role: 'admin' | 'sub-admin' | 'soporte'
           updated_at: string
           updated_by: string | null
         }
@@ -465,6 +516,7 @@ export interface Database {
           key: string
           value: Json
           description?: string | null
+          required_role?: 'admin' | 'sub-admin' | 'soporte'
           updated_at?: string
           updated_by?: string | null
         }
@@ -473,17 +525,825 @@ export interface Database {
           key?: string
           value?: Json
           description?: string | null
+          required_role?: 'admin' | 'sub-admin' | 'soporte'
           updated_at?: string
           updated_by?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: 'app_config_updated_by_fkey'
+            columns: ['updated_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      /**
+       * Tabla de versiones de app_config
+       * Una fila por cada cambio de valor, con el valor anterior y el nuevo
+       */
+      app_config_history: {
+        Row: {
+          id: string
+          config_key: string
+          version: number
+          old_value: Json | null
+          new_value: Json
+          rolled_back_from: string | null
+          changed_by: string | null
+          changed_at: string
+        }
+        Insert: {
+          id?: string
+          config_key: string
+          version: number
+          old_value?: Json | null
+          new_value: Json
+          rolled_back_from?: string | null
+          changed_by?: string | null
+          changed_at?: string
+        }
+        Update: {
+          id?: string
+          config_key?: string
+          version?: number
+          old_value?: Json | null
+          new_value?: Json
+          rolled_back_from?: string | null
+          changed_by?: string | null
+          changed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'app_config_history_changed_by_fkey'
+            columns: ['changed_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'app_config_history_rolled_back_from_fkey'
+            columns: ['rolled_back_from']
+            isOneToOne: false
+            referencedRelation: 'app_config_history'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      /**
+       * Tabla de auditoría
+       * Una fila por cambio hecho desde el panel, escrita por triggers
+       */
+      audit_log: {
+        Row: {
+          id: string
+          actor_id: string | null
+          actor_role: 'admin' | 'sub-admin' | 'soporte' | null
+          action: string
+          entity_type: string
+          entity_id: string
+          before: Json | null
+          after: Json | null
+          ip: string | null
+          forwarded_for: string | null
+          user_agent: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          actor_id?: string | null
+          actor_role?: 'admin' | 'sub-admin' | 'soporte' | null
+          action: string
+          entity_type: string
+          entity_id: string
+          before?: Json | null
+          after?: Json | null
+          ip?: string | null
+          forwarded_for?: string | null
+          user_agent?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          actor_id?: string | null
+          actor_role?: 'admin' | 'sub-admin' | 'soporte' | null
+          action?: string
+          entity_type?: string
+          entity_id?: string
+          before?: Json | null
+          after?: Json | null
+          ip?: string | null
+          forwarded_for?: string | null
+          user_agent?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'audit_log_actor_id_fkey'
+            columns: ['actor_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      /**
+       * Tabla de vistas guardadas del listado de pedidos
+       * Filtros, orden, columnas y tamaño de página con nombre; propias o compartidas
+       */
+      order_saved_views: {
+        Row: {
+          id: string
+          owner_id: string
+          name: string
+          filters: Json
+          sort_field: 'created_at' | 'total_amount'
+          sort_direction: 'asc' | 'desc'
+          columns: string[]
+          page_size: number
+          is_shared: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          owner_id?: string
+          name: string
+          filters?: Json
+          sort_field?: 'created_at' | 'total_amount'
+          sort_direction?: 'asc' | 'desc'
+          columns: string[]
+          page_size?: number
+          is_shared?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          owner_id?: string
+          name?: string
+          filters?: Json
+          sort_field?: 'created_at' | 'total_amount'
+          sort_direction?: 'asc' | 'desc'
+          columns?: string[]
+          page_size?: number
+          is_shared?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'order_saved_views_owner_id_fkey'
+            columns: ['owner_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      /**
+       * Tabla de vista por defecto del listado de pedidos (una por usuario)
+       */
+      order_view_defaults: {
+        Row: {
+          user_id: string
+          view_id: string
+          updated_at: string
+        }
+        Insert: {
+          user_id?: string
+          view_id: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          view_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'order_view_defaults_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: true
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'order_view_defaults_view_id_fkey'
+            columns: ['view_id']
+            isOneToOne: false
+            referencedRelation: 'order_saved_views'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      /**
+       * Tabla de permisos por rol
+       * Una fila por permiso asignado; admin tiene todos y no figura aquí
+       */
+      role_permissions: {
+        Row: {
+          role: 'admin' | 'sub-admin' | 'soporte'
+          permission: string
+          granted_by: string | null
+          granted_at: string
+        }
+        Insert: {
+          role: 'admin' | 'sub-admin' | 'soporte'
+          permission: string
+          granted_by?: string | null
+          granted_at?: string
+        }
+        Update: {
+          role?: 'admin' | 'sub-admin' | 'soporte'
+          permission?: string
+          granted_by?: string | null
+          granted_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'role_permissions_granted_by_fkey'
+            columns: ['granted_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      /**
+       * Tabla de decisiones del despacho automático
+       * Guarda el desglose de cada asignación automática o sugerida
+       */
+      dispatch_decisions: {
+        Row: {
+          id: string
+          order_id: string
+          rider_id: string | null
+          mode: 'auto' | 'suggested'
+          score: number
+          factors: Json
+          candidates: Json
+          settings: Json
+          decided_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          rider_id?: string | null
+          mode: 'auto' | 'suggested'
+          score: number
+          factors: Json
+          candidates?: Json
+          settings: Json
+          decided_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          rider_id?: string | null
+          mode?: 'auto' | 'suggested'
+          score?: number
+          factors?: Json
+          candidates?: Json
+          settings?: Json
+          decided_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'dispatch_decisions_order_id_fkey'
+            columns: ['order_id']
+            isOneToOne: false
+            referencedRelation: 'orders'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'dispatch_decisions_rider_id_fkey'
+            columns: ['rider_id']
+            isOneToOne: false
+            referencedRelation: 'riders'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      /**
+       * Tabla de historial de ubicaciones de riders
+       * Se llena con un trigger al cambiar riders.current_location
+       */
+      rider_locations: {
+        Row: {
+          id: number
+          rider_id: string
+          location: Json // { lat: number, lng: number }
+          recorded_at: string
+        }
+        Insert: {
+          id?: never
+          rider_id: string
+          location: Json
+          recorded_at?: string
+        }
+        Update: {
+          id?: never
+          rider_id?: string
+          location?: Json
+          recorded_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'rider_locations_rider_id_fkey'
+            columns: ['rider_id']
+            isOneToOne: false
+            referencedRelation: 'riders'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      /**
+       * Tabla de liquidaciones de riders
+       * Un registro por rider y período cerrado, con los totales y las reglas usadas
+       */
+      rider_settlements: {
+        Row: {
+          id: string
+          rider_id: string
+          period_start: string
+          period_end: string
+          deliveries: number
+          gross_fees: number
+          commission: number
+          bonuses: number
+          adjustments: number
+          total: number
+          settings: Json
+          notes: string | null
+          settled_by: string | null
+          settled_at: string
+        }
+        Insert: {
+          id?: string
+          rider_id: string
+          period_start: string
+          period_end: string
+          deliveries?: number
+          gross_fees?: number
+          commission?: number
+          bonuses?: number
+          adjustments?: number
+          total?: number
+          settings: Json
+          notes?: string | null
+          settled_by?: string | null
+          settled_at?: string
+        }
+        Update: {
+          id?: string
+          rider_id?: string
+          period_start?: string
+          period_end?: string
+          deliveries?: number
+          gross_fees?: number
+          commission?: number
+          bonuses?: number
+          adjustments?: number
+          total?: number
+          settings?: Json
+          notes?: string | null
+          settled_by?: string | null
+          settled_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'rider_settlements_rider_id_fkey'
+            columns: ['rider_id']
+            isOneToOne: false
+            referencedRelation: 'riders'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      /**
+       * Tabla de entregas incluidas en cada liquidación de rider
+       * Guarda el desglose pagado por cada pedido al cerrar el período
+       */
+      rider_settlement_orders: {
+        Row: {
+          settlement_id: string
+          order_id: string
+          order_number: string
+          store_name: string
+          is_urgent: boolean
+          delivered_at: string
+          fee: number
+          commission: number
+          bonus: number
+          earning: number
+        }
+        Insert: {
+          settlement_id: string
+          order_id: string
+          order_number: string
+          store_name: string
+          is_urgent?: boolean
+          delivered_at: string
+          fee: number
+          commission: number
+          bonus: number
+          earning: number
+        }
+        Update: {
+          settlement_id?: string
+          order_id?: string
+          order_number?: string
+          store_name?: string
+          is_urgent?: boolean
+          delivered_at?: string
+          fee?: number
+          commission?: number
+          bonus?: number
+          earning?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'rider_settlement_orders_settlement_id_fkey'
+            columns: ['settlement_id']
+            isOneToOne: false
+            referencedRelation: 'rider_settlements'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'rider_settlement_orders_order_id_fkey'
+            columns: ['order_id']
+            isOneToOne: true
+            referencedRelation: 'orders'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      /**
+       * Tabla de ajustes manuales de riders (bonos y descuentos)
+       * `settlement_id` se completa al liquidar el período
+       */
+      rider_adjustments: {
+        Row: {
+          id: string
+          rider_id: string
+          effective_date: string
+          kind: 'bonus' | 'deduction'
+          amount: number
+          reason: string
+          settlement_id: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          rider_id: string
+          effective_date: string
+          kind: 'bonus' | 'deduction'
+          amount: number
+          reason: string
+          settlement_id?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          rider_id?: string
+          effective_date?: string
+          kind?: 'bonus' | 'deduction'
+          amount?: number
+          reason?: string
+          settlement_id?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'rider_adjustments_rider_id_fkey'
+            columns: ['rider_id']
+            isOneToOne: false
+            referencedRelation: 'riders'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'rider_adjustments_settlement_id_fkey'
+            columns: ['settlement_id']
+            isOneToOne: false
+            referencedRelation: 'rider_settlements'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      /**
+       * Tabla de estados de cuenta de comercios
+       * Un registro por comercio y período; los montos quedan fijos al emitirse
+       */
+      store_statements: {
+        Row: {
+          id: string
+          statement_number: string
+          store_id: string
+          period_start: string
+          period_end: string
+          status: 'draft' | 'issued' | 'paid'
+          orders_count: number
+          gross_sales: number
+          commission_rate: number
+          commission: number
+          delivery_fees: number
+          net_payable: number
+          notes: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+          issued_at: string | null
+          paid_at: string | null
+        }
+        Insert: {
+          id?: string
+          statement_number?: string
+          store_id: string
+          period_start: string
+          period_end: string
+          status?: 'draft' | 'issued' | 'paid'
+          orders_count?: number
+          gross_sales?: number
+          commission_rate: number
+          commission?: number
+          delivery_fees?: number
+          net_payable?: number
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          issued_at?: string | null
+          paid_at?: string | null
+        }
+        Update: {
+          id?: string
+          statement_number?: string
+          store_id?: string
+          period_start?: string
+          period_end?: string
+          status?: 'draft' | 'issued' | 'paid'
+          orders_count?: number
+          gross_sales?: number
+          commission_rate?: number
+          commission?: number
+          delivery_fees?: number
+          net_payable?: number
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          issued_at?: string | null
+          paid_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'store_statements_store_id_fkey'
+            columns: ['store_id']
+            isOneToOne: false
+            referencedRelation: 'stores'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      /**
+       * Tabla de pedidos incluidos en cada estado de cuenta emitido
+       * Guarda el desglose facturado por cada pedido al emitir
+       */
+      store_statement_orders: {
+        Row: {
+          statement_id: string
+          order_id: string
+          order_number: string
+          delivered_at: string
+          sales: number
+          commission: number
+          delivery_fee: number
+          net: number
+        }
+        Insert: {
+          statement_id: string
+          order_id: string
+          order_number: string
+          delivered_at: string
+          sales: number
+          commission: number
+          delivery_fee: number
+          net: number
+        }
+        Update: {
+          statement_id?: string
+          order_id?: string
+          order_number?: string
+          delivered_at?: string
+          sales?: number
+          commission?: number
+          delivery_fee?: number
+          net?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'store_statement_orders_statement_id_fkey'
+            columns: ['statement_id']
+            isOneToOne: false
+            referencedRelation: 'store_statements'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'store_statement_orders_order_id_fkey'
+            columns: ['order_id']
+            isOneToOne: false
+            referencedRelation: 'orders'
+            referencedColumns: ['id']
+          }
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      /**
+       * Asigna un pedido a un rider en una sola transacción
+       * Retorna { success, error_code? }
+       */
+      assign_order_to_rider: {
+        Args: {
+          p_order_id: string
+          p_rider_id: string
+        }
+        Returns: Json
+      }
+      /**
+       * Cancela un pedido con un motivo del catálogo y libera al rider en una
+       * sola transacción
+       * Retorna { success, error_code? }
+       */
+      cancel_order: {
+        Args: {
+          p_order_id: string
+          p_reason: string
+          p_comment?: string | null
+          p_refund?: boolean
+        }
+        Returns: Json
+      }
+      /**
+       * Registra un cambio de estado con el usuario actual como changed_by
+       */
+      log_order_status_change: {
+        Args: {
+          p_order_id: string
+          p_previous_status: Database['public']['Enums']['order_status'] | null
+          p_status: Database['public']['Enums']['order_status']
+          p_notes?: string | null
+          p_changed_at?: string
+        }
+        Returns: undefined
+      }
+      /**
+       * Libera al rider si no le quedan pedidos activos
+       */
+      release_rider_if_idle: {
+        Args: {
+          p_rider_id: string
+          p_excluding_order_id: string
+          p_now?: string
+        }
+        Returns: undefined
+      }
+      /**
+       * Marca un pedido como recogido (assigned → in_transit)
+       * Retorna { success, error_code? }
+       */
+      mark_order_picked_up: {
+        Args: {
+          p_order_id: string
+          p_notes?: string | null
+        }
+        Returns: Json
+      }
+      /**
+       * Marca un pedido como entregado y libera al rider
+       * Retorna { success, error_code? }
+       */
+      mark_order_delivered: {
+        Args: {
+          p_order_id: string
+          p_notes?: string | null
+        }
+        Returns: Json
+      }
+      /**
+       * Cambia el rider de un pedido activo sin cambiar su estado
+       * Retorna { success, error_code? }
+       */
+      reassign_order: {
+        Args: {
+          p_order_id: string
+          p_rider_id: string
+          p_notes?: string | null
+        }
+        Returns: Json
+      }
+      /**
+       * Devuelve un pedido asignado a pending y libera al rider
+       * Retorna { success, error_code? }
+       */
+      unassign_order: {
+        Args: {
+          p_order_id: string
+          p_notes?: string | null
+        }
+        Returns: Json
+      }
+      /**
+       * Activa o desactiva un rider (falla si tiene pedidos activos)
+       * Retorna { success, error_code? }
+       */
+      set_rider_active: {
+        Args: {
+          p_rider_id: string
+          p_is_active: boolean
+        }
+        Returns: Json
+      }
+      /**
+       * Suma o resta unidades al stock de un producto (sin dejarlo negativo)
+       * Retorna { success, error_code?, stock? }
+       */
+      adjust_product_stock: {
+        Args: {
+          p_product_id: string
+          p_delta: number
+        }
+        Returns: Json
+      }
+      /**
+       * Crea y actualiza productos de un comercio en una sola transacción
+       * Retorna { success, error_code?, created?, updated? }
+       */
+      import_products: {
+        Args: {
+          p_store_id: string
+          p_rows: Json
+        }
+        Returns: Json
+      }
+      /**
+       * Cierra la liquidación de un rider para un período (calcula los totales)
+       * Retorna { success, error_code?, settlement_id?, total? }
+       */
+      settle_rider_period: {
+        Args: {
+          p_rider_id: string
+          p_period_start: string
+          p_period_end: string
+          p_time_zone: string
+          p_notes?: string | null
+        }
+        Returns: Json
+      }
+      /**
+       * Emite el estado de cuenta de un comercio para un período (calcula los totales)
+       * Retorna { success, error_code?, statement_id? }
+       */
+      issue_store_statement: {
+        Args: {
+          p_store_id: string
+          p_period_start: string
+          p_period_end: string
+          p_time_zone: string
+          p_notes?: string | null
+        }
+        Returns: Json
+      }
+      /**
+       * Restaura el valor de una versión anterior de app_config (solo admin)
+       * Retorna { success, error_code? }
+       */
+      rollback_app_config: {
+        Args: {
+          p_history_id: string
+        }
+        Returns: Json
+      }
+      /**
+       * Indica si el usuario autenticado tiene un permiso (admin los tiene todos)
+       */
+      has_permission: {
+        Args: {
+          p_permission: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       order_status: 'pending' | 'assigned' | 'in_transit' | 'delivered' | 'cancelled'
@@ -34,6 +34,18 @@ export type Product = Database['public']['Tables']['products']['Row']
 export type OrderItem = Database['public']['Tables']['order_items']['Row']
 export type OrderStatusHistory = Database['public']['Tables']['order_status_history']['Row']
 export type AppConfig = Database['public']['Tables']['app_config']['Row']
+export type AppConfigHistory = Database['public']['Tables']['app_config_history']['Row']
+export type RolePermission = Database['public']['Tables']['role_permissions']['Row']
+export type AuditLog = Database['public']['Tables']['audit_log']['Row']
+export type OrderSavedView = Database['public']['Tables']['order_saved_views']['Row']
+export type OrderViewDefault = Database['public']['Tables']['order_view_defaults']['Row']
+export type DispatchDecision = Database['public']['Tables']['dispatch_decisions']['Row']
+export type RiderLocation = Database['public']['Tables']['rider_locations']['Row']
+export type RiderSettlement = Database['public']['Tables']['rider_settlements']['Row']
+export type RiderAdjustment = Database['public']['Tables']['rider_adjustments']['Row']
+export type RiderSettlementOrder = Database['public']['Tables']['rider_settlement_orders']['Row']
+export type StoreStatement = Database['public']['Tables']['store_statements']['Row']
+export type StoreStatementOrder = Database['public']['Tables']['store_statement_orders']['Row']
 
 // ============================================================================
 // Tipos de Inserción (Insert types)
@@ -51,6 +63,18 @@ export type ProductInsert = Database['public']['Tables']['products']['Insert']
 export type OrderItemInsert = Database['public']['Tables']['order_items']['Insert']
 export type OrderStatusHistoryInsert = Database['public']['Tables']['order_status_history']['Insert']
 export type AppConfigInsert = Database['public']['Tables']['app_config']['Insert']
+export type AppConfigHistoryInsert = Database['public']['Tables']['app_config_history']['Insert']
+export type RolePermissionInsert = Database['public']['Tables']['role_permissions']['Insert']
+export type AuditLogInsert = Database['public']['Tables']['audit_log']['Insert']
+export type OrderSavedViewInsert = Database['public']['Tables']['order_saved_views']['Insert']
+export type OrderViewDefaultInsert = Database['public']['Tables']['order_view_defaults']['Insert']
+export type DispatchDecisionInsert = Database['public']['Tables']['dispatch_decisions']['Insert']
+export type RiderLocationInsert = Database['public']['Tables']['rider_locations']['Insert']
+export type RiderSettlementInsert = Database['public']['Tables']['rider_settlements']['Insert']
+export type RiderAdjustmentInsert = Database['public']['Tables']['rider_adjustments']['Insert']
+export type RiderSettlementOrderInsert = Database['public']['Tables']['rider_settlement_orders']['Insert']
+export type StoreStatementInsert = Database['public']['Tables']['store_statements']['Insert']
+export type StoreStatementOrderInsert = Database['public']['Tables']['store_statement_orders']['Insert']
 
 // ============================================================================
 // Tipos de Actualización (Update types)
@@ -68,6 +92,18 @@ export type ProductUpdate = Database['public']['Tables']['products']['Update']
 export type OrderItemUpdate = Database['public']['Tables']['order_items']['Update']
 export type OrderStatusHistoryUpdate = Database['public']['Tables']['order_status_history']['Update']
 export type AppConfigUpdate = Database['public']['Tables']['app_config']['Update']
+export type AppConfigHistoryUpdate = Database['public']['Tables']['app_config_history']['Update']
+export type RolePermissionUpdate = Database['public']['Tables']['role_permissions']['Update']
+export type AuditLogUpdate = Database['public']['Tables']['audit_log']['Update']
+export type OrderSavedViewUpdate = Database['public']['Tables']['order_saved_views']['Update']
+export type OrderViewDefaultUpdate = Database['public']['Tables']['order_view_defaults']['Update']
+export type DispatchDecisionUpdate = Database['public']['Tables']['dispatch_decisions']['Update']
+export type RiderLocationUpdate = Database['public']['Tables']['rider_locations']['Update']
+export type RiderSettlementUpdate = Database['public']['Tables']['rider_settlements']['Update']
+export type RiderAdjustmentUpdate = Database['public']['Tables']['rider_adjustments']['Update']
+export type RiderSettlementOrderUpdate = Database['public']['Tables']['rider_settlement_orders']['Update']
+export type StoreStatementUpdate = Database['public']['Tables']['store_statements']['Update']
+export type StoreStatementOrderUpdate = Database['public']['Tables']['store_statement_orders']['Update']
 
 // ============================================================================
 // Enums
@@ -104,6 +140,14 @@ export interface OrderWithDetails extends Order {
   status_history: OrderStatusHistory[]
 }
 
+/**
+ * Entrada del historial de estados con el perfil que hizo el cambio
+ * Útil para renderizar el timeline del pedido
+ */
+export interface OrderStatusHistoryWithActor extends OrderStatusHistory {
+  changed_by_profile: Pick<Profile, 'full_name' | 'email'> | null
+}
+
 /**
  * Rider con estadísticas
  * Útil para mostrar información completa del rider
@@ -171,7 +215,7 @@ export interface OrderFilters {
   is_urgent?: boolean
   date_from?: string
   date_to?: string
-  search?: string // Busca por order_number o customer_name
+  search?: string // Busca por order_number, customer_name o customer_phone
 }
 
 /**
@@ -193,6 +237,17 @@ export interface StoreFilters {
   search?: string // Busca por name
 }
 
+/**
+ * Filtros para el registro de auditoría
+ */
+export interface AuditLogFilters {
+  actor_id?: string
+  entity_type?: string
+  entity_id?: string
+  date_from?: string
+  date_to?: string
+}
+
 /**
  * Opciones de paginación
  */
@@ -212,6 +267,26 @@ export interface PaginatedResult<T> {
   total_pages: number
 }
 
+/**
+ * Opciones de paginación por cursor
+ *
+ * Con `cursor` la página empieza después del último registro de la página
+ * anterior, sin recorrer las filas previas; sin cursor se usa `page`.
+ */
+export interface CursorPaginationOptions extends PaginationOptions {
+  cursor?: string | null
+  /** Total ya conocido (de la primera página); si se indica no se vuelve a contar */
+  total?: number
+}
+
+/**
+ * Resultado paginado con el cursor de la página siguiente
+ */
+export interface CursorPaginatedResult<T> extends PaginatedResult<T> {
+  /** null en la última página */
+  next_cursor: string | null
+}
+
 // ============================================================================
 // Tipos de Respuestas API
 // ============================================================================
@@ -0,0 +1,102 @@
+-- ============================================================================
+-- Asignación atómica de pedidos a riders
+-- ============================================================================
+--
+-- Reemplaza las cuatro queries independientes que hacía el cliente
+-- (verificar rider, verificar pedido, actualizar pedido, actualizar rider)
+-- por una única función que se ejecuta dentro de una transacción.
+--
+-- - Bloquea el pedido y el rider con FOR UPDATE (siempre en ese orden para
+--   evitar deadlocks entre dos despachadores).
+-- - Verifica los estados con las filas ya bloqueadas.
+-- - Escribe orders, riders y order_status_history en la misma transacción.
+-- - Retorna un jsonb con `success` y, si falla, un `error_code` tipado.
+--
+-- Códigos de error:
+-- - ORDER_NOT_FOUND    El pedido no existe
+-- - ORDER_NOT_PENDING  El pedido ya fue asignado, completado o cancelado
+-- - RIDER_NOT_FOUND    El rider no existe
+-- - RIDER_INACTIVE     El rider está desactivado
+-- - RIDER_UNAVAILABLE  El rider está ocupado o desconectado
+
+create or replace function public.assign_order_to_rider(
+  p_order_id uuid,
+  p_rider_id uuid
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.orders%rowtype;
+  v_rider public.riders%rowtype;
+  v_now timestamptz := now();
+begin
+  -- 1. Bloquear el pedido
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'ORDER_NOT_FOUND');
+  end if;
+
+  -- 2. Bloquear el rider
+  select * into v_rider
+  from public.riders
+  where id = p_rider_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'RIDER_NOT_FOUND');
+  end if;
+
+  -- 3. Verificar estados con las filas bloqueadas
+  if v_order.status <> 'pending' then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'ORDER_NOT_PENDING',
+      'current_status', v_order.status
+    );
+  end if;
+
+  if not v_rider.is_active then
+    return jsonb_build_object('success', false, 'error_code', 'RIDER_INACTIVE');
+  end if;
+
+  if v_rider.status <> 'available' then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'RIDER_UNAVAILABLE',
+      'current_status', v_rider.status
+    );
+  end if;
+
+  -- 4. Escribir pedido, rider e historial
+  update public.orders
+  set delivery_id = p_rider_id,
+      status = 'assigned',
+      assigned_at = v_now,
+      updated_at = v_now
+  where id = p_order_id;
+
+  update public.riders
+  set status = 'busy',
+      updated_at = v_now
+  where id = p_rider_id;
+
+  insert into public.order_status_history (order_id, status, notes, changed_by, created_at)
+  values (p_order_id, 'assigned', 'Asignado a ' || v_rider.full_name, auth.uid(), v_now);
+
+  return jsonb_build_object(
+    'success', true,
+    'order_id', p_order_id,
+    'rider_id', p_rider_id,
+    'assigned_at', v_now
+  );
+end;
+$$;
+
+grant execute on function public.assign_order_to_rider(uuid, uuid) to authenticated;
@@ -0,0 +1,203 @@
+-- ============================================================================
+-- Historial de estados en cada cambio de pedido
+-- ============================================================================
+--
+-- - Agrega `previous_status` a order_status_history para registrar la
+--   transición completa (de → a).
+-- - Relaciona `changed_by` con profiles para mostrar quién hizo el cambio.
+-- - Centraliza la escritura del historial en log_order_status_change().
+-- - Mueve la cancelación a una función transaccional (cancel_order) que
+--   también libera al rider y registra el historial.
+
+alter table public.order_status_history
+  add column if not exists previous_status public.order_status;
+
+alter table public.order_status_history
+  drop constraint if exists order_status_history_changed_by_fkey;
+
+alter table public.order_status_history
+  add constraint order_status_history_changed_by_fkey
+  foreign key (changed_by) references public.profiles (id) on delete set null;
+
+create index if not exists order_status_history_order_id_created_at_idx
+  on public.order_status_history (order_id, created_at);
+
+-- ----------------------------------------------------------------------------
+-- log_order_status_change: escribe una fila de historial con el usuario actual
+-- ----------------------------------------------------------------------------
+
+create or replace function public.log_order_status_change(
+  p_order_id uuid,
+  p_previous_status public.order_status,
+  p_status public.order_status,
+  p_notes text default null,
+  p_changed_at timestamptz default now()
+)
+returns void
+language sql
+security invoker
+set search_path = public
+as $$
+  insert into public.order_status_history
+    (order_id, previous_status, status, notes, changed_by, created_at)
+  values
+    (p_order_id, p_previous_status, p_status, p_notes, auth.uid(), p_changed_at);
+$$;
+
+-- ----------------------------------------------------------------------------
+-- assign_order_to_rider: ahora registra el estado anterior
+-- ----------------------------------------------------------------------------
+
+create or replace function public.assign_order_to_rider(
+  p_order_id uuid,
+  p_rider_id uuid
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.orders%rowtype;
+  v_rider public.riders%rowtype;
+  v_now timestamptz := now();
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'ORDER_NOT_FOUND');
+  end if;
+
+  select * into v_rider
+  from public.riders
+  where id = p_rider_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'RIDER_NOT_FOUND');
+  end if;
+
+  if v_order.status <> 'pending' then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'ORDER_NOT_PENDING',
+      'current_status', v_order.status
+    );
+  end if;
+
+  if not v_rider.is_active then
+    return jsonb_build_object('success', false, 'error_code', 'RIDER_INACTIVE');
+  end if;
+
+  if v_rider.status <> 'available' then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'RIDER_UNAVAILABLE',
+      'current_status', v_rider.status
+    );
+  end if;
+
+  update public.orders
+  set delivery_id = p_rider_id,
+      status = 'assigned',
+      assigned_at = v_now,
+      updated_at = v_now
+  where id = p_order_id;
+
+  update public.riders
+  set status = 'busy',
+      updated_at = v_now
+  where id = p_rider_id;
+
+  perform public.log_order_status_change(
+    p_order_id, v_order.status, 'assigned', 'Asignado a ' || v_rider.full_name, v_now
+  );
+
+  return jsonb_build_object(
+    'success', true,
+    'order_id', p_order_id,
+    'rider_id', p_rider_id,
+    'assigned_at', v_now
+  );
+end;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- cancel_order: cancela el pedido y libera al rider en una transacción
+-- ----------------------------------------------------------------------------
+--
+-- Códigos de error:
+-- - ORDER_NOT_FOUND          El pedido no existe
+-- - ORDER_ALREADY_CANCELLED  El pedido ya está cancelado
+-- - ORDER_DELIVERED          El pedido ya fue entregado
+
+create or replace function public.cancel_order(
+  p_order_id uuid,
+  p_reason text default null
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.orders%rowtype;
+  v_now timestamptz := now();
+  v_notes text := coalesce('Cancelado: ' || nullif(p_reason, ''), 'Cancelado por el administrador');
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'ORDER_NOT_FOUND');
+  end if;
+
+  if v_order.status = 'cancelled' then
+    return jsonb_build_object('success', false, 'error_code', 'ORDER_ALREADY_CANCELLED');
+  end if;
+
+  if v_order.status = 'delivered' then
+    return jsonb_build_object('success', false, 'error_code', 'ORDER_DELIVERED');
+  end if;
+
+  update public.orders
+  set status = 'cancelled',
+      cancelled_at = v_now,
+      notes = v_notes,
+      updated_at = v_now
+  where id = p_order_id;
+
+  -- Liberar al rider si no le quedan pedidos activos
+  if v_order.delivery_id is not null then
+    perform 1 from public.riders where id = v_order.delivery_id for update;
+
+    if not exists (
+      select 1
+      from public.orders
+      where delivery_id = v_order.delivery_id
+        and status in ('assigned', 'in_transit')
+        and id <> p_order_id
+    ) then
+      update public.riders
+      set status = 'available',
+          updated_at = v_now
+      where id = v_order.delivery_id
+        and status = 'busy';
+    end if;
+  end if;
+
+  perform public.log_order_status_change(
+    p_order_id, v_order.status, 'cancelled', v_notes, v_now
+  );
+
+  return jsonb_build_object('success', true, 'order_id', p_order_id);
+end;
+$$;
+
+grant execute on function public.log_order_status_change(uuid, public.order_status, public.order_status, text, timestamptz) to authenticated;
+grant execute on function public.cancel_order(uuid, text) to authenticated;
@@ -0,0 +1,222 @@
+-- ============================================================================
+-- Marcar pedidos como recogidos y entregados desde el panel
+-- ============================================================================
+--
+-- Permite que soporte complete el flujo de un pedido en nombre de un rider
+-- (por ejemplo, cuando su teléfono se quedó sin batería).
+--
+-- - release_rider_if_idle(): libera al rider si no le quedan pedidos activos.
+--   Se reutiliza en cancel_order y mark_order_delivered.
+-- - mark_order_picked_up(): assigned → in_transit, completa picked_up_at.
+-- - mark_order_delivered(): assigned/in_transit → delivered, completa
+--   delivered_at (y picked_up_at si faltaba), suma la entrega al rider y lo
+--   libera.
+--
+-- Códigos de error:
+-- - ORDER_NOT_FOUND     El pedido no existe
+-- - INVALID_TRANSITION  El estado actual no admite la transición
+
+-- ----------------------------------------------------------------------------
+-- release_rider_if_idle
+-- ----------------------------------------------------------------------------
+
+create or replace function public.release_rider_if_idle(
+  p_rider_id uuid,
+  p_excluding_order_id uuid,
+  p_now timestamptz default now()
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  perform 1 from public.riders where id = p_rider_id for update;
+
+  if not exists (
+    select 1
+    from public.orders
+    where delivery_id = p_rider_id
+      and status in ('assigned', 'in_transit')
+      and id <> p_excluding_order_id
+  ) then
+    update public.riders
+    set status = 'available',
+        updated_at = p_now
+    where id = p_rider_id
+      and status = 'busy';
+  end if;
+end;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- cancel_order: usa release_rider_if_idle
+-- ----------------------------------------------------------------------------
+
+create or replace function public.cancel_order(
+  p_order_id uuid,
+  p_reason text default null
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.orders%rowtype;
+  v_now timestamptz := now();
+  v_notes text := coalesce('Cancelado: ' || nullif(p_reason, ''), 'Cancelado por el administrador');
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'ORDER_NOT_FOUND');
+  end if;
+
+  if v_order.status = 'cancelled' then
+    return jsonb_build_object('success', false, 'error_code', 'ORDER_ALREADY_CANCELLED');
+  end if;
+
+  if v_order.status = 'delivered' then
+    return jsonb_build_object('success', false, 'error_code', 'ORDER_DELIVERED');
+  end if;
+
+  update public.orders
+  set status = 'cancelled',
+      cancelled_at = v_now,
+      notes = v_notes,
+      updated_at = v_now
+  where id = p_order_id;
+
+  if v_order.delivery_id is not null then
+    perform public.release_rider_if_idle(v_order.delivery_id, p_order_id, v_now);
+  end if;
+
+  perform public.log_order_status_change(
+    p_order_id, v_order.status, 'cancelled', v_notes, v_now
+  );
+
+  return jsonb_build_object('success', true, 'order_id', p_order_id);
+end;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- mark_order_picked_up
+-- ----------------------------------------------------------------------------
+
+create or replace function public.mark_order_picked_up(
+  p_order_id uuid,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.orders%rowtype;
+  v_now timestamptz := now();
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'ORDER_NOT_FOUND');
+  end if;
+
+  if v_order.status <> 'assigned' then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'INVALID_TRANSITION',
+      'current_status', v_order.status
+    );
+  end if;
+
+  update public.orders
+  set status = 'in_transit',
+      picked_up_at = v_now,
+      updated_at = v_now
+  where id = p_order_id;
+
+  perform public.log_order_status_change(
+    p_order_id,
+    v_order.status,
+    'in_transit',
+    coalesce(nullif(p_notes, ''), 'Marcado como recogido desde el panel'),
+    v_now
+  );
+
+  return jsonb_build_object('success', true, 'order_id', p_order_id, 'picked_up_at', v_now);
+end;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- mark_order_delivered
+-- ----------------------------------------------------------------------------
+
+create or replace function public.mark_order_delivered(
+  p_order_id uuid,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.orders%rowtype;
+  v_now timestamptz := now();
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'ORDER_NOT_FOUND');
+  end if;
+
+  if v_order.status not in ('assigned', 'in_transit') then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'INVALID_TRANSITION',
+      'current_status', v_order.status
+    );
+  end if;
+
+  update public.orders
+  set status = 'delivered',
+      picked_up_at = coalesce(picked_up_at, v_now),
+      delivered_at = v_now,
+      updated_at = v_now
+  where id = p_order_id;
+
+  if v_order.delivery_id is not null then
+    update public.riders
+    set total_deliveries = total_deliveries + 1,
+        updated_at = v_now
+    where id = v_order.delivery_id;
+
+    perform public.release_rider_if_idle(v_order.delivery_id, p_order_id, v_now);
+  end if;
+
+  perform public.log_order_status_change(
+    p_order_id,
+    v_order.status,
+    'delivered',
+    coalesce(nullif(p_notes, ''), 'Marcado como entregado desde el panel'),
+    v_now
+  );
+
+  return jsonb_build_object('success', true, 'order_id', p_order_id, 'delivered_at', v_now);
+end;
+$$;
+
+grant execute on function public.release_rider_if_idle(uuid, uuid, timestamptz) to authenticated;
+grant execute on function public.mark_order_picked_up(uuid, text) to authenticated;
+grant execute on function public.mark_order_delivered(uuid, text) to authenticated;
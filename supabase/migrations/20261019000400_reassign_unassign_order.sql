@@ -0,0 +1,186 @@
+-- ============================================================================
+-- Reasignar y desasignar riders en pedidos activos
+-- ============================================================================
+--
+-- - reassign_order(): cambia el rider de un pedido assigned/in_transit sin
+--   cambiar su estado. El nuevo rider pasa a busy y el anterior se libera si
+--   no le quedan pedidos activos. El traspaso queda en order_status_history
+--   con previous_status = status.
+-- - unassign_order(): devuelve un pedido assigned a pending y libera al rider.
+--
+-- Códigos de error:
+-- - ORDER_NOT_FOUND     El pedido no existe
+-- - INVALID_TRANSITION  El estado actual no admite la acción
+-- - RIDER_NOT_FOUND     El nuevo rider no existe
+-- - RIDER_INACTIVE      El nuevo rider está desactivado
+-- - RIDER_UNAVAILABLE   El nuevo rider está ocupado o desconectado
+-- - SAME_RIDER          El nuevo rider es el mismo que el actual
+
+-- ----------------------------------------------------------------------------
+-- reassign_order
+-- ----------------------------------------------------------------------------
+
+create or replace function public.reassign_order(
+  p_order_id uuid,
+  p_rider_id uuid,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.orders%rowtype;
+  v_new_rider public.riders%rowtype;
+  v_previous_name text;
+  v_now timestamptz := now();
+  v_notes text;
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'ORDER_NOT_FOUND');
+  end if;
+
+  if v_order.status not in ('assigned', 'in_transit') or v_order.delivery_id is null then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'INVALID_TRANSITION',
+      'current_status', v_order.status
+    );
+  end if;
+
+  if v_order.delivery_id = p_rider_id then
+    return jsonb_build_object('success', false, 'error_code', 'SAME_RIDER');
+  end if;
+
+  -- Bloquear ambos riders en orden de id para evitar deadlocks
+  perform 1
+  from public.riders
+  where id in (v_order.delivery_id, p_rider_id)
+  order by id
+  for update;
+
+  select * into v_new_rider
+  from public.riders
+  where id = p_rider_id;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'RIDER_NOT_FOUND');
+  end if;
+
+  if not v_new_rider.is_active then
+    return jsonb_build_object('success', false, 'error_code', 'RIDER_INACTIVE');
+  end if;
+
+  if v_new_rider.status <> 'available' then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'RIDER_UNAVAILABLE',
+      'current_status', v_new_rider.status
+    );
+  end if;
+
+  select full_name into v_previous_name
+  from public.riders
+  where id = v_order.delivery_id;
+
+  update public.orders
+  set delivery_id = p_rider_id,
+      assigned_at = v_now,
+      updated_at = v_now
+  where id = p_order_id;
+
+  update public.riders
+  set status = 'busy',
+      updated_at = v_now
+  where id = p_rider_id;
+
+  perform public.release_rider_if_idle(v_order.delivery_id, p_order_id, v_now);
+
+  v_notes := 'Reasignado de ' || coalesce(v_previous_name, 'rider eliminado')
+    || ' a ' || v_new_rider.full_name
+    || coalesce('. ' || nullif(p_notes, ''), '');
+
+  perform public.log_order_status_change(
+    p_order_id, v_order.status, v_order.status, v_notes, v_now
+  );
+
+  return jsonb_build_object(
+    'success', true,
+    'order_id', p_order_id,
+    'previous_rider_id', v_order.delivery_id,
+    'rider_id', p_rider_id
+  );
+end;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- unassign_order
+-- ----------------------------------------------------------------------------
+
+create or replace function public.unassign_order(
+  p_order_id uuid,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.orders%rowtype;
+  v_rider_name text;
+  v_now timestamptz := now();
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'ORDER_NOT_FOUND');
+  end if;
+
+  if v_order.status <> 'assigned' then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'INVALID_TRANSITION',
+      'current_status', v_order.status
+    );
+  end if;
+
+  select full_name into v_rider_name
+  from public.riders
+  where id = v_order.delivery_id;
+
+  update public.orders
+  set status = 'pending',
+      delivery_id = null,
+      assigned_at = null,
+      updated_at = v_now
+  where id = p_order_id;
+
+  if v_order.delivery_id is not null then
+    perform public.release_rider_if_idle(v_order.delivery_id, p_order_id, v_now);
+  end if;
+
+  perform public.log_order_status_change(
+    p_order_id,
+    v_order.status,
+    'pending',
+    'Desasignado de ' || coalesce(v_rider_name, 'rider eliminado')
+      || coalesce('. ' || nullif(p_notes, ''), ''),
+    v_now
+  );
+
+  return jsonb_build_object('success', true, 'order_id', p_order_id);
+end;
+$$;
+
+grant execute on function public.reassign_order(uuid, uuid, text) to authenticated;
+grant execute on function public.unassign_order(uuid, text) to authenticated;
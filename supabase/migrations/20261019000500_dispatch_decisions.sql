@@ -0,0 +1,53 @@
+-- ============================================================================
+-- Despacho automático de pedidos
+-- ============================================================================
+--
+-- - dispatch_decisions: guarda cada decisión del motor de despacho (automática
+--   o elegida por un despachador desde las propuestas) con el desglose de
+--   factores, los candidatos evaluados y la configuración usada, para poder
+--   explicarla en la UI.
+-- - Carga la configuración por defecto en app_config (dispatch_settings).
+
+create table if not exists public.dispatch_decisions (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders (id) on delete cascade,
+  rider_id uuid references public.riders (id) on delete set null,
+  mode text not null check (mode in ('auto', 'suggested')),
+  score numeric(5, 1) not null,
+  factors jsonb not null,
+  candidates jsonb not null default '[]'::jsonb,
+  settings jsonb not null,
+  decided_by uuid references public.profiles (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists dispatch_decisions_order_id_idx
+  on public.dispatch_decisions (order_id, created_at desc);
+
+alter table public.dispatch_decisions enable row level security;
+
+create policy "dispatch_decisions_select_authenticated"
+  on public.dispatch_decisions for select
+  to authenticated
+  using (true);
+
+create policy "dispatch_decisions_insert_authenticated"
+  on public.dispatch_decisions for insert
+  to authenticated
+  with check (true);
+
+insert into public.app_config (key, value, description)
+values (
+  'dispatch_settings',
+  '{
+    "auto_assign_enabled": false,
+    "proposals_count": 3,
+    "max_distance_km": 10,
+    "max_daily_deliveries": 15,
+    "urgent_distance_multiplier": 1.5,
+    "weights": { "distance": 0.5, "load": 0.2, "rating": 0.2, "vehicle": 0.1 },
+    "vehicle_scores": { "motorcycle": 1, "car": 0.7, "bike": 0.6 }
+  }'::jsonb,
+  'Reglas y pesos del despacho automático de pedidos'
+)
+on conflict (key) do nothing;
@@ -0,0 +1,61 @@
+-- ============================================================================
+-- Historial de ubicaciones de riders
+-- ============================================================================
+--
+-- - rider_locations: guarda cada punto reportado por un rider. Se llena con
+--   un trigger sobre riders.current_location, así las apps que ya actualizan
+--   la ubicación actual no necesitan cambios.
+-- - Carga la configuración por defecto en app_config (rider_tracking).
+
+create table if not exists public.rider_locations (
+  id bigint generated always as identity primary key,
+  rider_id uuid not null references public.riders (id) on delete cascade,
+  location jsonb not null,
+  recorded_at timestamptz not null default now()
+);
+
+create index if not exists rider_locations_rider_id_recorded_at_idx
+  on public.rider_locations (rider_id, recorded_at);
+
+alter table public.rider_locations enable row level security;
+
+create policy "rider_locations_select_authenticated"
+  on public.rider_locations for select
+  to authenticated
+  using (true);
+
+-- ----------------------------------------------------------------------------
+-- Registra la ubicación al crear el rider y cada vez que cambia
+-- current_location
+-- ----------------------------------------------------------------------------
+create or replace function public.record_rider_location()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.current_location is not null
+     and (tg_op = 'INSERT' or new.current_location is distinct from old.current_location) then
+    insert into rider_locations (rider_id, location, recorded_at)
+    values (new.id, new.current_location, coalesce(new.last_location_update, now()));
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists riders_record_location on public.riders;
+
+create trigger riders_record_location
+  after insert or update of current_location on public.riders
+  for each row
+  execute function public.record_rider_location();
+
+insert into public.app_config (key, value, description)
+values (
+  'rider_tracking',
+  '{ "stale_location_minutes": 5 }'::jsonb,
+  'Minutos sin reportar ubicación a partir de los cuales un rider ocupado se marca como desactualizado'
+)
+on conflict (key) do nothing;
@@ -0,0 +1,49 @@
+-- ============================================================================
+-- Activar / desactivar riders
+-- ============================================================================
+--
+-- set_rider_active bloquea al rider igual que assign_order_to_rider, así no
+-- se puede desactivar a un rider mientras se le asigna un pedido. Un rider
+-- con pedidos activos no se puede desactivar: primero hay que reasignarlos.
+--
+-- Al desactivar, el rider queda desconectado (offline).
+
+create or replace function public.set_rider_active(
+  p_rider_id uuid,
+  p_is_active boolean
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_rider riders%rowtype;
+begin
+  select * into v_rider
+  from riders
+  where id = p_rider_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'RIDER_NOT_FOUND');
+  end if;
+
+  if not p_is_active and exists (
+    select 1
+    from orders
+    where delivery_id = p_rider_id
+      and status in ('assigned', 'in_transit')
+  ) then
+    return jsonb_build_object('success', false, 'error_code', 'RIDER_HAS_ACTIVE_ORDERS');
+  end if;
+
+  update riders
+  set is_active = p_is_active,
+      status = case when p_is_active then status else 'offline' end,
+      updated_at = now()
+  where id = p_rider_id;
+
+  return jsonb_build_object('success', true);
+end;
+$$;
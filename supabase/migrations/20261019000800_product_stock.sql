@@ -0,0 +1,69 @@
+-- ============================================================================
+-- Stock de productos
+-- ============================================================================
+--
+-- - Un producto con stock controlado (stock no nulo) que llega a cero queda
+--   no disponible. Lo aplica un trigger, así vale también para los pedidos
+--   que descuentan stock desde otras apps.
+-- - adjust_product_stock suma o resta unidades bloqueando la fila, para que
+--   dos ajustes simultáneos no se pisen. No permite dejar stock negativo.
+
+create or replace function public.mark_product_unavailable_without_stock()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.stock is not null and new.stock <= 0 then
+    new.is_available := false;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists products_mark_unavailable_without_stock on public.products;
+
+create trigger products_mark_unavailable_without_stock
+  before insert or update of stock, is_available on public.products
+  for each row
+  execute function public.mark_product_unavailable_without_stock();
+
+create or replace function public.adjust_product_stock(
+  p_product_id uuid,
+  p_delta integer
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_product products%rowtype;
+begin
+  select * into v_product
+  from products
+  where id = p_product_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'PRODUCT_NOT_FOUND');
+  end if;
+
+  if v_product.stock is null then
+    return jsonb_build_object('success', false, 'error_code', 'STOCK_NOT_TRACKED');
+  end if;
+
+  if v_product.stock + p_delta < 0 then
+    return jsonb_build_object('success', false, 'error_code', 'INSUFFICIENT_STOCK');
+  end if;
+
+  update products
+  set stock = stock + p_delta,
+      updated_at = now()
+  where id = p_product_id
+  returning stock into v_product.stock;
+
+  return jsonb_build_object('success', true, 'stock', v_product.stock);
+end;
+$$;
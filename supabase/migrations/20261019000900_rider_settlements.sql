@@ -0,0 +1,301 @@
+-- ============================================================================
+-- Liquidaciones de riders
+-- ============================================================================
+--
+-- - rider_adjustments: bonos y descuentos manuales de un rider, imputados a
+--   la fecha en que corresponden.
+-- - rider_settlements: liquidación cerrada de un rider para un período. Guarda
+--   los totales y las reglas usadas, así el estado de cuenta no cambia si
+--   después se modifican las reglas o los pedidos.
+-- - rider_settlement_orders: entregas incluidas en cada liquidación, con el
+--   desglose que se pagó por cada una.
+-- - settle_rider_period cierra un período de un rider en una sola
+--   transacción: calcula las entregas y los totales con las reglas vigentes
+--   y vincula los ajustes del período a la liquidación. Es la única forma de
+--   crear liquidaciones. Un período liquidado ya no admite ajustes nuevos ni
+--   su eliminación.
+-- - Carga las reglas por defecto en app_config (payout_settings).
+
+create table if not exists public.rider_settlements (
+  id uuid primary key default gen_random_uuid(),
+  rider_id uuid not null references public.riders (id) on delete cascade,
+  period_start date not null,
+  period_end date not null,
+  deliveries integer not null default 0,
+  gross_fees numeric(10, 2) not null default 0,
+  commission numeric(10, 2) not null default 0,
+  bonuses numeric(10, 2) not null default 0,
+  adjustments numeric(10, 2) not null default 0,
+  total numeric(10, 2) not null default 0,
+  settings jsonb not null,
+  notes text,
+  settled_by uuid references public.profiles (id) on delete set null default auth.uid(),
+  settled_at timestamptz not null default now(),
+  check (period_end >= period_start),
+  unique (rider_id, period_start, period_end)
+);
+
+create index if not exists rider_settlements_period_idx
+  on public.rider_settlements (period_start, period_end);
+
+create table if not exists public.rider_adjustments (
+  id uuid primary key default gen_random_uuid(),
+  rider_id uuid not null references public.riders (id) on delete cascade,
+  effective_date date not null,
+  kind text not null check (kind in ('bonus', 'deduction')),
+  amount numeric(10, 2) not null check (amount > 0),
+  reason text not null,
+  settlement_id uuid references public.rider_settlements (id) on delete set null,
+  created_by uuid references public.profiles (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists rider_adjustments_rider_date_idx
+  on public.rider_adjustments (rider_id, effective_date);
+
+-- Un pedido se paga en una sola liquidación
+create table if not exists public.rider_settlement_orders (
+  settlement_id uuid not null references public.rider_settlements (id) on delete cascade,
+  order_id uuid not null unique references public.orders (id) on delete restrict,
+  order_number text not null,
+  store_name text not null,
+  is_urgent boolean not null default false,
+  delivered_at timestamptz not null,
+  fee numeric(10, 2) not null,
+  commission numeric(10, 2) not null,
+  bonus numeric(10, 2) not null,
+  earning numeric(10, 2) not null,
+  primary key (settlement_id, order_id)
+);
+
+alter table public.rider_settlements enable row level security;
+alter table public.rider_adjustments enable row level security;
+alter table public.rider_settlement_orders enable row level security;
+
+create policy "rider_settlements_select_authenticated"
+  on public.rider_settlements for select
+  to authenticated
+  using (true);
+
+-- Las liquidaciones y sus entregas solo las escribe settle_rider_period
+create policy "rider_settlement_orders_select_authenticated"
+  on public.rider_settlement_orders for select
+  to authenticated
+  using (true);
+
+create policy "rider_adjustments_select_authenticated"
+  on public.rider_adjustments for select
+  to authenticated
+  using (true);
+
+-- No se pueden cargar ajustes en un período ya liquidado
+create policy "rider_adjustments_insert_unsettled"
+  on public.rider_adjustments for insert
+  to authenticated
+  with check (
+    settlement_id is null
+    and not exists (
+      select 1
+      from public.rider_settlements s
+      where s.rider_id = rider_adjustments.rider_id
+        and rider_adjustments.effective_date between s.period_start and s.period_end
+    )
+  );
+
+-- Solo se eliminan los ajustes que todavía no se liquidaron (los vincula a
+-- su liquidación settle_rider_period)
+create policy "rider_adjustments_delete_unsettled"
+  on public.rider_adjustments for delete
+  to authenticated
+  using (settlement_id is null);
+
+-- Los totales se calculan acá, con el rider bloqueado, a partir de las
+-- entregas y los ajustes que existen en ese momento: lo guardado es
+-- exactamente lo que se vinculó. Los días del período se cortan en la zona
+-- horaria del negocio (p_time_zone).
+create or replace function public.settle_rider_period(
+  p_rider_id uuid,
+  p_period_start date,
+  p_period_end date,
+  p_time_zone text,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_config jsonb;
+  v_settings jsonb;
+  v_rate numeric;
+  v_per_delivery_bonus numeric;
+  v_urgent_bonus numeric;
+  v_lines jsonb;
+  v_deliveries integer;
+  v_gross_fees numeric;
+  v_commission numeric;
+  v_bonuses numeric;
+  v_adjustment_ids uuid[];
+  v_adjustments numeric;
+  v_settlement_id uuid;
+  v_total numeric;
+begin
+  if p_period_end < p_period_start
+    or not exists (select 1 from pg_timezone_names where name = p_time_zone) then
+    return jsonb_build_object('success', false, 'error_code', 'INVALID_PERIOD');
+  end if;
+
+  -- Bloquear al rider para que dos liquidaciones simultáneas no se crucen
+  perform 1 from riders where id = p_rider_id for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'RIDER_NOT_FOUND');
+  end if;
+
+  if exists (
+    select 1
+    from rider_settlements
+    where rider_id = p_rider_id
+      and period_start <= p_period_end
+      and period_end >= p_period_start
+  ) then
+    return jsonb_build_object('success', false, 'error_code', 'ALREADY_SETTLED');
+  end if;
+
+  -- Reglas vigentes, combinadas con los valores por defecto igual que
+  -- mergePayoutSettings (los valores inválidos se ignoran)
+  select value into v_config from app_config where key = 'payout_settings';
+  if jsonb_typeof(v_config) is distinct from 'object' then
+    v_config := '{}'::jsonb;
+  end if;
+
+  v_rate := case
+    when jsonb_typeof(v_config -> 'platform_commission_rate') = 'number'
+      and (v_config ->> 'platform_commission_rate')::numeric >= 0
+    then least((v_config ->> 'platform_commission_rate')::numeric, 1)
+    else 0.2
+  end;
+  v_per_delivery_bonus := case
+    when jsonb_typeof(v_config -> 'per_delivery_bonus') = 'number'
+      and (v_config ->> 'per_delivery_bonus')::numeric >= 0
+    then (v_config ->> 'per_delivery_bonus')::numeric
+    else 0
+  end;
+  v_urgent_bonus := case
+    when jsonb_typeof(v_config -> 'urgent_bonus') = 'number'
+      and (v_config ->> 'urgent_bonus')::numeric >= 0
+    then (v_config ->> 'urgent_bonus')::numeric
+    else 0.5
+  end;
+  v_settings := jsonb_build_object(
+    'period', case
+      when v_config ->> 'period' in ('weekly', 'monthly') then v_config ->> 'period'
+      else 'weekly'
+    end,
+    'platform_commission_rate', v_rate,
+    'per_delivery_bonus', v_per_delivery_bonus,
+    'urgent_bonus', v_urgent_bonus
+  );
+
+  -- Entregas del período, con el mismo desglose que computeOrderPayout
+  select coalesce(jsonb_agg(to_jsonb(l) order by l.delivered_at, l.order_id), '[]'::jsonb)
+  into v_lines
+  from (
+    select
+      o.id as order_id,
+      o.order_number,
+      o.store_name,
+      o.is_urgent,
+      o.delivered_at,
+      round(o.delivery_fee, 2) as fee,
+      round(round(o.delivery_fee, 2) * v_rate, 2) as commission,
+      round(v_per_delivery_bonus + case when o.is_urgent then v_urgent_bonus else 0 end, 2) as bonus
+    from orders o
+    where o.delivery_id = p_rider_id
+      and o.status = 'delivered'
+      and o.delivered_at >= p_period_start::timestamp at time zone p_time_zone
+      and o.delivered_at < (p_period_end + 1)::timestamp at time zone p_time_zone
+  ) l;
+
+  select count(*), coalesce(sum(fee), 0), coalesce(sum(commission), 0), coalesce(sum(bonus), 0)
+  into v_deliveries, v_gross_fees, v_commission, v_bonuses
+  from jsonb_to_recordset(v_lines) as l (fee numeric, commission numeric, bonus numeric);
+
+  -- Ajustes sin liquidar del período, bloqueados hasta vincularlos
+  select
+    coalesce(array_agg(a.id), '{}'),
+    coalesce(sum(case when a.kind = 'bonus' then a.amount else -a.amount end), 0)
+  into v_adjustment_ids, v_adjustments
+  from (
+    select id, kind, amount
+    from rider_adjustments
+    where rider_id = p_rider_id
+      and effective_date between p_period_start and p_period_end
+      and settlement_id is null
+    for update
+  ) a;
+
+  v_total := v_gross_fees - v_commission + v_bonuses + v_adjustments;
+
+  insert into rider_settlements (
+    rider_id, period_start, period_end, deliveries, gross_fees, commission,
+    bonuses, adjustments, total, settings, notes, settled_by
+  )
+  values (
+    p_rider_id,
+    p_period_start,
+    p_period_end,
+    v_deliveries,
+    v_gross_fees,
+    v_commission,
+    v_bonuses,
+    v_adjustments,
+    v_total,
+    v_settings,
+    nullif(btrim(p_notes), ''),
+    auth.uid()
+  )
+  returning id into v_settlement_id;
+
+  insert into rider_settlement_orders (
+    settlement_id, order_id, order_number, store_name, is_urgent, delivered_at,
+    fee, commission, bonus, earning
+  )
+  select
+    v_settlement_id, l.order_id, l.order_number, l.store_name, l.is_urgent, l.delivered_at,
+    l.fee, l.commission, l.bonus, l.fee - l.commission + l.bonus
+  from jsonb_to_recordset(v_lines) as l (
+    order_id uuid,
+    order_number text,
+    store_name text,
+    is_urgent boolean,
+    delivered_at timestamptz,
+    fee numeric,
+    commission numeric,
+    bonus numeric
+  );
+
+  update rider_adjustments
+  set settlement_id = v_settlement_id
+  where id = any(v_adjustment_ids);
+
+  return jsonb_build_object('success', true, 'settlement_id', v_settlement_id, 'total', v_total);
+end;
+$$;
+
+revoke execute on function public.settle_rider_period(uuid, date, date, text, text) from public, anon;
+grant execute on function public.settle_rider_period(uuid, date, date, text, text) to authenticated;
+
+insert into public.app_config (key, value, description)
+values (
+  'payout_settings',
+  '{
+    "period": "weekly",
+    "platform_commission_rate": 0.2,
+    "per_delivery_bonus": 0,
+    "urgent_bonus": 0.5
+  }'::jsonb,
+  'Reglas de liquidación de riders: período, comisión de la plataforma y bonos por entrega'
+)
+on conflict (key) do nothing;
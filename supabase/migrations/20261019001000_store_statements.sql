@@ -0,0 +1,299 @@
+-- ============================================================================
+-- Estados de cuenta de comercios
+-- ============================================================================
+--
+-- - stores.commission_rate: comisión de la plataforma sobre las ventas del
+--   comercio (0 a 1). Si es null se usa la comisión por defecto de
+--   app_config (store_billing_settings).
+-- - store_statements: estado de cuenta de un comercio para un período, con
+--   numeración correlativa. Pasa de borrador a emitido y de emitido a
+--   pagado; un estado de cuenta emitido ya no cambia sus montos y solo los
+--   borradores se pueden eliminar.
+-- - store_statement_orders: pedidos incluidos en cada estado de cuenta
+--   emitido, con el desglose facturado por cada uno. Un pedido figura en un
+--   solo estado de cuenta.
+-- - issue_store_statement emite el estado de cuenta de un comercio: calcula
+--   los pedidos y los totales en la base y guarda el detalle. Es la única
+--   forma de emitir; los borradores se guardan directamente. No emite sobre
+--   días que ya cubre otro estado de cuenta emitido del comercio.
+-- - Carga la configuración por defecto en app_config (store_billing_settings).
+
+alter table public.stores
+  add column if not exists commission_rate numeric(5, 4)
+  check (commission_rate between 0 and 1);
+
+create sequence if not exists public.store_statement_number_seq;
+
+create table if not exists public.store_statements (
+  id uuid primary key default gen_random_uuid(),
+  statement_number text not null unique
+    default ('EC-' || lpad(nextval('public.store_statement_number_seq')::text, 6, '0')),
+  store_id uuid not null references public.stores (id) on delete restrict,
+  period_start date not null,
+  period_end date not null,
+  status text not null default 'draft' check (status in ('draft', 'issued', 'paid')),
+  orders_count integer not null default 0,
+  gross_sales numeric(12, 2) not null default 0,
+  commission_rate numeric(5, 4) not null,
+  commission numeric(12, 2) not null default 0,
+  delivery_fees numeric(12, 2) not null default 0,
+  net_payable numeric(12, 2) not null default 0,
+  notes text,
+  created_by uuid references public.profiles (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  issued_at timestamptz,
+  paid_at timestamptz,
+  check (period_end >= period_start),
+  unique (store_id, period_start, period_end)
+);
+
+create index if not exists store_statements_period_idx
+  on public.store_statements (period_start, period_end);
+
+create table if not exists public.store_statement_orders (
+  statement_id uuid not null references public.store_statements (id) on delete cascade,
+  order_id uuid not null unique references public.orders (id) on delete restrict,
+  order_number text not null,
+  delivered_at timestamptz not null,
+  sales numeric(12, 2) not null,
+  commission numeric(12, 2) not null,
+  delivery_fee numeric(12, 2) not null,
+  net numeric(12, 2) not null,
+  primary key (statement_id, order_id)
+);
+
+-- ----------------------------------------------------------------------------
+-- Transiciones de estado: draft → issued → paid. Un estado de cuenta emitido
+-- conserva sus montos; las fechas de emisión y pago se completan solas.
+-- ----------------------------------------------------------------------------
+create or replace function public.guard_store_statement()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and old.status <> 'draft' and (
+    new.store_id, new.period_start, new.period_end, new.orders_count, new.gross_sales,
+    new.commission_rate, new.commission, new.delivery_fees, new.net_payable
+  ) is distinct from (
+    old.store_id, old.period_start, old.period_end, old.orders_count, old.gross_sales,
+    old.commission_rate, old.commission, old.delivery_fees, old.net_payable
+  ) then
+    raise exception 'STATEMENT_LOCKED';
+  end if;
+
+  if tg_op = 'INSERT' and new.status = 'paid' then
+    raise exception 'INVALID_STATUS_TRANSITION';
+  end if;
+
+  if tg_op = 'UPDATE' and new.status <> old.status and not (
+    (old.status = 'draft' and new.status = 'issued')
+    or (old.status = 'issued' and new.status = 'paid')
+  ) then
+    raise exception 'INVALID_STATUS_TRANSITION';
+  end if;
+
+  if new.status = 'issued' and new.issued_at is null then
+    new.issued_at := now();
+  end if;
+  if new.status = 'paid' and new.paid_at is null then
+    new.paid_at := now();
+  end if;
+  new.updated_at := now();
+
+  return new;
+end;
+$$;
+
+drop trigger if exists store_statements_guard on public.store_statements;
+
+create trigger store_statements_guard
+  before insert or update on public.store_statements
+  for each row
+  execute function public.guard_store_statement();
+
+alter table public.store_statements enable row level security;
+alter table public.store_statement_orders enable row level security;
+
+create policy "store_statements_select_authenticated"
+  on public.store_statements for select
+  to authenticated
+  using (true);
+
+-- Desde el panel solo se guardan borradores y se registran pagos; emitir
+-- pasa por issue_store_statement
+create policy "store_statements_insert_draft"
+  on public.store_statements for insert
+  to authenticated
+  with check (status = 'draft');
+
+create policy "store_statements_update_authenticated"
+  on public.store_statements for update
+  to authenticated
+  using (true)
+  with check (status <> 'issued');
+
+create policy "store_statements_delete_draft"
+  on public.store_statements for delete
+  to authenticated
+  using (status = 'draft');
+
+create policy "store_statement_orders_select_authenticated"
+  on public.store_statement_orders for select
+  to authenticated
+  using (true);
+
+-- Los montos se calculan acá, con el comercio bloqueado, y el detalle que se
+-- guarda es exactamente el que suman los totales emitidos. Los días del
+-- período se cortan en la zona horaria del negocio (p_time_zone).
+create or replace function public.issue_store_statement(
+  p_store_id uuid,
+  p_period_start date,
+  p_period_end date,
+  p_time_zone text,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_rate numeric;
+  v_config jsonb;
+  v_status text;
+  v_lines jsonb;
+  v_orders_count integer;
+  v_gross_sales numeric;
+  v_commission numeric;
+  v_delivery_fees numeric;
+  v_statement_id uuid;
+begin
+  if p_period_end < p_period_start
+    or not exists (select 1 from pg_timezone_names where name = p_time_zone) then
+    return jsonb_build_object('success', false, 'error_code', 'INVALID_PERIOD');
+  end if;
+
+  -- Bloquear al comercio para que dos emisiones simultáneas no se crucen
+  select commission_rate into v_rate from stores where id = p_store_id for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'STORE_NOT_FOUND');
+  end if;
+
+  select status into v_status
+  from store_statements
+  where store_id = p_store_id
+    and period_start = p_period_start
+    and period_end = p_period_end
+  for update;
+
+  if v_status is not null and v_status <> 'draft' then
+    return jsonb_build_object('success', false, 'error_code', 'STATEMENT_LOCKED');
+  end if;
+
+  -- Un período que se superpone con otro ya emitido facturaría dos veces
+  -- los pedidos de los días en común
+  if exists (
+    select 1
+    from store_statements
+    where store_id = p_store_id
+      and status <> 'draft'
+      and period_start <= p_period_end
+      and period_end >= p_period_start
+  ) then
+    return jsonb_build_object('success', false, 'error_code', 'PERIOD_OVERLAP');
+  end if;
+
+  -- Sin comisión propia se usa la de app_config, con los mismos criterios
+  -- que mergeStoreBillingSettings
+  if v_rate is null then
+    select value into v_config from app_config where key = 'store_billing_settings';
+    v_rate := case
+      when jsonb_typeof(v_config -> 'default_commission_rate') = 'number'
+        and (v_config ->> 'default_commission_rate')::numeric between 0 and 1
+      then (v_config ->> 'default_commission_rate')::numeric
+      else 0.15
+    end;
+  end if;
+
+  -- Pedidos del período, con el mismo desglose que buildStoreStatement
+  select coalesce(jsonb_agg(to_jsonb(l) order by l.delivered_at, l.order_id), '[]'::jsonb)
+  into v_lines
+  from (
+    select
+      o.id as order_id,
+      o.order_number,
+      o.delivered_at,
+      round(o.total_amount - round(o.delivery_fee, 2), 2) as sales,
+      round(round(o.total_amount - round(o.delivery_fee, 2), 2) * v_rate, 2) as commission,
+      round(o.delivery_fee, 2) as delivery_fee
+    from orders o
+    where o.store_id = p_store_id
+      and o.status = 'delivered'
+      and o.delivered_at >= p_period_start::timestamp at time zone p_time_zone
+      and o.delivered_at < (p_period_end + 1)::timestamp at time zone p_time_zone
+  ) l;
+
+  select count(*), coalesce(sum(sales), 0), coalesce(sum(commission), 0), coalesce(sum(delivery_fee), 0)
+  into v_orders_count, v_gross_sales, v_commission, v_delivery_fees
+  from jsonb_to_recordset(v_lines) as l (sales numeric, commission numeric, delivery_fee numeric);
+
+  insert into store_statements (
+    store_id, period_start, period_end, status, orders_count, gross_sales,
+    commission_rate, commission, delivery_fees, net_payable, notes
+  )
+  values (
+    p_store_id,
+    p_period_start,
+    p_period_end,
+    'issued',
+    v_orders_count,
+    v_gross_sales,
+    v_rate,
+    v_commission,
+    v_delivery_fees,
+    v_gross_sales - v_commission,
+    nullif(btrim(p_notes), '')
+  )
+  on conflict (store_id, period_start, period_end) do update
+  set status = excluded.status,
+    orders_count = excluded.orders_count,
+    gross_sales = excluded.gross_sales,
+    commission_rate = excluded.commission_rate,
+    commission = excluded.commission,
+    delivery_fees = excluded.delivery_fees,
+    net_payable = excluded.net_payable,
+    notes = excluded.notes
+  returning id into v_statement_id;
+
+  insert into store_statement_orders (
+    statement_id, order_id, order_number, delivered_at, sales, commission, delivery_fee, net
+  )
+  select
+    v_statement_id, l.order_id, l.order_number, l.delivered_at,
+    l.sales, l.commission, l.delivery_fee, l.sales - l.commission
+  from jsonb_to_recordset(v_lines) as l (
+    order_id uuid,
+    order_number text,
+    delivered_at timestamptz,
+    sales numeric,
+    commission numeric,
+    delivery_fee numeric
+  );
+
+  return jsonb_build_object('success', true, 'statement_id', v_statement_id);
+end;
+$$;
+
+revoke execute on function public.issue_store_statement(uuid, date, date, text, text) from public, anon;
+grant execute on function public.issue_store_statement(uuid, date, date, text, text) to authenticated;
+
+insert into public.app_config (key, value, description)
+values (
+  'store_billing_settings',
+  '{ "period": "monthly", "default_commission_rate": 0.15 }'::jsonb,
+  'Período de los estados de cuenta de comercios y comisión por defecto sobre sus ventas'
+)
+on conflict (key) do nothing;
@@ -0,0 +1,84 @@
+-- ============================================================================
+-- Rol requerido para editar app_config
+-- ============================================================================
+--
+-- - app_config.required_role: rol mínimo para modificar la clave. Los valores
+--   iniciales coinciden con el registro del panel (lib/config/registry).
+-- - user_role_level: nivel de cada rol (admin 3, sub-admin 2, soporte 1).
+-- - El trigger guard_app_config_write rechaza los cambios de usuarios sin el
+--   rol requerido (42501) y completa updated_by y updated_at. Solo un admin
+--   puede cambiar el rol requerido de una clave.
+-- - Las escrituras sin usuario (service role, migraciones) no se restringen.
+
+alter table public.app_config
+  add column if not exists required_role public.user_role not null default 'admin';
+
+update public.app_config set required_role = 'sub-admin' where key = 'rider_tracking';
+update public.app_config
+set required_role = 'admin'
+where key in ('dispatch_settings', 'payout_settings', 'store_billing_settings');
+
+alter table public.app_config
+  drop constraint if exists app_config_updated_by_fkey;
+
+alter table public.app_config
+  add constraint app_config_updated_by_fkey
+  foreign key (updated_by) references public.profiles (id) on delete set null;
+
+create or replace function public.user_role_level(p_role public.user_role)
+returns integer
+language sql
+immutable
+set search_path = public
+as $$
+  select case p_role
+    when 'admin' then 3
+    when 'sub-admin' then 2
+    when 'soporte' then 1
+    else 0
+  end;
+$$;
+
+create or replace function public.guard_app_config_write()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_role public.user_role;
+  v_required public.user_role;
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  select role into v_role
+  from profiles
+  where id = auth.uid();
+
+  v_required := case when tg_op = 'UPDATE' then old.required_role else new.required_role end;
+
+  if v_role is null or user_role_level(v_role) < user_role_level(v_required) then
+    raise exception 'FORBIDDEN' using errcode = '42501';
+  end if;
+
+  if tg_op = 'UPDATE'
+    and new.required_role is distinct from old.required_role
+    and v_role <> 'admin'
+  then
+    raise exception 'FORBIDDEN' using errcode = '42501';
+  end if;
+
+  new.updated_by := auth.uid();
+  new.updated_at := now();
+
+  return new;
+end;
+$$;
+
+drop trigger if exists app_config_guard on public.app_config;
+
+create trigger app_config_guard
+  before insert or update on public.app_config
+  for each row
+  execute function public.guard_app_config_write();
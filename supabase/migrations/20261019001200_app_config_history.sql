@@ -0,0 +1,132 @@
+-- ============================================================================
+-- Historial de cambios de app_config
+-- ============================================================================
+--
+-- - app_config_history: una versión por cada cambio de valor, con el valor
+--   anterior y el nuevo, el autor y la fecha. Las versiones no se modifican
+--   ni se eliminan.
+-- - El trigger log_app_config_change registra la versión después de cada
+--   insert o update que cambie `value`. Es el único que escribe el
+--   historial (security definer): los usuarios solo lo leen.
+-- - rollback_app_config(p_history_id): vuelve una clave al valor de una
+--   versión anterior (solo admin). El cambio queda registrado como una nueva
+--   versión que apunta a la versión restaurada (rolled_back_from).
+-- - Carga la versión inicial de las claves existentes.
+
+create table if not exists public.app_config_history (
+  id uuid primary key default gen_random_uuid(),
+  config_key text not null,
+  version integer not null,
+  old_value jsonb,
+  new_value jsonb not null,
+  rolled_back_from uuid references public.app_config_history (id) on delete set null,
+  changed_by uuid references public.profiles (id) on delete set null default auth.uid(),
+  changed_at timestamptz not null default now(),
+  unique (config_key, version)
+);
+
+create index if not exists app_config_history_key_changed_at_idx
+  on public.app_config_history (config_key, changed_at desc);
+
+alter table public.app_config_history enable row level security;
+
+create policy "app_config_history_select_authenticated"
+  on public.app_config_history for select
+  to authenticated
+  using (true);
+
+insert into public.app_config_history (config_key, version, old_value, new_value, changed_by, changed_at)
+select key, 1, null, value, updated_by, coalesce(updated_at, now())
+from public.app_config
+where not exists (
+  select 1 from public.app_config_history h where h.config_key = app_config.key
+);
+
+-- ----------------------------------------------------------------------------
+-- log_app_config_change: guarda la versión nueva de una clave
+-- ----------------------------------------------------------------------------
+
+create or replace function public.log_app_config_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_rollback_of text := nullif(current_setting('app.config_rollback_of', true), '');
+begin
+  if tg_op = 'UPDATE' and new.value is not distinct from old.value then
+    return new;
+  end if;
+
+  insert into app_config_history
+    (config_key, version, old_value, new_value, rolled_back_from, changed_by, changed_at)
+  values (
+    new.key,
+    coalesce((select max(version) from app_config_history where config_key = new.key), 0) + 1,
+    case when tg_op = 'UPDATE' then old.value end,
+    new.value,
+    v_rollback_of::uuid,
+    auth.uid(),
+    now()
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists app_config_history_log on public.app_config;
+
+create trigger app_config_history_log
+  after insert or update on public.app_config
+  for each row
+  execute function public.log_app_config_change();
+
+-- ----------------------------------------------------------------------------
+-- rollback_app_config: restaura el valor de una versión anterior
+-- ----------------------------------------------------------------------------
+
+create or replace function public.rollback_app_config(
+  p_history_id uuid
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_version app_config_history%rowtype;
+  v_current jsonb;
+begin
+  if not exists (select 1 from profiles where id = auth.uid() and role = 'admin') then
+    return jsonb_build_object('success', false, 'error_code', 'FORBIDDEN');
+  end if;
+
+  select * into v_version
+  from app_config_history
+  where id = p_history_id;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'VERSION_NOT_FOUND');
+  end if;
+
+  select value into v_current
+  from app_config
+  where key = v_version.config_key
+  for update;
+
+  if v_current is not distinct from v_version.new_value then
+    return jsonb_build_object('success', false, 'error_code', 'ALREADY_CURRENT');
+  end if;
+
+  perform set_config('app.config_rollback_of', p_history_id::text, true);
+
+  update app_config
+  set value = v_version.new_value
+  where key = v_version.config_key;
+
+  perform set_config('app.config_rollback_of', '', true);
+
+  return jsonb_build_object('success', true);
+end;
+$$;
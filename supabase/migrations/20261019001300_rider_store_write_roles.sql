@@ -0,0 +1,119 @@
+-- ============================================================================
+-- Rol requerido para modificar riders y comercios
+-- ============================================================================
+--
+-- Soporte puede consultar riders y comercios pero no darlos de alta, editarlos
+-- ni activarlos/desactivarlos: esas operaciones requieren sub-admin (igual que
+-- el mapa de acceso del panel, lib/auth/access). Lo mismo vale para el
+-- catálogo de productos de los comercios.
+--
+-- - guard_minimum_role: trigger genérico que rechaza (42501) la escritura si
+--   el rol del usuario no alcanza el indicado en el argumento del trigger.
+-- - Solo se vigilan las columnas que edita el panel. Las funciones de pedidos
+--   (que soporte sí puede ejecutar) actualizan status y total_deliveries de
+--   los riders, y la app del rider actualiza su ubicación.
+-- - set_rider_active verifica el rol antes de bloquear al rider y devuelve
+--   FORBIDDEN.
+-- - Las escrituras sin usuario (service role, migraciones) no se restringen.
+
+create or replace function public.guard_minimum_role()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_role public.user_role;
+begin
+  if auth.uid() is null then
+    return coalesce(new, old);
+  end if;
+
+  select role into v_role
+  from profiles
+  where id = auth.uid();
+
+  if v_role is null
+    or user_role_level(v_role) < user_role_level(tg_argv[0]::public.user_role)
+  then
+    raise exception 'FORBIDDEN' using errcode = '42501';
+  end if;
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists riders_guard_write on public.riders;
+
+create trigger riders_guard_write
+  before insert or delete
+    or update of full_name, phone, email, is_active, vehicle_type, vehicle_plate, avatar_url
+  on public.riders
+  for each row
+  execute function public.guard_minimum_role('sub-admin');
+
+drop trigger if exists stores_guard_write on public.stores;
+
+create trigger stores_guard_write
+  before insert or delete
+    or update of name, slug, category, description, phone, email, address, location,
+      logo_url, cover_url, is_active, delivery_fee, min_order_amount, commission_rate,
+      opening_hours
+  on public.stores
+  for each row
+  execute function public.guard_minimum_role('sub-admin');
+
+drop trigger if exists products_guard_write on public.products;
+
+create trigger products_guard_write
+  before insert or update or delete on public.products
+  for each row
+  execute function public.guard_minimum_role('sub-admin');
+
+create or replace function public.set_rider_active(
+  p_rider_id uuid,
+  p_is_active boolean
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_rider riders%rowtype;
+begin
+  if auth.uid() is not null and not exists (
+    select 1
+    from profiles
+    where id = auth.uid()
+      and user_role_level(role) >= user_role_level('sub-admin')
+  ) then
+    return jsonb_build_object('success', false, 'error_code', 'FORBIDDEN');
+  end if;
+
+  select * into v_rider
+  from riders
+  where id = p_rider_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'RIDER_NOT_FOUND');
+  end if;
+
+  if not p_is_active and exists (
+    select 1
+    from orders
+    where delivery_id = p_rider_id
+      and status in ('assigned', 'in_transit')
+  ) then
+    return jsonb_build_object('success', false, 'error_code', 'RIDER_HAS_ACTIVE_ORDERS');
+  end if;
+
+  update riders
+  set is_active = p_is_active,
+      status = case when p_is_active then status else 'offline' end,
+      updated_at = now()
+  where id = p_rider_id;
+
+  return jsonb_build_object('success', true);
+end;
+$$;
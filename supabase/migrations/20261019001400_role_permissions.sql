@@ -0,0 +1,290 @@
+-- ============================================================================
+-- Permisos por rol
+-- ============================================================================
+--
+-- Reemplaza la jerarquía lineal de roles por permisos con nombre
+-- (lib/auth/permissions). La matriz rol → permisos se guarda en
+-- role_permissions y la editan los admin desde Configuración.
+--
+-- - admin tiene siempre todos los permisos y no figura en la tabla.
+-- - has_permission: indica si el usuario autenticado tiene un permiso.
+-- - guard_permission: trigger genérico que rechaza (42501) la escritura si
+--   el usuario no tiene el permiso indicado en el argumento del trigger.
+--   Reemplaza a guard_minimum_role en riders, comercios y productos (estos
+--   con stores.edit) y se aplica también a liquidaciones y estados de cuenta.
+-- - guard_order_write: asignar o desasignar requiere orders.assign, marcar
+--   recogido o entregado orders.update_status y cancelar orders.cancel. Los
+--   demás cambios de estado (ej: volver un pedido entregado a pendiente) y
+--   los cambios de rider fuera de assigned/in_transit se rechazan, igual que
+--   en ORDER_TRANSITIONS (lib/orders/state-machine). Solo se aplica a los
+--   usuarios del panel (con perfil); la app del rider queda limitada por RLS.
+-- - set_rider_active requiere riders.edit y guard_app_config_write exige
+--   config.write además del rol de la clave.
+-- - Las escrituras sin usuario (service role, migraciones) no se restringen.
+
+create table if not exists public.role_permissions (
+  role public.user_role not null check (role <> 'admin'),
+  permission text not null,
+  granted_by uuid references public.profiles (id) on delete set null default auth.uid(),
+  granted_at timestamptz not null default now(),
+  primary key (role, permission)
+);
+
+alter table public.role_permissions enable row level security;
+
+create policy "role_permissions_select_authenticated"
+  on public.role_permissions for select
+  to authenticated
+  using (true);
+
+create policy "role_permissions_insert_admin"
+  on public.role_permissions for insert
+  to authenticated
+  with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+create policy "role_permissions_delete_admin"
+  on public.role_permissions for delete
+  to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+-- Permisos iniciales: los de la jerarquía anterior, más cancelar pedidos
+-- para soporte
+insert into public.role_permissions (role, permission, granted_by)
+values
+  ('sub-admin', 'orders.assign', null),
+  ('sub-admin', 'orders.update_status', null),
+  ('sub-admin', 'orders.cancel', null),
+  ('sub-admin', 'riders.edit', null),
+  ('sub-admin', 'stores.edit', null),
+  ('sub-admin', 'payouts.manage', null),
+  ('sub-admin', 'billing.manage', null),
+  ('sub-admin', 'reports.export', null),
+  ('sub-admin', 'config.write', null),
+  ('soporte', 'orders.assign', null),
+  ('soporte', 'orders.update_status', null),
+  ('soporte', 'orders.cancel', null),
+  ('soporte', 'reports.export', null)
+on conflict (role, permission) do nothing;
+
+create or replace function public.has_permission(p_permission text)
+returns boolean
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from profiles p
+    where p.id = auth.uid()
+      and (
+        p.role = 'admin'
+        or exists (
+          select 1
+          from role_permissions rp
+          where rp.role = p.role
+            and rp.permission = p_permission
+        )
+      )
+  );
+$$;
+
+create or replace function public.guard_permission()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null and not has_permission(tg_argv[0]) then
+    raise exception 'FORBIDDEN' using errcode = '42501';
+  end if;
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists riders_guard_write on public.riders;
+
+create trigger riders_guard_write
+  before insert or delete
+    or update of full_name, phone, email, is_active, vehicle_type, vehicle_plate, avatar_url
+  on public.riders
+  for each row
+  execute function public.guard_permission('riders.edit');
+
+drop trigger if exists stores_guard_write on public.stores;
+
+create trigger stores_guard_write
+  before insert or delete
+    or update of name, slug, category, description, phone, email, address, location,
+      logo_url, cover_url, is_active, delivery_fee, min_order_amount, commission_rate,
+      opening_hours
+  on public.stores
+  for each row
+  execute function public.guard_permission('stores.edit');
+
+drop trigger if exists products_guard_write on public.products;
+
+create trigger products_guard_write
+  before insert or update or delete on public.products
+  for each row
+  execute function public.guard_permission('stores.edit');
+
+drop function if exists public.guard_minimum_role();
+
+drop trigger if exists rider_settlements_guard_write on public.rider_settlements;
+
+create trigger rider_settlements_guard_write
+  before insert or update or delete on public.rider_settlements
+  for each row
+  execute function public.guard_permission('payouts.manage');
+
+drop trigger if exists rider_adjustments_guard_write on public.rider_adjustments;
+
+create trigger rider_adjustments_guard_write
+  before insert or update or delete on public.rider_adjustments
+  for each row
+  execute function public.guard_permission('payouts.manage');
+
+drop trigger if exists store_statements_guard_write on public.store_statements;
+
+create trigger store_statements_guard_write
+  before insert or update or delete on public.store_statements
+  for each row
+  execute function public.guard_permission('billing.manage');
+
+create or replace function public.guard_order_write()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_permission text;
+begin
+  if auth.uid() is null or not exists (select 1 from profiles where id = auth.uid()) then
+    return new;
+  end if;
+
+  if new.status is distinct from old.status then
+    -- Cada transición de ORDER_TRANSITIONS con su permiso
+    v_permission := case
+      when old.status = 'pending' and new.status = 'assigned' then 'orders.assign'
+      when old.status = 'assigned' and new.status = 'pending' then 'orders.assign'
+      when old.status = 'assigned' and new.status = 'in_transit' then 'orders.update_status'
+      when old.status in ('assigned', 'in_transit') and new.status = 'delivered'
+        then 'orders.update_status'
+      when old.status in ('pending', 'assigned', 'in_transit') and new.status = 'cancelled'
+        then 'orders.cancel'
+    end;
+
+    if v_permission is null then
+      raise exception 'INVALID_TRANSITION';
+    end if;
+  elsif new.delivery_id is distinct from old.delivery_id then
+    -- Reasignación: solo con el pedido en curso
+    if old.status not in ('assigned', 'in_transit') then
+      raise exception 'INVALID_TRANSITION';
+    end if;
+    v_permission := 'orders.assign';
+  else
+    return new;
+  end if;
+
+  if not has_permission(v_permission) then
+    raise exception 'FORBIDDEN' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_guard_write on public.orders;
+
+create trigger orders_guard_write
+  before update of status, delivery_id on public.orders
+  for each row
+  execute function public.guard_order_write();
+
+create or replace function public.set_rider_active(
+  p_rider_id uuid,
+  p_is_active boolean
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_rider riders%rowtype;
+begin
+  if auth.uid() is not null and not has_permission('riders.edit') then
+    return jsonb_build_object('success', false, 'error_code', 'FORBIDDEN');
+  end if;
+
+  select * into v_rider
+  from riders
+  where id = p_rider_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'RIDER_NOT_FOUND');
+  end if;
+
+  if not p_is_active and exists (
+    select 1
+    from orders
+    where delivery_id = p_rider_id
+      and status in ('assigned', 'in_transit')
+  ) then
+    return jsonb_build_object('success', false, 'error_code', 'RIDER_HAS_ACTIVE_ORDERS');
+  end if;
+
+  update riders
+  set is_active = p_is_active,
+      status = case when p_is_active then status else 'offline' end,
+      updated_at = now()
+  where id = p_rider_id;
+
+  return jsonb_build_object('success', true);
+end;
+$$;
+
+create or replace function public.guard_app_config_write()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_role public.user_role;
+  v_required public.user_role;
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  select role into v_role
+  from profiles
+  where id = auth.uid();
+
+  v_required := case when tg_op = 'UPDATE' then old.required_role else new.required_role end;
+
+  if v_role is null
+    or user_role_level(v_role) < user_role_level(v_required)
+    or not has_permission('config.write')
+  then
+    raise exception 'FORBIDDEN' using errcode = '42501';
+  end if;
+
+  if tg_op = 'UPDATE'
+    and new.required_role is distinct from old.required_role
+    and v_role <> 'admin'
+  then
+    raise exception 'FORBIDDEN' using errcode = '42501';
+  end if;
+
+  new.updated_by := auth.uid();
+  new.updated_at := now();
+
+  return new;
+end;
+$$;
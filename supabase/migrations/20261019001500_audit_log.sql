@@ -0,0 +1,218 @@
+-- ============================================================================
+-- Registro de auditoría
+-- ============================================================================
+--
+-- Cada cambio que el panel hace sobre pedidos, decisiones de despacho,
+-- riders, comercios, productos, configuración, permisos, liquidaciones y
+-- estados de cuenta queda registrado en audit_log con:
+--
+-- - actor_id / actor_role: usuario autenticado y su rol en ese momento
+--   (null si el cambio lo hizo el sistema, ej: service role).
+-- - action: verbo del cambio (insert, update, delete, activate, deactivate,
+--   assign, reassign, unassign, pick_up, deliver, cancel, issue, pay).
+-- - entity_type / entity_id: tabla y clave de la fila.
+-- - before / after: fila completa antes y después del cambio.
+-- - ip: último salto de x-forwarded-for (el que agrega el proxy de Supabase;
+--   los anteriores los puede inventar el cliente) o x-real-ip.
+-- - forwarded_for: x-forwarded-for completo, tal como llegó.
+-- - user_agent: del header del request que recibe PostgREST.
+--
+-- Los registros los escribe el trigger log_audit_event (security definer);
+-- nadie puede modificarlos ni borrarlos. Solo los usuarios con el permiso
+-- audit.view pueden consultarlos.
+--
+-- En riders y comercios solo se registran las columnas que cambia el panel:
+-- las actualizaciones de ubicación y contadores no se auditan.
+
+create table if not exists public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid references public.profiles (id) on delete set null,
+  actor_role public.user_role,
+  action text not null,
+  entity_type text not null,
+  entity_id text not null,
+  before jsonb,
+  after jsonb,
+  ip text,
+  forwarded_for text,
+  user_agent text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_created_at_idx
+  on public.audit_log (created_at desc);
+
+create index if not exists audit_log_entity_idx
+  on public.audit_log (entity_type, entity_id, created_at desc);
+
+create index if not exists audit_log_actor_idx
+  on public.audit_log (actor_id, created_at desc);
+
+alter table public.audit_log enable row level security;
+
+create policy "audit_log_select_permission"
+  on public.audit_log for select
+  to authenticated
+  using (public.has_permission('audit.view'));
+
+create or replace function public.log_audit_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_before jsonb := case when tg_op in ('UPDATE', 'DELETE') then to_jsonb(old) end;
+  v_after jsonb := case when tg_op in ('INSERT', 'UPDATE') then to_jsonb(new) end;
+  v_row jsonb := coalesce(v_after, v_before);
+  v_action text := lower(tg_op);
+  v_headers jsonb;
+  v_forwarded_for text;
+  v_actor_role public.user_role;
+begin
+  if tg_op = 'UPDATE' then
+    -- Sin cambios reales (solo updated_at): no se registra
+    if (v_before - 'updated_at') = (v_after - 'updated_at') then
+      return new;
+    end if;
+
+    if tg_table_name = 'orders' then
+      v_action := case
+        when new.status is distinct from old.status then
+          case new.status
+            when 'cancelled' then 'cancel'
+            when 'assigned' then 'assign'
+            when 'in_transit' then 'pick_up'
+            when 'delivered' then 'deliver'
+            when 'pending' then 'unassign'
+            else 'update'
+          end
+        when new.delivery_id is distinct from old.delivery_id then 'reassign'
+        else 'update'
+      end;
+    elsif v_before ? 'is_active' and v_before->'is_active' is distinct from v_after->'is_active' then
+      v_action := case when (v_after->>'is_active')::boolean then 'activate' else 'deactivate' end;
+    elsif tg_table_name = 'store_statements' and v_before->'status' is distinct from v_after->'status' then
+      v_action := case v_after->>'status' when 'issued' then 'issue' when 'paid' then 'pay' else 'update' end;
+    end if;
+  end if;
+
+  begin
+    v_headers := nullif(current_setting('request.headers', true), '')::jsonb;
+  exception when others then
+    v_headers := null;
+  end;
+
+  select role into v_actor_role
+  from profiles
+  where id = auth.uid();
+
+  v_forwarded_for := v_headers->>'x-forwarded-for';
+
+  insert into audit_log (
+    actor_id,
+    actor_role,
+    action,
+    entity_type,
+    entity_id,
+    before,
+    after,
+    ip,
+    forwarded_for,
+    user_agent
+  )
+  values (
+    auth.uid(),
+    v_actor_role,
+    v_action,
+    tg_table_name,
+    coalesce(v_row->>'id', v_row->>'key', (v_row->>'role') || ':' || (v_row->>'permission')),
+    v_before,
+    v_after,
+    coalesce(
+      nullif(trim(regexp_replace(v_forwarded_for, '^.*,', '')), ''),
+      nullif(trim(v_headers->>'x-real-ip'), '')
+    ),
+    v_forwarded_for,
+    v_headers->>'user-agent'
+  );
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists orders_audit on public.orders;
+
+create trigger orders_audit
+  after insert or update on public.orders
+  for each row
+  execute function public.log_audit_event();
+
+drop trigger if exists dispatch_decisions_audit on public.dispatch_decisions;
+
+create trigger dispatch_decisions_audit
+  after insert or update or delete on public.dispatch_decisions
+  for each row
+  execute function public.log_audit_event();
+
+drop trigger if exists riders_audit on public.riders;
+
+create trigger riders_audit
+  after insert or delete
+    or update of full_name, phone, email, is_active, vehicle_type, vehicle_plate, avatar_url
+  on public.riders
+  for each row
+  execute function public.log_audit_event();
+
+drop trigger if exists stores_audit on public.stores;
+
+create trigger stores_audit
+  after insert or delete
+    or update of name, slug, category, description, phone, email, address, location,
+      logo_url, cover_url, is_active, delivery_fee, min_order_amount, commission_rate,
+      opening_hours
+  on public.stores
+  for each row
+  execute function public.log_audit_event();
+
+drop trigger if exists products_audit on public.products;
+
+create trigger products_audit
+  after insert or update or delete on public.products
+  for each row
+  execute function public.log_audit_event();
+
+drop trigger if exists app_config_audit on public.app_config;
+
+create trigger app_config_audit
+  after insert or update or delete on public.app_config
+  for each row
+  execute function public.log_audit_event();
+
+drop trigger if exists role_permissions_audit on public.role_permissions;
+
+create trigger role_permissions_audit
+  after insert or delete on public.role_permissions
+  for each row
+  execute function public.log_audit_event();
+
+drop trigger if exists rider_settlements_audit on public.rider_settlements;
+
+create trigger rider_settlements_audit
+  after insert or update or delete on public.rider_settlements
+  for each row
+  execute function public.log_audit_event();
+
+drop trigger if exists rider_adjustments_audit on public.rider_adjustments;
+
+create trigger rider_adjustments_audit
+  after insert or update or delete on public.rider_adjustments
+  for each row
+  execute function public.log_audit_event();
+
+drop trigger if exists store_statements_audit on public.store_statements;
+
+create trigger store_statements_audit
+  after insert or update or delete on public.store_statements
+  for each row
+  execute function public.log_audit_event();
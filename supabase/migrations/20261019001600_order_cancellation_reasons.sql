@@ -0,0 +1,130 @@
+-- ============================================================================
+-- Motivos de cancelación de pedidos
+-- ============================================================================
+--
+-- cancel_order escribía "Cancelado: <razón>" en orders.notes y borraba las
+-- notas del cliente. Ahora la cancelación se guarda en columnas propias:
+--
+-- - cancellation_reason: código del catálogo (customer_no_show,
+--   store_closed, no_rider, duplicate, fraud).
+-- - cancellation_comment: comentario opcional de quien cancela.
+-- - cancellation_refund: si corresponde reembolsar al cliente.
+-- - cancelled_by: usuario que canceló.
+--
+-- orders.notes no se modifica al cancelar. El comentario queda también como
+-- nota del cambio en order_status_history.
+--
+-- Pedidos ya cancelados: se recupera quién canceló desde el historial y la
+-- razón en texto libre pasa a cancellation_comment (el motivo queda null).
+-- Las notas que había generado cancel_order se limpian; las originales del
+-- cliente no se pueden recuperar.
+
+alter table public.orders
+  add column if not exists cancellation_reason text
+    check (cancellation_reason in ('customer_no_show', 'store_closed', 'no_rider', 'duplicate', 'fraud')),
+  add column if not exists cancellation_comment text,
+  add column if not exists cancellation_refund boolean,
+  add column if not exists cancelled_by uuid references public.profiles (id) on delete set null;
+
+create index if not exists orders_cancellation_reason_idx
+  on public.orders (cancellation_reason)
+  where status = 'cancelled';
+
+-- ----------------------------------------------------------------------------
+-- Pedidos cancelados antes de esta migración
+-- ----------------------------------------------------------------------------
+
+update public.orders o
+set cancelled_by = h.changed_by
+from (
+  select distinct on (order_id) order_id, changed_by
+  from public.order_status_history
+  where status = 'cancelled'
+  order by order_id, created_at desc
+) h
+where h.order_id = o.id
+  and o.status = 'cancelled'
+  and o.cancelled_by is null;
+
+update public.orders
+set cancellation_comment = nullif(trim(substr(notes, length('Cancelado: ') + 1)), ''),
+    notes = null
+where status = 'cancelled'
+  and notes like 'Cancelado: %';
+
+update public.orders
+set notes = null
+where status = 'cancelled'
+  and notes = 'Cancelado por el administrador';
+
+-- ----------------------------------------------------------------------------
+-- cancel_order: motivo del catálogo, comentario y reembolso
+-- ----------------------------------------------------------------------------
+--
+-- Códigos de error adicionales:
+-- - INVALID_REASON  El motivo no está en el catálogo
+
+drop function if exists public.cancel_order(uuid, text);
+
+create or replace function public.cancel_order(
+  p_order_id uuid,
+  p_reason text,
+  p_comment text default null,
+  p_refund boolean default false
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.orders%rowtype;
+  v_now timestamptz := now();
+  v_comment text := nullif(trim(p_comment), '');
+begin
+  if p_reason is null
+    or p_reason not in ('customer_no_show', 'store_closed', 'no_rider', 'duplicate', 'fraud')
+  then
+    return jsonb_build_object('success', false, 'error_code', 'INVALID_REASON');
+  end if;
+
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'ORDER_NOT_FOUND');
+  end if;
+
+  if v_order.status = 'cancelled' then
+    return jsonb_build_object('success', false, 'error_code', 'ORDER_ALREADY_CANCELLED');
+  end if;
+
+  if v_order.status = 'delivered' then
+    return jsonb_build_object('success', false, 'error_code', 'ORDER_DELIVERED');
+  end if;
+
+  update public.orders
+  set status = 'cancelled',
+      cancelled_at = v_now,
+      cancellation_reason = p_reason,
+      cancellation_comment = v_comment,
+      cancellation_refund = coalesce(p_refund, false),
+      cancelled_by = auth.uid(),
+      updated_at = v_now
+  where id = p_order_id;
+
+  if v_order.delivery_id is not null then
+    perform public.release_rider_if_idle(v_order.delivery_id, p_order_id, v_now);
+  end if;
+
+  perform public.log_order_status_change(
+    p_order_id, v_order.status, 'cancelled', v_comment, v_now
+  );
+
+  return jsonb_build_object('success', true, 'order_id', p_order_id);
+end;
+$$;
+
+grant execute on function public.cancel_order(uuid, text, text, boolean) to authenticated;
@@ -0,0 +1,15 @@
+-- ============================================================================
+-- Índice del listado de pedidos
+-- ============================================================================
+--
+-- El listado (GET /api/orders y exportaciones) ordena por created_at y
+-- luego id, y pagina por cursor con la condición
+-- (created_at, id) < (cursor.created_at, cursor.id). Este índice resuelve
+-- cada página leyendo solo sus filas, sin importar cuántas haya antes.
+-- Los filtros por estado usan el índice de status + created_at.
+
+create index if not exists orders_created_at_id_idx
+  on public.orders (created_at desc, id desc);
+
+create index if not exists orders_status_created_at_idx
+  on public.orders (status, created_at desc, id desc);
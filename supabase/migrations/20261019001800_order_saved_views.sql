@@ -0,0 +1,88 @@
+-- ============================================================================
+-- Vistas guardadas del listado de pedidos
+-- ============================================================================
+--
+-- Cada usuario guarda combinaciones de filtros de la tabla de pedidos con un
+-- nombre (ej: "Urgentes pendientes"):
+--
+-- - filters: OrderFilters (mismas claves que los parámetros de URL).
+-- - sort_field / sort_direction: orden de la tabla.
+-- - columns: columnas visibles de la tabla.
+-- - page_size: pedidos por página.
+-- - is_shared: la vista la ven todos los usuarios del panel; solo su autor
+--   puede modificarla o borrarla.
+--
+-- order_view_defaults guarda la vista que se abre por defecto para cada
+-- usuario (propia o compartida). Si la vista se borra, el usuario vuelve a
+-- la tabla sin filtros.
+
+create table if not exists public.order_saved_views (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+  name text not null check (char_length(trim(name)) between 1 and 60),
+  filters jsonb not null default '{}'::jsonb,
+  sort_field text not null default 'created_at' check (sort_field in ('created_at', 'total_amount')),
+  sort_direction text not null default 'desc' check (sort_direction in ('asc', 'desc')),
+  columns text[] not null,
+  page_size integer not null default 10 check (page_size between 5 and 100),
+  is_shared boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (owner_id, name)
+);
+
+create index if not exists order_saved_views_shared_idx
+  on public.order_saved_views (is_shared)
+  where is_shared;
+
+alter table public.order_saved_views enable row level security;
+
+create policy "order_saved_views_select_own_or_shared"
+  on public.order_saved_views for select
+  to authenticated
+  using (owner_id = auth.uid() or is_shared);
+
+create policy "order_saved_views_insert_own"
+  on public.order_saved_views for insert
+  to authenticated
+  with check (owner_id = auth.uid());
+
+create policy "order_saved_views_update_own"
+  on public.order_saved_views for update
+  to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+create policy "order_saved_views_delete_own"
+  on public.order_saved_views for delete
+  to authenticated
+  using (owner_id = auth.uid());
+
+create table if not exists public.order_view_defaults (
+  user_id uuid primary key default auth.uid() references public.profiles (id) on delete cascade,
+  view_id uuid not null references public.order_saved_views (id) on delete cascade,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.order_view_defaults enable row level security;
+
+create policy "order_view_defaults_select_own"
+  on public.order_view_defaults for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "order_view_defaults_insert_own"
+  on public.order_view_defaults for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "order_view_defaults_update_own"
+  on public.order_view_defaults for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "order_view_defaults_delete_own"
+  on public.order_view_defaults for delete
+  to authenticated
+  using (user_id = auth.uid());
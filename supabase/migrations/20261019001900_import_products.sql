@@ -0,0 +1,84 @@
+-- ============================================================================
+-- Importación de productos desde CSV
+-- ============================================================================
+--
+-- - import_products crea y actualiza los productos de un comercio en una sola
+--   transacción: si una fila falla no se guarda ninguna.
+-- - Cada fila trae product_id (null si se crea) y values con las columnas
+--   del CSV. Al actualizar solo se escriben las columnas presentes en values;
+--   las que el archivo no trae conservan su valor.
+-- - Es security invoker: aplican RLS y los triggers de permisos y auditoría
+--   de products.
+
+create or replace function public.import_products(
+  p_store_id uuid,
+  p_rows jsonb
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_row jsonb;
+  v_values jsonb;
+  v_created integer := 0;
+  v_updated integer := 0;
+begin
+  -- Verificar todos los productos a actualizar antes de escribir
+  if exists (
+    select 1
+    from jsonb_array_elements(p_rows) r
+    where r ->> 'product_id' is not null
+      and not exists (
+        select 1
+        from products p
+        where p.id = (r ->> 'product_id')::uuid
+          and p.store_id = p_store_id
+      )
+  ) then
+    return jsonb_build_object('success', false, 'error_code', 'PRODUCT_NOT_FOUND');
+  end if;
+
+  for v_row in select value from jsonb_array_elements(p_rows) loop
+    v_values := v_row -> 'values';
+
+    if v_row ->> 'product_id' is null then
+      insert into products (
+        store_id, name, description, price, category, image_url, is_available, stock
+      )
+      values (
+        p_store_id,
+        v_values ->> 'name',
+        v_values ->> 'description',
+        (v_values ->> 'price')::numeric,
+        v_values ->> 'category',
+        v_values ->> 'image_url',
+        coalesce((v_values ->> 'is_available')::boolean, true),
+        (v_values ->> 'stock')::integer
+      );
+      v_created := v_created + 1;
+    else
+      update products
+      set name = case when v_values ? 'name' then v_values ->> 'name' else name end,
+        description = case
+          when v_values ? 'description' then v_values ->> 'description' else description
+        end,
+        price = case when v_values ? 'price' then (v_values ->> 'price')::numeric else price end,
+        category = case when v_values ? 'category' then v_values ->> 'category' else category end,
+        image_url = case when v_values ? 'image_url' then v_values ->> 'image_url' else image_url end,
+        is_available = case
+          when v_values ? 'is_available' then (v_values ->> 'is_available')::boolean
+          else is_available
+        end,
+        stock = case when v_values ? 'stock' then (v_values ->> 'stock')::integer else stock end,
+        updated_at = now()
+      where id = (v_row ->> 'product_id')::uuid
+        and store_id = p_store_id;
+      v_updated := v_updated + 1;
+    end if;
+  end loop;
+
+  return jsonb_build_object('success', true, 'created', v_created, 'updated', v_updated);
+end;
+$$;